@@ -0,0 +1,127 @@
+package gr.accio.auth
+
+import gr.accio.config.SecurityConfig
+import gr.accio.models.ApiTokenScope
+import gr.accio.services.ApiTokenService
+import io.quarkus.security.AuthenticationFailedException
+import io.quarkus.security.identity.AuthenticationRequestContext
+import io.quarkus.security.identity.IdentityProvider
+import io.quarkus.security.identity.IdentityProviderManager
+import io.quarkus.security.identity.SecurityIdentity
+import io.quarkus.security.identity.request.AuthenticationRequest
+import io.quarkus.security.identity.request.BaseAuthenticationRequest
+import io.quarkus.security.runtime.QuarkusPrincipal
+import io.quarkus.security.runtime.QuarkusSecurityIdentity
+import io.quarkus.vertx.http.runtime.security.ChallengeData
+import io.quarkus.vertx.http.runtime.security.HttpAuthenticationMechanism
+import io.smallrye.mutiny.Uni
+import io.vertx.core.http.HttpHeaders
+import io.vertx.ext.web.RoutingContext
+import jakarta.enterprise.context.ApplicationScoped
+import jakarta.inject.Inject
+import jakarta.ws.rs.HttpMethod
+import jakarta.ws.rs.container.ContainerRequestContext
+import jakarta.ws.rs.core.Response
+import org.jboss.resteasy.reactive.server.ServerRequestFilter
+
+/**
+ * Personal API tokens in the Authorization header, next to the JWTs of signed-in sessions. API
+ * tokens start with ApiTokenService.TOKEN_PREFIX; any other bearer token is left to the JWT mechanism.
+ */
+@ApplicationScoped
+class ApiTokenAuthenticationMechanism : HttpAuthenticationMechanism {
+
+    override fun authenticate(context: RoutingContext, identityProviderManager: IdentityProviderManager): Uni<SecurityIdentity> {
+        val authorization = context.request().getHeader(HttpHeaders.AUTHORIZATION)
+        if (authorization == null || !authorization.startsWith(BEARER, ignoreCase = true)) {
+            return Uni.createFrom().nullItem()
+        }
+
+        val token = authorization.substring(BEARER.length).trim()
+        if (!token.startsWith(ApiTokenService.TOKEN_PREFIX)) {
+            return Uni.createFrom().nullItem()
+        }
+
+        val request = ApiTokenAuthenticationRequest(token, context.request().remoteAddress()?.host())
+        return identityProviderManager.authenticate(request)
+    }
+
+    override fun getChallenge(context: RoutingContext): Uni<ChallengeData> {
+        return Uni.createFrom().item(ChallengeData(401, "WWW-Authenticate", "Bearer"))
+    }
+
+    override fun getCredentialTypes(): Set<Class<out AuthenticationRequest>> {
+        return setOf(ApiTokenAuthenticationRequest::class.java)
+    }
+
+    // Ahead of the JWT mechanism, which would reject an API token as a malformed JWT
+    override fun getPriority(): Int {
+        return HttpAuthenticationMechanism.DEFAULT_PRIORITY + 1
+    }
+
+    companion object {
+        private const val BEARER = "Bearer "
+    }
+}
+
+class ApiTokenAuthenticationRequest(
+    val token: String,
+    val clientAddress: String?
+) : BaseAuthenticationRequest()
+
+/**
+ * Turns an API token into the identity of its owner, with the roles the token's scope allows.
+ */
+@ApplicationScoped
+class ApiTokenIdentityProvider @Inject constructor(
+    private val apiTokenService: ApiTokenService,
+) : IdentityProvider<ApiTokenAuthenticationRequest> {
+
+    override fun getRequestType(): Class<ApiTokenAuthenticationRequest> {
+        return ApiTokenAuthenticationRequest::class.java
+    }
+
+    override fun authenticate(request: ApiTokenAuthenticationRequest, context: AuthenticationRequestContext): Uni<SecurityIdentity> {
+        return apiTokenService.authenticate(request.token, request.clientAddress).map { use ->
+            if (use == null) {
+                throw AuthenticationFailedException("Invalid or expired API token")
+            }
+            QuarkusSecurityIdentity.builder()
+                .setPrincipal(QuarkusPrincipal(use.username))
+                .addRoles(SecurityConfig.groupsFor(use.role))
+                .addAttribute(TOKEN_ID_ATTRIBUTE, use.tokenId.toString())
+                .addAttribute(TOKEN_SCOPE_ATTRIBUTE, use.scope.name)
+                .build()
+        }
+    }
+
+    companion object {
+        // Set on identities authenticated by an API token rather than a signed-in session
+        const val TOKEN_ID_ATTRIBUTE = "api-token-id"
+        const val TOKEN_SCOPE_ATTRIBUTE = "api-token-scope"
+    }
+}
+
+/**
+ * Keeps READ_ONLY tokens to reads. Their viewer role alone would still let them reach the few
+ * write endpoints open to viewers, such as their own settings, notifications and password.
+ */
+class ApiTokenScopeFilter @Inject constructor(
+    private val identity: SecurityIdentity,
+) {
+
+    @ServerRequestFilter
+    fun refuseReadOnlyWrites(context: ContainerRequestContext): Response? {
+        val scope = identity.getAttribute<String>(ApiTokenIdentityProvider.TOKEN_SCOPE_ATTRIBUTE)
+        if (scope != ApiTokenScope.READ_ONLY.name || context.method in READ_METHODS) {
+            return null
+        }
+        return Response.status(Response.Status.FORBIDDEN)
+            .entity(mapOf("error" to "Read-only API tokens cannot change anything"))
+            .build()
+    }
+
+    companion object {
+        private val READ_METHODS = setOf(HttpMethod.GET, HttpMethod.HEAD, HttpMethod.OPTIONS)
+    }
+}
@@ -1,5 +1,8 @@
 package gr.accio.auth
 
+import gr.accio.services.UserService
+import gr.accio.services.UserView
+import io.quarkus.security.identity.SecurityIdentity
 import io.smallrye.mutiny.Uni
 import jakarta.annotation.security.PermitAll
 import jakarta.annotation.security.RolesAllowed
@@ -8,19 +11,38 @@ import jakarta.ws.rs.*
 import jakarta.ws.rs.core.MediaType
 import jakarta.ws.rs.core.Response
 import kotlinx.serialization.Serializable
+import org.eclipse.microprofile.openapi.annotations.responses.APIResponseSchema
 
 @Path("/api/auth")
 @Produces(MediaType.APPLICATION_JSON)
 @Consumes(MediaType.APPLICATION_JSON)
 class AuthResource @Inject constructor(
-    private val authService: AuthService
+    private val authService: AuthService,
+    private val userService: UserService,
+    private val identity: SecurityIdentity,
 ) {
 
     @POST
     @Path("/login")
     @PermitAll
     fun login(request: LoginRequest): Uni<Response> {
-        return authService.authenticate(request.password)
+        return authService.authenticate(request.username, request.password)
+            .map { authResponse ->
+                if (authResponse.success) {
+                    Response.ok(authResponse).build()
+                } else {
+                    Response.status(Response.Status.UNAUTHORIZED)
+                        .entity(authResponse)
+                        .build()
+                }
+            }
+    }
+
+    @POST
+    @Path("/refresh")
+    @PermitAll
+    fun refresh(request: RefreshRequest): Uni<Response> {
+        return authService.refresh(request.refreshToken)
             .map { authResponse ->
                 if (authResponse.success) {
                     Response.ok(authResponse).build()
@@ -34,7 +56,7 @@ class AuthResource @Inject constructor(
 
     @POST
     @Path("/validate")
-    @RolesAllowed("user")
+    @RolesAllowed("viewer")
     fun validateToken(): Uni<Response> {
         // If we reach here, the token is valid (handled by @RolesAllowed)
         return Uni.createFrom().item(
@@ -44,9 +66,9 @@ class AuthResource @Inject constructor(
 
     @POST
     @Path("/change-password")
-    @RolesAllowed("admin")
+    @RolesAllowed("viewer")
     fun changePassword(request: ChangePasswordRequest): Uni<Response> {
-        return authService.changePassword(request.currentPassword, request.newPassword)
+        return authService.changePassword(identity.principal.name, request.currentPassword, request.newPassword)
             .map { response ->
                 if (response.success) {
                     Response.ok(response).build()
@@ -58,35 +80,57 @@ class AuthResource @Inject constructor(
             }
     }
 
+    // Open to expired sessions too: all it needs is the refresh token to revoke
     @POST
     @Path("/logout")
-    @RolesAllowed("user")
-    fun logout(): Uni<Response> {
-        // With JWT, logout is handled client-side by removing the token
-        return Uni.createFrom().item(
+    @PermitAll
+    fun logout(request: LogoutRequest): Uni<Response> {
+        // The access token simply runs out; the client drops it
+        return authService.logout(request.refreshToken).map {
             Response.ok(mapOf("message" to "Logged out successfully")).build()
-        )
+        }
     }
 
     @GET
     @Path("/status")
-    @RolesAllowed("user")
+    @RolesAllowed("viewer")
     fun getAuthStatus(): Uni<Response> {
         return Uni.createFrom().item(
             Response.ok(mapOf(
                 "authenticated" to true,
-                "user" to "admin",
+                "user" to identity.principal.name,
                 "timestamp" to System.currentTimeMillis()
             )).build()
         )
     }
+
+    @GET
+    @Path("/me")
+    @RolesAllowed("viewer")
+    @APIResponseSchema(UserView::class)
+    fun getCurrentUser(): Uni<Response> {
+        return userService.getUser(identity.principal.name).map { user ->
+            if (user != null) Response.ok(user).build() else Response.status(Response.Status.NOT_FOUND).build()
+        }
+    }
 }
 
 @Serializable
 data class LoginRequest(
+    val username: String,
     val password: String
 )
 
+@Serializable
+data class RefreshRequest(
+    val refreshToken: String
+)
+
+@Serializable
+data class LogoutRequest(
+    val refreshToken: String? = null
+)
+
 @Serializable
 data class ChangePasswordRequest(
     val currentPassword: String,
@@ -1,5 +1,14 @@
 package gr.accio.auth
 
+import gr.accio.config.SecurityConfig
+import gr.accio.models.RefreshToken
+import gr.accio.models.User
+import gr.accio.models.UserConfiguration
+import gr.accio.models.UserRole
+import gr.accio.services.UserService
+import gr.accio.services.UserView
+import io.quarkus.hibernate.reactive.panache.common.WithTransaction
+import io.quarkus.logging.Log
 import io.smallrye.jwt.build.Jwt
 import io.smallrye.mutiny.Uni
 import jakarta.enterprise.context.ApplicationScoped
@@ -7,33 +16,91 @@ import kotlinx.serialization.Serializable
 import org.mindrot.jbcrypt.BCrypt
 import java.time.Duration
 import java.time.Instant
+import java.util.UUID
 
+/**
+ * Signs users in against their accounts (see [User]) and issues the JWT the API and the WebSocket
+ * check. The token's groups follow the user's role, see [SecurityConfig.groupsFor].
+ *
+ * The shared SKIPERR_PASSWORD only bootstraps the first admin: on an empty user table, signing in
+ * as "admin" with it creates that account.
+ *
+ * Access tokens are short-lived. Alongside each one the client gets a refresh token (see
+ * [RefreshToken]) to renew it with; renewal re-reads the account, so deactivated users and role
+ * changes take effect within one access token lifetime.
+ */
 @ApplicationScoped
 class AuthService {
 
-    private val adminPassword = System.getenv("SKIPERR_PASSWORD") ?: "admin"
+    private val bootstrapPassword = System.getenv("SKIPERR_PASSWORD") ?: "admin"
     private val jwtSecret = System.getenv("JWT_SECRET") ?: "skiperr-secret-key-change-in-production"
-    private val tokenExpirationHours = 24L
+    private val tokenExpirationMinutes = 15L
 
-    fun authenticate(password: String): Uni<AuthResponse> {
-        return Uni.createFrom().item {
-            if (verifyPassword(password)) {
-                val token = generateJwtToken()
-                AuthResponse(
-                    success = true,
-                    token = token,
-                    expiresIn = tokenExpirationHours * 3600, // seconds
-                    message = "Authentication successful"
-                )
-            } else {
-                AuthResponse(
-                    success = false,
-                    token = null,
-                    expiresIn = null,
-                    message = "Invalid password"
-                )
+    @WithTransaction
+    fun authenticate(username: String, password: String): Uni<AuthResponse> {
+        val name = username.trim()
+        return User.findByUsername(name)
+            .flatMap { user ->
+                if (user == null && name == BOOTSTRAP_USERNAME) bootstrapAdmin() else Uni.createFrom().item(user)
             }
+            .flatMap { user ->
+                if (user == null || !user.isActive || !verifyPassword(user, password)) {
+                    Log.info("Failed sign-in for '$name'")
+                    Uni.createFrom().item(
+                        AuthResponse(
+                            success = false,
+                            token = null,
+                            expiresIn = null,
+                            message = "Invalid username or password"
+                        )
+                    )
+                } else {
+                    user.lastLoginAt = Instant.now()
+                    user.persist<User>().flatMap { startSession(it, "Authentication successful") }
+                }
+            }
+    }
+
+    /**
+     * Exchange a refresh token for a new access token and a new refresh token; the old one stops
+     * working. Fails for unknown or expired tokens and for accounts that were deactivated since.
+     */
+    @WithTransaction
+    fun refresh(refreshToken: String): Uni<AuthResponse> {
+        val now = Instant.now()
+        return RefreshToken.findByHash(SecretTokens.hash(refreshToken))
+            .flatMap { stored ->
+                if (stored == null) {
+                    Uni.createFrom().nullItem()
+                } else {
+                    // Rotated on every use, so a copy of an old token is worthless
+                    stored.delete().flatMap {
+                        if (stored.expiresAt.isBefore(now)) Uni.createFrom().nullItem() else User.findByUsername(stored.username)
+                    }
+                }
+            }
+            .flatMap { user ->
+                if (user == null || !user.isActive) {
+                    Uni.createFrom().item(
+                        AuthResponse(
+                            success = false,
+                            token = null,
+                            expiresIn = null,
+                            message = "Your session has ended, please sign in again"
+                        )
+                    )
+                } else {
+                    startSession(user, "Session renewed")
+                }
+            }
+    }
+
+    @WithTransaction
+    fun logout(refreshToken: String?): Uni<Void> {
+        if (refreshToken.isNullOrBlank()) {
+            return Uni.createFrom().voidItem()
         }
+        return RefreshToken.deleteByHash(SecretTokens.hash(refreshToken)).replaceWithVoid()
     }
 
     fun validateToken(token: String): Uni<Boolean> {
@@ -48,54 +115,120 @@ class AuthService {
         }
     }
 
-    fun changePassword(currentPassword: String, newPassword: String): Uni<ChangePasswordResponse> {
-        return Uni.createFrom().item {
-            if (!verifyPassword(currentPassword)) {
-                ChangePasswordResponse(
-                    success = false,
-                    message = "Current password is incorrect"
+    @WithTransaction
+    fun changePassword(username: String, currentPassword: String, newPassword: String): Uni<ChangePasswordResponse> {
+        return User.findByUsername(username).flatMap { user ->
+            if (user == null || !verifyPassword(user, currentPassword)) {
+                Uni.createFrom().item(
+                    ChangePasswordResponse(
+                        success = false,
+                        message = "Current password is incorrect"
+                    )
                 )
-            } else if (newPassword.length < 6) {
-                ChangePasswordResponse(
-                    success = false,
-                    message = "New password must be at least 6 characters long"
+            } else if (newPassword.length < UserService.MIN_PASSWORD_LENGTH) {
+                Uni.createFrom().item(
+                    ChangePasswordResponse(
+                        success = false,
+                        message = "New password must be at least ${UserService.MIN_PASSWORD_LENGTH} characters long"
+                    )
                 )
             } else {
-                // In a real implementation, you would update the password in a secure store
-                // For now, we'll just return success (password change would require restart)
-                ChangePasswordResponse(
-                    success = true,
-                    message = "Password change successful. Please restart the application and update SKIPERR_PASSWORD environment variable."
-                )
+                user.passwordHash = UserService.hashPassword(newPassword)
+                user.persist<User>().map {
+                    Log.info("User $username changed their password")
+                    ChangePasswordResponse(
+                        success = true,
+                        message = "Password changed"
+                    )
+                }
             }
         }
     }
 
-    private fun verifyPassword(password: String): Boolean {
-        // If the admin password starts with $2a$, it's already hashed with BCrypt
-        return if (adminPassword.startsWith("$2a$")) {
-            BCrypt.checkpw(password, adminPassword)
+    private fun verifyPassword(user: User, password: String): Boolean {
+        if (BCrypt.checkpw(password, user.passwordHash)) {
+            return true
+        }
+        // Until the bootstrap admin has signed in once it also takes the shared password, so
+        // installs from before accounts existed keep working; the first sign-in stores it as its own
+        if (user.username == BOOTSTRAP_USERNAME && user.lastLoginAt == null && matchesBootstrapPassword(password)) {
+            user.passwordHash = UserService.hashPassword(password)
+            return true
+        }
+        return false
+    }
+
+    private fun matchesBootstrapPassword(password: String): Boolean {
+        // If the password starts with $2a$, it's already hashed with BCrypt
+        return if (bootstrapPassword.startsWith("$2a$")) {
+            BCrypt.checkpw(password, bootstrapPassword)
         } else {
             // Plain text comparison for development (not recommended for production)
-            password == adminPassword
+            password == bootstrapPassword
+        }
+    }
+
+    // Only ever creates the first account; once any user exists, admins add the others
+    private fun bootstrapAdmin(): Uni<User?> {
+        return User.count().flatMap { count ->
+            if (count > 0) {
+                Uni.createFrom().nullItem()
+            } else {
+                Log.info("Creating the bootstrap admin account '$BOOTSTRAP_USERNAME'")
+                User().apply {
+                    username = BOOTSTRAP_USERNAME
+                    // Replaced by the shared password as this first sign-in goes through
+                    passwordHash = UserService.hashPassword(UUID.randomUUID().toString())
+                    role = UserRole.ADMIN
+                }.persist<User>().map<User?> { it }
+            }
         }
     }
 
-    private fun generateJwtToken(): String {
+    // Issues the access token and a refresh token. The client renews shortly before the access
+    // token runs out, so the refresh token outlives it by the user's session timeout.
+    private fun startSession(user: User, message: String): Uni<AuthResponse> {
         val now = Instant.now()
-        val expiresAt = now.plus(Duration.ofHours(tokenExpirationHours))
+        val refreshToken = SecretTokens.generate()
 
-        return Jwt.issuer("skiperr")
-            .subject("admin")
-            .groups(setOf("admin", "user"))
-            .claim("preferred_username", "admin")
+        // Expired tokens are pruned as new sessions start
+        return RefreshToken.deleteExpired(now)
+            .flatMap { UserConfiguration.findByUser(user) }
+            .flatMap { config ->
+                val sessionTimeout = config?.sessionTimeout ?: UserConfiguration.DEFAULT_SESSION_TIMEOUT
+                RefreshToken().apply {
+                    tokenHash = SecretTokens.hash(refreshToken)
+                    username = user.username
+                    expiresAt = now.plus(Duration.ofMinutes(tokenExpirationMinutes + sessionTimeout))
+                }.persist<RefreshToken>().map {
+                    AuthResponse(
+                        success = true,
+                        token = generateJwtToken(user),
+                        expiresIn = tokenExpirationMinutes * 60, // seconds
+                        message = message,
+                        user = UserView.of(user),
+                        refreshToken = refreshToken,
+                        sessionTimeout = sessionTimeout * 60L
+                    )
+                }
+            }
+    }
+
+    private fun generateJwtToken(user: User): String {
+        val now = Instant.now()
+        val expiresAt = now.plus(Duration.ofMinutes(tokenExpirationMinutes))
+
+        return Jwt.issuer(SecurityConfig.ISSUER)
+            .subject(user.username)
+            .groups(SecurityConfig.groupsFor(user.role))
+            .claim("preferred_username", user.username)
             .issuedAt(now)
             .expiresAt(expiresAt)
             .signWithSecret(jwtSecret)
     }
 
-    fun hashPassword(plainPassword: String): String {
-        return BCrypt.hashpw(plainPassword, BCrypt.gensalt())
+    companion object {
+        const val BOOTSTRAP_USERNAME = "admin"
     }
 }
 
@@ -104,11 +237,14 @@ data class AuthResponse(
     val success: Boolean,
     val token: String?,
     val expiresIn: Long?, // seconds
-    val message: String
+    val message: String,
+    val user: UserView? = null,
+    val refreshToken: String? = null,
+    val sessionTimeout: Long? = null // seconds of inactivity before the client signs out
 )
 
 @Serializable
 data class ChangePasswordResponse(
     val success: Boolean,
     val message: String
-)
\ No newline at end of file
+)
@@ -0,0 +1,22 @@
+package gr.accio.auth
+
+import java.security.MessageDigest
+import java.security.SecureRandom
+import java.util.Base64
+
+/**
+ * Random bearer secrets, used for refresh tokens and API tokens. Only their SHA-256 hash is
+ * stored, so a leaked database does not hand out sessions.
+ */
+object SecretTokens {
+
+    private val random = SecureRandom()
+
+    fun generate(): String =
+        ByteArray(32).also { random.nextBytes(it) }
+            .let { Base64.getUrlEncoder().withoutPadding().encodeToString(it) }
+
+    fun hash(token: String): String =
+        MessageDigest.getInstance("SHA-256").digest(token.toByteArray())
+            .joinToString("") { "%02x".format(it) }
+}
@@ -1,5 +1,6 @@
 package gr.accio.config
 
+import gr.accio.models.UserRole
 import io.quarkus.security.identity.SecurityIdentity
 import io.quarkus.security.runtime.QuarkusPrincipal
 import io.quarkus.security.runtime.QuarkusSecurityIdentity
@@ -18,8 +19,18 @@ class SecurityConfig {
     lateinit var jwtSecret: String
 
     companion object {
+        // JWT groups. Each role's token carries its own group and those of the roles below it,
+        // so @RolesAllowed("viewer") admits everyone and @RolesAllowed("admin") only admins.
+        const val VIEWER_ROLE = "viewer"
         const val USER_ROLE = "user"
+        const val ADMIN_ROLE = "admin"
         const val ISSUER = "skiperr"
+
+        fun groupsFor(role: UserRole): Set<String> = when (role) {
+            UserRole.VIEWER -> setOf(VIEWER_ROLE)
+            UserRole.USER -> setOf(VIEWER_ROLE, USER_ROLE)
+            UserRole.ADMIN -> setOf(VIEWER_ROLE, USER_ROLE, ADMIN_ROLE)
+        }
     }
 
     fun createSecurityIdentity(username: String): SecurityIdentity {
@@ -0,0 +1,75 @@
+package gr.accio.models
+
+import io.quarkus.hibernate.reactive.panache.kotlin.PanacheCompanionBase
+import io.quarkus.hibernate.reactive.panache.kotlin.PanacheEntityBase
+import io.smallrye.mutiny.Uni
+import jakarta.persistence.*
+import java.time.Instant
+import java.util.UUID
+
+/**
+ * A personal token for scripts calling the REST API in place of a signed-in session. Only a
+ * SHA-256 hash of the secret is stored; [prefix] is kept so users can tell their tokens apart.
+ */
+@Entity
+@Table(
+    name = "api_tokens",
+    indexes = [
+        Index(name = "idx_api_token_hash", columnList = "token_hash", unique = true),
+        Index(name = "idx_api_token_user", columnList = "username")
+    ]
+)
+class ApiToken : PanacheEntityBase {
+
+    @Id @GeneratedValue(generator = "UUID")
+    var id: UUID? = null
+
+    @Column(nullable = false, length = 50)
+    lateinit var username: String // Owner, see User.username
+
+    @Column(nullable = false, length = 100)
+    lateinit var name: String
+
+    @Column(name = "token_hash", nullable = false, unique = true, length = 64)
+    lateinit var tokenHash: String
+
+    @Column(nullable = false, length = 20)
+    lateinit var prefix: String
+
+    @Enumerated(EnumType.STRING)
+    @Column(nullable = false)
+    var scope: ApiTokenScope = ApiTokenScope.READ_ONLY
+
+    @Column(nullable = false)
+    lateinit var expiresAt: Instant
+
+    var lastUsedAt: Instant? = null
+
+    @Column(length = 64)
+    var lastUsedFrom: String? = null // Client address of the last request
+
+    var createdAt: Instant = Instant.now()
+
+    companion object : PanacheCompanionBase<ApiToken, UUID> {
+        fun findByHash(tokenHash: String): Uni<ApiToken?> =
+            find("tokenHash", tokenHash).firstResult()
+
+        fun listForUser(username: String): Uni<List<ApiToken>> =
+            list("username = ?1 ORDER BY createdAt DESC", username)
+
+        fun countForUser(username: String): Uni<Long> =
+            count("username", username)
+
+        fun findForUser(id: UUID, username: String): Uni<ApiToken?> =
+            find("id = ?1 AND username = ?2", id, username).firstResult()
+    }
+}
+
+/**
+ * What a token may do, capped by its owner's role: a token never does more than its owner can.
+ */
+enum class ApiTokenScope(val role: UserRole) {
+    READ_ONLY(UserRole.VIEWER),     // Read everything, nothing else: see ApiTokenScopeFilter
+    TASKS(UserRole.USER),           // Also start scans, tasks, pipelines and batch translations
+    ADMIN(UserRole.ADMIN)           // Also schedules, users and cleanup
+}
@@ -0,0 +1,62 @@
+package gr.accio.models
+
+import io.quarkus.hibernate.reactive.panache.kotlin.PanacheCompanionBase
+import io.quarkus.hibernate.reactive.panache.kotlin.PanacheEntityBase
+import io.smallrye.mutiny.Uni
+import jakarta.persistence.*
+import java.time.Instant
+import java.util.UUID
+
+@Entity
+@Table(
+    name = "cue_reviews",
+    uniqueConstraints = [
+        UniqueConstraint(name = "uk_cue_review_index", columnNames = ["review_id", "cue_index"])
+    ],
+    indexes = [
+        Index(name = "idx_cue_review_review", columnList = "review_id")
+    ]
+)
+class CueReview : PanacheEntityBase {
+
+    @Id @GeneratedValue(generator = "UUID")
+    var id: UUID? = null
+
+    @ManyToOne(fetch = FetchType.LAZY)
+    @JoinColumn(name = "review_id", nullable = false)
+    lateinit var review: TranslationReview
+
+    @Column(name = "cue_index", nullable = false)
+    var cueIndex: Int = 0 // Zero-based position of the cue in the translated file
+
+    @Enumerated(EnumType.STRING)
+    @Column(nullable = false)
+    var decision: CueDecision = CueDecision.PENDING
+
+    @Column(columnDefinition = "TEXT")
+    var note: String? = null // Reviewer's reason for flagging
+
+    @Column(length = 50)
+    var reviewedBy: String? = null
+    var reviewedAt: Instant? = null
+
+    companion object : PanacheCompanionBase<CueReview, UUID> {
+        fun findByReview(reviewId: UUID): Uni<List<CueReview>> =
+            list("review.id = ?1 ORDER BY cueIndex", reviewId)
+
+        fun findByReviews(reviewIds: List<UUID>): Uni<List<CueReview>> =
+            list("review.id IN ?1", reviewIds)
+
+        fun findByReviewAndIndex(reviewId: UUID, cueIndex: Int): Uni<CueReview?> =
+            find("review.id = ?1 AND cueIndex = ?2", reviewId, cueIndex).firstResult()
+    }
+}
+
+enum class CueDecision {
+    PENDING,    // Not looked at yet
+    ACCEPTED,   // Translation is fine as it is
+    EDITED,     // Reviewer corrected the translation
+    FLAGGED;    // Needs attention before the translation can be approved
+
+    val isResolved: Boolean get() = this == ACCEPTED || this == EDITED
+}
@@ -0,0 +1,85 @@
+package gr.accio.models
+
+import io.quarkus.hibernate.reactive.panache.kotlin.PanacheCompanionBase
+import io.quarkus.hibernate.reactive.panache.kotlin.PanacheEntityBase
+import io.smallrye.mutiny.Uni
+import jakarta.persistence.*
+import java.time.Instant
+import java.util.UUID
+
+/**
+ * An entry in a user's notification center: a finished or failed task, a scan result or a
+ * health-check warning. Each recipient gets their own row, so read state is per user.
+ */
+@Entity
+@Table(
+    name = "notifications",
+    indexes = [
+        Index(name = "idx_notification_user_created", columnList = "username, created_at"),
+        Index(name = "idx_notification_user_read", columnList = "username, is_read")
+    ]
+)
+class Notification : PanacheEntityBase {
+
+    @Id @GeneratedValue(generator = "UUID")
+    var id: UUID? = null
+
+    @Column(nullable = false, length = 50)
+    lateinit var username: String // Recipient, see User.username
+
+    @Enumerated(EnumType.STRING)
+    @Column(nullable = false)
+    lateinit var kind: NotificationKind
+
+    @Enumerated(EnumType.STRING)
+    @Column(nullable = false)
+    lateinit var level: NotificationLevel
+
+    @Column(nullable = false, length = 200)
+    lateinit var title: String
+
+    @Column(nullable = false, length = 1000)
+    lateinit var message: String
+
+    var taskId: UUID? = null
+    var videoId: UUID? = null
+
+    @Column(name = "is_read", nullable = false)
+    var read: Boolean = false
+
+    var createdAt: Instant = Instant.now()
+
+    companion object : PanacheCompanionBase<Notification, UUID> {
+        fun listRecent(username: String, limit: Int): Uni<List<Notification>> =
+            find("username = ?1 ORDER BY createdAt DESC", username).page(0, limit).list()
+
+        fun countUnread(username: String): Uni<Long> =
+            count("username = ?1 AND read = false", username)
+
+        fun findForUser(id: UUID, username: String): Uni<Notification?> =
+            find("id = ?1 AND username = ?2", id, username).firstResult()
+
+        fun markAllRead(username: String): Uni<Int> =
+            update("read = true WHERE username = ?1 AND read = false", username)
+
+        fun deleteForUser(username: String): Uni<Long> =
+            delete("username", username)
+
+        fun deleteOlderThan(cutoff: Instant): Uni<Long> =
+            delete("createdAt < ?1", cutoff)
+    }
+}
+
+enum class NotificationKind {
+    TASK_COMPLETED,
+    TASK_FAILED,
+    SCAN_COMPLETED,
+    HEALTH_WARNING
+}
+
+enum class NotificationLevel {
+    INFO,
+    SUCCESS,
+    WARNING,
+    ERROR
+}
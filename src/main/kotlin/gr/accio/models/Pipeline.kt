@@ -0,0 +1,43 @@
+package gr.accio.models
+
+import io.quarkus.hibernate.reactive.panache.kotlin.PanacheCompanionBase
+import io.quarkus.hibernate.reactive.panache.kotlin.PanacheEntityBase
+import io.smallrye.mutiny.Uni
+import jakarta.persistence.*
+import java.time.Instant
+import java.util.UUID
+
+/**
+ * A reusable recipe of per-video steps, such as extract English, translate to Greek, then sync.
+ * Running it on a video queues a [TaskType.PIPELINE] task that starts each step once the steps
+ * it depends on have succeeded.
+ */
+@Entity
+@Table(name = "pipelines")
+class Pipeline : PanacheEntityBase {
+
+    @Id @GeneratedValue(generator = "UUID")
+    var id: UUID? = null
+
+    @Column(nullable = false, length = 100)
+    lateinit var name: String
+
+    @Column(length = 500)
+    var description: String? = null
+
+    @Column(columnDefinition = "TEXT", nullable = false)
+    lateinit var steps: String // JSON array of steps, each listed after the steps it depends on
+
+    var createdAt: Instant = Instant.now()
+    var updatedAt: Instant = Instant.now()
+
+    @PreUpdate
+    fun preUpdate() {
+        updatedAt = Instant.now()
+    }
+
+    companion object : PanacheCompanionBase<Pipeline, UUID> {
+        fun listByName(): Uni<List<Pipeline>> =
+            list("ORDER BY name, createdAt")
+    }
+}
@@ -0,0 +1,52 @@
+package gr.accio.models
+
+import io.quarkus.hibernate.reactive.panache.kotlin.PanacheCompanionBase
+import io.quarkus.hibernate.reactive.panache.kotlin.PanacheEntityBase
+import io.smallrye.mutiny.Uni
+import jakarta.persistence.*
+import java.time.Instant
+import java.util.UUID
+
+/**
+ * A signed-in session that can be renewed without the password. Only a SHA-256 hash of the token
+ * is stored, and each renewal replaces the token, see AuthService.refresh.
+ */
+@Entity
+@Table(
+    name = "refresh_tokens",
+    indexes = [
+        Index(name = "idx_refresh_token_hash", columnList = "token_hash", unique = true),
+        Index(name = "idx_refresh_token_user", columnList = "username")
+    ]
+)
+class RefreshToken : PanacheEntityBase {
+
+    @Id @GeneratedValue(generator = "UUID")
+    var id: UUID? = null
+
+    @Column(name = "token_hash", nullable = false, unique = true, length = 64)
+    lateinit var tokenHash: String
+
+    @Column(nullable = false, length = 50)
+    lateinit var username: String // See User.username
+
+    // Pushed back by every renewal, so a session the client stops renewing ends after the user's session timeout
+    @Column(nullable = false)
+    lateinit var expiresAt: Instant
+
+    var createdAt: Instant = Instant.now()
+
+    companion object : PanacheCompanionBase<RefreshToken, UUID> {
+        fun findByHash(tokenHash: String): Uni<RefreshToken?> =
+            find("tokenHash", tokenHash).firstResult()
+
+        fun deleteByHash(tokenHash: String): Uni<Long> =
+            delete("tokenHash", tokenHash)
+
+        fun deleteForUser(username: String): Uni<Long> =
+            delete("username", username)
+
+        fun deleteExpired(now: Instant): Uni<Long> =
+            delete("expiresAt < ?1", now)
+    }
+}
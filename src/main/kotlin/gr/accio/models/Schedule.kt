@@ -0,0 +1,79 @@
+package gr.accio.models
+
+import io.quarkus.hibernate.reactive.panache.kotlin.PanacheCompanionBase
+import io.quarkus.hibernate.reactive.panache.kotlin.PanacheEntityBase
+import io.smallrye.mutiny.Uni
+import jakarta.persistence.*
+import java.time.Instant
+import java.util.UUID
+
+/**
+ * A recurring job: an action queued as a task on a cron expression or every fixed number of minutes.
+ * Exactly one of [cronExpression] and [intervalMinutes] is set.
+ */
+@Entity
+@Table(
+    name = "schedules",
+    indexes = [
+        Index(name = "idx_schedule_next_run", columnList = "enabled, next_run_at")
+    ]
+)
+class Schedule : PanacheEntityBase {
+
+    @Id @GeneratedValue(generator = "UUID")
+    var id: UUID? = null
+
+    @Column(nullable = false, length = 100)
+    lateinit var name: String
+
+    @Enumerated(EnumType.STRING)
+    @Column(nullable = false)
+    lateinit var action: ScheduleAction
+
+    @Column(length = 120)
+    var cronExpression: String? = null // Quartz syntax, in the server's time zone
+
+    var intervalMinutes: Int? = null
+
+    @Column(columnDefinition = "TEXT")
+    var parameters: String? = null // JSON object passed on to the tasks the schedule queues
+
+    @Enumerated(EnumType.STRING)
+    @Column(nullable = false)
+    var priority: TaskPriority = TaskPriority.LOW
+
+    var enabled: Boolean = true
+
+    var nextRunAt: Instant? = null // Null while disabled
+
+    // Outcome of the latest run, scheduled or manual
+    var lastRunAt: Instant? = null
+    var lastTaskId: UUID? = null // Null when the run had nothing to do or failed to queue
+
+    @Column(length = 500)
+    var lastMessage: String? = null
+
+    var createdAt: Instant = Instant.now()
+    var updatedAt: Instant = Instant.now()
+
+    @PreUpdate
+    fun preUpdate() {
+        updatedAt = Instant.now()
+    }
+
+    companion object : PanacheCompanionBase<Schedule, UUID> {
+        fun listByName(): Uni<List<Schedule>> =
+            list("ORDER BY name, createdAt")
+
+        fun findDue(now: Instant): Uni<List<Schedule>> =
+            list("enabled = true AND nextRunAt <= ?1 ORDER BY nextRunAt", now)
+    }
+}
+
+enum class ScheduleAction {
+    SCAN_LIBRARY,       // Scan the library paths for new and changed files
+    CLEANUP_FILES,      // Remove temporary and orphaned files
+    BACKUP_DATABASE,    // Back the database up
+    HEALTH_CHECK,       // Check the database, disk and external tools
+    TRANSLATE_MISSING   // Translate every video that has no subtitle in the target language
+}
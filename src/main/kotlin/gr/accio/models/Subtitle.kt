@@ -79,9 +79,18 @@ class Subtitle : PanacheEntityBase {
     }
 
     companion object : PanacheCompanionBase<Subtitle, UUID> {
+        fun findAllWithVideo(): Uni<List<Subtitle>> =
+            list("FROM Subtitle s JOIN FETCH s.video ORDER BY s.createdAt DESC")
+
+        fun findByIdWithVideo(id: UUID): Uni<Subtitle?> =
+            find("FROM Subtitle s JOIN FETCH s.video WHERE s.id = ?1", id).firstResult()
+
         fun findByVideo(video: VideoFile): Uni<List<Subtitle>> =
             list("video", video)
 
+        fun findByVideoId(videoId: UUID): Uni<List<Subtitle>> =
+            list("FROM Subtitle s JOIN FETCH s.video WHERE s.video.id = ?1 ORDER BY s.language, s.createdAt", videoId)
+
         fun findByVideoAndLanguage(video: VideoFile, language: String): Uni<List<Subtitle>> =
             list("video = ?1 AND language = ?2", video, language)
 
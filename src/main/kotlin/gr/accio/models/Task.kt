@@ -4,6 +4,7 @@ import io.quarkus.hibernate.reactive.panache.kotlin.PanacheCompanionBase
 import io.quarkus.hibernate.reactive.panache.kotlin.PanacheEntityBase
 import io.smallrye.mutiny.Uni
 import jakarta.persistence.*
+import java.time.Duration
 import java.time.Instant
 import java.util.UUID
 
@@ -17,7 +18,8 @@ import java.util.UUID
         Index(name = "idx_task_video", columnList = "video_id"),
         Index(name = "idx_task_created_by", columnList = "created_by_id"),
         Index(name = "idx_task_scheduled", columnList = "scheduled_at"),
-        Index(name = "idx_task_started", columnList = "started_at")
+        Index(name = "idx_task_started", columnList = "started_at"),
+        Index(name = "idx_task_parent", columnList = "parent_task_id")
     ]
 )
 class Task : PanacheEntityBase {
@@ -52,6 +54,9 @@ class Task : PanacheEntityBase {
     @JoinColumn(name = "created_by_id")
     var createdBy: User? = null
 
+    @Column(name = "parent_task_id")
+    var parentId: UUID? = null // Batch or pipeline task this task was fanned out from
+
     // Task configuration and results
     @Column(columnDefinition = "TEXT")
     var parameters: String? = null // JSON string with task parameters
@@ -86,6 +91,10 @@ class Task : PanacheEntityBase {
     @PreUpdate
     fun preUpdate() {
         updatedAt = Instant.now()
+        // Follows the run's timestamps, so a retry that clears them clears the duration too
+        val started = startedAt
+        val completed = completedAt
+        actualDuration = if (started != null && completed != null) Duration.between(started, completed).toMillis() else null
     }
 
     companion object : PanacheCompanionBase<Task, UUID> {
@@ -98,6 +107,16 @@ class Task : PanacheEntityBase {
         fun findByVideo(video: VideoFile): Uni<List<Task>> =
             list("video", video)
 
+        fun findByIdWithRelations(id: UUID): Uni<Task?> =
+            find(
+                "FROM Task t LEFT JOIN FETCH t.video LEFT JOIN FETCH t.subtitle s LEFT JOIN FETCH s.video " +
+                    "LEFT JOIN FETCH t.createdBy WHERE t.id = ?1",
+                id
+            ).firstResult()
+
+        fun findByParent(parentId: UUID): Uni<List<Task>> =
+            list("parentId = ?1 ORDER BY createdAt", parentId)
+
         fun findByUser(user: User): Uni<List<Task>> =
             list("createdBy", user)
 
@@ -107,6 +126,13 @@ class Task : PanacheEntityBase {
         fun findRunning(): Uni<List<Task>> =
             list("status", TaskStatus.RUNNING)
 
+        fun findRunningOfTypes(types: Collection<TaskType>): Uni<List<Task>> =
+            list(
+                "FROM Task t LEFT JOIN FETCH t.createdBy WHERE t.status = ?1 AND t.type IN ?2 ORDER BY t.createdAt",
+                TaskStatus.RUNNING,
+                types
+            )
+
         fun findScheduled(): Uni<List<Task>> =
             list("status = ?1 AND scheduledAt <= ?2 ORDER BY priority DESC, scheduledAt ASC", 
                  TaskStatus.SCHEDULED, Instant.now())
@@ -140,7 +166,7 @@ class Task : PanacheEntityBase {
                 .page(offset / limit, limit).list()
 
         fun findByVideoFile(videoFile: VideoFile): Uni<List<Task>> =
-            list("video", videoFile)
+            list("video = ?1 ORDER BY createdAt DESC", videoFile)
 
         fun findByVideoFile(videoFile: VideoFile, limit: Int, offset: Int): Uni<List<Task>> =
             find("video = ?1 ORDER BY createdAt DESC", videoFile)
@@ -179,7 +205,8 @@ enum class TaskType {
     OPTIMIZE_DATABASE,      // Optimize database performance
     HEALTH_CHECK,           // System health check
     USER_EXPORT,            // Export user data
-    BATCH_PROCESS           // Batch processing of multiple files
+    BATCH_PROCESS,          // Batch processing of multiple files
+    PIPELINE                // Dependency graph of steps run on one video
 }
 
 enum class TaskStatus {
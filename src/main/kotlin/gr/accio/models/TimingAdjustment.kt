@@ -0,0 +1,63 @@
+package gr.accio.models
+
+import io.quarkus.hibernate.reactive.panache.kotlin.PanacheCompanionBase
+import io.quarkus.hibernate.reactive.panache.kotlin.PanacheEntityBase
+import io.smallrye.mutiny.Uni
+import jakarta.persistence.*
+import java.time.Instant
+import java.util.UUID
+
+/**
+ * Audit record of a manual re-timing: every cue time t became `scale * t + offsetMs`.
+ */
+@Entity
+@Table(
+    name = "timing_adjustments",
+    indexes = [
+        Index(name = "idx_timing_source", columnList = "source_subtitle_id"),
+        Index(name = "idx_timing_result", columnList = "result_subtitle_id")
+    ]
+)
+class TimingAdjustment : PanacheEntityBase {
+
+    @Id @GeneratedValue(generator = "UUID")
+    var id: UUID? = null
+
+    // The subtitle whose cues were re-timed
+    @ManyToOne(fetch = FetchType.LAZY)
+    @JoinColumn(name = "source_subtitle_id", nullable = false)
+    lateinit var source: Subtitle
+
+    // The subtitle created for the re-timed file
+    @ManyToOne(fetch = FetchType.LAZY)
+    @JoinColumn(name = "result_subtitle_id", nullable = false)
+    lateinit var result: Subtitle
+
+    @Enumerated(EnumType.STRING)
+    @Column(nullable = false)
+    lateinit var mode: TimingMode
+
+    var offsetMs: Int = 0
+    var scale: Double = 1.0
+
+    @Column(columnDefinition = "TEXT")
+    var anchors: String? = null // JSON list of the anchors a stretch was computed from
+
+    @Column(length = 50)
+    var appliedBy: String? = null
+
+    var createdAt: Instant = Instant.now()
+
+    companion object : PanacheCompanionBase<TimingAdjustment, UUID> {
+        fun findBySubtitleId(subtitleId: UUID): Uni<List<TimingAdjustment>> =
+            list(
+                "FROM TimingAdjustment a JOIN FETCH a.source s JOIN FETCH a.result r WHERE s.id = ?1 OR r.id = ?1 ORDER BY a.createdAt DESC",
+                subtitleId
+            )
+    }
+}
+
+enum class TimingMode {
+    OFFSET,     // Every cue shifted by a constant
+    STRETCH     // Linear re-timing through two anchor cues
+}
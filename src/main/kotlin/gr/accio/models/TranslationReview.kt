@@ -0,0 +1,70 @@
+package gr.accio.models
+
+import io.quarkus.hibernate.reactive.panache.kotlin.PanacheCompanionBase
+import io.quarkus.hibernate.reactive.panache.kotlin.PanacheEntityBase
+import io.smallrye.mutiny.Uni
+import jakarta.persistence.*
+import java.time.Instant
+import java.util.UUID
+
+@Entity
+@Table(
+    name = "translation_reviews",
+    indexes = [
+        Index(name = "idx_review_subtitle", columnList = "subtitle_id", unique = true),
+        Index(name = "idx_review_status", columnList = "status")
+    ]
+)
+class TranslationReview : PanacheEntityBase {
+
+    @Id @GeneratedValue(generator = "UUID")
+    var id: UUID? = null
+
+    // The translated subtitle under review
+    @ManyToOne(fetch = FetchType.LAZY)
+    @JoinColumn(name = "subtitle_id", nullable = false)
+    lateinit var subtitle: Subtitle
+
+    @Enumerated(EnumType.STRING)
+    @Column(nullable = false)
+    var status: ReviewStatus = ReviewStatus.NEEDS_REVIEW
+
+    @Column(length = 500)
+    var reason: String? = null // Why the review was opened, e.g. low confidence
+
+    var cueCount: Int = 0 // Number of translated cues when the review was opened
+
+    var approvedAt: Instant? = null
+
+    @Column(length = 50)
+    var approvedBy: String? = null
+
+    var createdAt: Instant = Instant.now()
+    var updatedAt: Instant = Instant.now()
+
+    @PreUpdate
+    fun preUpdate() {
+        updatedAt = Instant.now()
+    }
+
+    companion object : PanacheCompanionBase<TranslationReview, UUID> {
+        fun findByIdWithSubtitle(id: UUID): Uni<TranslationReview?> =
+            find("FROM TranslationReview r JOIN FETCH r.subtitle s JOIN FETCH s.video WHERE r.id = ?1", id).firstResult()
+
+        fun findBySubtitleId(subtitleId: UUID): Uni<TranslationReview?> =
+            find("FROM TranslationReview r JOIN FETCH r.subtitle s JOIN FETCH s.video WHERE s.id = ?1", subtitleId).firstResult()
+
+        fun findAllWithSubtitle(status: ReviewStatus?): Uni<List<TranslationReview>> =
+            if (status == null) {
+                list("FROM TranslationReview r JOIN FETCH r.subtitle s JOIN FETCH s.video ORDER BY r.createdAt DESC")
+            } else {
+                list("FROM TranslationReview r JOIN FETCH r.subtitle s JOIN FETCH s.video WHERE r.status = ?1 ORDER BY r.createdAt DESC", status)
+            }
+    }
+}
+
+enum class ReviewStatus {
+    NEEDS_REVIEW,   // Opened, no cue decided yet
+    IN_REVIEW,      // Some cues decided, or some flagged
+    APPROVED        // Every cue accepted or edited
+}
@@ -63,6 +63,12 @@ class User : PanacheEntityBase {
         fun countActiveUsers(): Uni<Long> =
             count("isActive = true")
 
+        fun countActiveAdmins(): Uni<Long> =
+            count("role = ?1 AND isActive = true", UserRole.ADMIN)
+
+        fun listByUsername(): Uni<List<User>> =
+            list("ORDER BY username")
+
         fun findRecentlyActive(days: Int): Uni<List<User>> {
             val cutoff = Instant.now().minusSeconds(days * 24 * 60 * 60L)
             return list("lastLoginAt >= ?1 ORDER BY lastLoginAt DESC", cutoff)
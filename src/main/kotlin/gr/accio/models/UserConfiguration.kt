@@ -80,6 +80,9 @@ class UserConfiguration : PanacheEntityBase {
     var notifyOnTaskCompletion: Boolean = true
     var notifyOnErrors: Boolean = true
 
+    // Security
+    var sessionTimeout: Int = DEFAULT_SESSION_TIMEOUT // Minutes of inactivity before signing out
+
     // Library settings
     @Column(length = 1000)
     var customLibraryPaths: String? = null // Additional library paths
@@ -110,6 +113,8 @@ class UserConfiguration : PanacheEntityBase {
     }
 
     companion object : PanacheCompanionBase<UserConfiguration, UUID> {
+        const val DEFAULT_SESSION_TIMEOUT = 60
+
         fun findByUser(user: User): Uni<UserConfiguration?> =
             find("user", user).firstResult()
 
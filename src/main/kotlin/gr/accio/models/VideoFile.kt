@@ -2,6 +2,8 @@ package gr.accio.models
 
 import io.quarkus.hibernate.reactive.panache.kotlin.PanacheCompanionBase
 import io.quarkus.hibernate.reactive.panache.kotlin.PanacheEntityBase
+import io.quarkus.hibernate.reactive.panache.kotlin.PanacheQuery
+import io.quarkus.panache.common.Sort
 import io.smallrye.mutiny.Uni
 import jakarta.persistence.*
 import java.time.Instant
@@ -82,5 +84,32 @@ class VideoFile: PanacheEntityBase {
 
         fun findProcessing(): Uni<List<VideoFile>> = 
             list("isProcessing = true")
+
+        fun search(term: String?, sort: Sort): PanacheQuery<VideoFile> =
+            if (term.isNullOrBlank()) {
+                findAll(sort)
+            } else {
+                find(
+                    "lower(title) LIKE ?1 ESCAPE '\\' OR lower(path) LIKE ?1 ESCAPE '\\'",
+                    sort,
+                    "%${escapeLike(term.trim().lowercase())}%"
+                )
+            }
+
+        // So a search for "100%" or "file_name" matches those characters rather than any
+        private fun escapeLike(value: String): String =
+            value.replace("\\", "\\\\").replace("%", "\\%").replace("_", "\\_")
+
+        fun findWithoutSubtitleIn(language: String): Uni<List<VideoFile>> =
+            list(
+                "FROM VideoFile v WHERE NOT EXISTS (SELECT s.id FROM Subtitle s WHERE s.video = v AND s.language = ?1) ORDER BY v.title",
+                language
+            )
+
+        fun countWithSubtitles(): Uni<Long> =
+            count("hasEmbeddedEnglish = true OR hasGreekSubtitle = true")
+
+        fun countOutOfSync(): Uni<Long> =
+            count("synced = false AND hasGreekSubtitle = true")
     }
 }
\ No newline at end of file
@@ -0,0 +1,70 @@
+package gr.accio.resources
+
+import gr.accio.auth.ApiTokenIdentityProvider
+import gr.accio.services.ApiTokenCreateRequest
+import gr.accio.services.ApiTokenCreated
+import gr.accio.services.ApiTokenService
+import gr.accio.services.ApiTokenView
+import io.quarkus.security.identity.SecurityIdentity
+import io.smallrye.mutiny.Uni
+import jakarta.annotation.security.RolesAllowed
+import jakarta.inject.Inject
+import jakarta.ws.rs.*
+import jakarta.ws.rs.core.MediaType
+import jakarta.ws.rs.core.Response
+import org.eclipse.microprofile.openapi.annotations.responses.APIResponseSchema
+import java.util.UUID
+
+/**
+ * The signed-in user's own API tokens. Tokens cannot be created or revoked with an API token, so a
+ * leaked token cannot mint longer-lived ones.
+ */
+@Path("/api/tokens")
+@Produces(MediaType.APPLICATION_JSON)
+@Consumes(MediaType.APPLICATION_JSON)
+@RolesAllowed("viewer")
+class ApiTokenResource @Inject constructor(
+    private val apiTokenService: ApiTokenService,
+    private val identity: SecurityIdentity,
+) {
+
+    @GET
+    fun getTokens(): Uni<List<ApiTokenView>> {
+        return apiTokenService.listTokens(identity.principal.name)
+    }
+
+    @POST
+    @APIResponseSchema(ApiTokenCreated::class, responseCode = "201")
+    fun createToken(request: ApiTokenCreateRequest): Uni<Response> {
+        if (isApiTokenRequest()) {
+            return Uni.createFrom().item(forbidden())
+        }
+
+        return apiTokenService.createToken(identity.principal.name, request)
+            .map { Response.status(Response.Status.CREATED).entity(it).build() }
+            .onFailure(IllegalArgumentException::class.java).recoverWithItem { e -> badRequest(e.message) }
+    }
+
+    @DELETE
+    @Path("/{id}")
+    fun revokeToken(@PathParam("id") id: UUID): Uni<Response> {
+        if (isApiTokenRequest()) {
+            return Uni.createFrom().item(forbidden())
+        }
+
+        return apiTokenService.revokeToken(id, identity.principal.name).map { revoked ->
+            if (revoked) Response.noContent().build() else Response.status(Response.Status.NOT_FOUND).build()
+        }
+    }
+
+    private fun isApiTokenRequest(): Boolean =
+        identity.getAttribute<String>(ApiTokenIdentityProvider.TOKEN_ID_ATTRIBUTE) != null
+
+    private fun forbidden(): Response =
+        Response.status(Response.Status.FORBIDDEN)
+            .entity(mapOf("error" to "API tokens are managed from a signed-in session"))
+            .build()
+
+    private fun badRequest(message: String?): Response =
+        Response.status(Response.Status.BAD_REQUEST).entity(mapOf("error" to message)).build()
+}
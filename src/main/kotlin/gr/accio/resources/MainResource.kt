@@ -1,9 +1,21 @@
 package gr.accio.resources
 
+import gr.accio.models.Subtitle
 import gr.accio.models.VideoFile
+import gr.accio.services.ConvertSubtitleRequest
+import gr.accio.services.SaveCuesRequest
 import gr.accio.services.ScanService
+import gr.accio.services.SubtitleCues
+import gr.accio.services.SubtitleEditorService
+import gr.accio.services.SubtitleFileService
+import gr.accio.services.SubtitleFlagsUpdate
+import gr.accio.services.SubtitleTimingService
 import gr.accio.services.SyncService
+import gr.accio.services.TimingAdjustmentSummary
+import gr.accio.services.TimingRequest
 import gr.accio.services.TranslateService
+import io.quarkus.panache.common.Sort
+import io.quarkus.security.identity.SecurityIdentity
 import io.smallrye.mutiny.Uni
 import jakarta.inject.Inject
 import jakarta.ws.rs.PathParam
@@ -13,27 +25,65 @@ import jakarta.ws.rs.Produces
 import jakarta.ws.rs.GET
 import jakarta.ws.rs.QueryParam
 import jakarta.ws.rs.DefaultValue
+import jakarta.ws.rs.DELETE
+import jakarta.ws.rs.PATCH
 import jakarta.ws.rs.POST
+import jakarta.ws.rs.PUT
 import jakarta.ws.rs.core.MediaType
 import jakarta.ws.rs.core.Response
 import jakarta.annotation.security.PermitAll
 import jakarta.annotation.security.RolesAllowed
+import kotlinx.serialization.Serializable
+import org.eclipse.microprofile.openapi.annotations.responses.APIResponseSchema
 import java.util.UUID
 
 @Path("/api")
 @Produces(MediaType.APPLICATION_JSON)
 @Consumes(MediaType.APPLICATION_JSON)
-@RolesAllowed("user")
+@RolesAllowed("viewer")
 class SubtitleController @Inject constructor(
     private val scanService: ScanService,
     private val translateService: TranslateService,
     private val syncService: SyncService,
+    private val subtitleEditorService: SubtitleEditorService,
+    private val subtitleTimingService: SubtitleTimingService,
+    private val subtitleFileService: SubtitleFileService,
+    private val identity: SecurityIdentity,
 ) {
 
     @GET
     @Path("/videos")
-    fun getAllVideos(): Uni<List<VideoFile>> {
-        return VideoFile.listAll()
+    fun getVideos(
+        @QueryParam("page") @DefaultValue("0") page: Int,
+        @QueryParam("size") @DefaultValue("50") size: Int,
+        @QueryParam("sort") @DefaultValue("createdAt") sort: String,
+        @QueryParam("order") @DefaultValue("desc") order: String,
+        @QueryParam("search") search: String?
+    ): Uni<VideoPage> {
+        val pageIndex = page.coerceAtLeast(0)
+        val pageSize = size.coerceIn(1, MAX_PAGE_SIZE)
+        val sortField = VIDEO_SORT_FIELDS[sort] ?: "createdAt"
+        val direction = if (order.equals("asc", ignoreCase = true)) Sort.Direction.Ascending else Sort.Direction.Descending
+        // Sorting on id as well keeps page boundaries stable when the sort field has ties
+        val query = VideoFile.search(search, Sort.by(sortField, direction).and("id"))
+
+        return query.count().flatMap { total ->
+            query.page(pageIndex, pageSize).list().map { items ->
+                VideoPage(items.map { VideoView.of(it) }, total, pageIndex, pageSize)
+            }
+        }
+    }
+
+    @GET
+    @Path("/videos/totals")
+    fun getVideoTotals(): Uni<VideoTotals> {
+        return VideoFile.count().flatMap { videos ->
+            VideoFile.countWithSubtitles().flatMap { withSubtitles ->
+                VideoFile.countOutOfSync().map { outOfSync ->
+                    VideoTotals(videos, withSubtitles, outOfSync)
+                }
+            }
+        }
     }
 
     @GET
@@ -49,6 +99,12 @@ class SubtitleController @Inject constructor(
             }
     }
 
+    @GET
+    @Path("/videos/{id}/subtitles")
+    fun getVideoSubtitles(@PathParam("id") id: UUID): Uni<List<Subtitle>> {
+        return Subtitle.findByVideoId(id)
+    }
+
     @GET
     @Path("/videos/type/{type}")
     fun getVideosByType(@PathParam("type") type: String): Uni<List<VideoFile>> {
@@ -85,8 +141,155 @@ class SubtitleController @Inject constructor(
         return VideoFile.countByType(type)
     }
 
+    @GET
+    @Path("/subtitles")
+    fun getAllSubtitles(): Uni<List<Subtitle>> {
+        return Subtitle.findAllWithVideo()
+    }
+
+    @GET
+    @Path("/subtitles/{id}")
+    @APIResponseSchema(Subtitle::class)
+    fun getSubtitle(@PathParam("id") id: UUID): Uni<Response> {
+        return Subtitle.findByIdWithVideo(id)
+            .map { subtitle ->
+                if (subtitle != null) {
+                    Response.ok(subtitle).build()
+                } else {
+                    Response.status(Response.Status.NOT_FOUND).build()
+                }
+            }
+    }
+
+    @GET
+    @Path("/subtitles/{id}/cues")
+    @APIResponseSchema(SubtitleCues::class)
+    fun getSubtitleCues(@PathParam("id") id: UUID): Uni<Response> {
+        return subtitleEditorService.loadCues(id)
+            .map { cues ->
+                if (cues != null) {
+                    Response.ok(cues).build()
+                } else {
+                    Response.status(Response.Status.NOT_FOUND).build()
+                }
+            }
+            .onFailure().recoverWithItem(::editorFailure)
+    }
+
+    @PUT
+    @Path("/subtitles/{id}/cues")
+    @APIResponseSchema(SubtitleCues::class)
+    @RolesAllowed("user")
+    fun saveSubtitleCues(@PathParam("id") id: UUID, request: SaveCuesRequest): Uni<Response> {
+        val error = subtitleEditorService.validate(request.cues)
+        if (error != null) {
+            return Uni.createFrom().item(
+                Response.status(Response.Status.BAD_REQUEST)
+                    .entity(mapOf("error" to error))
+                    .build()
+            )
+        }
+
+        return subtitleEditorService.saveCues(id, request.cues)
+            .map { cues ->
+                if (cues != null) {
+                    Response.ok(cues).build()
+                } else {
+                    Response.status(Response.Status.NOT_FOUND).build()
+                }
+            }
+            .onFailure().recoverWithItem(::editorFailure)
+    }
+
+    @GET
+    @Path("/subtitles/{id}/timing")
+    fun getTimingHistory(@PathParam("id") id: UUID): Uni<List<TimingAdjustmentSummary>> {
+        return subtitleTimingService.history(id)
+    }
+
+    @POST
+    @Path("/subtitles/{id}/timing")
+    @APIResponseSchema(TimingAdjustmentSummary::class)
+    @RolesAllowed("user")
+    fun retimeSubtitle(@PathParam("id") id: UUID, request: TimingRequest): Uni<Response> {
+        return subtitleTimingService.retime(id, request, identity.principal.name)
+            .map { adjustment ->
+                if (adjustment != null) {
+                    Response.ok(adjustment).build()
+                } else {
+                    Response.status(Response.Status.NOT_FOUND).build()
+                }
+            }
+            .onFailure(IllegalArgumentException::class.java).recoverWithItem { e ->
+                Response.status(Response.Status.BAD_REQUEST)
+                    .entity(mapOf("error" to e.message))
+                    .build()
+            }
+            .onFailure().recoverWithItem(::editorFailure)
+    }
+
+    @PATCH
+    @Path("/subtitles/{id}")
+    @APIResponseSchema(Subtitle::class)
+    @RolesAllowed("user")
+    fun updateSubtitleFlags(@PathParam("id") id: UUID, update: SubtitleFlagsUpdate): Uni<Response> {
+        return subtitleFileService.updateFlags(id, update)
+            .map { subtitle ->
+                if (subtitle != null) {
+                    Response.ok(subtitle).build()
+                } else {
+                    Response.status(Response.Status.NOT_FOUND).build()
+                }
+            }
+    }
+
+    @DELETE
+    @Path("/subtitles/{id}")
+    @RolesAllowed("user")
+    fun deleteSubtitle(@PathParam("id") id: UUID): Uni<Response> {
+        return subtitleFileService.delete(id)
+            .map { deleted ->
+                if (deleted) {
+                    Response.noContent().build()
+                } else {
+                    Response.status(Response.Status.NOT_FOUND).build()
+                }
+            }
+            .onFailure().recoverWithItem(::editorFailure)
+    }
+
+    @POST
+    @Path("/subtitles/{id}/convert")
+    @APIResponseSchema(Subtitle::class)
+    @RolesAllowed("user")
+    fun convertSubtitle(@PathParam("id") id: UUID, request: ConvertSubtitleRequest): Uni<Response> {
+        return subtitleFileService.convert(id, request.format)
+            .map { subtitle ->
+                if (subtitle != null) {
+                    Response.status(Response.Status.CREATED).entity(subtitle).build()
+                } else {
+                    Response.status(Response.Status.NOT_FOUND).build()
+                }
+            }
+            .onFailure(IllegalArgumentException::class.java).recoverWithItem { e ->
+                Response.status(Response.Status.BAD_REQUEST)
+                    .entity(mapOf("error" to e.message))
+                    .build()
+            }
+            .onFailure().recoverWithItem(::editorFailure)
+    }
+
+    private fun editorFailure(throwable: Throwable): Response {
+        // Embedded subtitles have no file on disk to read or rewrite
+        val status = if (throwable is IllegalStateException) Response.Status.CONFLICT else Response.Status.INTERNAL_SERVER_ERROR
+        return Response.status(status)
+            .entity(mapOf("error" to throwable.message))
+            .build()
+    }
+
     @GET
     @Path("/scan")
+    @RolesAllowed("user")
     fun scan(): Uni<Response> {
         return scanService.scanLibrary()
             .map { result ->
@@ -101,11 +304,12 @@ class SubtitleController @Inject constructor(
 
     @POST
     @Path("/translate/{id}")
+    @RolesAllowed("user")
     fun translate(@PathParam("id") id: UUID): Uni<Response> {
         return VideoFile.findById(id)
             .flatMap { video ->
                 if (video != null) {
-                    translateService.translate(id)
+                    translateService.translate(id, identity.principal.name)
                         .map { result ->
                             Response.ok(mapOf("message" to "Translation completed", "result" to result)).build()
                         }
@@ -122,6 +326,7 @@ class SubtitleController @Inject constructor(
 
     @POST
     @Path("/sync/{id}")
+    @RolesAllowed("user")
     fun sync(@PathParam("id") id: UUID): Uni<Response> {
         return VideoFile.findById(id)
             .flatMap { video ->
@@ -147,5 +352,82 @@ class SubtitleController @Inject constructor(
     fun health(): Uni<Map<String, String>> {
         return Uni.createFrom().item(mapOf("status" to "UP", "timestamp" to System.currentTimeMillis().toString()))
     }
+
+    @Serializable
+    data class VideoPage(
+        val items: List<VideoView>,
+        val total: Long,
+        val page: Int,
+        val size: Int
+    )
+
+    /**
+     * A VideoFile as the library page lists it, with the same fields and ISO instants.
+     */
+    @Serializable
+    data class VideoView(
+        val id: String,
+        val path: String,
+        val title: String?,
+        val type: String?,
+        val fileSize: Long?,
+        val duration: Long?,
+        val resolution: String?,
+        val codec: String?,
+        val bitrate: Long?,
+        val hasEmbeddedEnglish: Boolean,
+        val hasGreekSubtitle: Boolean,
+        val generatedGreek: Boolean,
+        val synced: Boolean,
+        val isProcessing: Boolean,
+        val processingError: String?,
+        val lastChecked: String?,
+        val createdAt: String,
+        val updatedAt: String
+    ) {
+        companion object {
+            fun of(video: VideoFile): VideoView =
+                VideoView(
+                    id = video.id.toString(),
+                    path = video.path,
+                    title = video.title,
+                    type = video.type,
+                    fileSize = video.fileSize,
+                    duration = video.duration,
+                    resolution = video.resolution,
+                    codec = video.codec,
+                    bitrate = video.bitrate,
+                    hasEmbeddedEnglish = video.hasEmbeddedEnglish,
+                    hasGreekSubtitle = video.hasGreekSubtitle,
+                    generatedGreek = video.generatedGreek,
+                    synced = video.synced,
+                    isProcessing = video.isProcessing,
+                    processingError = video.processingError,
+                    lastChecked = video.lastChecked?.toString(),
+                    createdAt = video.createdAt.toString(),
+                    updatedAt = video.updatedAt.toString()
+                )
+        }
+    }
+
+    @Serializable
+    data class VideoTotals(
+        val videos: Long,
+        val withSubtitles: Long,
+        val outOfSync: Long
+    )
+
+    companion object {
+        const val MAX_PAGE_SIZE = 500
+
+        // Query parameter value -> entity field
+        private val VIDEO_SORT_FIELDS = mapOf(
+            "title" to "title",
+            "path" to "path",
+            "duration" to "duration",
+            "fileSize" to "fileSize",
+            "createdAt" to "createdAt"
+        )
+    }
 }
 
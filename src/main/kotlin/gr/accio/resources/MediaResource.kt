@@ -0,0 +1,206 @@
+package gr.accio.resources
+
+import gr.accio.config.SecurityConfig
+import gr.accio.models.Subtitle
+import gr.accio.models.VideoFile
+import gr.accio.services.MediaStreamService
+import gr.accio.services.PlaybackInfo
+import gr.accio.services.TaskLogService
+import io.quarkus.logging.Log
+import io.smallrye.jwt.auth.principal.JWTParser
+import io.smallrye.jwt.auth.principal.ParseException
+import io.smallrye.mutiny.Multi
+import io.smallrye.mutiny.Uni
+import jakarta.annotation.security.PermitAll
+import jakarta.annotation.security.RolesAllowed
+import jakarta.inject.Inject
+import jakarta.ws.rs.DefaultValue
+import jakarta.ws.rs.GET
+import jakarta.ws.rs.HeaderParam
+import jakarta.ws.rs.NotFoundException
+import jakarta.ws.rs.Path
+import jakarta.ws.rs.PathParam
+import jakarta.ws.rs.Produces
+import jakarta.ws.rs.QueryParam
+import jakarta.ws.rs.WebApplicationException
+import jakarta.ws.rs.core.HttpHeaders
+import jakarta.ws.rs.core.MediaType
+import jakarta.ws.rs.core.Response
+import org.eclipse.microprofile.openapi.annotations.responses.APIResponseSchema
+import org.jboss.resteasy.reactive.PathPart
+import java.io.File
+import java.net.URLEncoder
+import java.nio.charset.StandardCharsets
+import java.util.UUID
+
+/**
+ * Video and subtitle streams for the browser player, and subtitle and task log downloads. `<video>`,
+ * `<track>` and download links cannot send an Authorization header, so the streams take the JWT in a `token` query
+ * parameter instead, the same way the task WebSocket does.
+ */
+@Path("/api/media")
+@PermitAll
+class MediaResource @Inject constructor(
+    private val mediaStreamService: MediaStreamService,
+    private val taskLogService: TaskLogService,
+    private val jwtParser: JWTParser,
+) {
+
+    @GET
+    @Path("/videos/{id}/playback")
+    @Produces(MediaType.APPLICATION_JSON)
+    @RolesAllowed("viewer")
+    @APIResponseSchema(PlaybackInfo::class)
+    fun getPlayback(@PathParam("id") id: UUID): Uni<Response> {
+        return VideoFile.findById(id).map { video ->
+            if (video != null) {
+                Response.ok(mediaStreamService.playbackInfo(video)).build()
+            } else {
+                Response.status(Response.Status.NOT_FOUND).build()
+            }
+        }
+    }
+
+    @GET
+    @Path("/videos/{id}/stream")
+    fun streamVideo(
+        @PathParam("id") id: UUID,
+        @QueryParam("token") token: String?,
+        @HeaderParam(HttpHeaders.RANGE) range: String?
+    ): Uni<Response> {
+        if (!isAuthorized(token)) {
+            return Uni.createFrom().item(Response.status(Response.Status.UNAUTHORIZED).build())
+        }
+
+        return VideoFile.findById(id).map { video ->
+            val file = video?.let { File(it.path) }
+            if (file == null || !file.isFile) {
+                return@map Response.status(Response.Status.NOT_FOUND).build()
+            }
+
+            val length = file.length()
+            val byteRange = mediaStreamService.resolveRange(range, length)
+                ?: return@map Response.status(Response.Status.REQUESTED_RANGE_NOT_SATISFIABLE)
+                    .header("Content-Range", "bytes */$length")
+                    .build()
+
+            val partial = byteRange.partial
+            val response = Response.status(if (partial) Response.Status.PARTIAL_CONTENT else Response.Status.OK)
+                .entity(PathPart(file.toPath(), byteRange.start, byteRange.length))
+                .type(mediaStreamService.mimeType(file.extension))
+                .header("Accept-Ranges", "bytes")
+            if (partial) {
+                response.header("Content-Range", "bytes ${byteRange.start}-${byteRange.end}/$length")
+            }
+            response.build()
+        }
+    }
+
+    @GET
+    @Path("/videos/{id}/transcode")
+    @Produces("video/mp4")
+    fun transcodeVideo(
+        @PathParam("id") id: UUID,
+        @QueryParam("token") token: String?,
+        @QueryParam("start") @DefaultValue("0") start: Double
+    ): Multi<ByteArray> {
+        if (!isAuthorized(token)) {
+            return Multi.createFrom().failure(WebApplicationException(Response.Status.UNAUTHORIZED))
+        }
+
+        return VideoFile.findById(id)
+            .onItem().ifNull().failWith { NotFoundException("Video not found") }
+            .onItem().transformToMulti { video -> mediaStreamService.transcode(video!!, start) }
+    }
+
+    @GET
+    @Path("/subtitles/{id}/vtt")
+    @Produces("text/vtt")
+    fun getSubtitleVtt(
+        @PathParam("id") id: UUID,
+        @QueryParam("token") token: String?,
+        @QueryParam("offset") @DefaultValue("0") offsetMs: Int
+    ): Uni<Response> {
+        if (!isAuthorized(token)) {
+            return Uni.createFrom().item(Response.status(Response.Status.UNAUTHORIZED).build())
+        }
+
+        return Subtitle.findById(id).map { subtitle ->
+            if (subtitle == null) {
+                return@map Response.status(Response.Status.NOT_FOUND).build()
+            }
+            try {
+                Response.ok(mediaStreamService.renderVtt(subtitle, offsetMs.coerceAtLeast(0))).build()
+            } catch (e: IllegalStateException) {
+                Response.status(Response.Status.CONFLICT).entity(e.message).type(MediaType.TEXT_PLAIN).build()
+            } catch (e: IllegalArgumentException) {
+                Log.warn("Cannot render subtitle $id as WebVTT: ${e.message}")
+                Response.status(UNPROCESSABLE_ENTITY).entity(e.message).type(MediaType.TEXT_PLAIN).build()
+            }
+        }
+    }
+
+    @GET
+    @Path("/subtitles/{id}/download")
+    @Produces(MediaType.APPLICATION_OCTET_STREAM)
+    fun downloadSubtitle(
+        @PathParam("id") id: UUID,
+        @QueryParam("token") token: String?
+    ): Uni<Response> {
+        if (!isAuthorized(token)) {
+            return Uni.createFrom().item(Response.status(Response.Status.UNAUTHORIZED).build())
+        }
+
+        return Subtitle.findById(id).map { subtitle ->
+            val file = subtitle?.filePath?.let { File(it) }
+            if (file == null || !file.isFile) {
+                return@map Response.status(Response.Status.NOT_FOUND).build()
+            }
+            Response.ok(file)
+                .header(HttpHeaders.CONTENT_DISPOSITION, contentDisposition(file.name))
+                .build()
+        }
+    }
+
+    @GET
+    @Path("/tasks/{id}/log")
+    @Produces(MediaType.TEXT_PLAIN)
+    fun downloadTaskLog(
+        @PathParam("id") id: UUID,
+        @QueryParam("token") token: String?
+    ): Response {
+        if (!isAuthorized(token)) {
+            return Response.status(Response.Status.UNAUTHORIZED).build()
+        }
+
+        val file = taskLogService.file(id) ?: return Response.status(Response.Status.NOT_FOUND).build()
+        return Response.ok(file.toFile())
+            .header(HttpHeaders.CONTENT_DISPOSITION, contentDisposition("task-$id.log"))
+            .build()
+    }
+
+    // Subtitle names are often not ASCII, e.g. Greek titles; filename* carries them as UTF-8
+    private fun contentDisposition(name: String): String {
+        val fallback = name.replace(Regex("[^A-Za-z0-9._ -]"), "_")
+        val encoded = URLEncoder.encode(name, StandardCharsets.UTF_8).replace("+", "%20")
+        return "attachment; filename=\"$fallback\"; filename*=UTF-8''$encoded"
+    }
+
+    private fun isAuthorized(token: String?): Boolean {
+        if (token.isNullOrBlank()) {
+            return false
+        }
+
+        return try {
+            jwtParser.parse(token).groups.contains(SecurityConfig.VIEWER_ROLE)
+        } catch (e: ParseException) {
+            Log.debug("Media token rejected: ${e.message}")
+            false
+        }
+    }
+
+    companion object {
+        // Not in Response.Status
+        private const val UNPROCESSABLE_ENTITY = 422
+    }
+}
@@ -0,0 +1,59 @@
+package gr.accio.resources
+
+import gr.accio.services.NotificationList
+import gr.accio.services.NotificationService
+import gr.accio.services.NotificationView
+import io.quarkus.security.identity.SecurityIdentity
+import io.smallrye.mutiny.Uni
+import jakarta.annotation.security.RolesAllowed
+import jakarta.inject.Inject
+import jakarta.ws.rs.*
+import jakarta.ws.rs.core.MediaType
+import jakarta.ws.rs.core.Response
+import org.eclipse.microprofile.openapi.annotations.responses.APIResponseSchema
+import java.util.UUID
+
+/**
+ * The signed-in user's notification center. Other users' notifications are never visible here.
+ */
+@Path("/api/notifications")
+@Produces(MediaType.APPLICATION_JSON)
+@RolesAllowed("viewer")
+class NotificationResource @Inject constructor(
+    private val notificationService: NotificationService,
+    private val identity: SecurityIdentity,
+) {
+
+    @GET
+    fun getNotifications(@QueryParam("limit") @DefaultValue("50") limit: Int): Uni<NotificationList> {
+        return notificationService.listNotifications(identity.principal.name, limit)
+    }
+
+    @POST
+    @Path("/{id}/read")
+    @APIResponseSchema(NotificationView::class)
+    fun markNotificationRead(@PathParam("id") id: UUID): Uni<Response> {
+        return notificationService.markRead(id, identity.principal.name).map { notification ->
+            if (notification != null) Response.ok(notification).build() else Response.status(Response.Status.NOT_FOUND).build()
+        }
+    }
+
+    @POST
+    @Path("/read-all")
+    fun markAllNotificationsRead(): Uni<Response> {
+        return notificationService.markAllRead(identity.principal.name).map { Response.noContent().build() }
+    }
+
+    @DELETE
+    @Path("/{id}")
+    fun deleteNotification(@PathParam("id") id: UUID): Uni<Response> {
+        return notificationService.deleteNotification(id, identity.principal.name).map { deleted ->
+            if (deleted) Response.noContent().build() else Response.status(Response.Status.NOT_FOUND).build()
+        }
+    }
+
+    @DELETE
+    fun clearNotifications(): Uni<Response> {
+        return notificationService.clearNotifications(identity.principal.name).map { Response.noContent().build() }
+    }
+}
@@ -0,0 +1,121 @@
+package gr.accio.resources
+
+import gr.accio.models.Task
+import gr.accio.models.VideoFile
+import gr.accio.services.PipelineRequest
+import gr.accio.services.PipelineRunRequest
+import gr.accio.services.PipelineRunView
+import gr.accio.services.PipelineService
+import gr.accio.services.PipelineView
+import gr.accio.services.TaskTiming
+import io.quarkus.security.identity.SecurityIdentity
+import io.smallrye.mutiny.Uni
+import jakarta.annotation.security.RolesAllowed
+import jakarta.inject.Inject
+import jakarta.ws.rs.*
+import jakarta.ws.rs.core.MediaType
+import jakarta.ws.rs.core.Response
+import org.eclipse.microprofile.openapi.annotations.responses.APIResponseSchema
+import java.time.Instant
+import java.time.format.DateTimeParseException
+import java.util.UUID
+
+@Path("/api/pipelines")
+@Produces(MediaType.APPLICATION_JSON)
+@Consumes(MediaType.APPLICATION_JSON)
+@RolesAllowed("viewer")
+class PipelineResource @Inject constructor(
+    private val pipelineService: PipelineService,
+    private val identity: SecurityIdentity,
+) {
+
+    @GET
+    fun getPipelines(): Uni<List<PipelineView>> {
+        return pipelineService.listPipelines()
+    }
+
+    @GET
+    @Path("/{id}")
+    @APIResponseSchema(PipelineView::class)
+    fun getPipeline(@PathParam("id") id: UUID): Uni<Response> {
+        return pipelineService.getPipeline(id).map { found(it) }
+    }
+
+    @POST
+    @APIResponseSchema(PipelineView::class, responseCode = "201")
+    @RolesAllowed("user")
+    fun createPipeline(request: PipelineRequest): Uni<Response> {
+        return pipelineService.createPipeline(request)
+            .map { Response.status(Response.Status.CREATED).entity(it).build() }
+            .onFailure(IllegalArgumentException::class.java).recoverWithItem { e -> badRequest(e.message) }
+    }
+
+    @PUT
+    @Path("/{id}")
+    @APIResponseSchema(PipelineView::class)
+    @RolesAllowed("user")
+    fun updatePipeline(@PathParam("id") id: UUID, request: PipelineRequest): Uni<Response> {
+        return pipelineService.updatePipeline(id, request)
+            .map { found(it) }
+            .onFailure(IllegalArgumentException::class.java).recoverWithItem { e -> badRequest(e.message) }
+    }
+
+    @DELETE
+    @Path("/{id}")
+    @RolesAllowed("user")
+    fun deletePipeline(@PathParam("id") id: UUID): Uni<Response> {
+        return pipelineService.deletePipeline(id).map { deleted ->
+            if (deleted) Response.noContent().build() else Response.status(Response.Status.NOT_FOUND).build()
+        }
+    }
+
+    /**
+     * Queue the pipeline on each video, one pipeline task per video
+     */
+    @POST
+    @Path("/{id}/run")
+    @RolesAllowed("user")
+    fun runPipeline(@PathParam("id") id: UUID, request: PipelineRunRequest): Uni<Response> {
+        val videoIds = try {
+            request.videoIds.map { UUID.fromString(it) }
+        } catch (e: IllegalArgumentException) {
+            return Uni.createFrom().item(badRequest("One or more invalid UUIDs provided"))
+        }
+        val runAt = try {
+            request.runAt?.takeIf { it.isNotBlank() }?.let { Instant.parse(it) }
+        } catch (e: DateTimeParseException) {
+            return Uni.createFrom().item(badRequest("runAt must be an ISO-8601 instant such as 2026-01-31T22:00:00Z"))
+        }
+
+        val videos = if (videoIds.isEmpty()) {
+            Uni.createFrom().item(emptyList<VideoFile>())
+        } else {
+            VideoFile.list("id IN ?1", videoIds)
+        }
+        return videos
+            .flatMap { selected -> pipelineService.runPipeline(id, selected, identity.principal.name, TaskTiming(request.priority, runAt)) }
+            .map { tasks: List<Task>? ->
+                if (tasks != null) {
+                    Response.status(Response.Status.CREATED).entity(tasks).build()
+                } else {
+                    Response.status(Response.Status.NOT_FOUND).build()
+                }
+            }
+            .onFailure(IllegalArgumentException::class.java).recoverWithItem { e -> badRequest(e.message) }
+    }
+
+    @GET
+    @Path("/runs/{taskId}")
+    @APIResponseSchema(PipelineRunView::class)
+    fun getPipelineRun(@PathParam("taskId") taskId: UUID): Uni<Response> {
+        return pipelineService.getRun(taskId).map { run ->
+            if (run != null) Response.ok(run).build() else Response.status(Response.Status.NOT_FOUND).build()
+        }
+    }
+
+    private fun found(pipeline: PipelineView?): Response =
+        if (pipeline != null) Response.ok(pipeline).build() else Response.status(Response.Status.NOT_FOUND).build()
+
+    private fun badRequest(message: String?): Response =
+        Response.status(Response.Status.BAD_REQUEST).entity(mapOf("error" to message)).build()
+}
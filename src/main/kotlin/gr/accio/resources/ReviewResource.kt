@@ -0,0 +1,93 @@
+package gr.accio.resources
+
+import gr.accio.models.ReviewStatus
+import gr.accio.services.CueDecisionRequest
+import gr.accio.services.OpenReviewRequest
+import gr.accio.services.ReviewCueUpdate
+import gr.accio.services.ReviewDetail
+import gr.accio.services.ReviewService
+import gr.accio.services.ReviewSummary
+import io.quarkus.security.identity.SecurityIdentity
+import io.smallrye.mutiny.Uni
+import jakarta.annotation.security.RolesAllowed
+import jakarta.inject.Inject
+import jakarta.ws.rs.*
+import jakarta.ws.rs.core.MediaType
+import jakarta.ws.rs.core.Response
+import org.eclipse.microprofile.openapi.annotations.responses.APIResponseSchema
+import java.util.UUID
+
+@Path("/api/reviews")
+@Produces(MediaType.APPLICATION_JSON)
+@Consumes(MediaType.APPLICATION_JSON)
+@RolesAllowed("viewer")
+class ReviewResource @Inject constructor(
+    private val reviewService: ReviewService,
+    private val identity: SecurityIdentity,
+) {
+
+    @GET
+    fun getReviews(@QueryParam("status") status: ReviewStatus?): Uni<List<ReviewSummary>> {
+        return reviewService.listReviews(status)
+    }
+
+    @POST
+    @APIResponseSchema(ReviewSummary::class)
+    @RolesAllowed("user")
+    fun openReview(request: OpenReviewRequest): Uni<Response> {
+        val subtitleId = runCatching { UUID.fromString(request.subtitleId) }.getOrNull()
+            ?: return Uni.createFrom().item(badRequest("Invalid subtitle id"))
+
+        return reviewService.openReview(subtitleId)
+            .flatMap { review ->
+                if (review == null) {
+                    Uni.createFrom().item(Response.status(Response.Status.NOT_FOUND).build())
+                } else {
+                    reviewService.summarize(review).map { summary -> Response.ok(summary).build() }
+                }
+            }
+            .onFailure(IllegalStateException::class.java).recoverWithItem { e -> badRequest(e.message) }
+    }
+
+    @GET
+    @Path("/{id}")
+    @APIResponseSchema(ReviewDetail::class)
+    fun getReview(@PathParam("id") id: UUID): Uni<Response> {
+        return reviewService.getReview(id)
+            .map { detail ->
+                if (detail != null) {
+                    Response.ok(detail).build()
+                } else {
+                    Response.status(Response.Status.NOT_FOUND).build()
+                }
+            }
+            .onFailure(IllegalStateException::class.java).recoverWithItem { e -> conflict(e.message) }
+    }
+
+    @PUT
+    @Path("/{id}/cues/{index}")
+    @APIResponseSchema(ReviewCueUpdate::class)
+    @RolesAllowed("user")
+    fun decideCue(
+        @PathParam("id") id: UUID,
+        @PathParam("index") index: Int,
+        request: CueDecisionRequest
+    ): Uni<Response> {
+        return reviewService.decide(id, index, request, identity.principal.name)
+            .map { update ->
+                if (update != null) {
+                    Response.ok(update).build()
+                } else {
+                    Response.status(Response.Status.NOT_FOUND).build()
+                }
+            }
+            .onFailure(IllegalArgumentException::class.java).recoverWithItem { e -> badRequest(e.message) }
+            .onFailure(IllegalStateException::class.java).recoverWithItem { e -> conflict(e.message) }
+    }
+
+    private fun badRequest(message: String?): Response =
+        Response.status(Response.Status.BAD_REQUEST).entity(mapOf("error" to message)).build()
+
+    private fun conflict(message: String?): Response =
+        Response.status(Response.Status.CONFLICT).entity(mapOf("error" to message)).build()
+}
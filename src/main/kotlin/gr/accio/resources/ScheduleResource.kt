@@ -0,0 +1,95 @@
+package gr.accio.resources
+
+import gr.accio.services.ScheduleEnabledUpdate
+import gr.accio.services.SchedulePreview
+import gr.accio.services.ScheduleRequest
+import gr.accio.services.ScheduleService
+import gr.accio.services.ScheduleView
+import io.smallrye.mutiny.Uni
+import jakarta.annotation.security.RolesAllowed
+import jakarta.inject.Inject
+import jakarta.ws.rs.*
+import jakarta.ws.rs.core.MediaType
+import jakarta.ws.rs.core.Response
+import org.eclipse.microprofile.openapi.annotations.responses.APIResponseSchema
+import java.util.UUID
+
+@Path("/api/schedules")
+@Produces(MediaType.APPLICATION_JSON)
+@Consumes(MediaType.APPLICATION_JSON)
+@RolesAllowed("admin")
+class ScheduleResource @Inject constructor(
+    private val scheduleService: ScheduleService,
+) {
+
+    @GET
+    fun getSchedules(): Uni<List<ScheduleView>> {
+        return scheduleService.listSchedules()
+    }
+
+    @GET
+    @Path("/preview")
+    @APIResponseSchema(SchedulePreview::class)
+    fun previewSchedule(
+        @QueryParam("cron") cronExpression: String?,
+        @QueryParam("intervalMinutes") intervalMinutes: Int?
+    ): Response {
+        return try {
+            Response.ok(scheduleService.preview(cronExpression?.trim()?.ifEmpty { null }, intervalMinutes)).build()
+        } catch (e: IllegalArgumentException) {
+            badRequest(e.message)
+        }
+    }
+
+    @GET
+    @Path("/{id}")
+    @APIResponseSchema(ScheduleView::class)
+    fun getSchedule(@PathParam("id") id: UUID): Uni<Response> {
+        return scheduleService.getSchedule(id).map { found(it) }
+    }
+
+    @POST
+    @APIResponseSchema(ScheduleView::class, responseCode = "201")
+    fun createSchedule(request: ScheduleRequest): Uni<Response> {
+        return scheduleService.createSchedule(request)
+            .map { Response.status(Response.Status.CREATED).entity(it).build() }
+            .onFailure(IllegalArgumentException::class.java).recoverWithItem { e -> badRequest(e.message) }
+    }
+
+    @PUT
+    @Path("/{id}")
+    @APIResponseSchema(ScheduleView::class)
+    fun updateSchedule(@PathParam("id") id: UUID, request: ScheduleRequest): Uni<Response> {
+        return scheduleService.updateSchedule(id, request)
+            .map { found(it) }
+            .onFailure(IllegalArgumentException::class.java).recoverWithItem { e -> badRequest(e.message) }
+    }
+
+    @PATCH
+    @Path("/{id}")
+    @APIResponseSchema(ScheduleView::class)
+    fun setScheduleEnabled(@PathParam("id") id: UUID, request: ScheduleEnabledUpdate): Uni<Response> {
+        return scheduleService.setEnabled(id, request.enabled).map { found(it) }
+    }
+
+    @DELETE
+    @Path("/{id}")
+    fun deleteSchedule(@PathParam("id") id: UUID): Uni<Response> {
+        return scheduleService.deleteSchedule(id).map { deleted ->
+            if (deleted) Response.noContent().build() else Response.status(Response.Status.NOT_FOUND).build()
+        }
+    }
+
+    @POST
+    @Path("/{id}/run")
+    @APIResponseSchema(ScheduleView::class)
+    fun runSchedule(@PathParam("id") id: UUID): Uni<Response> {
+        return scheduleService.runNow(id).map { found(it) }
+    }
+
+    private fun found(schedule: ScheduleView?): Response =
+        if (schedule != null) Response.ok(schedule).build() else Response.status(Response.Status.NOT_FOUND).build()
+
+    private fun badRequest(message: String?): Response =
+        Response.status(Response.Status.BAD_REQUEST).entity(mapOf("error" to message)).build()
+}
@@ -0,0 +1,29 @@
+package gr.accio.resources
+
+import gr.accio.services.SearchResults
+import gr.accio.services.SearchService
+import io.smallrye.mutiny.Uni
+import jakarta.annotation.security.RolesAllowed
+import jakarta.inject.Inject
+import jakarta.ws.rs.DefaultValue
+import jakarta.ws.rs.GET
+import jakarta.ws.rs.Path
+import jakarta.ws.rs.Produces
+import jakarta.ws.rs.QueryParam
+import jakarta.ws.rs.core.MediaType
+
+@Path("/api/search")
+@Produces(MediaType.APPLICATION_JSON)
+@RolesAllowed("viewer")
+class SearchResource @Inject constructor(
+    private val searchService: SearchService,
+) {
+
+    @GET
+    fun search(
+        @QueryParam("q") term: String?,
+        @QueryParam("limit") @DefaultValue("5") limit: Int
+    ): Uni<SearchResults> {
+        return searchService.search(term.orEmpty(), limit)
+    }
+}
@@ -0,0 +1,54 @@
+package gr.accio.resources
+
+import gr.accio.services.SettingsService
+import gr.accio.services.SettingsUpdate
+import gr.accio.services.SettingsValidationError
+import gr.accio.services.UserSettings
+import io.quarkus.security.identity.SecurityIdentity
+import io.smallrye.mutiny.Uni
+import jakarta.annotation.security.RolesAllowed
+import jakarta.inject.Inject
+import jakarta.ws.rs.*
+import jakarta.ws.rs.core.MediaType
+import jakarta.ws.rs.core.Response
+import org.eclipse.microprofile.openapi.annotations.media.Content
+import org.eclipse.microprofile.openapi.annotations.media.Schema
+import org.eclipse.microprofile.openapi.annotations.responses.APIResponse
+import org.eclipse.microprofile.openapi.annotations.responses.APIResponseSchema
+
+@Path("/api/settings")
+@Produces(MediaType.APPLICATION_JSON)
+@Consumes(MediaType.APPLICATION_JSON)
+@RolesAllowed("viewer")
+class SettingsResource @Inject constructor(
+    private val settingsService: SettingsService,
+    private val identity: SecurityIdentity,
+) {
+
+    @GET
+    fun getSettings(): Uni<UserSettings> {
+        return settingsService.getSettings(identity.principal.name)
+    }
+
+    @PUT
+    @RolesAllowed("user")
+    @APIResponseSchema(UserSettings::class)
+    @APIResponse(
+        responseCode = "400",
+        description = "One or more fields are invalid",
+        content = [Content(schema = Schema(implementation = SettingsValidationError::class))]
+    )
+    fun updateSettings(request: SettingsUpdate): Uni<Response> {
+        val fieldErrors = settingsService.validate(request)
+        if (fieldErrors.isNotEmpty()) {
+            return Uni.createFrom().item(
+                Response.status(Response.Status.BAD_REQUEST)
+                    .entity(SettingsValidationError("Some settings are invalid", fieldErrors))
+                    .build()
+            )
+        }
+
+        return settingsService.updateSettings(identity.principal.name, request)
+            .map { settings -> Response.ok(settings).build() }
+    }
+}
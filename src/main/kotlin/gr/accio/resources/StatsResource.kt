@@ -0,0 +1,26 @@
+package gr.accio.resources
+
+import gr.accio.services.LibraryStats
+import gr.accio.services.StatsService
+import io.quarkus.security.identity.SecurityIdentity
+import io.smallrye.mutiny.Uni
+import jakarta.annotation.security.RolesAllowed
+import jakarta.inject.Inject
+import jakarta.ws.rs.GET
+import jakarta.ws.rs.Path
+import jakarta.ws.rs.Produces
+import jakarta.ws.rs.core.MediaType
+
+@Path("/api/stats")
+@Produces(MediaType.APPLICATION_JSON)
+@RolesAllowed("viewer")
+class StatsResource @Inject constructor(
+    private val statsService: StatsService,
+    private val identity: SecurityIdentity,
+) {
+
+    @GET
+    fun getStats(): Uni<LibraryStats> {
+        return statsService.getLibraryStats(identity.principal.name)
+    }
+}
@@ -1,7 +1,14 @@
 package gr.accio.resources
 
 import gr.accio.models.*
+import gr.accio.services.AnalyticsRange
+import gr.accio.services.TaskAnalyticsService
+import gr.accio.services.TaskLog
+import gr.accio.services.TaskLogService
 import gr.accio.services.TaskService
+import gr.accio.services.TaskTiming
+import io.quarkus.panache.common.Sort
+import io.quarkus.security.identity.SecurityIdentity
 import io.smallrye.mutiny.Uni
 import jakarta.annotation.security.RolesAllowed
 import jakarta.inject.Inject
@@ -9,17 +16,30 @@ import jakarta.ws.rs.*
 import jakarta.ws.rs.core.MediaType
 import jakarta.ws.rs.core.Response
 import kotlinx.serialization.Serializable
+import java.time.DateTimeException
+import java.time.Instant
+import java.time.ZoneId
+import java.time.format.DateTimeParseException
 import java.util.*
 
 @Path("/api/tasks")
 @Produces(MediaType.APPLICATION_JSON)
 @Consumes(MediaType.APPLICATION_JSON)
-@RolesAllowed("user")
+@RolesAllowed("viewer")
 class TaskResource {
 
     @Inject
     lateinit var taskService: TaskService
 
+    @Inject
+    lateinit var taskAnalyticsService: TaskAnalyticsService
+
+    @Inject
+    lateinit var taskLogService: TaskLogService
+
+    @Inject
+    lateinit var identity: SecurityIdentity
+
     @GET
     fun getTasks(
         @QueryParam("status") status: String?,
@@ -64,61 +84,170 @@ class TaskResource {
         return taskService.getTaskStatistics()
     }
 
+    @GET
+    @Path("/analytics")
+    fun getAnalytics(
+        @QueryParam("range") @DefaultValue("7d") range: String,
+        @QueryParam("zone") @DefaultValue("UTC") zone: String
+    ): Uni<Response> {
+        val analyticsRange = AnalyticsRange.fromKey(range)
+        val zoneId = try {
+            ZoneId.of(zone)
+        } catch (e: DateTimeException) {
+            null
+        }
+        if (analyticsRange == null || zoneId == null) {
+            val error = if (analyticsRange == null) {
+                "Unknown range '$range'; use one of ${AnalyticsRange.entries.joinToString { it.key }}"
+            } else {
+                "Unknown time zone '$zone'"
+            }
+            return Uni.createFrom().item(
+                Response.status(Response.Status.BAD_REQUEST).entity(mapOf("error" to error)).build()
+            )
+        }
+
+        return taskAnalyticsService.getAnalytics(analyticsRange, zoneId)
+            .onItem().transform { analytics -> Response.ok(analytics).build() }
+    }
+
     @POST
     @Path("/scan")
+    @RolesAllowed("user")
     fun createScanTask(request: CreateScanTaskRequest): Uni<Response> {
-        return taskService.createScanTask(request.libraryPaths, request.createdBy ?: "api")
-            .onItem().transform { task ->
-                Response.status(Response.Status.CREATED).entity(task).build()
-            }
+        return withTiming(request.priority, request.runAt) { timing ->
+            taskService.createScanTask(request.libraryPaths, identity.principal.name, timing = timing)
+                .onItem().transform { task ->
+                    Response.status(Response.Status.CREATED).entity(task).build()
+                }
+        }
     }
 
     @POST
     @Path("/sync/{videoId}")
+    @RolesAllowed("user")
     fun createSyncTask(
         @PathParam("videoId") videoId: UUID,
         request: CreateTaskRequest?
     ): Uni<Response> {
-        return VideoFile.findById(videoId)
-            .onItem().transformToUni { videoFile ->
-                if (videoFile == null) {
-                    Uni.createFrom().item(Response.status(Response.Status.NOT_FOUND).build())
-                } else {
-                    taskService.createSyncTask(videoFile, request?.createdBy ?: "api")
-                        .onItem().transform { task ->
+        return withTiming(request?.priority, request?.runAt) { timing ->
+            VideoFile.findById(videoId)
+                .onItem().transformToUni { videoFile ->
+                    if (videoFile == null) {
+                        Uni.createFrom().item(Response.status(Response.Status.NOT_FOUND).build())
+                    } else {
+                        taskService.createSyncTask(videoFile, identity.principal.name, timing = timing)
+                            .onItem().transform { task ->
+                                Response.status(Response.Status.CREATED).entity(task).build()
+                            }
+                    }
+                }
+        }
+    }
+
+    @POST
+    @Path("/extract/{videoId}")
+    @RolesAllowed("user")
+    fun createExtractionTask(
+        @PathParam("videoId") videoId: UUID,
+        request: CreateTaskRequest?
+    ): Uni<Response> {
+        return withTiming(request?.priority, request?.runAt) { timing ->
+            VideoFile.findById(videoId)
+                .onItem().transformToUni { videoFile ->
+                    if (videoFile == null) {
+                        Uni.createFrom().item(Response.status(Response.Status.NOT_FOUND).build())
+                    } else {
+                        taskService.createExtractionTask(videoFile, identity.principal.name, timing = timing)
+                            .onItem().transform { task ->
+                                Response.status(Response.Status.CREATED).entity(task).build()
+                            }
+                    }
+                }
+        }
+    }
+
+    @POST
+    @Path("/rescan/{videoId}")
+    @RolesAllowed("user")
+    fun createRescanTask(
+        @PathParam("videoId") videoId: UUID,
+        request: CreateTaskRequest?
+    ): Uni<Response> {
+        return withTiming(request?.priority, request?.runAt) { timing ->
+            VideoFile.findById(videoId)
+                .onItem().transformToUni { videoFile ->
+                    if (videoFile == null) {
+                        Uni.createFrom().item(Response.status(Response.Status.NOT_FOUND).build())
+                    } else {
+                        // Scanning just the video's own path re-reads its metadata and sidecar subtitles
+                        taskService.createScanTask(listOf(videoFile.path), identity.principal.name, videoFile, timing = timing)
+                            .onItem().transform { task ->
+                                Response.status(Response.Status.CREATED).entity(task).build()
+                            }
+                    }
+                }
+        }
+    }
+
+    @POST
+    @Path("/generate/{videoId}")
+    @RolesAllowed("user")
+    fun createGenerationTask(
+        @PathParam("videoId") videoId: UUID,
+        request: CreateGenerationTaskRequest?
+    ): Uni<Response> {
+        return withTiming(request?.priority, request?.runAt) { timing ->
+            VideoFile.findById(videoId)
+                .onItem().transformToUni { videoFile ->
+                    if (videoFile == null) {
+                        Uni.createFrom().item(Response.status(Response.Status.NOT_FOUND).build())
+                    } else {
+                        taskService.createGenerationTask(
+                            videoFile,
+                            request?.language ?: "auto",
+                            identity.principal.name,
+                            timing = timing
+                        ).onItem().transform { task ->
                             Response.status(Response.Status.CREATED).entity(task).build()
                         }
+                    }
                 }
-            }
+        }
     }
 
     @POST
     @Path("/translate/{subtitleId}")
+    @RolesAllowed("user")
     fun createTranslationTask(
         @PathParam("subtitleId") subtitleId: UUID,
         request: CreateTranslationTaskRequest
     ): Uni<Response> {
-        return Subtitle.findById(subtitleId)
-            .onItem().transformToUni { subtitle ->
-                if (subtitle == null) {
-                    Uni.createFrom().item(Response.status(Response.Status.NOT_FOUND).build())
-                } else {
-                    taskService.createTranslationTask(
-                        subtitle,
-                        request.targetLanguage,
-                        request.provider,
-                        request.createdBy ?: "api"
-                    ).onItem().transform { task ->
-                        Response.status(Response.Status.CREATED).entity(task).build()
+        return withTiming(request.priority, request.runAt) { timing ->
+            Subtitle.findById(subtitleId)
+                .onItem().transformToUni { subtitle ->
+                    if (subtitle == null) {
+                        Uni.createFrom().item(Response.status(Response.Status.NOT_FOUND).build())
+                    } else {
+                        taskService.createTranslationTask(
+                            subtitle,
+                            request.targetLanguage,
+                            request.provider,
+                            identity.principal.name,
+                            timing = timing
+                        ).onItem().transform { task ->
+                            Response.status(Response.Status.CREATED).entity(task).build()
+                        }
                     }
                 }
-            }
+        }
     }
 
     @POST
     @Path("/batch")
+    @RolesAllowed("user")
     fun createBatchTask(request: CreateBatchTaskRequest): Uni<Response> {
-        val fileUuids = request.fileIds.mapNotNull { idStr ->
+        val videoUuids = request.videoIds.mapNotNull { idStr ->
             try {
                 UUID.fromString(idStr)
             } catch (e: IllegalArgumentException) {
@@ -126,25 +255,43 @@ class TaskResource {
             }
         }
         
-        if (fileUuids.size != request.fileIds.size) {
+        if (videoUuids.size != request.videoIds.size) {
             return Uni.createFrom().item(
                 Response.status(Response.Status.BAD_REQUEST)
                     .entity(mapOf("error" to "One or more invalid UUIDs provided"))
                     .build()
             )
         }
+
+        // "Select all" covers every video matching the list's search, not just the loaded pages
+        val videos = if (request.allMatching) {
+            VideoFile.search(request.search, Sort.by("title").and("id")).list()
+        } else if (videoUuids.isEmpty()) {
+            Uni.createFrom().item(emptyList<VideoFile>())
+        } else {
+            VideoFile.list("id IN ?1", videoUuids)
+        }
         
-        return taskService.createBatchTask(
-            request.operation,
-            fileUuids,
-            request.createdBy ?: "api"
-        ).onItem().transform { task ->
-            Response.status(Response.Status.CREATED).entity(task).build()
+        return withTiming(request.priority, request.runAt) { timing ->
+            videos.flatMap { selected ->
+                taskService.createBatchTask(
+                    request.type,
+                    selected,
+                    request.parameters,
+                    identity.principal.name,
+                    timing
+                )
+            }.onItem().transform { task ->
+                Response.status(Response.Status.CREATED).entity(task).build()
+            }.onFailure(IllegalArgumentException::class.java).recoverWithItem { e ->
+                Response.status(Response.Status.BAD_REQUEST).entity(mapOf("error" to e.message)).build()
+            }
         }
     }
 
     @POST
     @Path("/{id}/cancel")
+    @RolesAllowed("user")
     fun cancelTask(@PathParam("id") taskId: UUID): Uni<Response> {
         return taskService.cancelTask(taskId)
             .onItem().transform { cancelled ->
@@ -160,6 +307,7 @@ class TaskResource {
 
     @POST
     @Path("/{id}/retry")
+    @RolesAllowed("user")
     fun retryTask(@PathParam("id") taskId: UUID): Uni<Response> {
         return taskService.retryTask(taskId)
             .onItem().transform { task ->
@@ -173,8 +321,53 @@ class TaskResource {
             }
     }
 
+    @POST
+    @Path("/{id}/pause")
+    @RolesAllowed("user")
+    fun pauseTask(@PathParam("id") taskId: UUID): Uni<Response> {
+        return taskOrNotFound(taskService.pauseTask(taskId))
+    }
+
+    @POST
+    @Path("/{id}/resume")
+    @RolesAllowed("user")
+    fun resumeTask(@PathParam("id") taskId: UUID): Uni<Response> {
+        return taskOrNotFound(taskService.resumeTask(taskId))
+    }
+
+    @PATCH
+    @Path("/{id}")
+    @RolesAllowed("user")
+    fun updateTask(@PathParam("id") taskId: UUID, request: UpdateTaskRequest): Uni<Response> {
+        return taskOrNotFound(taskService.updatePriority(taskId, request.priority))
+    }
+
+    // Reads a file, so it runs on a worker thread rather than returning a Uni
+    @GET
+    @Path("/{id}/logs")
+    fun getTaskLog(@PathParam("id") taskId: UUID): TaskLog {
+        return taskLogService.read(taskId)
+    }
+
+    @POST
+    @Path("/{id}/clone")
+    @RolesAllowed("user")
+    fun cloneTask(@PathParam("id") taskId: UUID, request: CloneTaskRequest?): Uni<Response> {
+        return taskService.cloneTask(taskId, request?.parameters, request?.priority)
+            .onItem().transform { task ->
+                if (task != null) {
+                    Response.status(Response.Status.CREATED).entity(task).build()
+                } else {
+                    Response.status(Response.Status.NOT_FOUND).build()
+                }
+            }.onFailure(IllegalArgumentException::class.java).recoverWithItem { e ->
+                Response.status(Response.Status.BAD_REQUEST).entity(mapOf("error" to e.message)).build()
+            }
+    }
+
     @DELETE
     @Path("/cleanup")
+    @RolesAllowed("admin")
     fun cleanupOldTasks(@QueryParam("days") @DefaultValue("7") days: Int): Uni<Response> {
         return taskService.cleanupOldTasks(days)
             .onItem().transform { deletedCount ->
@@ -185,29 +378,88 @@ class TaskResource {
             }
     }
 
-    // Data classes for request bodies
+    private fun taskOrNotFound(update: Uni<Task?>): Uni<Response> {
+        return update
+            .onItem().transform { task ->
+                if (task != null) {
+                    Response.ok(task).build()
+                } else {
+                    Response.status(Response.Status.NOT_FOUND).build()
+                }
+            }.onFailure(IllegalArgumentException::class.java).recoverWithItem { e ->
+                Response.status(Response.Status.BAD_REQUEST).entity(mapOf("error" to e.message)).build()
+            }
+    }
+
+    // Every create request may carry a priority and a time to run at; a malformed time is rejected up front
+    private fun withTiming(priority: TaskPriority?, runAt: String?, create: (TaskTiming) -> Uni<Response>): Uni<Response> {
+        val instant = try {
+            runAt?.takeIf { it.isNotBlank() }?.let { Instant.parse(it) }
+        } catch (e: DateTimeParseException) {
+            return Uni.createFrom().item(
+                Response.status(Response.Status.BAD_REQUEST)
+                    .entity(mapOf("error" to "runAt must be an ISO-8601 instant such as 2026-01-31T22:00:00Z"))
+                    .build()
+            )
+        }
+        return create(TaskTiming(priority, instant))
+    }
+
+    // Data classes for request bodies. Unless noted, priority and runAt (an ISO-8601 instant) are
+    // optional on every create request; without them a task runs now at its type's usual priority.
+    // createdBy is ignored: tasks belong to the signed-in user, whose settings they run with.
     @Serializable
     data class CreateTaskRequest(
-        val createdBy: String? = null
+        val createdBy: String? = null,
+        val priority: TaskPriority? = null,
+        val runAt: String? = null
     )
 
     @Serializable
     data class CreateScanTaskRequest(
         val libraryPaths: List<String>,
-        val createdBy: String? = null
+        val createdBy: String? = null,
+        val priority: TaskPriority? = null,
+        val runAt: String? = null
+    )
+
+    @Serializable
+    data class CreateGenerationTaskRequest(
+        val language: String = "auto",
+        val createdBy: String? = null,
+        val priority: TaskPriority? = null,
+        val runAt: String? = null
     )
 
     @Serializable
     data class CreateTranslationTaskRequest(
         val targetLanguage: String = "el",
         val provider: String = "openai",
-        val createdBy: String? = null
+        val createdBy: String? = null,
+        val priority: TaskPriority? = null,
+        val runAt: String? = null
+    )
+
+    @Serializable
+    data class CloneTaskRequest(
+        val parameters: String? = null, // JSON object replacing the original parameters
+        val priority: TaskPriority? = null
     )
 
     @Serializable
     data class CreateBatchTaskRequest(
-        val operation: String,
-        val fileIds: List<String>,
-        val createdBy: String? = null
+        val type: TaskType,
+        val videoIds: List<String> = emptyList(),
+        val allMatching: Boolean = false,
+        val search: String? = null,
+        val parameters: Map<String, String> = emptyMap(),
+        val createdBy: String? = null,
+        val priority: TaskPriority? = null, // Applies to the per-video tasks; the batch itself stays low
+        val runAt: String? = null
+    )
+
+    @Serializable
+    data class UpdateTaskRequest(
+        val priority: TaskPriority
     )
 }
\ No newline at end of file
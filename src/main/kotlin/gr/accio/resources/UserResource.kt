@@ -0,0 +1,63 @@
+package gr.accio.resources
+
+import gr.accio.services.PasswordResetRequest
+import gr.accio.services.UserCreateRequest
+import gr.accio.services.UserService
+import gr.accio.services.UserUpdateRequest
+import gr.accio.services.UserView
+import io.quarkus.security.identity.SecurityIdentity
+import io.smallrye.mutiny.Uni
+import jakarta.annotation.security.RolesAllowed
+import jakarta.inject.Inject
+import jakarta.ws.rs.*
+import jakarta.ws.rs.core.MediaType
+import jakarta.ws.rs.core.Response
+import org.eclipse.microprofile.openapi.annotations.responses.APIResponseSchema
+import java.util.UUID
+
+@Path("/api/users")
+@Produces(MediaType.APPLICATION_JSON)
+@Consumes(MediaType.APPLICATION_JSON)
+@RolesAllowed("admin")
+class UserResource @Inject constructor(
+    private val userService: UserService,
+    private val identity: SecurityIdentity,
+) {
+
+    @GET
+    fun getUsers(): Uni<List<UserView>> {
+        return userService.listUsers()
+    }
+
+    @POST
+    @APIResponseSchema(UserView::class, responseCode = "201")
+    fun createUser(request: UserCreateRequest): Uni<Response> {
+        return userService.createUser(request)
+            .map { Response.status(Response.Status.CREATED).entity(it).build() }
+            .onFailure(IllegalArgumentException::class.java).recoverWithItem { e -> badRequest(e.message) }
+    }
+
+    @PATCH
+    @Path("/{id}")
+    @APIResponseSchema(UserView::class)
+    fun updateUser(@PathParam("id") id: UUID, request: UserUpdateRequest): Uni<Response> {
+        return userService.updateUser(id, request, identity.principal.name)
+            .map { found(it) }
+            .onFailure(IllegalArgumentException::class.java).recoverWithItem { e -> badRequest(e.message) }
+    }
+
+    @POST
+    @Path("/{id}/password")
+    @APIResponseSchema(UserView::class)
+    fun resetPassword(@PathParam("id") id: UUID, request: PasswordResetRequest): Uni<Response> {
+        return userService.resetPassword(id, request)
+            .map { found(it) }
+            .onFailure(IllegalArgumentException::class.java).recoverWithItem { e -> badRequest(e.message) }
+    }
+
+    private fun found(user: UserView?): Response =
+        if (user != null) Response.ok(user).build() else Response.status(Response.Status.NOT_FOUND).build()
+
+    private fun badRequest(message: String?): Response =
+        Response.status(Response.Status.BAD_REQUEST).entity(mapOf("error" to message)).build()
+}
@@ -2,6 +2,9 @@ package gr.accio.scheduler
 
 import gr.accio.models.Task
 import gr.accio.models.TaskStatus
+import gr.accio.services.NotificationService
+import gr.accio.services.TaskLogService
+import gr.accio.services.TaskProcessRegistry
 import gr.accio.services.TaskUpdateBroadcaster
 import io.quarkus.logging.Log
 import io.smallrye.mutiny.Uni
@@ -24,6 +27,15 @@ class TaskExecutionJob : Job {
     @Inject
     lateinit var taskUpdateBroadcaster: TaskUpdateBroadcaster
 
+    @Inject
+    lateinit var notificationService: NotificationService
+
+    @Inject
+    lateinit var taskLogService: TaskLogService
+
+    @Inject
+    lateinit var taskProcessRegistry: TaskProcessRegistry
+
     override fun execute(context: JobExecutionContext) {
         val jobData = context.jobDetail.jobDataMap
         val taskIdStr = jobData.getString("taskId")
@@ -49,11 +61,16 @@ class TaskExecutionJob : Job {
         try {
             val timeout = Duration.ofHours(24)
             
-            Task.findById(taskId)
+            // With its relations, so executeTask knows the video, subtitle and who queued the task
+            Task.findByIdWithRelations(taskId)
                 .onItem().transformToUni { task ->
                     if (task == null) {
                         Log.error("Task $taskId not found in database")
                         Uni.createFrom().failure<Void>(IllegalArgumentException("Task not found: $taskId"))
+                    } else if (task.status == TaskStatus.PAUSED || task.status == TaskStatus.CANCELLED) {
+                        // Paused or cancelled while its trigger was already firing
+                        Log.info("Skipping task $taskId, it is ${task.status}")
+                        Uni.createFrom().voidItem()
                     } else {
                         executeTaskWithTracking(task, context)
                     }
@@ -90,6 +107,8 @@ class TaskExecutionJob : Job {
         } finally {
             // Unregister the running task
             taskScheduler.unregisterRunningTask(taskId)
+            taskProcessRegistry.forget(taskId)
+            taskLogService.close(taskId)
         }
     }
 
@@ -99,8 +118,12 @@ class TaskExecutionJob : Job {
                 // Execute the actual task
                 taskScheduler.executeTask(task)
                     .onItem().transformToUni { 
-                        // Task completed successfully
-                        Log.info("Task ${task.id} completed successfully")
+                        if (task.status == TaskStatus.RUNNING) {
+                            // Batches and pipelines only start here; TaskScheduler.advanceParentTasks finishes them
+                            Log.info("Task ${task.id} started its child tasks")
+                        } else {
+                            Log.info("Task ${task.id} completed successfully")
+                        }
                         Uni.createFrom().voidItem()
                     }
                     .onFailure().recoverWithUni { error ->
@@ -109,6 +132,9 @@ class TaskExecutionJob : Job {
                         updateTaskError(task, error)
                     }
             }
+            .onItem().transformToUni {
+                notifyOutcome(task)
+            }
             .onItem().transformToUni {
                 // Update heartbeat one final time
                 updateHeartbeat(task)
@@ -147,6 +173,7 @@ class TaskExecutionJob : Job {
     private fun updateTaskError(task: Task, error: Throwable): Uni<Void> {
         task.status = TaskStatus.FAILED
         task.errorMessage = error.message ?: "Unknown error occurred"
+        taskLogService.append(task.id!!, "Task failed: ${task.errorMessage}")
         task.completedAt = Instant.now()
         task.lastHeartbeat = Instant.now()
         
@@ -161,6 +188,15 @@ class TaskExecutionJob : Job {
             .replaceWithVoid()
     }
 
+    // A notification that cannot be stored must not fail the task it reports on
+    private fun notifyOutcome(task: Task): Uni<Void> {
+        return notificationService.notifyTaskFinished(task.id!!)
+            .onFailure().recoverWithItem { error ->
+                Log.warn("Could not store the notification for task ${task.id}: ${error.message}")
+                null
+            }
+    }
+
     private fun updateHeartbeat(task: Task): Uni<Void> {
         task.lastHeartbeat = Instant.now()
         return task.persistAndFlush<Task>()
@@ -4,14 +4,20 @@ import gr.accio.models.Task
 import gr.accio.models.TaskStatus
 import gr.accio.models.TaskType
 import gr.accio.models.VideoFile
+import gr.accio.services.NotificationService
+import gr.accio.services.PipelineService
 import gr.accio.services.ScanService
+import gr.accio.services.ScheduleService
 import gr.accio.services.SyncService
 import gr.accio.services.TranslateService
 import gr.accio.services.SubtitleExtractionService
 import gr.accio.services.SubtitleGenerationService
+import gr.accio.services.TaskLogService
+import gr.accio.services.TaskProcessRegistry
 import gr.accio.services.TaskUpdateBroadcaster
 import io.quarkus.logging.Log
 import io.quarkus.scheduler.Scheduled
+import io.smallrye.mutiny.Multi
 import io.smallrye.mutiny.Uni
 import jakarta.enterprise.context.ApplicationScoped
 import jakarta.inject.Inject
@@ -20,10 +26,12 @@ import kotlinx.serialization.json.Json
 import kotlinx.serialization.json.jsonObject
 import kotlinx.serialization.json.jsonPrimitive
 import org.quartz.*
+import java.time.Duration
 import java.time.Instant
 import java.time.LocalDateTime
 import java.util.*
 import java.util.concurrent.ConcurrentHashMap
+import java.util.concurrent.atomic.AtomicBoolean
 
 @ApplicationScoped
 class TaskScheduler {
@@ -58,10 +66,29 @@ class TaskScheduler {
     @Inject
     lateinit var subtitleGenerationService: SubtitleGenerationService
 
+    @Inject
+    lateinit var taskProcessRegistry: TaskProcessRegistry
+
+    @Inject
+    lateinit var scheduleService: ScheduleService
+
+    @Inject
+    lateinit var pipelineService: PipelineService
+
+    @Inject
+    lateinit var notificationService: NotificationService
+
+    @Inject
+    lateinit var taskLogService: TaskLogService
+
     private val runningTasks = ConcurrentHashMap<UUID, JobExecutionContext>()
 
+    // Set while advanceParentTasks is at work, so a slow check is not overlapped by the next one
+    private val advancingParents = AtomicBoolean(false)
+
     /**
-     * Schedule a new task for execution
+     * Schedule a new task for execution, at its scheduled time if that is still ahead. When more
+     * tasks are due than there are worker threads, higher priorities are started first.
      */
     fun scheduleTask(task: Task): Uni<Boolean> {
         return try {
@@ -71,13 +98,15 @@ class TaskScheduler {
                 .usingJobData("taskType", task.type.name)
                 .build()
 
+            val runAt = task.scheduledAt?.takeIf { it.isAfter(Instant.now()) }
             val trigger = TriggerBuilder.newTrigger()
                 .withIdentity("trigger-${task.id}", "tasks")
-                .startNow()
+                .withPriority(task.priority.ordinal + 1)
+                .let { if (runAt != null) it.startAt(Date.from(runAt)) else it.startNow() }
                 .build()
 
             scheduler.scheduleJob(jobDetail, trigger)
-            Log.info("Scheduled task ${task.id} of type ${task.type}")
+            Log.info("Scheduled task ${task.id} of type ${task.type}" + if (runAt != null) " for $runAt" else "")
             Uni.createFrom().item(true)
         } catch (e: Exception) {
             Log.error("Failed to schedule task ${task.id}", e)
@@ -101,6 +130,28 @@ class TaskScheduler {
         }
     }
 
+    /**
+     * Take a task that has not started yet off the queue. False if it was not queued.
+     */
+    fun unscheduleTask(taskId: UUID): Boolean {
+        return try {
+            scheduler.deleteJob(JobKey.jobKey(taskId.toString(), "tasks"))
+        } catch (e: SchedulerException) {
+            Log.error("Failed to unschedule task $taskId", e)
+            false
+        }
+    }
+
+    /**
+     * Queue a task again, so a changed priority or time takes effect
+     */
+    fun rescheduleTask(task: Task): Uni<Boolean> {
+        unscheduleTask(task.id!!)
+        return scheduleTask(task)
+    }
+
+    fun isRunning(taskId: UUID): Boolean = runningTasks.containsKey(taskId)
+
     /**
      * Get status of all running tasks
      */
@@ -116,6 +167,8 @@ class TaskScheduler {
         Log.debug("Checking for stuck tasks...")
         
         Task.findStuckTasks()
+            // A suspended process sends no heartbeats but is not stuck
+            .map { tasks -> tasks.filterNot { taskProcessRegistry.isSuspended(it.id!!) } }
             .onItem().transformToUni { tasks ->
                 if (tasks.isNotEmpty()) {
                     Log.info("Found ${tasks.size} stuck tasks, resuming...")
@@ -141,6 +194,72 @@ class TaskScheduler {
             )
     }
 
+    /**
+     * Queue deferred tasks whose time has come but that have no job, such as those scheduled
+     * before a restart, since jobs are only kept in memory
+     */
+    @Scheduled(every = "60s", delayed = "15s")
+    fun scheduleDueTasks() {
+        Task.findScheduled()
+            .map { tasks -> tasks.filterNot { scheduler.checkExists(JobKey.jobKey(it.id.toString(), "tasks")) } }
+            .onItem().transformToUni { tasks ->
+                if (tasks.isNotEmpty()) Log.info("Queueing ${tasks.size} deferred tasks that are due")
+                Multi.createFrom().iterable(tasks)
+                    .onItem().transformToUniAndConcatenate { scheduleTask(it) }
+                    .collect().asList()
+            }
+            .subscribe().with(
+                { Log.debug("Due task check completed") },
+                { error -> Log.error("Error queueing due tasks", error) }
+            )
+    }
+
+    /**
+     * Move running batches and pipelines along: roll their children's progress up, queue pipeline
+     * steps whose dependencies have finished, and finish each parent once all of its children have.
+     * A parent's job only starts it and returns, so parents never hold the worker threads their
+     * children are waiting for.
+     */
+    @Scheduled(every = "5s", delayed = "10s")
+    fun advanceParentTasks() {
+        if (!advancingParents.compareAndSet(false, true)) return
+
+        Task.findRunningOfTypes(listOf(TaskType.BATCH_PROCESS, TaskType.PIPELINE))
+            .onItem().transformToMulti { tasks -> Multi.createFrom().iterable(tasks) }
+            .onItem().transformToUniAndConcatenate { task ->
+                val advanced = if (task.type == TaskType.PIPELINE) advancePipeline(task) else advanceBatch(task)
+                advanced
+                    // One broken parent must not hold up the others
+                    .onFailure().recoverWithUni { error ->
+                        Log.error("Error advancing task ${task.id}", error)
+                        Uni.createFrom().voidItem()
+                    }
+            }
+            .collect().asList()
+            .subscribe().with(
+                {
+                    advancingParents.set(false)
+                    Log.debug("Parent task check completed")
+                },
+                { error ->
+                    advancingParents.set(false)
+                    Log.error("Error advancing parent tasks", error)
+                }
+            )
+    }
+
+    /**
+     * Queue the tasks of recurring schedules that are due
+     */
+    @Scheduled(every = "30s", delayed = "20s")
+    fun runDueSchedules() {
+        scheduleService.runDue()
+            .subscribe().with(
+                { count -> if (count > 0) Log.info("Ran $count due schedules") else Log.debug("Schedule check completed") },
+                { error -> Log.error("Error running due schedules", error) }
+            )
+    }
+
     /**
      * Clean up completed tasks older than 24 hours
      */
@@ -177,7 +296,7 @@ class TaskScheduler {
         return when (task.type) {
             TaskType.SCAN_LIBRARY -> {
                 val paths = parseLibraryPaths(task.parameters)
-                scanService.scanLibrary(paths)
+                scanService.scanLibrary(paths, task.id)
                     .onItem().transformToUni { results ->
                         updateTaskResult(task, mapOf(
                             "scannedFiles" to results.size,
@@ -188,7 +307,7 @@ class TaskScheduler {
             
             TaskType.SYNC_SUBTITLES -> {
                 task.video?.let { videoFile ->
-                    syncService.sync(videoFile.id!!)
+                    syncService.sync(videoFile.id!!, task.id)
                         .onItem().transformToUni { result ->
                             updateTaskResult(task, mapOf(
                             "syncResult" to (result as Any),
@@ -201,10 +320,12 @@ class TaskScheduler {
             TaskType.TRANSLATE_SUBTITLES -> {
                 task.subtitle?.let { subtitle ->
                     val params = parseTranslationParams(task.parameters)
+                    // Reviewed against the settings of whoever queued it; "system" tasks use the defaults
                     translateService.translate(
                         subtitle.id!!,
                         params["targetLanguage"] ?: "el",
-                        params["provider"] ?: "openai"
+                        params["provider"] ?: "openai",
+                        task.createdBy?.username
                     ).onItem().transformToUni { result ->
                         updateTaskResult(task, mapOf(
                             "translationResult" to (result as Any),
@@ -216,9 +337,13 @@ class TaskScheduler {
             }
             
             TaskType.BATCH_PROCESS -> {
-                // Handle batch processing of multiple files
-                val params = parseBatchParams(task.parameters)
-                executeBatchProcess(task, params)
+                // The per-video child tasks were queued with the batch; advanceParentTasks follows them to the end
+                rollUpBatch(task).replaceWithVoid()
+            }
+
+            TaskType.PIPELINE -> {
+                // The first steps are queued now; advanceParentTasks queues the rest as their dependencies finish
+                pipelineService.start(task)
             }
             
             // Add missing task types with default implementations
@@ -318,20 +443,6 @@ class TaskScheduler {
         }
     }
 
-    private fun parseBatchParams(parameters: String?): Map<String, Any> {
-        return try {
-            if (parameters.isNullOrBlank()) return emptyMap()
-            val json = Json.parseToJsonElement(parameters).jsonObject
-            mapOf(
-                "operation" to (json["operation"]?.jsonPrimitive?.content ?: ""),
-                "fileIds" to (json["fileIds"]?.jsonObject?.values?.map { it.jsonPrimitive.content } ?: emptyList<String>())
-            )
-        } catch (e: Exception) {
-            Log.warn("Failed to parse batch parameters: $parameters", e)
-            emptyMap()
-        }
-    }
-
     private fun parseGenerationParams(parameters: String?): Map<String, String> {
         return try {
             if (parameters.isNullOrBlank()) return emptyMap()
@@ -383,8 +494,14 @@ class TaskScheduler {
                 healthResults["resources"] = resourcesHealth
                 
                 // Determine overall health status
-                val overallHealthy = listOf(dbHealth, fsHealth, toolsHealth, resourcesHealth)
-                     .all { (it as Map<String, Any>)["status"] == "healthy" }
+                val unhealthy = mapOf(
+                    "database" to dbHealth,
+                    "filesystem" to fsHealth,
+                    "tools" to toolsHealth,
+                    "resources" to resourcesHealth
+                ).filterValues { it["status"] != "healthy" }.keys
+                val overallHealthy = unhealthy.isEmpty()
+                healthResults["unhealthy"] = unhealthy.joinToString(",") // Read by NotificationService
                 
                 healthResults["overall"] = mapOf(
                     "status" to if (overallHealthy) "healthy" else "unhealthy",
@@ -532,28 +649,135 @@ class TaskScheduler {
         }
     }
 
-    private fun executeBatchProcess(task: Task, params: Map<String, Any>): Uni<Void> {
-        val operation = params["operation"] as? String ?: ""
-        val fileIds = params["fileIds"] as? List<String> ?: emptyList()
-        
-        Log.info("Executing batch operation '$operation' on ${fileIds.size} files")
-        
-        return when (operation) {
-            "sync_all" -> {
-                // Batch sync multiple video files
-                Uni.createFrom().voidItem() // Placeholder for batch sync implementation
+    /**
+     * Keep the batch's progress at the average of its children's, and finish it once all of them
+     * have. The batch fails when any child failed, so it can be spotted in the task list.
+     */
+    private fun advanceBatch(task: Task): Uni<Void> {
+        return rollUpBatch(task).flatMap { rollUp ->
+            when {
+                !rollUp.finished -> Uni.createFrom().voidItem()
+                rollUp.cancelled -> {
+                    // Cancelling the batch already cancelled its children; keep the status it was given
+                    Log.info("Batch ${task.id} was cancelled")
+                    Uni.createFrom().voidItem()
+                }
+                else -> {
+                    task.result = encodeBatchResult(rollUp)
+                    val failure = if (rollUp.failed > 0) "${rollUp.failed} of ${rollUp.total} videos failed" else null
+                    finishParentTask(task, failure)
+                }
             }
-            "translate_all" -> {
-                // Batch translate multiple subtitles
-                Uni.createFrom().voidItem() // Placeholder for batch translation implementation
+        }
+    }
+
+    private fun advancePipeline(task: Task): Uni<Void> {
+        return pipelineService.advance(task).flatMap { progress ->
+            when {
+                !progress.finished -> Uni.createFrom().voidItem()
+                progress.cancelled -> {
+                    // Cancelling the pipeline already cancelled its steps; keep the status it was given
+                    Log.info("Pipeline ${task.id} was cancelled")
+                    Uni.createFrom().voidItem()
+                }
+                else -> finishParentTask(task, if (progress.failed) progress.message else null)
             }
-            else -> {
-                Log.warn("Unknown batch operation: $operation")
-                Uni.createFrom().voidItem()
+        }
+    }
+
+    /**
+     * Finish a batch or pipeline task the way TaskExecutionJob finishes any other task, including its
+     * notification. [failure] is the error message of a task that failed.
+     */
+    private fun finishParentTask(task: Task, failure: String?): Uni<Void> {
+        val taskId = task.id!!
+        val now = Instant.now()
+        task.status = if (failure == null) TaskStatus.COMPLETED else TaskStatus.FAILED
+        task.errorMessage = failure
+        task.completedAt = now
+        task.lastHeartbeat = now
+        if (failure == null) {
+            task.progress = 100
+            task.progressPercentage = 100
+            Log.info("Task $taskId completed successfully")
+        } else {
+            Log.error("Task $taskId failed: $failure")
+            taskLogService.append(taskId, "Task failed: $failure")
+            taskLogService.close(taskId)
+        }
+
+        return task.persistAndFlush<Task>()
+            .invoke { saved -> taskUpdateBroadcaster.broadcastTaskUpdate(saved) }
+            .flatMap {
+                // A notification that cannot be stored must not undo the outcome it reports on
+                notificationService.notifyTaskFinished(taskId).onFailure().recoverWithItem { error ->
+                    Log.warn("Could not store the notification for task $taskId: ${error.message}")
+                    null
+                }
+            }
+    }
+
+    private fun rollUpBatch(task: Task): Uni<BatchRollUp> {
+        val batchId = task.id!!
+        return Task.count("id = ?1 AND status = ?2", batchId, TaskStatus.CANCELLED).flatMap { cancelled ->
+            Task.findByParent(batchId).flatMap { children ->
+                val rollUp = BatchRollUp(
+                    total = children.size,
+                    completed = children.count { it.status == TaskStatus.COMPLETED },
+                    failed = children.count { it.status == TaskStatus.FAILED },
+                    cancelledChildren = children.count { it.status == TaskStatus.CANCELLED },
+                    progress = if (children.isEmpty()) 100 else children.sumOf { child ->
+                        if (child.status in BATCH_DONE_STATUSES) 100 else child.progressPercentage.coerceIn(0, 100)
+                    } / children.size,
+                    cancelled = cancelled > 0
+                )
+                if (rollUp.cancelled) {
+                    return@flatMap Uni.createFrom().item(rollUp)
+                }
+
+                val message = "${rollUp.done} of ${rollUp.total} done" +
+                    if (rollUp.failed > 0) ", ${rollUp.failed} failed" else ""
+                // Children can go minutes without progress; the heartbeat keeps the batch from looking stuck
+                val heartbeatDue = task.lastHeartbeat?.isBefore(Instant.now().minus(BATCH_HEARTBEAT_INTERVAL)) ?: true
+                if (task.progressPercentage == rollUp.progress && task.progressMessage == message && !heartbeatDue) {
+                    return@flatMap Uni.createFrom().item(rollUp)
+                }
+                task.progressPercentage = rollUp.progress
+                task.progress = rollUp.progress
+                task.progressMessage = message
+                task.lastHeartbeat = Instant.now()
+                task.persistAndFlush<Task>()
+                    .onItem().invoke { updatedTask -> taskUpdateBroadcaster.broadcastTaskUpdate(updatedTask) }
+                    .map { rollUp }
             }
         }
     }
 
+    private fun encodeBatchResult(rollUp: BatchRollUp): String =
+        Json.encodeToString(
+            kotlinx.serialization.json.JsonObject.serializer(),
+            kotlinx.serialization.json.JsonObject(rollUp.toResult().mapValues { kotlinx.serialization.json.JsonPrimitive(it.value) })
+        )
+
+    private data class BatchRollUp(
+        val total: Int,
+        val completed: Int,
+        val failed: Int,
+        val cancelledChildren: Int,
+        val progress: Int,
+        val cancelled: Boolean
+    ) {
+        val done get() = completed + failed + cancelledChildren
+        val finished get() = cancelled || done >= total
+
+        fun toResult(): Map<String, Int> = mapOf(
+            "total" to total,
+            "completed" to completed,
+            "failed" to failed,
+            "cancelled" to cancelledChildren
+        )
+    }
+
     private fun updateTaskResult(task: Task, result: Map<String, Any>): Uni<Void> {
         return try {
             task.result = Json.encodeToString(kotlinx.serialization.json.JsonObject.serializer(), 
@@ -985,4 +1209,9 @@ class TaskScheduler {
             Log.warn("Error during backup cleanup", e)
         }
     }
-}
\ No newline at end of file
+
+    companion object {
+        private val BATCH_HEARTBEAT_INTERVAL: Duration = Duration.ofMinutes(1)
+        private val BATCH_DONE_STATUSES = setOf(TaskStatus.COMPLETED, TaskStatus.FAILED, TaskStatus.CANCELLED)
+    }
+}
@@ -0,0 +1,166 @@
+package gr.accio.services
+
+import gr.accio.auth.SecretTokens
+import gr.accio.models.ApiToken
+import gr.accio.models.ApiTokenScope
+import gr.accio.models.User
+import gr.accio.models.UserRole
+import io.quarkus.hibernate.reactive.panache.common.WithTransaction
+import io.quarkus.logging.Log
+import io.smallrye.mutiny.Uni
+import jakarta.enterprise.context.ApplicationScoped
+import kotlinx.serialization.Serializable
+import java.time.Duration
+import java.time.Instant
+import java.util.UUID
+
+/**
+ * Personal API tokens, created and revoked by their owner in Settings. A token acts as its owner
+ * with the lower of the owner's role and the token's scope, so demoting a user narrows their tokens too.
+ */
+@ApplicationScoped
+class ApiTokenService {
+
+    fun listTokens(username: String): Uni<List<ApiTokenView>> {
+        return ApiToken.listForUser(username).map { tokens -> tokens.map { ApiTokenView.of(it) } }
+    }
+
+    /**
+     * Create a token for [username]. The secret is in the result and nowhere else: only its hash is stored.
+     */
+    @WithTransaction
+    fun createToken(username: String, request: ApiTokenCreateRequest): Uni<ApiTokenCreated> {
+        val name = request.name.trim()
+        require(name.isNotEmpty() && name.length <= MAX_NAME_LENGTH) { "Token names are 1 to $MAX_NAME_LENGTH characters" }
+        require(request.expiresInDays in 1..MAX_EXPIRY_DAYS) { "Tokens expire after 1 to $MAX_EXPIRY_DAYS days" }
+
+        return User.findByUsername(username).flatMap { user ->
+            require(user != null && user.isActive) { "No active account $username" }
+            require(ROLE_RANK.getValue(request.scope.role) <= ROLE_RANK.getValue(user.role)) {
+                "A ${user.role} account cannot create ${request.scope} tokens"
+            }
+            ApiToken.countForUser(username)
+        }.flatMap { count ->
+            require(count < MAX_TOKENS_PER_USER) { "You can have at most $MAX_TOKENS_PER_USER tokens, revoke one first" }
+            val secret = TOKEN_PREFIX + SecretTokens.generate()
+            ApiToken().apply {
+                this.username = username
+                this.name = name
+                tokenHash = SecretTokens.hash(secret)
+                prefix = secret.take(DISPLAYED_PREFIX_LENGTH)
+                scope = request.scope
+                expiresAt = Instant.now().plus(Duration.ofDays(request.expiresInDays.toLong()))
+            }.persist<ApiToken>().map { token ->
+                Log.info("User $username created the ${token.scope} API token \"${token.name}\"")
+                ApiTokenCreated(ApiTokenView.of(token), secret)
+            }
+        }
+    }
+
+    @WithTransaction
+    fun revokeToken(id: UUID, username: String): Uni<Boolean> {
+        return ApiToken.findForUser(id, username).flatMap { token ->
+            if (token == null) {
+                Uni.createFrom().item(false)
+            } else {
+                Log.info("User $username revoked the API token \"${token.name}\"")
+                token.delete().map { true }
+            }
+        }
+    }
+
+    /**
+     * Look up the token a request carries. Null when it is unknown or expired, or its owner was
+     * deactivated. Use is recorded at most once a minute, so busy scripts do not write on every request.
+     */
+    @WithTransaction
+    fun authenticate(secret: String, clientAddress: String?): Uni<ApiTokenUse?> {
+        val now = Instant.now()
+        return ApiToken.findByHash(SecretTokens.hash(secret)).flatMap { token ->
+            if (token == null || token.expiresAt.isBefore(now)) {
+                Uni.createFrom().nullItem()
+            } else {
+                User.findByUsername(token.username).flatMap { user ->
+                    if (user == null || !user.isActive) {
+                        Uni.createFrom().nullItem()
+                    } else {
+                        val role = if (ROLE_RANK.getValue(token.scope.role) < ROLE_RANK.getValue(user.role)) token.scope.role else user.role
+                        val recentlyUsed = token.lastUsedAt?.isAfter(now.minus(USE_RECORD_INTERVAL)) == true
+                        val record: Uni<ApiToken> = if (recentlyUsed) {
+                            Uni.createFrom().item(token)
+                        } else {
+                            token.lastUsedAt = now
+                            token.lastUsedFrom = clientAddress?.take(64)
+                            token.persist()
+                        }
+                        record.map { ApiTokenUse(it.id!!, user.username, role, it.scope) }
+                    }
+                }
+            }
+        }
+    }
+
+    companion object {
+        // Tells API tokens apart from JWTs in the Authorization header
+        const val TOKEN_PREFIX = "skp_"
+        const val MAX_EXPIRY_DAYS = 365
+        const val MAX_TOKENS_PER_USER = 25
+        private const val MAX_NAME_LENGTH = 100
+        private const val DISPLAYED_PREFIX_LENGTH = 12
+        private val USE_RECORD_INTERVAL = Duration.ofMinutes(1)
+
+        // Each role can do everything the roles below it can
+        private val ROLE_RANK = mapOf(UserRole.VIEWER to 0, UserRole.USER to 1, UserRole.ADMIN to 2)
+    }
+}
+
+/**
+ * Who a request authenticated by an API token acts as, see ApiTokenIdentityProvider.
+ */
+data class ApiTokenUse(
+    val tokenId: UUID,
+    val username: String,
+    val role: UserRole,
+    val scope: ApiTokenScope
+)
+
+@Serializable
+data class ApiTokenView(
+    val id: String,
+    val name: String,
+    val scope: ApiTokenScope,
+    val prefix: String,
+    val expiresAt: String,
+    val lastUsedAt: String?,
+    val lastUsedFrom: String?,
+    val createdAt: String,
+    val expired: Boolean
+) {
+    companion object {
+        fun of(token: ApiToken): ApiTokenView =
+            ApiTokenView(
+                id = token.id.toString(),
+                name = token.name,
+                scope = token.scope,
+                prefix = token.prefix,
+                expiresAt = token.expiresAt.toString(),
+                lastUsedAt = token.lastUsedAt?.toString(),
+                lastUsedFrom = token.lastUsedFrom,
+                createdAt = token.createdAt.toString(),
+                expired = token.expiresAt.isBefore(Instant.now())
+            )
+    }
+}
+
+@Serializable
+data class ApiTokenCreateRequest(
+    val name: String,
+    val scope: ApiTokenScope = ApiTokenScope.READ_ONLY,
+    val expiresInDays: Int = 90
+)
+
+@Serializable
+data class ApiTokenCreated(
+    val token: ApiTokenView,
+    val secret: String
+)
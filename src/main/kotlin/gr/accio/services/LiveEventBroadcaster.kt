@@ -0,0 +1,78 @@
+package gr.accio.services
+
+import gr.accio.models.NotificationKind
+import gr.accio.models.NotificationLevel
+import io.quarkus.logging.Log
+import io.smallrye.mutiny.Multi
+import io.smallrye.mutiny.operators.multi.processors.BroadcastProcessor
+import jakarta.enterprise.context.ApplicationScoped
+import java.time.Instant
+import java.util.UUID
+
+/**
+ * Live events that are not task state changes: scan progress, process output and user-facing notifications.
+ * Task updates keep going through [TaskUpdateBroadcaster].
+ */
+sealed class LiveEvent {
+    data class ScanProgress(
+        val taskId: UUID?,
+        val libraryPath: String,
+        val scanned: Int,
+        val total: Int,
+        val currentFile: String? = null,
+        val completed: Boolean = false
+    ) : LiveEvent()
+
+    data class TaskLog(
+        val taskId: UUID,
+        val lines: List<TaskLogLine>
+    ) : LiveEvent()
+
+    /** A stored notification for one user, see [NotificationService]. */
+    data class Notification(
+        val id: UUID,
+        val username: String,
+        val kind: NotificationKind,
+        val level: NotificationLevel,
+        val title: String,
+        val message: String,
+        val taskId: UUID? = null,
+        val videoId: UUID? = null,
+        val createdAt: Instant
+    ) : LiveEvent()
+}
+
+@ApplicationScoped
+class LiveEventBroadcaster {
+
+    private val processor = BroadcastProcessor.create<LiveEvent>()
+
+    /**
+     * Publish progress of a library scan
+     */
+    fun publishScanProgress(progress: LiveEvent.ScanProgress) {
+        processor.onNext(progress)
+    }
+
+    /**
+     * Publish new lines of a task's process log
+     */
+    fun publishTaskLog(log: LiveEvent.TaskLog) {
+        processor.onNext(log)
+    }
+
+    /**
+     * Publish a notification to the sessions of its recipient
+     */
+    fun publishNotification(notification: LiveEvent.Notification) {
+        Log.debug("Publishing ${notification.level} notification: ${notification.title}")
+        processor.onNext(notification)
+    }
+
+    /**
+     * Subscribe to the live event stream
+     */
+    fun stream(): Multi<LiveEvent> {
+        return processor.onFailure().retry().indefinitely()
+    }
+}
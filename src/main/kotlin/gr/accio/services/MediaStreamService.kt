@@ -0,0 +1,193 @@
+package gr.accio.services
+
+import gr.accio.models.Subtitle
+import gr.accio.models.VideoFile
+import io.quarkus.logging.Log
+import io.smallrye.mutiny.Multi
+import io.smallrye.mutiny.infrastructure.Infrastructure
+import jakarta.enterprise.context.ApplicationScoped
+import jakarta.inject.Inject
+import kotlinx.datetime.LocalTime
+import kotlinx.serialization.Serializable
+import org.eclipse.microprofile.config.inject.ConfigProperty
+import java.io.File
+import java.io.IOException
+import java.util.Locale
+
+@ApplicationScoped
+class MediaStreamService {
+
+    @ConfigProperty(name = "tools.ffmpeg", defaultValue = "ffmpeg")
+    lateinit var ffmpegPath: String
+
+    @Inject
+    lateinit var subtitleParser: SubtitleParser
+
+    /**
+     * Decide whether a browser can play the file as it is or needs the transcoded stream.
+     */
+    fun playbackInfo(video: VideoFile): PlaybackInfo {
+        val extension = File(video.path).extension.lowercase()
+        val codec = video.codec?.lowercase()
+        val reason = when {
+            extension !in DIRECT_CONTAINERS -> "The ${extension.ifEmpty { "unknown" }} container is not supported by browsers"
+            codec != null && codec !in DIRECT_CODECS -> "The $codec codec is not supported by browsers"
+            else -> null
+        }
+
+        return PlaybackInfo(
+            videoId = video.id.toString(),
+            direct = reason == null,
+            mimeType = mimeType(extension),
+            transcodeReason = reason,
+            duration = video.duration
+        )
+    }
+
+    fun mimeType(extension: String): String = MIME_TYPES[extension.lowercase()] ?: "application/octet-stream"
+
+    /**
+     * Resolve a single `bytes=` range against the file length. Returns null when the
+     * range cannot be satisfied; ranges the server does not understand are treated as
+     * a request for the whole file, as the HTTP spec allows, and come back with
+     * [ByteRange.partial] false so they are answered with a plain 200.
+     */
+    fun resolveRange(header: String?, length: Long): ByteRange? {
+        val whole = ByteRange(0, length - 1, partial = false)
+        val match = header?.let { RANGE_PATTERN.matchEntire(it.trim()) } ?: return whole
+        val (from, to) = match.destructured
+
+        val range = when {
+            from.isEmpty() && to.isEmpty() -> return whole
+            // Suffix range: the last N bytes
+            from.isEmpty() -> ByteRange((length - to.toLong()).coerceAtLeast(0), length - 1)
+            to.isEmpty() -> ByteRange(from.toLong(), length - 1)
+            else -> ByteRange(from.toLong(), minOf(to.toLong(), length - 1))
+        }
+        return range.takeIf { it.start <= it.end && it.start < length }
+    }
+
+    /**
+     * Transcode a video to a low-bitrate fragmented MP4 that any browser can play,
+     * starting at the given offset. ffmpeg is stopped as soon as the client goes away.
+     */
+    fun transcode(video: VideoFile, startSeconds: Double): Multi<ByteArray> {
+        val command = listOf(
+            ffmpegPath,
+            "-hide_banner",
+            "-loglevel", "error",
+            "-ss", String.format(Locale.ROOT, "%.3f", startSeconds.coerceAtLeast(0.0)),
+            "-i", video.path,
+            "-map", "0:v:0",
+            "-map", "0:a:0?",
+            "-vf", "scale=-2:'min($TRANSCODE_HEIGHT,ih)'",
+            "-c:v", "libx264",
+            "-preset", "veryfast",
+            "-b:v", "800k",
+            "-maxrate", "1000k",
+            "-bufsize", "2000k",
+            "-c:a", "aac",
+            "-b:a", "96k",
+            "-ac", "2",
+            "-movflags", "frag_keyframe+empty_moov+default_base_moof",
+            "-f", "mp4",
+            "pipe:1"
+        )
+
+        return Multi.createFrom().emitter { emitter ->
+            Log.debug("Starting transcode: ${command.joinToString(" ")}")
+            val process = try {
+                ProcessBuilder(command).redirectError(ProcessBuilder.Redirect.DISCARD).start()
+            } catch (e: IOException) {
+                emitter.fail(e)
+                return@emitter
+            }
+            emitter.onTermination { process.destroyForcibly() }
+
+            Infrastructure.getDefaultWorkerPool().execute {
+                try {
+                    process.inputStream.use { input ->
+                        val buffer = ByteArray(CHUNK_SIZE)
+                        while (!emitter.isCancelled) {
+                            // Only read ahead of what the client has asked for, so a paused
+                            // player does not make the server buffer the whole video
+                            if (emitter.requested() == 0L) {
+                                Thread.sleep(DEMAND_POLL_MS)
+                                continue
+                            }
+                            val read = input.read(buffer)
+                            if (read == -1) break
+                            emitter.emit(buffer.copyOf(read))
+                        }
+                    }
+                    emitter.complete()
+                } catch (e: Exception) {
+                    if (!emitter.isCancelled) {
+                        Log.warn("Transcode of ${video.path} failed: ${e.message}")
+                        emitter.fail(e)
+                    }
+                }
+            }
+        }
+    }
+
+    /**
+     * Render a subtitle file as WebVTT. Cues are shifted back by [offsetMs] so they line
+     * up with a transcoded stream that starts part-way through the video.
+     */
+    fun renderVtt(subtitle: Subtitle, offsetMs: Int): String {
+        val filePath = subtitle.filePath
+            ?: throw IllegalStateException("Embedded subtitles have no file to render; extract them first")
+
+        val entries = subtitleParser.parseSubtitleFile(filePath)
+            .filter { it.endTime.toMillisecondOfDay() > offsetMs }
+            .mapIndexed { index, entry ->
+                entry.copy(
+                    sequenceNumber = index + 1,
+                    startTime = shift(entry.startTime, offsetMs),
+                    endTime = shift(entry.endTime, offsetMs)
+                )
+            }
+        return subtitleParser.generateVTT(entries)
+    }
+
+    private fun shift(time: LocalTime, offsetMs: Int): LocalTime =
+        LocalTime.fromMillisecondOfDay((time.toMillisecondOfDay() - offsetMs).coerceAtLeast(0))
+
+    companion object {
+        private const val CHUNK_SIZE = 64 * 1024
+        private const val DEMAND_POLL_MS = 20L
+        private const val TRANSCODE_HEIGHT = 480
+
+        private val RANGE_PATTERN = Regex("""bytes=(\d*)-(\d*)""")
+
+        // Containers and codecs that mainstream browsers decode natively
+        private val DIRECT_CONTAINERS = setOf("mp4", "m4v", "webm", "mov")
+        private val DIRECT_CODECS = setOf("h264", "avc", "avc1", "vp8", "vp9", "av1")
+
+        private val MIME_TYPES = mapOf(
+            "mp4" to "video/mp4",
+            "m4v" to "video/mp4",
+            "mov" to "video/quicktime",
+            "webm" to "video/webm",
+            "mkv" to "video/x-matroska",
+            "avi" to "video/x-msvideo"
+        )
+    }
+}
+
+/**
+ * An inclusive byte range of a file. [partial] is false when no usable Range header was sent.
+ */
+data class ByteRange(val start: Long, val end: Long, val partial: Boolean = true) {
+    val length: Long get() = end - start + 1
+}
+
+@Serializable
+data class PlaybackInfo(
+    val videoId: String,
+    val direct: Boolean,
+    val mimeType: String,
+    val transcodeReason: String?,
+    val duration: Long?
+)
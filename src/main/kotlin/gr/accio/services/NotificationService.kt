@@ -0,0 +1,230 @@
+package gr.accio.services
+
+import gr.accio.models.Notification
+import gr.accio.models.NotificationKind
+import gr.accio.models.NotificationLevel
+import gr.accio.models.Task
+import gr.accio.models.TaskStatus
+import gr.accio.models.TaskType
+import gr.accio.models.User
+import gr.accio.models.UserConfiguration
+import io.quarkus.hibernate.reactive.panache.common.WithTransaction
+import io.quarkus.logging.Log
+import io.smallrye.mutiny.Multi
+import io.smallrye.mutiny.Uni
+import jakarta.enterprise.context.ApplicationScoped
+import jakarta.inject.Inject
+import kotlinx.serialization.Serializable
+import kotlinx.serialization.json.Json
+import kotlinx.serialization.json.JsonObject
+import kotlinx.serialization.json.JsonPrimitive
+import java.time.Duration
+import java.time.Instant
+import java.util.UUID
+
+/**
+ * The notification center: stores a notification per interested user when a task finishes, and
+ * pushes it to their open sessions through [LiveEventBroadcaster].
+ *
+ * Who is interested follows the user's settings: `notifyOnTaskCompletion` covers finished tasks
+ * and scans, `notifyOnErrors` covers failures and health-check warnings. Whether the browser also
+ * shows them (`enableWebNotifications`) is up to the webui.
+ */
+@ApplicationScoped
+class NotificationService {
+
+    @Inject
+    lateinit var liveEventBroadcaster: LiveEventBroadcaster
+
+    /**
+     * Notify about a task that reached COMPLETED or FAILED. Steps of a batch or pipeline are
+     * reported through their parent, and other statuses are ignored.
+     */
+    @WithTransaction
+    fun notifyTaskFinished(taskId: UUID): Uni<Void> {
+        return Task.findByIdWithRelations(taskId).flatMap { task ->
+            val draft = task?.takeIf { it.parentId == null }?.let { describe(it) }
+            if (draft == null) {
+                Uni.createFrom().voidItem()
+            } else {
+                deliver(draft)
+            }
+        }
+    }
+
+    /**
+     * The newest notifications of a user, with the number still unread
+     */
+    fun listNotifications(username: String, limit: Int = DEFAULT_LIMIT): Uni<NotificationList> {
+        return Notification.listRecent(username, limit.coerceIn(1, MAX_LIMIT)).flatMap { notifications ->
+            Notification.countUnread(username).map { unread ->
+                NotificationList(notifications.map { NotificationView.of(it) }, unread)
+            }
+        }
+    }
+
+    @WithTransaction
+    fun markRead(id: UUID, username: String): Uni<NotificationView?> {
+        return Notification.findForUser(id, username).flatMap { notification ->
+            if (notification == null) {
+                Uni.createFrom().nullItem()
+            } else {
+                notification.read = true
+                notification.persist<Notification>().map { NotificationView.of(it) }
+            }
+        }
+    }
+
+    @WithTransaction
+    fun markAllRead(username: String): Uni<Int> {
+        return Notification.markAllRead(username)
+    }
+
+    @WithTransaction
+    fun deleteNotification(id: UUID, username: String): Uni<Boolean> {
+        return Notification.delete("id = ?1 AND username = ?2", id, username).map { it > 0 }
+    }
+
+    @WithTransaction
+    fun clearNotifications(username: String): Uni<Long> {
+        return Notification.deleteForUser(username)
+    }
+
+    private fun describe(task: Task): NotificationDraft? {
+        val subject = task.video?.let { it.title ?: it.path.substringAfterLast('/') }
+        val label = task.type.name.lowercase().replace('_', ' ').replaceFirstChar { it.uppercase() }
+        val result = task.result?.let { runCatching { Json.parseToJsonElement(it) as? JsonObject }.getOrNull() }
+        fun resultValue(key: String) = (result?.get(key) as? JsonPrimitive)?.content
+
+        return when (task.status) {
+            TaskStatus.FAILED -> NotificationDraft(
+                task, NotificationKind.TASK_FAILED, NotificationLevel.ERROR,
+                "$label failed",
+                listOfNotNull(subject, task.errorMessage ?: "Unknown error").joinToString(": ")
+            )
+            TaskStatus.COMPLETED -> when {
+                task.type == TaskType.SCAN_LIBRARY -> NotificationDraft(
+                    task, NotificationKind.SCAN_COMPLETED, NotificationLevel.SUCCESS,
+                    "Library scan finished",
+                    "Scanned ${resultValue("scannedFiles") ?: 0} files, ${resultValue("newFiles") ?: 0} new"
+                )
+                task.type == TaskType.HEALTH_CHECK -> resultValue("unhealthy")?.takeIf { it.isNotBlank() }?.let { failing ->
+                    NotificationDraft(
+                        task, NotificationKind.HEALTH_WARNING, NotificationLevel.WARNING,
+                        "Health check found problems",
+                        "Unhealthy: ${failing.split(',').joinToString(", ")}"
+                    )
+                }
+                else -> NotificationDraft(
+                    task, NotificationKind.TASK_COMPLETED, NotificationLevel.SUCCESS,
+                    "$label completed",
+                    subject ?: "Task completed successfully"
+                )
+            }
+            else -> null
+        }
+    }
+
+    // Notifications older than RETENTION are pruned as new ones arrive
+    private fun deliver(draft: NotificationDraft): Uni<Void> {
+        return Notification.deleteOlderThan(Instant.now().minus(RETENTION)).flatMap {
+            User.findActiveUsers()
+        }.flatMap { users ->
+            // One user at a time, since a reactive session runs one query at a time
+            Multi.createFrom().iterable(users)
+                .onItem().transformToUniAndConcatenate { user ->
+                    UserConfiguration.findByUser(user).flatMap { config ->
+                        // A null item is dropped from the stream, so only stored notifications are collected
+                        if (wants(config, draft.kind)) store(user.username, draft) else Uni.createFrom().nullItem()
+                    }
+                }
+                .collect().asList()
+        }.invoke { stored ->
+            stored.forEach { publish(it) }
+            Log.debug("Stored ${draft.kind} notification for task ${draft.task.id} for ${stored.size} users")
+        }.replaceWithVoid()
+    }
+
+    // Users who never opened their settings have no configuration yet, and get the defaults
+    private fun wants(config: UserConfiguration?, kind: NotificationKind): Boolean = when (kind) {
+        NotificationKind.TASK_COMPLETED, NotificationKind.SCAN_COMPLETED -> config?.notifyOnTaskCompletion ?: true
+        NotificationKind.TASK_FAILED, NotificationKind.HEALTH_WARNING -> config?.notifyOnErrors ?: true
+    }
+
+    private fun store(username: String, draft: NotificationDraft): Uni<Notification> {
+        val notification = Notification().apply {
+            this.username = username
+            kind = draft.kind
+            level = draft.level
+            title = draft.title.take(200)
+            message = draft.message.take(1000)
+            taskId = draft.task.id
+            videoId = draft.task.video?.id
+        }
+        return notification.persist()
+    }
+
+    private fun publish(notification: Notification) {
+        liveEventBroadcaster.publishNotification(
+            LiveEvent.Notification(
+                id = notification.id!!,
+                username = notification.username,
+                kind = notification.kind,
+                level = notification.level,
+                title = notification.title,
+                message = notification.message,
+                taskId = notification.taskId,
+                videoId = notification.videoId,
+                createdAt = notification.createdAt
+            )
+        )
+    }
+
+    private data class NotificationDraft(
+        val task: Task,
+        val kind: NotificationKind,
+        val level: NotificationLevel,
+        val title: String,
+        val message: String
+    )
+
+    companion object {
+        const val DEFAULT_LIMIT = 50
+        const val MAX_LIMIT = 200
+        val RETENTION: Duration = Duration.ofDays(30)
+    }
+}
+
+@Serializable
+data class NotificationList(
+    val notifications: List<NotificationView>,
+    val unreadCount: Long
+)
+
+@Serializable
+data class NotificationView(
+    val id: String,
+    val kind: NotificationKind,
+    val level: NotificationLevel,
+    val title: String,
+    val message: String,
+    val taskId: String?,
+    val videoId: String?,
+    val read: Boolean,
+    val createdAt: String
+) {
+    companion object {
+        fun of(notification: Notification): NotificationView =
+            NotificationView(
+                id = notification.id.toString(),
+                kind = notification.kind,
+                level = notification.level,
+                title = notification.title,
+                message = notification.message,
+                taskId = notification.taskId?.toString(),
+                videoId = notification.videoId?.toString(),
+                read = notification.read,
+                createdAt = notification.createdAt.toString()
+            )
+    }
+}
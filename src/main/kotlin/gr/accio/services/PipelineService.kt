@@ -0,0 +1,578 @@
+package gr.accio.services
+
+import gr.accio.models.Pipeline
+import gr.accio.models.Subtitle
+import gr.accio.models.SubtitleType
+import gr.accio.models.SyncStatus
+import gr.accio.models.Task
+import gr.accio.models.TaskPriority
+import gr.accio.models.TaskStatus
+import gr.accio.models.TaskType
+import gr.accio.models.VideoFile
+import io.quarkus.hibernate.reactive.panache.common.WithSession
+import io.quarkus.hibernate.reactive.panache.common.WithTransaction
+import io.quarkus.logging.Log
+import io.smallrye.mutiny.Multi
+import io.smallrye.mutiny.Uni
+import jakarta.enterprise.context.ApplicationScoped
+import jakarta.inject.Inject
+import kotlinx.serialization.Serializable
+import kotlinx.serialization.builtins.ListSerializer
+import kotlinx.serialization.json.Json
+import java.time.Duration
+import java.time.Instant
+import java.util.UUID
+
+/**
+ * Pipeline definitions and the [TaskType.PIPELINE] tasks that run them.
+ *
+ * A running pipeline task is driven like a batch: TaskScheduler.advanceParentTasks checks its steps,
+ * queueing each step as a child task once every step it depends on has completed or been skipped. A
+ * step whose output the video already has is skipped without a task, and a step downstream of a
+ * failure is blocked. Which task runs each step, and which steps were skipped, is kept in the
+ * pipeline task's result.
+ */
+@ApplicationScoped
+class PipelineService {
+
+    @Inject
+    lateinit var taskService: TaskService
+
+    @Inject
+    lateinit var taskUpdateBroadcaster: TaskUpdateBroadcaster
+
+    fun listPipelines(): Uni<List<PipelineView>> {
+        return Pipeline.listByName().map { pipelines -> pipelines.map { PipelineView.of(it, decodeSteps(it.steps)) } }
+    }
+
+    fun getPipeline(id: UUID): Uni<PipelineView?> {
+        return Pipeline.findById(id).map { pipeline -> pipeline?.let { PipelineView.of(it, decodeSteps(it.steps)) } }
+    }
+
+    @WithTransaction
+    fun createPipeline(request: PipelineRequest): Uni<PipelineView> {
+        val pipeline = Pipeline()
+        applyRequest(pipeline, request)
+        Log.info("Created pipeline '${pipeline.name}' with ${request.steps.size} steps")
+        return pipeline.persist<Pipeline>().map { PipelineView.of(it, request.steps) }
+    }
+
+    /**
+     * Replace a pipeline's name and steps. Runs already queued keep the steps they started with.
+     * Null if it does not exist.
+     */
+    @WithTransaction
+    fun updatePipeline(id: UUID, request: PipelineRequest): Uni<PipelineView?> {
+        return Pipeline.findById(id).flatMap { pipeline ->
+            if (pipeline == null) {
+                Uni.createFrom().nullItem()
+            } else {
+                applyRequest(pipeline, request)
+                pipeline.persist<Pipeline>().map { PipelineView.of(it, request.steps) }
+            }
+        }
+    }
+
+    @WithTransaction
+    fun deletePipeline(id: UUID): Uni<Boolean> {
+        return Pipeline.deleteById(id)
+    }
+
+    /**
+     * Queue one pipeline task per video. The steps are copied into each task, so later edits to the
+     * pipeline do not change runs in progress. The priority applies to the steps. Null if the
+     * pipeline does not exist.
+     */
+    @WithSession
+    fun runPipeline(id: UUID, videos: List<VideoFile>, createdBy: String, timing: TaskTiming): Uni<List<Task>?> {
+        require(videos.isNotEmpty()) { "Select at least one video" }
+        return Pipeline.findById(id).flatMap { pipeline ->
+            if (pipeline == null) {
+                Uni.createFrom().nullItem()
+            } else {
+                val parameters = PipelineTaskParameters(
+                    pipelineId = pipeline.id.toString(),
+                    pipelineName = pipeline.name,
+                    priority = timing.priority,
+                    steps = decodeSteps(pipeline.steps)
+                )
+                val encoded = json.encodeToString(PipelineTaskParameters.serializer(), parameters)
+                Multi.createFrom().iterable(videos)
+                    .onItem().transformToUniAndConcatenate { video ->
+                        taskService.createPipelineTask(video, encoded, createdBy, TaskTiming(runAt = timing.runAt))
+                    }
+                    .collect().asList()
+            }
+        }
+    }
+
+    /**
+     * Each step of a pipeline task with the task that runs it. Null if there is no such pipeline task.
+     */
+    fun getRun(taskId: UUID): Uni<PipelineRunView?> {
+        return Task.findById(taskId).flatMap { task ->
+            if (task == null || task.type != TaskType.PIPELINE) {
+                Uni.createFrom().nullItem()
+            } else {
+                Task.findByParent(taskId).map { children -> runView(task, children) }
+            }
+        }
+    }
+
+    /**
+     * Start a pipeline task by queueing the steps that depend on nothing. Steps that failed in an
+     * earlier run are started again, so retrying a pipeline picks up where it failed.
+     */
+    fun start(task: Task): Uni<Void> {
+        return reopenFailedSteps(task).flatMap { advance(task) }.replaceWithVoid()
+    }
+
+    private fun reopenFailedSteps(task: Task): Uni<Task> {
+        val records = decodeRecords(task.result)
+        if (records.isEmpty()) return Uni.createFrom().item(task)
+        return Task.findByParent(task.id!!).flatMap { children ->
+            val statuses = children.associate { it.id.toString() to it.status }
+            val kept = records.filterValues { record ->
+                val childStatus = record.taskId?.let { statuses[it] }
+                record.status != PipelineStepStatus.FAILED && childStatus != TaskStatus.FAILED && childStatus != TaskStatus.CANCELLED
+            }
+            if (kept.size == records.size) {
+                Uni.createFrom().item(task)
+            } else {
+                Log.info("Pipeline ${task.id} starts ${records.size - kept.size} failed steps again")
+                task.result = encodeRecords(kept)
+                task.persistAndFlush<Task>()
+            }
+        }
+    }
+
+    /**
+     * Queue the steps whose dependencies have succeeded and record where the pipeline stands.
+     * Steps come after the steps they depend on, so one pass in order sees every upstream outcome.
+     */
+    fun advance(task: Task): Uni<PipelineProgress> {
+        val pipelineId = task.id!!
+        return Task.count("id = ?1 AND status = ?2", pipelineId, TaskStatus.CANCELLED).flatMap { cancelled ->
+            if (cancelled > 0) {
+                return@flatMap Uni.createFrom().item(PipelineProgress(finished = true, failed = false, cancelled = true, message = "Cancelled"))
+            }
+            Task.findByParent(pipelineId).flatMap { children ->
+                val parameters = decodeParameters(task.parameters)
+                val records = decodeRecords(task.result).toMutableMap()
+                val childrenById = children.associateBy { it.id.toString() }.toMutableMap()
+                val statuses = mutableMapOf<String, PipelineStepStatus>()
+
+                Multi.createFrom().iterable(parameters.steps)
+                    .onItem().transformToUniAndConcatenate { step ->
+                        val settled = settledStatus(records[step.key], childrenById)
+                        val held = heldBy(step.dependsOn.map { statuses[it] ?: PipelineStepStatus.WAITING })
+                        val status: Uni<PipelineStepStatus> = when {
+                            settled != null -> Uni.createFrom().item(settled)
+                            held != null -> Uni.createFrom().item(held)
+                            else -> startStep(step, task, parameters).map { start ->
+                                records[step.key] = start.record
+                                start.task?.let { childrenById[it.id.toString()] = it }
+                                settledStatus(start.record, childrenById)!!
+                            }
+                        }
+                        status.invoke { resolved -> statuses[step.key] = resolved }
+                    }
+                    .collect().asList()
+                    .flatMap { report(task, parameters.steps, statuses, records, childrenById) }
+            }
+        }
+    }
+
+    private fun report(
+        task: Task,
+        steps: List<PipelineStep>,
+        statuses: Map<String, PipelineStepStatus>,
+        records: Map<String, PipelineStepRecord>,
+        childrenById: Map<String, Task>
+    ): Uni<PipelineProgress> {
+        val all = steps.map { statuses.getValue(it.key) }
+        val done = all.count { it !in OPEN }
+        val skipped = all.count { it == PipelineStepStatus.SKIPPED }
+        val failed = all.count { it in UNSUCCESSFUL }
+        val progress = if (steps.isEmpty()) 100 else steps.sumOf { step ->
+            when (statuses.getValue(step.key)) {
+                in OPEN -> records[step.key]?.taskId?.let { childrenById[it] }?.progressPercentage?.coerceIn(0, 100) ?: 0
+                else -> 100
+            }
+        } / steps.size
+        val message = "$done of ${steps.size} steps done" +
+            (if (skipped > 0) ", $skipped skipped" else "") +
+            (if (failed > 0) ", $failed failed or blocked" else "")
+        val pipelineProgress = PipelineProgress(
+            finished = done == steps.size,
+            failed = failed > 0,
+            cancelled = false,
+            message = if (failed > 0) "$failed of ${steps.size} steps failed or were blocked" else message
+        )
+
+        val result = encodeRecords(records)
+        // Steps can go minutes without progress; the heartbeat keeps the pipeline from looking stuck
+        val heartbeatDue = task.lastHeartbeat?.isBefore(Instant.now().minus(HEARTBEAT_INTERVAL)) ?: true
+        if (task.progressPercentage == progress && task.progressMessage == message && task.result == result && !heartbeatDue) {
+            return Uni.createFrom().item(pipelineProgress)
+        }
+        task.progressPercentage = progress
+        task.progress = progress
+        task.progressMessage = message
+        task.result = result
+        task.lastHeartbeat = Instant.now()
+        return task.persistAndFlush<Task>()
+            .invoke { saved -> taskUpdateBroadcaster.broadcastTaskUpdate(saved) }
+            .map { pipelineProgress }
+    }
+
+    /**
+     * Queue the task for a step, or record why it is skipped or cannot start
+     */
+    private fun startStep(step: PipelineStep, pipeline: Task, parameters: PipelineTaskParameters): Uni<StepStart> {
+        val videoId = pipeline.video?.id
+            ?: return Uni.createFrom().item(StepStart.failed("The pipeline has no video"))
+        val timing = TaskTiming(priority = parameters.priority)
+
+        return VideoFile.findById(videoId).flatMap { video ->
+            if (video == null) {
+                Uni.createFrom().item(StepStart.failed("The video no longer exists"))
+            } else {
+                Subtitle.findByVideo(video).flatMap { subtitles ->
+                    val skipReason = existingOutput(step, subtitles)
+                    if (skipReason != null) {
+                        Log.info("Pipeline ${pipeline.id} skips step '${step.key}': $skipReason")
+                        Uni.createFrom().item(StepStart(PipelineStepRecord(status = PipelineStepStatus.SKIPPED, message = skipReason)))
+                    } else {
+                        // Steps belong to whoever ran the pipeline, so they use that user's settings
+                        val owner = pipeline.createdBy?.username ?: PIPELINE_USER
+                        queueStep(step, video, subtitles, pipeline.id!!, owner, timing)
+                    }
+                }
+            }
+        }
+    }
+
+    private fun queueStep(
+        step: PipelineStep,
+        video: VideoFile,
+        subtitles: List<Subtitle>,
+        pipelineId: UUID,
+        owner: String,
+        timing: TaskTiming
+    ): Uni<StepStart> {
+        val created = when (step.type) {
+            TaskType.EXTRACT_SUBTITLES -> taskService.createExtractionTask(video, owner, pipelineId, timing)
+            TaskType.GENERATE_SUBTITLES ->
+                taskService.createGenerationTask(video, step.language ?: "auto", owner, pipelineId, timing)
+            TaskType.SYNC_SUBTITLES -> taskService.createSyncTask(video, owner, pipelineId, timing)
+            TaskType.SCAN_LIBRARY -> taskService.createScanTask(listOf(video.path), owner, video, pipelineId, timing)
+            TaskType.TRANSLATE_SUBTITLES -> {
+                val target = step.targetLanguage!!
+                val candidates = subtitles.filter { it.filePath != null && it.language != target }
+                val source = candidates.firstOrNull { it.language == step.sourceLanguage }
+                    ?: candidates.firstOrNull().takeIf { step.sourceLanguage == null }
+                    ?: return Uni.createFrom().item(
+                        StepStart.failed("No ${step.sourceLanguage ?: "other"} subtitle to translate from")
+                    )
+                taskService.createTranslationTask(source, target, step.provider ?: "openai", owner, pipelineId, timing)
+            }
+            else -> return Uni.createFrom().item(StepStart.failed("${step.type.name} cannot run in a pipeline"))
+        }
+        return created.map { task -> StepStart(PipelineStepRecord(taskId = task.id.toString()), task) }
+    }
+
+    /**
+     * What keeps a step from starting, given the statuses of the steps it depends on: BLOCKED once
+     * one did not succeed, WAITING while one is still open. Null when the step can start.
+     */
+    internal fun heldBy(upstream: List<PipelineStepStatus>): PipelineStepStatus? = when {
+        upstream.any { it in UNSUCCESSFUL } -> PipelineStepStatus.BLOCKED
+        upstream.all { it in SUCCESSFUL } -> null
+        else -> PipelineStepStatus.WAITING
+    }
+
+    /**
+     * Why a step has nothing to do for the video, or null if it should run
+     */
+    internal fun existingOutput(step: PipelineStep, subtitles: List<Subtitle>): String? {
+        val withFile = subtitles.filter { it.filePath != null }
+        return when (step.type) {
+            TaskType.EXTRACT_SUBTITLES -> when {
+                step.language != null ->
+                    "An ${step.language} subtitle already exists".takeIf { withFile.any { it.language == step.language } }
+                else -> "The embedded subtitles were already extracted".takeIf { withFile.any { it.type == SubtitleType.EMBEDDED } }
+            }
+            TaskType.GENERATE_SUBTITLES -> when (val language = step.language?.takeIf { it != "auto" }) {
+                null -> "A subtitle was already generated".takeIf { withFile.any { it.type == SubtitleType.GENERATED } }
+                else -> "An $language subtitle already exists".takeIf { withFile.any { it.language == language } }
+            }
+            TaskType.TRANSLATE_SUBTITLES ->
+                "An ${step.targetLanguage} subtitle already exists".takeIf { withFile.any { it.language == step.targetLanguage } }
+            TaskType.SYNC_SUBTITLES -> {
+                val relevant = withFile.filter { step.language == null || it.language == step.language }
+                val synced = relevant.isNotEmpty() && relevant.all { it.syncStatus in SYNCED_STATUSES }
+                (if (step.language != null) "The ${step.language} subtitle is already synced" else "Every subtitle is already synced")
+                    .takeIf { synced }
+            }
+            else -> null
+        }
+    }
+
+    private fun runView(task: Task, children: List<Task>): PipelineRunView {
+        val parameters = decodeParameters(task.parameters)
+        val records = decodeRecords(task.result)
+        val childrenById = children.associateBy { it.id.toString() }
+        val statuses = mutableMapOf<String, PipelineStepStatus>()
+
+        val steps = parameters.steps.map { step ->
+            val record = records[step.key]
+            val status = settledStatus(record, childrenById)
+                ?: when {
+                    step.dependsOn.any { statuses.getValue(it) in UNSUCCESSFUL } -> PipelineStepStatus.BLOCKED
+                    task.status == TaskStatus.CANCELLED -> PipelineStepStatus.CANCELLED
+                    else -> PipelineStepStatus.WAITING
+                }
+            statuses[step.key] = status
+            val child = record?.taskId?.let { childrenById[it] }
+            PipelineStepView(
+                key = step.key,
+                type = step.type,
+                label = describe(step),
+                dependsOn = step.dependsOn,
+                status = status,
+                taskId = record?.taskId,
+                progressPercentage = if (status in OPEN) child?.progressPercentage ?: 0 else 100,
+                message = child?.errorMessage ?: child?.progressMessage ?: record?.message
+                    ?: if (status == PipelineStepStatus.BLOCKED) "An earlier step did not succeed" else null
+            )
+        }
+        return PipelineRunView(
+            taskId = task.id.toString(),
+            pipelineId = parameters.pipelineId,
+            name = parameters.pipelineName,
+            status = task.status,
+            steps = steps
+        )
+    }
+
+    // Null while a step has neither a task nor a recorded outcome
+    private fun settledStatus(record: PipelineStepRecord?, childrenById: Map<String, Task>): PipelineStepStatus? {
+        if (record == null) return null
+        val child = record.taskId?.let { childrenById[it] } ?: return record.status
+        return when (child.status) {
+            TaskStatus.PENDING, TaskStatus.SCHEDULED -> PipelineStepStatus.QUEUED
+            TaskStatus.RUNNING -> PipelineStepStatus.RUNNING
+            TaskStatus.PAUSED -> PipelineStepStatus.PAUSED
+            TaskStatus.COMPLETED -> PipelineStepStatus.COMPLETED
+            TaskStatus.FAILED -> PipelineStepStatus.FAILED
+            TaskStatus.CANCELLED -> PipelineStepStatus.CANCELLED
+        }
+    }
+
+    private fun applyRequest(pipeline: Pipeline, request: PipelineRequest) {
+        val name = request.name.trim()
+        require(name.isNotEmpty()) { "A pipeline needs a name" }
+        require(name.length <= NAME_LENGTH) { "Names are limited to $NAME_LENGTH characters" }
+        require(request.steps.isNotEmpty()) { "A pipeline needs at least one step" }
+        require(request.steps.size <= MAX_STEPS) { "Pipelines are limited to $MAX_STEPS steps" }
+
+        val steps = request.steps.map { normalizeStep(it) }
+        val seen = mutableSetOf<String>()
+        steps.forEach { step ->
+            require(step.key.isNotEmpty()) { "Every step needs a key" }
+            require(step.key !in seen) { "Step keys must be unique; '${step.key}' is used twice" }
+            require(step.type in STEP_TYPES) { "${step.type.name} cannot run in a pipeline" }
+            step.dependsOn.forEach { dependency ->
+                require(dependency in seen) { "Step '${step.key}' depends on '$dependency', which must be listed before it" }
+            }
+            if (step.type == TaskType.TRANSLATE_SUBTITLES) {
+                require(step.targetLanguage != null) { "Translation step '${step.key}' needs a target language" }
+            }
+            seen.add(step.key)
+        }
+
+        pipeline.name = name
+        pipeline.description = request.description?.trim()?.ifEmpty { null }?.take(DESCRIPTION_LENGTH)
+        pipeline.steps = json.encodeToString(STEPS, steps)
+    }
+
+    private fun normalizeStep(step: PipelineStep): PipelineStep =
+        step.copy(
+            key = step.key.trim(),
+            dependsOn = step.dependsOn.map { it.trim() }.distinct(),
+            language = step.language?.trim()?.ifEmpty { null },
+            sourceLanguage = step.sourceLanguage?.trim()?.ifEmpty { null },
+            targetLanguage = step.targetLanguage?.trim()?.ifEmpty { null },
+            provider = step.provider?.trim()?.lowercase()?.ifEmpty { null }
+        )
+
+    private fun describe(step: PipelineStep): String = when (step.type) {
+        TaskType.EXTRACT_SUBTITLES -> "Extract" + (step.language?.let { " $it" } ?: " subtitles")
+        TaskType.GENERATE_SUBTITLES -> "Generate" + (step.language?.takeIf { it != "auto" }?.let { " $it" } ?: " subtitles")
+        TaskType.TRANSLATE_SUBTITLES -> "Translate" + (step.sourceLanguage?.let { " $it" } ?: "") + " to ${step.targetLanguage}"
+        TaskType.SYNC_SUBTITLES -> "Sync" + (step.language?.let { " $it" } ?: " subtitles")
+        TaskType.SCAN_LIBRARY -> "Rescan"
+        else -> step.type.name
+    }
+
+    private fun decodeSteps(steps: String): List<PipelineStep> = json.decodeFromString(STEPS, steps)
+
+    private fun decodeParameters(parameters: String?): PipelineTaskParameters =
+        json.decodeFromString(PipelineTaskParameters.serializer(), parameters ?: error("Pipeline task has no parameters"))
+
+    private fun decodeRecords(result: String?): Map<String, PipelineStepRecord> =
+        result?.let { json.decodeFromString(PipelineRunState.serializer(), it).steps }.orEmpty()
+
+    private fun encodeRecords(records: Map<String, PipelineStepRecord>): String =
+        json.encodeToString(PipelineRunState.serializer(), PipelineRunState(records))
+
+    companion object {
+        const val NAME_LENGTH = 100
+        const val DESCRIPTION_LENGTH = 500
+        const val MAX_STEPS = 20
+        private const val PIPELINE_USER = "pipeline"
+
+        val STEP_TYPES = setOf(
+            TaskType.EXTRACT_SUBTITLES,
+            TaskType.GENERATE_SUBTITLES,
+            TaskType.TRANSLATE_SUBTITLES,
+            TaskType.SYNC_SUBTITLES,
+            TaskType.SCAN_LIBRARY
+        )
+
+        private val HEARTBEAT_INTERVAL: Duration = Duration.ofMinutes(1)
+        private val STEPS = ListSerializer(PipelineStep.serializer())
+        private val SYNCED_STATUSES = setOf(SyncStatus.SYNCED, SyncStatus.MANUAL_SYNC)
+        private val OPEN = setOf(
+            PipelineStepStatus.WAITING,
+            PipelineStepStatus.QUEUED,
+            PipelineStepStatus.RUNNING,
+            PipelineStepStatus.PAUSED
+        )
+        private val SUCCESSFUL = setOf(PipelineStepStatus.COMPLETED, PipelineStepStatus.SKIPPED)
+        private val UNSUCCESSFUL = setOf(PipelineStepStatus.FAILED, PipelineStepStatus.CANCELLED, PipelineStepStatus.BLOCKED)
+
+        private val json = Json { ignoreUnknownKeys = true }
+    }
+
+    data class PipelineProgress(
+        val finished: Boolean,
+        val failed: Boolean,
+        val cancelled: Boolean,
+        val message: String
+    )
+
+    private data class StepStart(val record: PipelineStepRecord, val task: Task? = null) {
+        companion object {
+            fun failed(message: String) = StepStart(PipelineStepRecord(status = PipelineStepStatus.FAILED, message = message))
+        }
+    }
+}
+
+/**
+ * One step of a pipeline. [language] is the subtitle language an extract, generate or sync step
+ * works on; a translation reads [sourceLanguage] (any other language when unset) and writes
+ * [targetLanguage].
+ */
+@Serializable
+data class PipelineStep(
+    val key: String,
+    val type: TaskType,
+    val dependsOn: List<String> = emptyList(),
+    val language: String? = null,
+    val sourceLanguage: String? = null,
+    val targetLanguage: String? = null,
+    val provider: String? = null
+)
+
+enum class PipelineStepStatus {
+    WAITING,    // Upstream steps have not finished yet
+    QUEUED,
+    RUNNING,
+    PAUSED,
+    COMPLETED,
+    SKIPPED,    // The video already had the step's output
+    FAILED,
+    CANCELLED,
+    BLOCKED     // An upstream step failed, was cancelled or was blocked
+}
+
+// Stored in a pipeline task's parameters
+@Serializable
+data class PipelineTaskParameters(
+    val pipelineId: String? = null,
+    val pipelineName: String,
+    val priority: TaskPriority? = null,
+    val steps: List<PipelineStep>
+)
+
+// Stored in a pipeline task's result: the task queued for each step, or why none was
+@Serializable
+data class PipelineRunState(
+    val steps: Map<String, PipelineStepRecord> = emptyMap()
+)
+
+@Serializable
+data class PipelineStepRecord(
+    val taskId: String? = null,
+    val status: PipelineStepStatus? = null, // SKIPPED or FAILED when there is no task
+    val message: String? = null
+)
+
+@Serializable
+data class PipelineView(
+    val id: String,
+    val name: String,
+    val description: String?,
+    val steps: List<PipelineStep>,
+    val createdAt: String,
+    val updatedAt: String
+) {
+    companion object {
+        fun of(pipeline: Pipeline, steps: List<PipelineStep>): PipelineView =
+            PipelineView(
+                id = pipeline.id.toString(),
+                name = pipeline.name,
+                description = pipeline.description,
+                steps = steps,
+                createdAt = pipeline.createdAt.toString(),
+                updatedAt = pipeline.updatedAt.toString()
+            )
+    }
+}
+
+@Serializable
+data class PipelineRequest(
+    val name: String,
+    val description: String? = null,
+    val steps: List<PipelineStep>
+)
+
+@Serializable
+data class PipelineRunRequest(
+    val videoIds: List<String>,
+    val priority: TaskPriority? = null, // Applies to the steps; the pipeline task itself stays low
+    val runAt: String? = null
+)
+
+@Serializable
+data class PipelineRunView(
+    val taskId: String,
+    val pipelineId: String?,
+    val name: String,
+    val status: TaskStatus,
+    val steps: List<PipelineStepView>
+)
+
+@Serializable
+data class PipelineStepView(
+    val key: String,
+    val type: TaskType,
+    val label: String,
+    val dependsOn: List<String>,
+    val status: PipelineStepStatus,
+    val taskId: String?,
+    val progressPercentage: Int,
+    val message: String?
+)
@@ -0,0 +1,310 @@
+package gr.accio.services
+
+import gr.accio.models.CueDecision
+import gr.accio.models.CueReview
+import gr.accio.models.ReviewStatus
+import gr.accio.models.Subtitle
+import gr.accio.models.TranslationReview
+import gr.accio.models.User
+import gr.accio.models.UserConfiguration
+import io.quarkus.hibernate.reactive.panache.common.WithTransaction
+import io.quarkus.logging.Log
+import io.smallrye.mutiny.Uni
+import jakarta.enterprise.context.ApplicationScoped
+import jakarta.inject.Inject
+import kotlinx.serialization.Serializable
+import java.io.File
+import java.time.Instant
+import java.util.UUID
+
+@ApplicationScoped
+class ReviewService {
+
+    @Inject
+    lateinit var subtitleParser: SubtitleParser
+
+    fun listReviews(status: ReviewStatus?): Uni<List<ReviewSummary>> {
+        return TranslationReview.findAllWithSubtitle(status).flatMap { reviews ->
+            if (reviews.isEmpty()) {
+                return@flatMap Uni.createFrom().item(emptyList<ReviewSummary>())
+            }
+            CueReview.findByReviews(reviews.map { it.id!! }).map { decisions ->
+                val byReview = decisions.groupBy { it.review.id }
+                reviews.map { ReviewSummary.of(it, byReview[it.id].orEmpty()) }
+            }
+        }
+    }
+
+    fun summarize(review: TranslationReview): Uni<ReviewSummary> {
+        return CueReview.findByReview(review.id!!).map { decisions -> ReviewSummary.of(review, decisions) }
+    }
+
+    /**
+     * Source and translated cues side by side, aligned by index. Returns null when the review does not exist.
+     */
+    fun getReview(reviewId: UUID): Uni<ReviewDetail?> {
+        return TranslationReview.findByIdWithSubtitle(reviewId).flatMap { review ->
+            if (review == null) {
+                return@flatMap Uni.createFrom().nullItem<ReviewDetail>()
+            }
+            reviewFiles(review.subtitle).flatMap { files ->
+                CueReview.findByReview(reviewId).map { decisions -> buildDetail(review, files, decisions) }
+            }
+        }
+    }
+
+    /**
+     * Open a review for a translated subtitle, or return the one it already has.
+     */
+    @WithTransaction
+    fun openReview(subtitleId: UUID, reason: String? = null): Uni<TranslationReview?> {
+        return TranslationReview.findBySubtitleId(subtitleId).flatMap { existing ->
+            if (existing != null) {
+                return@flatMap Uni.createFrom().item(existing)
+            }
+            Subtitle.findByIdWithVideo(subtitleId).flatMap { subtitle ->
+                if (subtitle == null) {
+                    return@flatMap Uni.createFrom().nullItem<TranslationReview>()
+                }
+                reviewFiles(subtitle).flatMap { files ->
+                    val review = TranslationReview().apply {
+                        this.subtitle = subtitle
+                        this.reason = reason
+                        this.cueCount = subtitleParser.parseSubtitleFile(files.targetPath).size
+                    }
+                    Log.info("Opened translation review for subtitle $subtitleId (${review.cueCount} cues)")
+                    review.persist<TranslationReview>()
+                }
+            }
+        }
+    }
+
+    /**
+     * Put a translated subtitle in the review queue when its confidence is below the minimum in the
+     * settings of [username], the user who asked for the translation. Without one the default minimum applies.
+     */
+    fun enqueueIfLowConfidence(subtitle: Subtitle, username: String?): Uni<Unit> {
+        val confidence = subtitle.confidence ?: return Uni.createFrom().item(Unit)
+
+        return minConfidenceScore(username).flatMap { minimum ->
+            if (confidence >= minimum) {
+                return@flatMap Uni.createFrom().item(Unit)
+            }
+            val reason = "Confidence ${percent(confidence)} is below the ${percent(minimum)} minimum"
+            openReview(subtitle.id!!, reason).map { Unit }
+        }.onFailure().recoverWithItem { e ->
+            // A missing review must not fail the translation that produced the subtitle
+            Log.warn("Could not queue subtitle ${subtitle.id} for review: ${e.message}")
+        }
+    }
+
+    /**
+     * Record a reviewer's decision on one cue. Edits are written to the translated file.
+     * Returns null when the review or cue does not exist.
+     */
+    @WithTransaction
+    fun decide(reviewId: UUID, cueIndex: Int, request: CueDecisionRequest, username: String): Uni<ReviewCueUpdate?> {
+        return TranslationReview.findByIdWithSubtitle(reviewId).flatMap { review ->
+            if (review == null) {
+                return@flatMap Uni.createFrom().nullItem<ReviewCueUpdate>()
+            }
+            reviewFiles(review.subtitle).flatMap { files ->
+                val targetEntries = subtitleParser.parseSubtitleFile(files.targetPath)
+                if (cueIndex !in targetEntries.indices) {
+                    return@flatMap Uni.createFrom().nullItem<ReviewCueUpdate>()
+                }
+
+                if (request.decision == CueDecision.EDITED) {
+                    val text = request.text?.trim()
+                    require(!text.isNullOrEmpty()) { "An edited cue needs text" }
+                    val updated = targetEntries.toMutableList()
+                    updated[cueIndex] = updated[cueIndex].copy(text = text)
+                    subtitleParser.writeSubtitleFile(updated, files.targetPath, File(files.targetPath).extension)
+                }
+
+                CueReview.findByReviewAndIndex(reviewId, cueIndex).flatMap { existing ->
+                    val cueReview = (existing ?: CueReview().apply {
+                        this.review = review
+                        this.cueIndex = cueIndex
+                    }).apply {
+                        decision = request.decision
+                        note = request.note?.trim()?.ifEmpty { null }
+                        reviewedBy = username
+                        reviewedAt = Instant.now()
+                    }
+                    cueReview.persistAndFlush<CueReview>()
+                }.flatMap {
+                    CueReview.findByReview(reviewId).flatMap { decisions ->
+                        updateStatus(review, targetEntries.size, decisions, username)
+                        review.persist<TranslationReview>().map {
+                            val detail = buildDetail(review, files, decisions)
+                            ReviewCueUpdate(detail.cues[cueIndex], detail.review)
+                        }
+                    }
+                }
+            }
+        }
+    }
+
+    internal fun updateStatus(review: TranslationReview, cueCount: Int, decisions: List<CueReview>, username: String) {
+        val resolved = decisions.count { it.decision.isResolved }
+        review.cueCount = cueCount
+        review.status = when {
+            resolved == cueCount -> ReviewStatus.APPROVED
+            decisions.any { it.decision != CueDecision.PENDING } -> ReviewStatus.IN_REVIEW
+            else -> ReviewStatus.NEEDS_REVIEW
+        }
+        if (review.status == ReviewStatus.APPROVED) {
+            if (review.approvedAt == null) {
+                review.approvedAt = Instant.now()
+                review.approvedBy = username
+                Log.info("Translation review ${review.id} approved by $username")
+            }
+        } else {
+            review.approvedAt = null
+            review.approvedBy = null
+        }
+    }
+
+    private fun buildDetail(review: TranslationReview, files: ReviewFiles, decisions: List<CueReview>): ReviewDetail {
+        val sourceEntries = files.sourcePath?.let { subtitleParser.parseSubtitleFile(it) }.orEmpty()
+        val targetEntries = subtitleParser.parseSubtitleFile(files.targetPath)
+        val byIndex = decisions.associateBy { it.cueIndex }
+
+        val cues = targetEntries.mapIndexed { index, target ->
+            val decision = byIndex[index]
+            ReviewCue(
+                index = index,
+                startMs = target.startTime.toMillisecondOfDay(),
+                endMs = target.endTime.toMillisecondOfDay(),
+                sourceText = sourceEntries.getOrNull(index)?.text,
+                targetText = target.text,
+                decision = decision?.decision ?: CueDecision.PENDING,
+                note = decision?.note,
+                reviewedBy = decision?.reviewedBy
+            )
+        }
+        return ReviewDetail(ReviewSummary.of(review, decisions), files.sourcePath != null, cues)
+    }
+
+    /**
+     * Work out which files hold the original and the translation. Translating a subtitle
+     * stores the result next to it in `translatedFilePath`; translating a whole video
+     * creates a separate subtitle whose original is a sibling in another language.
+     */
+    private fun reviewFiles(subtitle: Subtitle): Uni<ReviewFiles> {
+        val translatedFilePath = subtitle.translatedFilePath
+        if (translatedFilePath != null) {
+            return Uni.createFrom().item(ReviewFiles(subtitle.filePath, translatedFilePath))
+        }
+
+        val targetPath = subtitle.filePath
+            ?: return Uni.createFrom().failure(IllegalStateException("Subtitle has no translated file to review"))
+
+        return Subtitle.findByVideo(subtitle.video).map { siblings ->
+            val source = siblings.firstOrNull { it.id != subtitle.id && it.language != subtitle.language && it.filePath != null && it.translatedAt == null }
+            ReviewFiles(source?.filePath, targetPath)
+        }
+    }
+
+    private fun minConfidenceScore(username: String?): Uni<Double> {
+        val default = UserConfiguration().minConfidenceScore
+        if (username == null) {
+            return Uni.createFrom().item(default)
+        }
+        return User.findByUsername(username).flatMap { user ->
+            if (user == null) {
+                Uni.createFrom().item(default)
+            } else {
+                UserConfiguration.findByUser(user).map { config -> config?.minConfidenceScore ?: default }
+            }
+        }
+    }
+
+    private fun percent(value: Double) = "${Math.round(value * 100)}%"
+
+    private data class ReviewFiles(val sourcePath: String?, val targetPath: String)
+}
+
+@Serializable
+data class ReviewSummary(
+    val id: String,
+    val subtitleId: String,
+    val videoId: String,
+    val videoTitle: String,
+    val language: String,
+    val targetLanguage: String?,
+    val confidence: Double?,
+    val status: ReviewStatus,
+    val reason: String?,
+    val cueCount: Int,
+    val acceptedCount: Int,
+    val editedCount: Int,
+    val flaggedCount: Int,
+    val approvedAt: String?,
+    val approvedBy: String?,
+    val createdAt: String,
+    val updatedAt: String
+) {
+    companion object {
+        fun of(review: TranslationReview, decisions: List<CueReview>): ReviewSummary {
+            val subtitle = review.subtitle
+            return ReviewSummary(
+                id = review.id.toString(),
+                subtitleId = subtitle.id.toString(),
+                videoId = subtitle.video.id.toString(),
+                videoTitle = subtitle.video.title ?: File(subtitle.video.path).name,
+                language = subtitle.language,
+                targetLanguage = subtitle.targetLanguage,
+                confidence = subtitle.confidence,
+                status = review.status,
+                reason = review.reason,
+                cueCount = review.cueCount,
+                acceptedCount = decisions.count { it.decision == CueDecision.ACCEPTED },
+                editedCount = decisions.count { it.decision == CueDecision.EDITED },
+                flaggedCount = decisions.count { it.decision == CueDecision.FLAGGED },
+                approvedAt = review.approvedAt?.toString(),
+                approvedBy = review.approvedBy,
+                createdAt = review.createdAt.toString(),
+                updatedAt = review.updatedAt.toString()
+            )
+        }
+    }
+}
+
+@Serializable
+data class ReviewCue(
+    val index: Int,
+    val startMs: Int,
+    val endMs: Int,
+    val sourceText: String?,
+    val targetText: String,
+    val decision: CueDecision,
+    val note: String?,
+    val reviewedBy: String?
+)
+
+@Serializable
+data class ReviewDetail(
+    val review: ReviewSummary,
+    val hasSource: Boolean,
+    val cues: List<ReviewCue>
+)
+
+@Serializable
+data class CueDecisionRequest(
+    val decision: CueDecision,
+    val text: String? = null,
+    val note: String? = null
+)
+
+@Serializable
+data class ReviewCueUpdate(
+    val cue: ReviewCue,
+    val review: ReviewSummary
+)
+
+@Serializable
+data class OpenReviewRequest(
+    val subtitleId: String
+)
@@ -4,6 +4,7 @@ import gr.accio.models.VideoFile
 import io.smallrye.mutiny.Uni
 import io.smallrye.mutiny.Multi
 import jakarta.enterprise.context.ApplicationScoped
+import jakarta.inject.Inject
 import org.apache.tika.Tika
 import java.io.BufferedReader
 import java.io.IOException
@@ -11,16 +12,25 @@ import java.io.InputStreamReader
 import java.nio.file.Files
 import java.nio.file.Path
 import java.nio.file.Paths
+import java.util.UUID
 import java.util.concurrent.TimeUnit
+import java.util.concurrent.atomic.AtomicInteger
 import kotlin.io.path.exists
 import kotlin.io.path.nameWithoutExtension
 
 @ApplicationScoped
 class ScanService {
 
+    @Inject
+    lateinit var liveEventBroadcaster: LiveEventBroadcaster
+
+    @Inject
+    lateinit var taskLogService: TaskLogService
+
     private val ffprobeCmd = "ffprobe"
     private val ffmpegCmd = "ffmpeg"
     private val commandTimeoutSeconds = 60L
+    private val progressInterval = 10 // Publish scan progress every N files
 
     private val libraryPaths: List<String> = System.getenv("LIBRARY_PATHS")?.split(",")?.map { it.trim() } ?: emptyList()
 
@@ -30,7 +40,12 @@ class ScanService {
         return scanLibrary(libraryPaths)
     }
 
-    fun scanLibrary(paths: List<String>): Uni<List<VideoFile>> {
+    /**
+     * The library paths configured through LIBRARY_PATHS
+     */
+    fun configuredLibraryPaths(): List<String> = libraryPaths
+
+    fun scanLibrary(paths: List<String>, taskId: UUID? = null): Uni<List<VideoFile>> {
         if (paths.isEmpty()) {
             println("No library paths provided. Skipping scan.")
             return Uni.createFrom().item(emptyList())
@@ -44,7 +59,9 @@ class ScanService {
                 return@mapNotNull null
             }
 
-            if (!libraryRootPath.exists() || !Files.isDirectory(libraryRootPath)) {
+            // A single video file is rescanned on its own, e.g. by a batch rescan
+            val isSingleVideo = Files.isRegularFile(libraryRootPath) && isVideoFile(libraryRootPath)
+            if (!libraryRootPath.exists() || !(isSingleVideo || Files.isDirectory(libraryRootPath))) {
                 System.err.println("Library path '$path' does not exist or is not a directory. Skipping.")
                 return@mapNotNull null
             }
@@ -60,12 +77,24 @@ class ScanService {
                 }
                 
                 println("Found ${files.size} video files in $path")
-                
+                liveEventBroadcaster.publishScanProgress(
+                    LiveEvent.ScanProgress(taskId, path, 0, files.size, completed = files.isEmpty())
+                )
+
+                val scanned = AtomicInteger()
                 Multi.createFrom().iterable(files)
                     .onItem().transformToUni { filePath ->
-                        scanVideoFile(filePath)
+                        scanVideoFile(filePath, taskId)
                     }
                     .merge()
+                    .onItem().invoke { vf ->
+                        val count = scanned.incrementAndGet()
+                        if (count % progressInterval == 0 || count == files.size) {
+                            liveEventBroadcaster.publishScanProgress(
+                                LiveEvent.ScanProgress(taskId, path, count, files.size, vf.path, count == files.size)
+                            )
+                        }
+                    }
                     .collect().asList()
             } catch (e: Exception) {
                 System.err.println("Error scanning library path '$path': ${e.message}")
@@ -116,9 +145,9 @@ class ScanService {
         }
     }
 
-    private fun scanVideoFile(path: Path): Uni<VideoFile> {
+    private fun scanVideoFile(path: Path, taskId: UUID?): Uni<VideoFile> {
         val ffprobeJson =
-            runProcess(listOf(ffprobeCmd, "-v", "quiet", "-print_format", "json", "-show_streams", path.toString()))
+            runProcess(listOf(ffprobeCmd, "-v", "quiet", "-print_format", "json", "-show_streams", path.toString()), taskId)
                 ?: return Uni.createFrom().failure(RuntimeException("Failed to probe video file: $path"))
 
         val hasEngSubtitle =
@@ -142,7 +171,7 @@ class ScanService {
 
                 val targetEngSubtitlePath = getSubtitleFile(path, "eng")
                 if (hasEngSubtitle && targetEngSubtitlePath != null && !Files.exists(targetEngSubtitlePath)) {
-                    extractSubtitle(path, "eng", targetEngSubtitlePath)
+                    extractSubtitle(path, "eng", targetEngSubtitlePath, taskId)
                 }
 
                 vf
@@ -173,9 +202,10 @@ class ScanService {
      * @param videoPath The path to the video file.
      * @param lang The two-letter language code of the subtitle to extract (e.g., "eng", "el").
      * @param outputPath The path where the SRT file should be saved.
+     * @param taskId The task whose log receives the output of ffprobe and ffmpeg, if any.
      * @return True if extraction was successful, false otherwise.
      */
-    private fun extractSubtitle(videoPath: Path, lang: String, outputPath: Path): Boolean {
+    private fun extractSubtitle(videoPath: Path, lang: String, outputPath: Path, taskId: UUID?): Boolean {
         // First, find the stream index for the desired language
         val probeOutput = runProcess(
             listOf(
@@ -185,7 +215,8 @@ class ScanService {
                 "-show_entries", "stream=index:stream_tags=language:stream_tags=title", // Show index and language tag
                 "-of", "compact=p=0:s=N", // Compact output format
                 videoPath.toString()
-            )
+            ),
+            taskId
         ) ?: run {
             System.err.println("Failed to probe subtitle streams for ${videoPath.fileName}")
             return false
@@ -216,13 +247,12 @@ class ScanService {
         )
 
         println("Executing FFmpeg command: ${ffmpegCommand.joinToString(" ")}")
-        val result = runProcess(ffmpegCommand)
+        val result = runProcess(ffmpegCommand, taskId)
 
         if (result != null && outputPath.exists() && Files.size(outputPath) > 0) {
             return true
         } else {
             System.err.println("FFmpeg extraction failed or produced an empty file for $videoPath (lang: $lang). Output: $result")
-            // Optionally, log the ffmpeg stderr for debugging if runProcess was modified to capture it
             return false
         }
     }
@@ -231,29 +261,31 @@ class ScanService {
      * Helper function to run an external process.
      *
      * @param command The command and its arguments as a list of strings.
+     * @param taskId The task whose log receives the command's output, if any.
      * @return The standard output of the command, or null if an error occurred or command timed out.
      */
-    private fun runProcess(command: List<String>): String? {
+    private fun runProcess(command: List<String>, taskId: UUID? = null): String? {
         var process: Process? = null
         return try {
             val sanitizedCommand = command.map { it.trim() }
             val processBuilder = ProcessBuilder(sanitizedCommand)
             processBuilder.redirectErrorStream(true)
+            taskLogService.command(taskId, sanitizedCommand)
             process = processBuilder.start()
 
+            // Read while the process runs, so a full pipe cannot stall it
+            val output = taskLogService.capture(taskId, process)
             val finished = process.waitFor(commandTimeoutSeconds, TimeUnit.SECONDS)
 
             if (!finished) {
                 process.destroyForcibly()
+                taskLogService.exit(taskId, null)
                 System.err.println("Command timed out after $commandTimeoutSeconds seconds: ${sanitizedCommand.joinToString(" ")}")
                 return null
             }
 
             val exitCode = process.exitValue()
-            
-            val output = process.inputStream.bufferedReader().use { reader ->
-                reader.readText()
-            }
+            taskLogService.exit(taskId, exitCode)
 
             if (exitCode != 0) {
                 System.err.println("Command failed with exit code $exitCode: ${sanitizedCommand.joinToString(" ")}")
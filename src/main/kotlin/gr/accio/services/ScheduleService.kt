@@ -0,0 +1,333 @@
+package gr.accio.services
+
+import gr.accio.models.Schedule
+import gr.accio.models.ScheduleAction
+import gr.accio.models.Task
+import gr.accio.models.TaskPriority
+import gr.accio.models.TaskStatus
+import gr.accio.models.TaskType
+import gr.accio.models.VideoFile
+import io.quarkus.hibernate.reactive.panache.common.WithSession
+import io.quarkus.hibernate.reactive.panache.common.WithTransaction
+import io.quarkus.logging.Log
+import io.smallrye.mutiny.Multi
+import io.smallrye.mutiny.Uni
+import jakarta.enterprise.context.ApplicationScoped
+import jakarta.inject.Inject
+import kotlinx.serialization.Serializable
+import kotlinx.serialization.json.Json
+import kotlinx.serialization.json.JsonArray
+import kotlinx.serialization.json.JsonObject
+import kotlinx.serialization.json.JsonPrimitive
+import org.quartz.CronExpression
+import java.time.Duration
+import java.time.Instant
+import java.util.Date
+import java.util.UUID
+
+/**
+ * Recurring schedules and the tasks they queue. [TaskScheduler][gr.accio.scheduler.TaskScheduler]
+ * calls [runDue] every half minute; a schedule that came due several times while the server was
+ * down runs once, and its next run is counted from then.
+ */
+@ApplicationScoped
+class ScheduleService {
+
+    @Inject
+    lateinit var taskService: TaskService
+
+    @Inject
+    lateinit var scanService: ScanService
+
+    fun listSchedules(): Uni<List<ScheduleView>> {
+        return Schedule.listByName().flatMap { views(it) }
+    }
+
+    /**
+     * Returns null when the schedule does not exist
+     */
+    fun getSchedule(id: UUID): Uni<ScheduleView?> {
+        return Schedule.findById(id).flatMap { schedule ->
+            if (schedule == null) Uni.createFrom().nullItem() else view(schedule)
+        }
+    }
+
+    @WithTransaction
+    fun createSchedule(request: ScheduleRequest): Uni<ScheduleView> {
+        val schedule = Schedule()
+        applyRequest(schedule, request)
+        Log.info("Created schedule '${schedule.name}' (${schedule.action})")
+        return schedule.persist<Schedule>().flatMap { view(it) }
+    }
+
+    /**
+     * Replace a schedule's settings; its next run is worked out again from now. Null if it does not exist.
+     */
+    @WithTransaction
+    fun updateSchedule(id: UUID, request: ScheduleRequest): Uni<ScheduleView?> {
+        return Schedule.findById(id).flatMap { schedule ->
+            if (schedule == null) {
+                Uni.createFrom().nullItem()
+            } else {
+                applyRequest(schedule, request)
+                schedule.persist<Schedule>().flatMap { view(it) }
+            }
+        }
+    }
+
+    @WithTransaction
+    fun setEnabled(id: UUID, enabled: Boolean): Uni<ScheduleView?> {
+        return Schedule.findById(id).flatMap { schedule ->
+            if (schedule == null) {
+                Uni.createFrom().nullItem()
+            } else {
+                schedule.enabled = enabled
+                schedule.nextRunAt = if (enabled) nextRun(schedule.cronExpression, schedule.intervalMinutes, Instant.now()) else null
+                Log.info("${if (enabled) "Enabled" else "Disabled"} schedule '${schedule.name}'")
+                schedule.persist<Schedule>().flatMap { view(it) }
+            }
+        }
+    }
+
+    @WithTransaction
+    fun deleteSchedule(id: UUID): Uni<Boolean> {
+        return Schedule.deleteById(id)
+    }
+
+    /**
+     * Queue a schedule's task right away, even when it is disabled. Its next run stays as it was.
+     */
+    @WithSession
+    fun runNow(id: UUID): Uni<ScheduleView?> {
+        return Schedule.findById(id).flatMap { schedule ->
+            if (schedule == null) Uni.createFrom().nullItem() else run(schedule).flatMap { view(it) }
+        }
+    }
+
+    /**
+     * Queue the tasks of every enabled schedule that is due, moving each on to its next run.
+     * Returns how many schedules ran.
+     */
+    @WithSession
+    fun runDue(): Uni<Int> {
+        val now = Instant.now()
+        return Schedule.findDue(now).flatMap { due ->
+            Multi.createFrom().iterable(due)
+                .onItem().transformToUniAndConcatenate { schedule ->
+                    schedule.nextRunAt = nextRun(schedule.cronExpression, schedule.intervalMinutes, now)
+                    run(schedule)
+                }
+                .collect().asList()
+                .map { it.size }
+        }
+    }
+
+    /**
+     * The next few times a cron expression or interval would run, counted from now
+     */
+    fun preview(cronExpression: String?, intervalMinutes: Int?): SchedulePreview {
+        validateTiming(cronExpression, intervalMinutes)
+        return SchedulePreview(upcoming(cronExpression, intervalMinutes, nextRun(cronExpression, intervalMinutes, Instant.now())))
+    }
+
+    // Tasks are created outside a transaction, since the job that runs them looks them up straight away
+    private fun run(schedule: Schedule): Uni<Schedule> {
+        return queue(schedule)
+            .onFailure().recoverWithItem { e ->
+                Log.error("Schedule '${schedule.name}' could not queue its task", e)
+                RunOutcome(null, "Could not queue the task: ${e.message}")
+            }
+            .flatMap { outcome ->
+                Log.info("Schedule '${schedule.name}' ran: ${outcome.message}")
+                schedule.lastRunAt = Instant.now()
+                schedule.lastTaskId = outcome.taskId
+                schedule.lastMessage = outcome.message.take(MESSAGE_LENGTH)
+                schedule.persistAndFlush<Schedule>()
+            }
+    }
+
+    private fun queue(schedule: Schedule): Uni<RunOutcome> {
+        val parameters = schedule.parameters?.let { Json.parseToJsonElement(it) as? JsonObject } ?: JsonObject(emptyMap())
+        val timing = TaskTiming(priority = schedule.priority)
+
+        return when (schedule.action) {
+            ScheduleAction.SCAN_LIBRARY -> {
+                val paths = (parameters["paths"] as? JsonArray)?.map { (it as JsonPrimitive).content }
+                    ?: scanService.configuredLibraryPaths()
+                if (paths.isEmpty()) {
+                    Uni.createFrom().item(RunOutcome(null, "No library paths are configured"))
+                } else {
+                    taskService.createScanTask(paths, SCHEDULE_USER, timing = timing)
+                        .map { RunOutcome(it.id, "Queued a scan of ${paths.size} library paths") }
+                }
+            }
+            ScheduleAction.CLEANUP_FILES, ScheduleAction.BACKUP_DATABASE, ScheduleAction.HEALTH_CHECK -> {
+                val type = TaskType.valueOf(schedule.action.name)
+                taskService.createMaintenanceTask(type, schedule.parameters, schedule.priority, SCHEDULE_USER)
+                    .map { RunOutcome(it.id, "Queued a ${type.name.lowercase().replace('_', ' ')} task") }
+            }
+            ScheduleAction.TRANSLATE_MISSING -> {
+                val targetLanguage = (parameters["targetLanguage"] as JsonPrimitive).content
+                val provider = (parameters["provider"] as? JsonPrimitive)?.content ?: "openai"
+                VideoFile.findWithoutSubtitleIn(targetLanguage).flatMap { videos ->
+                    if (videos.isEmpty()) {
+                        Uni.createFrom().item(RunOutcome(null, "Every video already has a $targetLanguage subtitle"))
+                    } else {
+                        taskService.createBatchTask(
+                            TaskType.TRANSLATE_SUBTITLES,
+                            videos,
+                            mapOf("targetLanguage" to targetLanguage, "provider" to provider),
+                            SCHEDULE_USER,
+                            timing
+                        ).map { RunOutcome(it.id, "Queued translation of ${videos.size} videos to $targetLanguage") }
+                    }
+                }
+            }
+        }
+    }
+
+    private fun applyRequest(schedule: Schedule, request: ScheduleRequest) {
+        val name = request.name.trim()
+        require(name.isNotEmpty()) { "A schedule needs a name" }
+        require(name.length <= NAME_LENGTH) { "Names are limited to $NAME_LENGTH characters" }
+        val cronExpression = request.cronExpression?.trim()?.ifEmpty { null }
+        validateTiming(cronExpression, request.intervalMinutes)
+        val parameters = request.parameters?.trim()?.ifEmpty { null }?.let { validateParameters(request.action, it) }
+        if (request.action == ScheduleAction.TRANSLATE_MISSING) {
+            require(parameters?.get("targetLanguage") is JsonPrimitive) { "Translating missing subtitles needs a targetLanguage parameter" }
+        }
+
+        schedule.name = name
+        schedule.action = request.action
+        schedule.cronExpression = cronExpression
+        schedule.intervalMinutes = if (cronExpression == null) request.intervalMinutes else null
+        schedule.parameters = parameters?.let { Json.encodeToString(JsonObject.serializer(), it) }
+        schedule.priority = request.priority
+        schedule.enabled = request.enabled
+        schedule.nextRunAt = if (request.enabled) nextRun(cronExpression, schedule.intervalMinutes, Instant.now()) else null
+    }
+
+    private fun validateTiming(cronExpression: String?, intervalMinutes: Int?) {
+        require((cronExpression == null) != (intervalMinutes == null)) { "Give either a cron expression or an interval" }
+        if (cronExpression != null) {
+            require(CronExpression.isValidExpression(cronExpression)) {
+                "'$cronExpression' is not a valid cron expression; use six fields such as 0 0 3 * * ?"
+            }
+            require(nextRun(cronExpression, null, Instant.now()) != null) { "'$cronExpression' never runs again" }
+        } else {
+            require(intervalMinutes!! in 1..MAX_INTERVAL_MINUTES) { "The interval must be between 1 and $MAX_INTERVAL_MINUTES minutes" }
+        }
+    }
+
+    private fun validateParameters(action: ScheduleAction, parameters: String): JsonObject {
+        val element = try {
+            Json.parseToJsonElement(parameters)
+        } catch (e: Exception) {
+            throw IllegalArgumentException("Parameters are not valid JSON: ${e.message}")
+        }
+        require(element is JsonObject) { "Parameters must be a JSON object" }
+        if (action == ScheduleAction.SCAN_LIBRARY && element.containsKey("paths")) {
+            val paths = element["paths"]
+            require(paths is JsonArray && paths.all { it is JsonPrimitive && it.isString }) { "paths must be a list of strings" }
+        }
+        return element
+    }
+
+    private fun nextRun(cronExpression: String?, intervalMinutes: Int?, after: Instant): Instant? {
+        return if (cronExpression != null) {
+            CronExpression(cronExpression).getNextValidTimeAfter(Date.from(after))?.toInstant()
+        } else {
+            after.plus(Duration.ofMinutes(intervalMinutes!!.toLong()))
+        }
+    }
+
+    private fun upcoming(cronExpression: String?, intervalMinutes: Int?, first: Instant?): List<String> {
+        return generateSequence(first) { nextRun(cronExpression, intervalMinutes, it) }
+            .take(PREVIEW_RUNS)
+            .map { it.toString() }
+            .toList()
+    }
+
+    private fun view(schedule: Schedule): Uni<ScheduleView> = views(listOf(schedule)).map { it.first() }
+
+    // The outcome of each schedule's last task is read from the task itself, so it stays current
+    private fun views(schedules: List<Schedule>): Uni<List<ScheduleView>> {
+        val taskIds = schedules.mapNotNull { it.lastTaskId }
+        val lastTasks = if (taskIds.isEmpty()) Uni.createFrom().item(emptyList<Task>()) else Task.list("id IN ?1", taskIds)
+        return lastTasks.map { tasks ->
+            val statuses = tasks.associate { it.id to it.status }
+            schedules.map { schedule ->
+                val nextRuns = if (schedule.enabled) upcoming(schedule.cronExpression, schedule.intervalMinutes, schedule.nextRunAt) else emptyList()
+                ScheduleView.of(schedule, nextRuns, statuses[schedule.lastTaskId])
+            }
+        }
+    }
+
+    companion object {
+        const val NAME_LENGTH = 100
+        const val MESSAGE_LENGTH = 500
+        const val MAX_INTERVAL_MINUTES = 60 * 24 * 31
+        // Upcoming runs listed with each schedule
+        const val PREVIEW_RUNS = 3
+        private const val SCHEDULE_USER = "schedule"
+    }
+
+    private data class RunOutcome(val taskId: UUID?, val message: String)
+}
+
+@Serializable
+data class ScheduleView(
+    val id: String,
+    val name: String,
+    val action: ScheduleAction,
+    val cronExpression: String?,
+    val intervalMinutes: Int?,
+    val parameters: String?,
+    val priority: TaskPriority,
+    val enabled: Boolean,
+    val nextRuns: List<String>, // Empty while disabled
+    val lastRunAt: String?,
+    val lastTaskId: String?,
+    val lastTaskStatus: TaskStatus?, // Null when the last run queued nothing or its task was cleaned up
+    val lastMessage: String?
+) {
+    companion object {
+        fun of(schedule: Schedule, nextRuns: List<String>, lastTaskStatus: TaskStatus?): ScheduleView =
+            ScheduleView(
+                id = schedule.id.toString(),
+                name = schedule.name,
+                action = schedule.action,
+                cronExpression = schedule.cronExpression,
+                intervalMinutes = schedule.intervalMinutes,
+                parameters = schedule.parameters,
+                priority = schedule.priority,
+                enabled = schedule.enabled,
+                nextRuns = nextRuns,
+                lastRunAt = schedule.lastRunAt?.toString(),
+                lastTaskId = schedule.lastTaskId?.toString(),
+                lastTaskStatus = lastTaskStatus,
+                lastMessage = schedule.lastMessage
+            )
+    }
+}
+
+@Serializable
+data class ScheduleRequest(
+    val name: String,
+    val action: ScheduleAction,
+    val cronExpression: String? = null, // Either this, in Quartz syntax, or intervalMinutes
+    val intervalMinutes: Int? = null,
+    val parameters: String? = null, // JSON object; TRANSLATE_MISSING needs a targetLanguage
+    val priority: TaskPriority = TaskPriority.LOW,
+    val enabled: Boolean = true
+)
+
+@Serializable
+data class ScheduleEnabledUpdate(
+    val enabled: Boolean
+)
+
+@Serializable
+data class SchedulePreview(
+    val nextRuns: List<String>
+)
@@ -0,0 +1,129 @@
+package gr.accio.services
+
+import gr.accio.models.Subtitle
+import gr.accio.models.Task
+import gr.accio.models.TaskStatus
+import gr.accio.models.TaskType
+import gr.accio.models.VideoFile
+import io.quarkus.panache.common.Sort
+import io.smallrye.mutiny.Uni
+import jakarta.enterprise.context.ApplicationScoped
+import kotlinx.serialization.Serializable
+
+/**
+ * The header's search box: videos by title or path, subtitles by language or file name, and
+ * tasks by id or error message, a few of each.
+ */
+@ApplicationScoped
+class SearchService {
+
+    /**
+     * Up to [limit] matches per group. Terms shorter than [MIN_TERM_LENGTH] match nothing, since
+     * they would match most of the library.
+     */
+    fun search(term: String, limit: Int = DEFAULT_LIMIT): Uni<SearchResults> {
+        val trimmed = term.trim().lowercase()
+        if (trimmed.length < MIN_TERM_LENGTH) {
+            return Uni.createFrom().item(SearchResults(trimmed, emptyList(), emptyList(), emptyList()))
+        }
+        val size = limit.coerceIn(1, MAX_LIMIT)
+        val like = "%$trimmed%"
+
+        // A reactive session runs one query at a time, so the groups are looked up in turn
+        return VideoFile.search(trimmed, Sort.by("title").and("id")).page(0, size).list().flatMap { videos ->
+            Subtitle.find(
+                "FROM Subtitle s JOIN FETCH s.video " +
+                    "WHERE lower(s.language) = ?1 OR lower(s.languageDisplayName) LIKE ?2 OR lower(s.filePath) LIKE ?2 " +
+                    "ORDER BY s.video.title, s.language",
+                trimmed,
+                like
+            ).page(0, size).list().flatMap { subtitles ->
+                // Task ids are matched from the start, so a copied prefix finds its task
+                Task.find(
+                    "FROM Task t LEFT JOIN FETCH t.video " +
+                        "WHERE lower(cast(t.id as String)) LIKE ?1 OR lower(t.errorMessage) LIKE ?2 " +
+                        "ORDER BY t.createdAt DESC",
+                    "$trimmed%",
+                    like
+                ).page(0, size).list().map { tasks ->
+                    SearchResults(
+                        term = trimmed,
+                        videos = videos.map { VideoSearchHit.of(it) },
+                        subtitles = subtitles.map { SubtitleSearchHit.of(it) },
+                        tasks = tasks.map { TaskSearchHit.of(it) }
+                    )
+                }
+            }
+        }
+    }
+
+    companion object {
+        const val MIN_TERM_LENGTH = 2
+        const val DEFAULT_LIMIT = 5
+        const val MAX_LIMIT = 20
+    }
+}
+
+@Serializable
+data class SearchResults(
+    val term: String,
+    val videos: List<VideoSearchHit>,
+    val subtitles: List<SubtitleSearchHit>,
+    val tasks: List<TaskSearchHit>
+)
+
+@Serializable
+data class VideoSearchHit(
+    val id: String,
+    val title: String?,
+    val path: String
+) {
+    companion object {
+        fun of(video: VideoFile): VideoSearchHit =
+            VideoSearchHit(id = video.id.toString(), title = video.title, path = video.path)
+    }
+}
+
+@Serializable
+data class SubtitleSearchHit(
+    val id: String,
+    val videoId: String,
+    val videoTitle: String,
+    val language: String,
+    val languageDisplayName: String?,
+    val fileName: String?
+) {
+    companion object {
+        fun of(subtitle: Subtitle): SubtitleSearchHit =
+            SubtitleSearchHit(
+                id = subtitle.id.toString(),
+                videoId = subtitle.video.id.toString(),
+                videoTitle = subtitle.video.title ?: subtitle.video.path.substringAfterLast('/'),
+                language = subtitle.language,
+                languageDisplayName = subtitle.languageDisplayName,
+                fileName = subtitle.filePath?.substringAfterLast('/')
+            )
+    }
+}
+
+@Serializable
+data class TaskSearchHit(
+    val id: String,
+    val type: TaskType,
+    val status: TaskStatus,
+    val errorMessage: String?,
+    val videoTitle: String?,
+    val createdAt: String
+) {
+    companion object {
+        fun of(task: Task): TaskSearchHit =
+            TaskSearchHit(
+                id = task.id.toString(),
+                type = task.type,
+                status = task.status,
+                errorMessage = task.errorMessage,
+                videoTitle = task.video?.let { it.title ?: it.path.substringAfterLast('/') },
+                createdAt = task.createdAt.toString()
+            )
+    }
+}
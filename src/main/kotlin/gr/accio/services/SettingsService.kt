@@ -0,0 +1,329 @@
+package gr.accio.services
+
+import gr.accio.models.AIProvider
+import gr.accio.models.SyncTool
+import gr.accio.models.User
+import gr.accio.models.UserConfiguration
+import io.quarkus.hibernate.reactive.panache.common.WithTransaction
+import io.quarkus.logging.Log
+import io.smallrye.mutiny.Uni
+import jakarta.enterprise.context.ApplicationScoped
+import kotlinx.serialization.Serializable
+import java.net.URI
+
+@ApplicationScoped
+class SettingsService {
+
+    /**
+     * Get the configuration of a user, creating the defaults on first access
+     */
+    @WithTransaction
+    fun getSettings(username: String): Uni<UserSettings> {
+        return loadConfiguration(username).map { it.toSettings() }
+    }
+
+    /**
+     * Replace the configuration of a user. Callers validate the update first.
+     */
+    @WithTransaction
+    fun updateSettings(username: String, update: SettingsUpdate): Uni<UserSettings> {
+        return loadConfiguration(username)
+            .flatMap { config ->
+                config.applyUpdate(update)
+                config.persistAndFlush<UserConfiguration>()
+            }
+            .map { config ->
+                Log.info("Updated settings for user $username")
+                config.toSettings()
+            }
+    }
+
+    /**
+     * Check an update against the limits the services rely on.
+     * Returns the problems keyed by field name; an empty map means the update is valid.
+     */
+    fun validate(update: SettingsUpdate): Map<String, String> {
+        val errors = linkedMapOf<String, String>()
+
+        update.preferredLanguages.firstOrNull { !LANGUAGE_CODE.matches(it) }?.let {
+            errors["preferredLanguages"] = "\"$it\" is not a language code (e.g. en, el, pt-BR)"
+        }
+        if (!LANGUAGE_CODE.matches(update.defaultSourceLanguage)) {
+            errors["defaultSourceLanguage"] = "Must be a language code (e.g. en, el, pt-BR)"
+        }
+        if (!LANGUAGE_CODE.matches(update.defaultTargetLanguage)) {
+            errors["defaultTargetLanguage"] = "Must be a language code (e.g. en, el, pt-BR)"
+        } else if (update.defaultTargetLanguage.equals(update.defaultSourceLanguage, ignoreCase = true)) {
+            errors["defaultTargetLanguage"] = "Must differ from the source language"
+        }
+
+        mapOf(
+            "openaiModel" to update.openaiModel,
+            "anthropicModel" to update.anthropicModel,
+            "geminiModel" to update.geminiModel
+        ).forEach { (field, model) ->
+            if (model.isBlank() || model.length > 50) {
+                errors[field] = "Must be between 1 and 50 characters"
+            }
+        }
+        mapOf(
+            "openaiApiKey" to update.openaiApiKey,
+            "anthropicApiKey" to update.anthropicApiKey,
+            "geminiApiKey" to update.geminiApiKey,
+            "plexToken" to update.plexToken
+        ).forEach { (field, secret) ->
+            if (secret != null && secret.length > 255) {
+                errors[field] = "Must be at most 255 characters"
+            }
+        }
+
+        if (update.autoSyncThreshold !in 0.0..1.0) {
+            errors["autoSyncThreshold"] = "Must be between 0 and 1"
+        }
+        if (update.maxSyncOffset !in 0..MAX_SYNC_OFFSET_MS) {
+            errors["maxSyncOffset"] = "Must be between 0 and $MAX_SYNC_OFFSET_MS ms"
+        }
+        if (update.maxConcurrentTasks !in 1..MAX_CONCURRENT_TASKS) {
+            errors["maxConcurrentTasks"] = "Must be between 1 and $MAX_CONCURRENT_TASKS"
+        }
+        if (update.minConfidenceScore !in 0.0..1.0) {
+            errors["minConfidenceScore"] = "Must be between 0 and 1"
+        }
+
+        if (update.sessionTimeout !in MIN_SESSION_TIMEOUT_MINUTES..MAX_SESSION_TIMEOUT_MINUTES) {
+            errors["sessionTimeout"] = "Must be between $MIN_SESSION_TIMEOUT_MINUTES and $MAX_SESSION_TIMEOUT_MINUTES minutes"
+        }
+
+        update.customLibraryPaths.firstOrNull { !it.startsWith("/") }?.let {
+            errors["customLibraryPaths"] = "\"$it\" is not an absolute path"
+        }
+        if (update.customLibraryPaths.joinToString(",").length > 1000) {
+            errors["customLibraryPaths"] = "Too many paths (1000 characters at most)"
+        }
+        if (update.scanInterval !in 1..MAX_SCAN_INTERVAL_HOURS) {
+            errors["scanInterval"] = "Must be between 1 and $MAX_SCAN_INTERVAL_HOURS hours"
+        }
+
+        val plexUrl = update.plexServerUrl?.takeIf { it.isNotBlank() }
+        if (plexUrl != null && !isHttpUrl(plexUrl)) {
+            errors["plexServerUrl"] = "Must be an http(s) URL"
+        } else if (plexUrl == null && update.enablePlexIntegration) {
+            errors["plexServerUrl"] = "Required when Plex integration is enabled"
+        }
+
+        if (update.backupRetentionDays !in 1..MAX_BACKUP_RETENTION_DAYS) {
+            errors["backupRetentionDays"] = "Must be between 1 and $MAX_BACKUP_RETENTION_DAYS days"
+        }
+        val backupPath = update.backupPath?.takeIf { it.isNotBlank() }
+        if (backupPath != null && !backupPath.startsWith("/")) {
+            errors["backupPath"] = "Must be an absolute path"
+        }
+
+        return errors
+    }
+
+    private fun loadConfiguration(username: String): Uni<UserConfiguration> {
+        return User.findByUsername(username)
+            .flatMap { user ->
+                // Tokens are only issued to existing accounts, see AuthService
+                if (user == null) {
+                    Uni.createFrom().failure(IllegalStateException("No account for $username"))
+                } else {
+                    UserConfiguration.findByUser(user).flatMap { config ->
+                        if (config != null) Uni.createFrom().item(config) else UserConfiguration.createDefaultForUser(user)
+                    }
+                }
+            }
+    }
+
+    private fun isHttpUrl(value: String): Boolean {
+        return try {
+            val uri = URI(value)
+            (uri.scheme == "http" || uri.scheme == "https") && !uri.host.isNullOrBlank()
+        } catch (e: Exception) {
+            false
+        }
+    }
+
+    companion object {
+        private val LANGUAGE_CODE = Regex("^[a-z]{2,3}(-[A-Za-z]{2,4})?$")
+        const val MAX_SYNC_OFFSET_MS = 600_000
+        const val MAX_CONCURRENT_TASKS = 10
+        const val MAX_SCAN_INTERVAL_HOURS = 720
+        const val MAX_BACKUP_RETENTION_DAYS = 3650
+        const val MIN_SESSION_TIMEOUT_MINUTES = 5
+        const val MAX_SESSION_TIMEOUT_MINUTES = 1440
+    }
+}
+
+private fun splitList(value: String?): List<String> =
+    value?.split(",")?.map { it.trim() }?.filter { it.isNotEmpty() } ?: emptyList()
+
+// null keeps the stored secret, a blank value removes it
+private fun updatedSecret(current: String?, submitted: String?): String? = when {
+    submitted == null -> current
+    submitted.isBlank() -> null
+    else -> submitted.trim()
+}
+
+private fun UserConfiguration.toSettings() = UserSettings(
+    preferredLanguages = splitList(preferredLanguages),
+    defaultSourceLanguage = defaultSourceLanguage,
+    defaultTargetLanguage = defaultTargetLanguage,
+    aiProvider = aiProvider,
+    openaiModel = openaiModel,
+    openaiApiKeySet = !openaiApiKey.isNullOrBlank(),
+    anthropicModel = anthropicModel,
+    anthropicApiKeySet = !anthropicApiKey.isNullOrBlank(),
+    geminiModel = geminiModel,
+    geminiApiKeySet = !geminiApiKey.isNullOrBlank(),
+    syncTool = syncTool,
+    autoSyncThreshold = autoSyncThreshold,
+    maxSyncOffset = maxSyncOffset,
+    enableAutoTranslation = enableAutoTranslation,
+    enableAutoSync = enableAutoSync,
+    enableBackgroundProcessing = enableBackgroundProcessing,
+    maxConcurrentTasks = maxConcurrentTasks,
+    minConfidenceScore = minConfidenceScore,
+    enableQualityCheck = enableQualityCheck,
+    retryFailedTasks = retryFailedTasks,
+    enableEmailNotifications = enableEmailNotifications,
+    enableWebNotifications = enableWebNotifications,
+    notifyOnTaskCompletion = notifyOnTaskCompletion,
+    notifyOnErrors = notifyOnErrors,
+    sessionTimeout = sessionTimeout,
+    customLibraryPaths = splitList(customLibraryPaths),
+    scanInterval = scanInterval,
+    enablePlexIntegration = enablePlexIntegration,
+    plexServerUrl = plexServerUrl,
+    plexTokenSet = !plexToken.isNullOrBlank(),
+    enableAutoBackup = enableAutoBackup,
+    backupRetentionDays = backupRetentionDays,
+    backupPath = backupPath,
+    updatedAt = updatedAt.toString()
+)
+
+private fun UserConfiguration.applyUpdate(update: SettingsUpdate) {
+    preferredLanguages = update.preferredLanguages.map { it.trim() }.distinct().joinToString(",").ifEmpty { null }
+    defaultSourceLanguage = update.defaultSourceLanguage
+    defaultTargetLanguage = update.defaultTargetLanguage
+    aiProvider = update.aiProvider
+    openaiModel = update.openaiModel.trim()
+    openaiApiKey = updatedSecret(openaiApiKey, update.openaiApiKey)
+    anthropicModel = update.anthropicModel.trim()
+    anthropicApiKey = updatedSecret(anthropicApiKey, update.anthropicApiKey)
+    geminiModel = update.geminiModel.trim()
+    geminiApiKey = updatedSecret(geminiApiKey, update.geminiApiKey)
+    syncTool = update.syncTool
+    autoSyncThreshold = update.autoSyncThreshold
+    maxSyncOffset = update.maxSyncOffset
+    enableAutoTranslation = update.enableAutoTranslation
+    enableAutoSync = update.enableAutoSync
+    enableBackgroundProcessing = update.enableBackgroundProcessing
+    maxConcurrentTasks = update.maxConcurrentTasks
+    minConfidenceScore = update.minConfidenceScore
+    enableQualityCheck = update.enableQualityCheck
+    retryFailedTasks = update.retryFailedTasks
+    enableEmailNotifications = update.enableEmailNotifications
+    enableWebNotifications = update.enableWebNotifications
+    notifyOnTaskCompletion = update.notifyOnTaskCompletion
+    notifyOnErrors = update.notifyOnErrors
+    sessionTimeout = update.sessionTimeout
+    customLibraryPaths = update.customLibraryPaths.map { it.trim() }.distinct().joinToString(",").ifEmpty { null }
+    scanInterval = update.scanInterval
+    enablePlexIntegration = update.enablePlexIntegration
+    plexServerUrl = update.plexServerUrl?.trim()?.ifEmpty { null }
+    plexToken = updatedSecret(plexToken, update.plexToken)
+    enableAutoBackup = update.enableAutoBackup
+    backupRetentionDays = update.backupRetentionDays
+    backupPath = update.backupPath?.trim()?.ifEmpty { null }
+}
+
+/**
+ * A user's configuration as exposed over the API. Secrets are never returned,
+ * only whether one is stored.
+ */
+@Serializable
+data class UserSettings(
+    val preferredLanguages: List<String>,
+    val defaultSourceLanguage: String,
+    val defaultTargetLanguage: String,
+    val aiProvider: AIProvider,
+    val openaiModel: String,
+    val openaiApiKeySet: Boolean,
+    val anthropicModel: String,
+    val anthropicApiKeySet: Boolean,
+    val geminiModel: String,
+    val geminiApiKeySet: Boolean,
+    val syncTool: SyncTool,
+    val autoSyncThreshold: Double,
+    val maxSyncOffset: Int,
+    val enableAutoTranslation: Boolean,
+    val enableAutoSync: Boolean,
+    val enableBackgroundProcessing: Boolean,
+    val maxConcurrentTasks: Int,
+    val minConfidenceScore: Double,
+    val enableQualityCheck: Boolean,
+    val retryFailedTasks: Boolean,
+    val enableEmailNotifications: Boolean,
+    val enableWebNotifications: Boolean,
+    val notifyOnTaskCompletion: Boolean,
+    val notifyOnErrors: Boolean,
+    val sessionTimeout: Int,
+    val customLibraryPaths: List<String>,
+    val scanInterval: Int,
+    val enablePlexIntegration: Boolean,
+    val plexServerUrl: String?,
+    val plexTokenSet: Boolean,
+    val enableAutoBackup: Boolean,
+    val backupRetentionDays: Int,
+    val backupPath: String?,
+    val updatedAt: String
+)
+
+/**
+ * Full replacement of a user's configuration. Secret fields are optional:
+ * null keeps the stored value and an empty string removes it.
+ */
+@Serializable
+data class SettingsUpdate(
+    val preferredLanguages: List<String> = emptyList(),
+    val defaultSourceLanguage: String,
+    val defaultTargetLanguage: String,
+    val aiProvider: AIProvider,
+    val openaiModel: String,
+    val openaiApiKey: String? = null,
+    val anthropicModel: String,
+    val anthropicApiKey: String? = null,
+    val geminiModel: String,
+    val geminiApiKey: String? = null,
+    val syncTool: SyncTool,
+    val autoSyncThreshold: Double,
+    val maxSyncOffset: Int,
+    val enableAutoTranslation: Boolean,
+    val enableAutoSync: Boolean,
+    val enableBackgroundProcessing: Boolean,
+    val maxConcurrentTasks: Int,
+    val minConfidenceScore: Double,
+    val enableQualityCheck: Boolean,
+    val retryFailedTasks: Boolean,
+    val enableEmailNotifications: Boolean,
+    val enableWebNotifications: Boolean,
+    val notifyOnTaskCompletion: Boolean,
+    val notifyOnErrors: Boolean,
+    val sessionTimeout: Int,
+    val customLibraryPaths: List<String> = emptyList(),
+    val scanInterval: Int,
+    val enablePlexIntegration: Boolean,
+    val plexServerUrl: String? = null,
+    val plexToken: String? = null,
+    val enableAutoBackup: Boolean,
+    val backupRetentionDays: Int,
+    val backupPath: String? = null
+)
+
+@Serializable
+data class SettingsValidationError(
+    val message: String,
+    val fieldErrors: Map<String, String>
+)
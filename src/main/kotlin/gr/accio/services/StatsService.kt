@@ -0,0 +1,177 @@
+package gr.accio.services
+
+import gr.accio.models.SubtitleType
+import gr.accio.models.SyncStatus
+import io.smallrye.mutiny.Multi
+import io.smallrye.mutiny.Uni
+import jakarta.enterprise.context.ApplicationScoped
+import jakarta.inject.Inject
+import kotlinx.serialization.Serializable
+import org.hibernate.reactive.mutiny.Mutiny
+import java.io.File
+
+@ApplicationScoped
+class StatsService {
+
+    @Inject
+    lateinit var sessionFactory: Mutiny.SessionFactory
+
+    @Inject
+    lateinit var settingsService: SettingsService
+
+    @Inject
+    lateinit var scanService: ScanService
+
+    /**
+     * Library-wide counts for the dashboard. Videos missing subtitles are counted against the
+     * user's default target language, and disk usage covers both the LIBRARY_PATHS of the server
+     * and the user's custom library paths.
+     */
+    fun getLibraryStats(username: String): Uni<LibraryStats> {
+        return settingsService.getSettings(username).flatMap { settings ->
+            val targetLanguage = settings.defaultTargetLanguage
+            val libraryPaths = (scanService.configuredLibraryPaths() + settings.customLibraryPaths)
+                .map { it.trimEnd('/') }
+                .filter { it.isNotEmpty() }
+                .distinct()
+
+            // One session runs the queries one after the other; a reactive session cannot run them in parallel
+            sessionFactory.withSession { session ->
+                countVideosByType(session).flatMap { videosByType ->
+                    countSubtitles(session).flatMap { subtitles ->
+                        countVideosMissing(session, targetLanguage).flatMap { missingTarget ->
+                            Multi.createFrom().iterable(libraryPaths)
+                                .onItem().transformToUniAndConcatenate { measureLibrary(session, it) }
+                                .collect().asList()
+                                .map { libraries ->
+                                    val totalSubtitles = subtitles.sumOf { it.count }
+                                    val generated = subtitles.filter { it.generated }.sumOf { it.count }
+                                    LibraryStats(
+                                        totalVideos = videosByType.values.sum(),
+                                        totalSubtitles = totalSubtitles,
+                                        videosByType = videosByType,
+                                        // Every type and status is listed, so the dashboard can show zeroes
+                                        subtitlesByType = SubtitleType.entries.associate { type ->
+                                            type.name to subtitles.filter { it.type == type }.sumOf { it.count }
+                                        },
+                                        subtitlesByLanguage = subtitles.groupBy { it.language }
+                                            .mapValues { (_, group) -> group.sumOf { it.count } },
+                                        subtitlesBySyncStatus = SyncStatus.entries.associate { status ->
+                                            status.name to subtitles.filter { it.syncStatus == status }.sumOf { it.count }
+                                        },
+                                        generatedSubtitles = generated,
+                                        humanSubtitles = totalSubtitles - generated,
+                                        targetLanguage = targetLanguage,
+                                        videosMissingTargetLanguage = missingTarget,
+                                        libraries = libraries
+                                    )
+                                }
+                        }
+                    }
+                }
+            }
+        }
+    }
+
+    private fun countVideosByType(session: Mutiny.Session): Uni<Map<String, Long>> {
+        return session.createSelectionQuery("SELECT v.type, count(v) FROM VideoFile v GROUP BY v.type", Array<Any?>::class.java)
+            .resultList
+            .map { rows -> rows.associate { row -> (row[0] as String? ?: UNKNOWN) to (row[1] as Long) } }
+    }
+
+    // A single grouped query; the per-type, per-language and per-status totals are summed from its rows
+    private fun countSubtitles(session: Mutiny.Session): Uni<List<SubtitleCount>> {
+        return session.createSelectionQuery(
+            "SELECT s.type, s.language, s.syncStatus, s.isGenerated, count(s) " +
+                "FROM Subtitle s GROUP BY s.type, s.language, s.syncStatus, s.isGenerated",
+            Array<Any?>::class.java
+        )
+            .resultList
+            .map { rows ->
+                rows.map { row ->
+                    val type = row[0] as SubtitleType
+                    SubtitleCount(
+                        type = type,
+                        language = row[1] as String,
+                        syncStatus = row[2] as SyncStatus,
+                        generated = row[3] as Boolean || type == SubtitleType.GENERATED,
+                        count = row[4] as Long
+                    )
+                }
+            }
+    }
+
+    private fun countVideosMissing(session: Mutiny.Session, language: String): Uni<Long> {
+        return session.createSelectionQuery(
+            "SELECT count(v) FROM VideoFile v WHERE NOT EXISTS " +
+                "(SELECT 1 FROM Subtitle s WHERE s.video = v AND lower(s.language) = :language)",
+            Long::class.javaObjectType
+        )
+            .setParameter("language", language.lowercase())
+            .singleResult
+    }
+
+    private fun measureLibrary(session: Mutiny.Session, path: String): Uni<LibraryDiskUsage> {
+        return session.createSelectionQuery(
+            "SELECT count(v), coalesce(sum(v.fileSize), 0) FROM VideoFile v " +
+                "WHERE v.path = :path OR v.path LIKE :prefix ESCAPE '!'",
+            Array<Any?>::class.java
+        )
+            .setParameter("path", path)
+            .setParameter("prefix", "${escapeLike(path)}/%")
+            .singleResult
+            .map { row ->
+                val root = File(path)
+                LibraryDiskUsage(
+                    path = path,
+                    available = root.isDirectory,
+                    videoCount = row[0] as Long,
+                    videoBytes = (row[1] as Number).toLong(),
+                    // Both are 0 when the path is missing or unreadable
+                    totalBytes = root.totalSpace,
+                    usableBytes = root.usableSpace
+                )
+            }
+    }
+
+    private fun escapeLike(value: String): String =
+        value.replace("!", "!!").replace("%", "!%").replace("_", "!_")
+
+    companion object {
+        // Key for videos whose type could not be detected
+        const val UNKNOWN = "unknown"
+    }
+
+    private data class SubtitleCount(
+        val type: SubtitleType,
+        val language: String,
+        val syncStatus: SyncStatus,
+        val generated: Boolean,
+        val count: Long
+    )
+}
+
+@Serializable
+data class LibraryStats(
+    val totalVideos: Long,
+    val totalSubtitles: Long,
+    val videosByType: Map<String, Long>,
+    val subtitlesByType: Map<String, Long>,
+    val subtitlesByLanguage: Map<String, Long>,
+    val subtitlesBySyncStatus: Map<String, Long>,
+    val generatedSubtitles: Long,
+    val humanSubtitles: Long,
+    val targetLanguage: String,
+    val videosMissingTargetLanguage: Long,
+    val libraries: List<LibraryDiskUsage>
+)
+
+@Serializable
+data class LibraryDiskUsage(
+    val path: String,
+    val available: Boolean,
+    val videoCount: Long,
+    val videoBytes: Long,
+    val totalBytes: Long,
+    val usableBytes: Long
+)
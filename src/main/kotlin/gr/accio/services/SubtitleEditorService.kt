@@ -0,0 +1,157 @@
+package gr.accio.services
+
+import gr.accio.models.Subtitle
+import gr.accio.models.SyncStatus
+import io.quarkus.hibernate.reactive.panache.common.WithTransaction
+import io.quarkus.logging.Log
+import io.smallrye.mutiny.Uni
+import jakarta.enterprise.context.ApplicationScoped
+import jakarta.inject.Inject
+import kotlinx.datetime.LocalTime
+import kotlinx.serialization.Serializable
+import java.io.File
+import java.time.Instant
+import java.util.UUID
+
+@ApplicationScoped
+class SubtitleEditorService {
+
+    @Inject
+    lateinit var subtitleParser: SubtitleParser
+
+    /**
+     * Load the cues of a subtitle file. Returns null when the subtitle does not exist.
+     */
+    fun loadCues(subtitleId: UUID): Uni<SubtitleCues?> {
+        return Subtitle.findById(subtitleId).map { subtitle ->
+            subtitle?.let { SubtitleCues.of(it, readCues(it)) }
+        }
+    }
+
+    /**
+     * Replace the cues of a subtitle file. Moving the times of a cue that was in the file marks the
+     * subtitle as manually synced; adding, deleting or retyping cues does not. Returns null when the
+     * subtitle does not exist.
+     */
+    @WithTransaction
+    fun saveCues(subtitleId: UUID, cues: List<SubtitleCue>): Uni<SubtitleCues?> {
+        return Subtitle.findById(subtitleId).flatMap { subtitle ->
+            if (subtitle == null) {
+                return@flatMap Uni.createFrom().nullItem<SubtitleCues>()
+            }
+
+            val previous = readCues(subtitle)
+            val sorted = cues.sortedBy { it.startMs }
+            val entries = sorted.mapIndexed { index, cue ->
+                SubtitleEntry(
+                    sequenceNumber = index + 1,
+                    startTime = LocalTime.fromMillisecondOfDay(cue.startMs),
+                    endTime = LocalTime.fromMillisecondOfDay(cue.endMs),
+                    text = cue.text.trim()
+                )
+            }
+            val path = editablePath(subtitle)
+            subtitleParser.writeSubtitleFile(entries, path, File(path).extension)
+
+            val timingsChanged = timingsEdited(previous, sorted)
+            if (timingsChanged) {
+                subtitle.syncStatus = SyncStatus.MANUAL_SYNC
+                subtitle.syncedAt = Instant.now()
+            }
+            subtitle.lineCount = entries.size
+            Log.info("Saved ${entries.size} cues to $path (timings changed: $timingsChanged)")
+
+            subtitle.persistAndFlush<Subtitle>().map { saved ->
+                SubtitleCues.of(saved, sorted.mapIndexed { index, cue -> cue.copy(index = index) })
+            }
+        }
+    }
+
+    /**
+     * Check submitted cues. Returns a message for the first problem, or null when they are valid.
+     */
+    fun validate(cues: List<SubtitleCue>): String? {
+        if (cues.isEmpty()) {
+            return "A subtitle needs at least one cue"
+        }
+        cues.forEachIndexed { index, cue ->
+            val number = index + 1
+            when {
+                cue.startMs < 0 -> return "Cue $number starts before 00:00:00"
+                cue.endMs <= cue.startMs -> return "Cue $number must end after it starts"
+                cue.endMs >= MAX_TIME_MS -> return "Cue $number ends after 23:59:59"
+                cue.text.isBlank() -> return "Cue $number has no text"
+            }
+        }
+        return null
+    }
+
+    /**
+     * Whether a cue kept from the file has new times. Cues without an index are new ones, except
+     * from clients that send no indexes at all, whose cues are compared with the file in order.
+     */
+    private fun timingsEdited(previous: List<SubtitleCue>, cues: List<SubtitleCue>): Boolean {
+        if (cues.none { it.index != null }) {
+            return previous.map { it.startMs to it.endMs } != cues.map { it.startMs to it.endMs }
+        }
+        return cues.any { cue ->
+            val original = cue.index?.let { previous.getOrNull(it) }
+            original != null && (original.startMs != cue.startMs || original.endMs != cue.endMs)
+        }
+    }
+
+    private fun readCues(subtitle: Subtitle): List<SubtitleCue> {
+        return subtitleParser.parseSubtitleFile(editablePath(subtitle)).mapIndexed { index, entry ->
+            SubtitleCue(
+                startMs = entry.startTime.toMillisecondOfDay(),
+                endMs = entry.endTime.toMillisecondOfDay(),
+                text = entry.text,
+                index = index
+            )
+        }
+    }
+
+    private fun editablePath(subtitle: Subtitle): String {
+        return subtitle.filePath
+            ?: throw IllegalStateException("Embedded subtitles have no file to edit; extract them first")
+    }
+
+    companion object {
+        // Cue times are stored as a time of day
+        private const val MAX_TIME_MS = 24 * 60 * 60 * 1000
+    }
+}
+
+/**
+ * One subtitle cue with its times in milliseconds from the start of the video. [index] is its
+ * position in the file when it was loaded; cues added in the editor have none.
+ */
+@Serializable
+data class SubtitleCue(
+    val startMs: Int,
+    val endMs: Int,
+    val text: String,
+    val index: Int? = null
+)
+
+@Serializable
+data class SubtitleCues(
+    val subtitleId: String,
+    val format: String,
+    val syncStatus: SyncStatus,
+    val cues: List<SubtitleCue>
+) {
+    companion object {
+        fun of(subtitle: Subtitle, cues: List<SubtitleCue>) = SubtitleCues(
+            subtitleId = subtitle.id.toString(),
+            format = File(subtitle.filePath ?: "").extension.lowercase(),
+            syncStatus = subtitle.syncStatus,
+            cues = cues
+        )
+    }
+}
+
+@Serializable
+data class SaveCuesRequest(
+    val cues: List<SubtitleCue>
+)
@@ -22,6 +22,9 @@ class SubtitleExtractionService {
     @ConfigProperty(name = "tools.ffmpeg", defaultValue = "ffmpeg")
     lateinit var ffmpegPath: String
 
+    @Inject
+    lateinit var taskLogService: TaskLogService
+
     @Serializable
     data class ExtractionResult(
         val success: Boolean,
@@ -58,7 +61,7 @@ class SubtitleExtractionService {
                             return@item ExtractionResult(false, "Video file not found: ${videoFile.path}")
                         }
 
-                        val subtitleStreams = probeSubtitleStreams(videoPath)
+                        val subtitleStreams = probeSubtitleStreams(videoPath, task.id)
                         if (subtitleStreams.isEmpty()) {
                             return@item ExtractionResult(true, "No embedded subtitles found in video", emptyList())
                         }
@@ -73,7 +76,7 @@ class SubtitleExtractionService {
                         val outputPath = generateSubtitlePath(videoPath, streamInfo.language, streamInfo.streamIndex)
                         
                         // Extract the subtitle stream
-                        val extractionSuccess = extractSubtitleStream(videoPath, streamInfo.streamIndex, outputPath)
+                        val extractionSuccess = extractSubtitleStream(videoPath, streamInfo.streamIndex, outputPath, task.id)
                         
                         if (extractionSuccess) {
                             extractedSubtitles.add(SubtitleInfo(
@@ -129,7 +132,7 @@ class SubtitleExtractionService {
         val title: String? = null
     )
 
-    private fun probeSubtitleStreams(videoPath: Path): List<SubtitleStreamInfo> {
+    private fun probeSubtitleStreams(videoPath: Path, taskId: UUID?): List<SubtitleStreamInfo> {
         val probeOutput = runProcess(
             listOf(
                 ffprobePath,
@@ -138,7 +141,8 @@ class SubtitleExtractionService {
                 "-show_entries", "stream=index:stream_tags=language:stream_tags=title", // Show index and language tag
                 "-of", "compact=p=0:s=N", // Compact output format
                 videoPath.toString()
-            )
+            ),
+            taskId
         ) ?: return emptyList()
 
         val streams = mutableListOf<SubtitleStreamInfo>()
@@ -172,7 +176,7 @@ class SubtitleExtractionService {
         return streams
     }
 
-    private fun extractSubtitleStream(videoPath: Path, streamIndex: Int, outputPath: Path): Boolean {
+    private fun extractSubtitleStream(videoPath: Path, streamIndex: Int, outputPath: Path, taskId: UUID?): Boolean {
         val ffmpegCommand = listOf(
             ffmpegPath,
             "-i", videoPath.toString(),
@@ -183,7 +187,7 @@ class SubtitleExtractionService {
         )
 
         Log.debug("Executing FFmpeg command: ${ffmpegCommand.joinToString(" ")}")
-        val result = runProcess(ffmpegCommand)
+        val result = runProcess(ffmpegCommand, taskId)
 
         return result != null && Files.exists(outputPath) && Files.size(outputPath) > 0
     }
@@ -219,27 +223,28 @@ class SubtitleExtractionService {
             }
     }
 
-    private fun runProcess(command: List<String>): String? {
+    private fun runProcess(command: List<String>, taskId: UUID?): String? {
         var process: Process? = null
         val timeoutSeconds = 60L
         return try {
             val sanitizedCommand = command.map { it.trim() }
             val processBuilder = ProcessBuilder(sanitizedCommand)
             processBuilder.redirectErrorStream(true)
+            taskLogService.command(taskId, sanitizedCommand)
             process = processBuilder.start()
             
+            val output = taskLogService.capture(taskId, process)
             val completed = process.waitFor(timeoutSeconds, java.util.concurrent.TimeUnit.SECONDS)
             
             if (!completed) {
                 process.destroyForcibly()
+                taskLogService.exit(taskId, null)
                 Log.warn("Process timed out after $timeoutSeconds seconds: ${sanitizedCommand.joinToString(" ")}")
                 return null
             }
             
             val exitCode = process.exitValue()
-            val output = process.inputStream.bufferedReader().use { reader ->
-                reader.readText()
-            }
+            taskLogService.exit(taskId, exitCode)
             
             if (exitCode == 0) {
                 output
@@ -0,0 +1,140 @@
+package gr.accio.services
+
+import gr.accio.models.CueReview
+import gr.accio.models.Subtitle
+import gr.accio.models.SubtitleType
+import gr.accio.models.Task
+import gr.accio.models.TimingAdjustment
+import gr.accio.models.TranslationReview
+import io.quarkus.hibernate.reactive.panache.common.WithTransaction
+import io.quarkus.logging.Log
+import io.smallrye.mutiny.Uni
+import jakarta.enterprise.context.ApplicationScoped
+import jakarta.inject.Inject
+import kotlinx.serialization.Serializable
+import java.io.File
+import java.util.UUID
+
+@ApplicationScoped
+class SubtitleFileService {
+
+    @Inject
+    lateinit var subtitleParser: SubtitleParser
+
+    /**
+     * Write a subtitle out in another format next to the original and register the copy as a
+     * subtitle of the same video. Returns null when the subtitle does not exist.
+     */
+    @WithTransaction
+    fun convert(subtitleId: UUID, format: String): Uni<Subtitle?> {
+        val extension = format.lowercase()
+        require(extension in FORMATS) { "Subtitles can be converted to ${FORMATS.joinToString()} only" }
+
+        return Subtitle.findByIdWithVideo(subtitleId).flatMap { subtitle ->
+            if (subtitle == null) {
+                return@flatMap Uni.createFrom().nullItem<Subtitle>()
+            }
+            val source = File(
+                subtitle.filePath ?: throw IllegalStateException("Embedded subtitles have no file to convert; extract them first")
+            )
+            require(source.extension.lowercase() != extension) { "The subtitle is already ${extension.uppercase()}" }
+            val output = File(source.parentFile, "${source.nameWithoutExtension}.$extension")
+            check(!output.exists()) { "${output.name} already exists" }
+
+            val entries = subtitleParser.parseSubtitleFile(source.path)
+            subtitleParser.writeSubtitleFile(entries, output.path, extension)
+            Log.info("Converted ${source.path} to ${output.path}")
+
+            val converted = Subtitle().apply {
+                video = subtitle.video
+                language = subtitle.language
+                languageDisplayName = subtitle.languageDisplayName
+                type = SubtitleType.EXTERNAL
+                filePath = output.path
+                isGenerated = subtitle.isGenerated
+                isForced = subtitle.isForced
+                confidence = subtitle.confidence
+                lineCount = entries.size
+                duration = subtitle.duration
+                targetLanguage = subtitle.targetLanguage
+                translationProvider = subtitle.translationProvider
+                translatedAt = subtitle.translatedAt
+                syncStatus = subtitle.syncStatus
+                syncedAt = subtitle.syncedAt
+            }
+            converted.persist<Subtitle>()
+                .onFailure().invoke { _ -> output.delete() }
+        }
+    }
+
+    /**
+     * Change the default and forced flags. A video has at most one default subtitle per
+     * language, so making one the default clears it on the others.
+     */
+    @WithTransaction
+    fun updateFlags(subtitleId: UUID, update: SubtitleFlagsUpdate): Uni<Subtitle?> {
+        return Subtitle.findByIdWithVideo(subtitleId).flatMap { subtitle ->
+            if (subtitle == null) {
+                return@flatMap Uni.createFrom().nullItem<Subtitle>()
+            }
+            update.isForced?.let { subtitle.isForced = it }
+
+            val clearOthers = if (update.isDefault == true && !subtitle.isDefault) {
+                Subtitle.update(
+                    "isDefault = false WHERE video = ?1 AND language = ?2 AND id <> ?3",
+                    subtitle.video, subtitle.language, subtitleId
+                )
+            } else {
+                Uni.createFrom().item(0)
+            }
+            update.isDefault?.let { subtitle.isDefault = it }
+
+            clearOthers.flatMap { subtitle.persistAndFlush<Subtitle>() }
+        }
+    }
+
+    /**
+     * Delete an external subtitle together with its file, its review and its timing history.
+     * Tasks that worked on it are kept but no longer point at it. Returns false when the
+     * subtitle does not exist.
+     */
+    @WithTransaction
+    fun delete(subtitleId: UUID): Uni<Boolean> {
+        return Subtitle.findById(subtitleId).flatMap { subtitle ->
+            if (subtitle == null) {
+                return@flatMap Uni.createFrom().item(false)
+            }
+            check(subtitle.type != SubtitleType.EMBEDDED) { "Embedded subtitles are part of the video file and cannot be deleted" }
+
+            CueReview.delete("review.id IN (SELECT r.id FROM TranslationReview r WHERE r.subtitle.id = ?1)", subtitleId)
+                .flatMap { TranslationReview.delete("subtitle.id = ?1", subtitleId) }
+                .flatMap { TimingAdjustment.delete("source.id = ?1 OR result.id = ?1", subtitleId) }
+                .flatMap { Task.update("subtitle = null WHERE subtitle.id = ?1", subtitleId) }
+                .flatMap { subtitle.delete() }
+                .map {
+                    subtitle.filePath?.let { path ->
+                        if (!File(path).delete()) {
+                            Log.warn("Deleted subtitle $subtitleId but could not remove $path")
+                        }
+                    }
+                    true
+                }
+        }
+    }
+
+    companion object {
+        // The formats SubtitleParser can write
+        val FORMATS = listOf("srt", "vtt")
+    }
+}
+
+@Serializable
+data class SubtitleFlagsUpdate(
+    val isDefault: Boolean? = null,
+    val isForced: Boolean? = null
+)
+
+@Serializable
+data class ConvertSubtitleRequest(
+    val format: String
+)
@@ -31,6 +31,9 @@ class SubtitleGenerationService {
     @Inject
     lateinit var subtitleParser: SubtitleParser
 
+    @Inject
+    lateinit var taskLogService: TaskLogService
+
     /**
      * Generate subtitles from video audio
      */
@@ -49,7 +52,7 @@ class SubtitleGenerationService {
             }
             .flatMap {
                 val videoPath = Paths.get(videoFile.path)
-                val audioPath = extractAudio(videoPath)
+                val audioPath = extractAudio(videoPath, task.id)
                 
                 if (audioPath == null) {
                     return@flatMap Uni.createFrom().failure<SubtitleGenerationResult>(
@@ -128,7 +131,7 @@ class SubtitleGenerationService {
     /**
      * Extract audio from video file
      */
-    private fun extractAudio(videoPath: Path): Path? {
+    private fun extractAudio(videoPath: Path, taskId: UUID?): Path? {
         return try {
             val audioPath = videoPath.parent.resolve("${videoPath.fileName.toString().substringBeforeLast('.')}_temp_audio.wav")
             
@@ -144,7 +147,7 @@ class SubtitleGenerationService {
             )
             
             Log.debug("Extracting audio with command: ${command.joinToString(" ")}")
-            val success = runProcess(command)
+            val success = runProcess(command, taskId)
             
             if (success && audioPath.toFile().exists()) {
                 Log.info("Audio extracted successfully: $audioPath")
@@ -257,24 +260,28 @@ Please install Whisper or configure speech-to-text service
     /**
      * Run a process and return success status
      */
-    private fun runProcess(command: List<String>): Boolean {
+    private fun runProcess(command: List<String>, taskId: UUID?): Boolean {
         var process: Process? = null
         val timeoutSeconds = 300L
         return try {
             val sanitizedCommand = command.map { it.trim() }
             val processBuilder = ProcessBuilder(sanitizedCommand)
             processBuilder.redirectErrorStream(true)
+            taskLogService.command(taskId, sanitizedCommand)
             process = processBuilder.start()
             
+            taskLogService.capture(taskId, process)
             val completed = process.waitFor(timeoutSeconds, java.util.concurrent.TimeUnit.SECONDS)
             
             if (!completed) {
                 process.destroyForcibly()
+                taskLogService.exit(taskId, null)
                 Log.warn("Process timed out after $timeoutSeconds seconds: ${sanitizedCommand.joinToString(" ")}")
                 return false
             }
             
             val exitCode = process.exitValue()
+            taskLogService.exit(taskId, exitCode)
             exitCode == 0
         } catch (e: Exception) {
             Log.error("Process execution failed: ${e.message}", e)
@@ -294,32 +301,32 @@ Please install Whisper or configure speech-to-text service
             val sanitizedCommand = command.map { it.trim() }
             val processBuilder = ProcessBuilder(sanitizedCommand)
             processBuilder.redirectErrorStream(true)
+            taskLogService.command(task.id, sanitizedCommand)
             process = processBuilder.start()
             
             var currentProgress = startProgress
-            var line: String?
             
-            process.inputStream.bufferedReader().use { reader ->
-                while (reader.readLine().also { line = it } != null) {
-                    if (currentProgress < endProgress) {
-                        currentProgress = minOf(currentProgress + 2, endProgress)
-                        task.progressPercentage = currentProgress
-                        task.lastHeartbeat = Instant.now()
-                    }
-                    
-                    Log.debug("Speech-to-text output: $line")
+            taskLogService.capture(task.id, process) { line ->
+                if (currentProgress < endProgress) {
+                    currentProgress = minOf(currentProgress + 2, endProgress)
+                    task.progressPercentage = currentProgress
+                    task.lastHeartbeat = Instant.now()
                 }
+                
+                Log.debug("Speech-to-text output: $line")
             }
             
             val completed = process.waitFor(timeoutSeconds, java.util.concurrent.TimeUnit.SECONDS)
             
             if (!completed) {
                 process.destroyForcibly()
+                taskLogService.exit(task.id, null)
                 Log.warn("Process timed out after $timeoutSeconds seconds: ${sanitizedCommand.joinToString(" ")}")
                 return false
             }
             
             val exitCode = process.exitValue()
+            taskLogService.exit(task.id, exitCode)
             exitCode == 0
         } catch (e: Exception) {
             Log.error("Process execution with progress failed: ${e.message}", e)
@@ -177,7 +177,7 @@ class SubtitleParser {
         }
     }
 
-    private fun generateVTT(entries: List<SubtitleEntry>): String {
+    fun generateVTT(entries: List<SubtitleEntry>): String {
         val header = "WEBVTT\n\n"
         val content = entries.joinToString("\n\n") { entry ->
             val startTime = formatTimeForVTT(entry.startTime)
@@ -0,0 +1,218 @@
+package gr.accio.services
+
+import gr.accio.models.Subtitle
+import gr.accio.models.SubtitleType
+import gr.accio.models.SyncStatus
+import gr.accio.models.TimingAdjustment
+import gr.accio.models.TimingMode
+import io.quarkus.hibernate.reactive.panache.common.WithTransaction
+import io.quarkus.logging.Log
+import io.smallrye.mutiny.Uni
+import jakarta.enterprise.context.ApplicationScoped
+import jakarta.inject.Inject
+import kotlinx.datetime.LocalTime
+import kotlinx.serialization.Serializable
+import kotlinx.serialization.builtins.ListSerializer
+import kotlinx.serialization.json.Json
+import java.io.File
+import java.time.Instant
+import java.util.UUID
+import kotlin.math.roundToInt
+
+@ApplicationScoped
+class SubtitleTimingService {
+
+    @Inject
+    lateinit var subtitleParser: SubtitleParser
+
+    /**
+     * Re-timings that used or produced a subtitle, newest first.
+     */
+    fun history(subtitleId: UUID): Uni<List<TimingAdjustmentSummary>> {
+        return TimingAdjustment.findBySubtitleId(subtitleId).map { adjustments ->
+            adjustments.map { TimingAdjustmentSummary.of(it) }
+        }
+    }
+
+    /**
+     * Re-time every cue of a subtitle and save the result next to it as a new, manually synced
+     * subtitle. The original file is left untouched. Returns null when the subtitle does not exist.
+     */
+    @WithTransaction
+    fun retime(subtitleId: UUID, request: TimingRequest, username: String): Uni<TimingAdjustmentSummary?> {
+        return Subtitle.findByIdWithVideo(subtitleId).flatMap { subtitle ->
+            if (subtitle == null) {
+                return@flatMap Uni.createFrom().nullItem<TimingAdjustmentSummary>()
+            }
+            val sourcePath = subtitle.filePath
+                ?: throw IllegalStateException("Embedded subtitles have no file to re-time; extract them first")
+
+            val entries = subtitleParser.parseSubtitleFile(sourcePath)
+            require(entries.isNotEmpty()) { "The subtitle has no cues to re-time" }
+
+            val anchors = request.anchors.sortedBy { it.cueIndex }.map { anchor ->
+                require(anchor.cueIndex in entries.indices) { "Anchor cue ${anchor.cueIndex + 1} does not exist" }
+                anchor.copy(originalMs = entries[anchor.cueIndex].startTime.toMillisecondOfDay())
+            }
+            val transform = transformFor(request.mode, request.offsetMs, anchors)
+            val retimed = retimeEntries(entries, transform)
+
+            val outputPath = outputPath(sourcePath)
+            subtitleParser.writeSubtitleFile(retimed, outputPath, File(outputPath).extension)
+            Log.info("Re-timed $sourcePath to $outputPath (${request.mode}, scale ${transform.scale}, offset ${transform.offsetMs}ms)")
+
+            val result = Subtitle().apply {
+                video = subtitle.video
+                language = subtitle.language
+                languageDisplayName = subtitle.languageDisplayName
+                type = SubtitleType.EXTERNAL
+                filePath = outputPath
+                isGenerated = subtitle.isGenerated
+                isForced = subtitle.isForced
+                confidence = subtitle.confidence
+                lineCount = retimed.size
+                targetLanguage = subtitle.targetLanguage
+                translationProvider = subtitle.translationProvider
+                translatedAt = subtitle.translatedAt
+                syncStatus = SyncStatus.MANUAL_SYNC
+                syncedAt = Instant.now()
+            }
+            val adjustment = TimingAdjustment().apply {
+                source = subtitle
+                this.result = result
+                mode = request.mode
+                offsetMs = transform.offsetMs
+                scale = transform.scale
+                this.anchors = if (anchors.isEmpty()) null else Json.encodeToString(ANCHORS, anchors)
+                appliedBy = username
+            }
+
+            result.persist<Subtitle>()
+                .flatMap { adjustment.persist<TimingAdjustment>() }
+                .map { TimingAdjustmentSummary.of(it) }
+                .onFailure().invoke { _ -> File(outputPath).delete() }
+        }
+    }
+
+    internal fun transformFor(mode: TimingMode, offsetMs: Int, anchors: List<TimingAnchor>): LinearTransform {
+        if (mode == TimingMode.OFFSET) {
+            return LinearTransform(1.0, offsetMs)
+        }
+
+        require(anchors.size == 2) { "A stretch needs exactly two anchor cues" }
+        val (first, second) = anchors
+        require(first.cueIndex != second.cueIndex) { "The anchors must be two different cues" }
+
+        val firstOriginal = first.originalMs!!
+        val originalSpan = second.originalMs!! - firstOriginal
+        val targetSpan = second.targetMs - first.targetMs
+        require(originalSpan > 0) { "The anchor cues start at the same time" }
+        require(targetSpan > 0) { "The later anchor must be moved to a later time than the earlier one" }
+
+        val scale = targetSpan.toDouble() / originalSpan
+        require(scale in MIN_SCALE..MAX_SCALE) {
+            "The anchors stretch the subtitle by ${"%.3f".format(scale)}x; check the anchor times"
+        }
+        return LinearTransform(scale, (first.targetMs - scale * firstOriginal).roundToInt())
+    }
+
+    /**
+     * Cues moved entirely before the start are dropped and cues straddling it are cut at 00:00:00.
+     */
+    internal fun retimeEntries(entries: List<SubtitleEntry>, transform: LinearTransform): List<SubtitleEntry> {
+        val retimed = entries.mapNotNull { entry ->
+            val start = transform.map(entry.startTime.toMillisecondOfDay())
+            val end = transform.map(entry.endTime.toMillisecondOfDay())
+            if (end <= 0) {
+                return@mapNotNull null
+            }
+            require(end < MAX_TIME_MS) { "The new timing moves cues past 23:59:59" }
+            entry.copy(
+                startTime = LocalTime.fromMillisecondOfDay(start.coerceAtLeast(0)),
+                endTime = LocalTime.fromMillisecondOfDay(end)
+            )
+        }
+        require(retimed.isNotEmpty()) { "The new timing moves every cue before 00:00:00" }
+        return retimed.mapIndexed { index, entry -> entry.copy(sequenceNumber = index + 1) }
+    }
+
+    /**
+     * `movie.en.srt` becomes `movie.en_manual.srt`, or `movie.en_manual2.srt` and so on when
+     * that exists. Re-timing a manual file numbers from the same base instead of stacking suffixes.
+     */
+    private fun outputPath(sourcePath: String): String {
+        val source = File(sourcePath)
+        val base = source.nameWithoutExtension.replace(MANUAL_SUFFIX, "")
+        return generateSequence(1) { it + 1 }
+            .map { n -> File(source.parentFile, "${base}_manual${if (n == 1) "" else n}.${source.extension}") }
+            .first { !it.exists() }
+            .path
+    }
+
+    internal data class LinearTransform(val scale: Double, val offsetMs: Int) {
+        fun map(ms: Int): Int = (scale * ms + offsetMs).roundToInt()
+    }
+
+    companion object {
+        // Cue times are stored as a time of day
+        private const val MAX_TIME_MS = 24 * 60 * 60 * 1000
+
+        // Framerate mix-ups stay well inside this (23.976 vs 25 fps is about 4%)
+        private const val MIN_SCALE = 0.5
+        private const val MAX_SCALE = 2.0
+
+        private val MANUAL_SUFFIX = Regex("_manual\\d*$")
+        private val ANCHORS = ListSerializer(TimingAnchor.serializer())
+
+        internal fun decodeAnchors(json: String?): List<TimingAnchor> =
+            json?.let { Json.decodeFromString(ANCHORS, it) }.orEmpty()
+    }
+}
+
+/**
+ * A cue whose start should land on [targetMs]. [originalMs] is filled in when the transform is recorded.
+ */
+@Serializable
+data class TimingAnchor(
+    val cueIndex: Int,
+    val targetMs: Int,
+    val originalMs: Int? = null
+)
+
+@Serializable
+data class TimingRequest(
+    val mode: TimingMode,
+    val offsetMs: Int = 0,
+    val anchors: List<TimingAnchor> = emptyList()
+)
+
+@Serializable
+data class TimingAdjustmentSummary(
+    val id: String,
+    val sourceSubtitleId: String,
+    val sourceFilePath: String?,
+    val resultSubtitleId: String,
+    val resultFilePath: String?,
+    val mode: TimingMode,
+    val offsetMs: Int,
+    val scale: Double,
+    val anchors: List<TimingAnchor>,
+    val appliedBy: String?,
+    val createdAt: String
+) {
+    companion object {
+        fun of(adjustment: TimingAdjustment) = TimingAdjustmentSummary(
+            id = adjustment.id.toString(),
+            sourceSubtitleId = adjustment.source.id.toString(),
+            sourceFilePath = adjustment.source.filePath,
+            resultSubtitleId = adjustment.result.id.toString(),
+            resultFilePath = adjustment.result.filePath,
+            mode = adjustment.mode,
+            offsetMs = adjustment.offsetMs,
+            scale = adjustment.scale,
+            anchors = SubtitleTimingService.decodeAnchors(adjustment.anchors),
+            appliedBy = adjustment.appliedBy,
+            createdAt = adjustment.createdAt.toString()
+        )
+    }
+}
@@ -29,7 +29,14 @@ class SyncService {
     @ConfigProperty(name = "tools.ffmpeg", defaultValue = "ffmpeg")
     lateinit var ffmpegPath: String
 
-    fun sync(videoId: UUID): Uni<Map<String, Any>> {
+    @Inject
+    lateinit var taskLogService: TaskLogService
+
+    /**
+     * Sync the subtitles of a video. The ffsubsync output goes to the log of the given task,
+     * or of the sync record created here when run outside the task queue.
+     */
+    fun sync(videoId: UUID, taskId: UUID? = null): Uni<Map<String, Any>> {
         return VideoFile.findById(videoId)
             .flatMap { video ->
                 if (video == null) {
@@ -50,13 +57,13 @@ class SyncService {
                     task.persist<Task>()
                         .flatMap { 
                             // Start sync process
-                            performSync(video, task)
+                            performSync(video, task, taskId ?: task.id!!)
                         }
                 }
             }
     }
 
-    private fun performSync(video: VideoFile, task: Task): Uni<Map<String, Any>> {
+    private fun performSync(video: VideoFile, task: Task, logTaskId: UUID): Uni<Map<String, Any>> {
         return Uni.createFrom().item {
             try {
                 // Update task status to running
@@ -88,7 +95,7 @@ class SyncService {
                         val outputPath = generateSyncedSubtitlePath(subtitleFile, video)
                         
                         // Perform actual sync using ffsubsync
-                        val syncResult = syncSubtitleWithFFSubSync(video.path, subtitleFile.absolutePath, outputPath, task)
+                        val syncResult = syncSubtitleWithFFSubSync(video.path, subtitleFile.absolutePath, outputPath, logTaskId)
                         
                         syncResults.add(mapOf(
                             "originalPath" to subtitleFile.absolutePath,
@@ -246,7 +253,7 @@ class SyncService {
     @Serializable
     private data class SyncResult(val success: Boolean, val message: String)
     
-    private fun syncSubtitleWithFFSubSync(videoPath: String, subtitlePath: String, outputPath: String, task: Task): SyncResult {
+    private fun syncSubtitleWithFFSubSync(videoPath: String, subtitlePath: String, outputPath: String, taskId: UUID): SyncResult {
         return try {
             // Build ffsubsync command
             val command = listOf(
@@ -263,14 +270,14 @@ class SyncService {
             // Execute the command
             val processBuilder = ProcessBuilder(command)
             processBuilder.redirectErrorStream(true)
+            taskLogService.command(taskId, command)
             
             val process = processBuilder.start()
             
-            val output = process.inputStream.bufferedReader().use { reader ->
-                reader.readText()
-            }
+            val output = taskLogService.capture(taskId, process)
             
             val completed = process.waitFor(300, TimeUnit.SECONDS)
+            taskLogService.exit(taskId, if (completed) process.exitValue() else null)
             
             if (!completed) {
                 process.destroyForcibly()
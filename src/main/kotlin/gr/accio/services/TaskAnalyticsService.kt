@@ -0,0 +1,199 @@
+package gr.accio.services
+
+import gr.accio.models.TaskStatus
+import gr.accio.models.TaskType
+import io.smallrye.mutiny.Uni
+import jakarta.enterprise.context.ApplicationScoped
+import jakarta.inject.Inject
+import kotlinx.serialization.Serializable
+import org.hibernate.reactive.mutiny.Mutiny
+import java.time.Duration
+import java.time.Instant
+import java.time.ZoneId
+import java.time.temporal.ChronoUnit
+import kotlin.math.ceil
+
+@ApplicationScoped
+class TaskAnalyticsService {
+
+    @Inject
+    lateinit var sessionFactory: Mutiny.SessionFactory
+
+    /**
+     * Throughput, per-type reliability and durations, and queue depth over the given range.
+     * Buckets start on hour or day boundaries in the given zone, so "per day" matches the user's days.
+     */
+    fun getAnalytics(range: AnalyticsRange, zone: ZoneId): Uni<TaskAnalytics> {
+        val now = Instant.now()
+        val buckets = bucketStarts(range, zone, now)
+        val from = buckets.first()
+
+        // Everything that was queued, running or finished inside the range. Only the columns the
+        // aggregation needs are loaded, not the parameters and results.
+        return sessionFactory.withSession { session ->
+            session.createSelectionQuery(
+                "SELECT t.type, t.status, t.createdAt, t.startedAt, t.completedAt, t.updatedAt, t.actualDuration, t.retryCount " +
+                    "FROM Task t WHERE t.createdAt < :to " +
+                    "AND (t.status IN :active OR coalesce(t.completedAt, t.updatedAt) >= :from)",
+                Array<Any?>::class.java
+            )
+                .setParameter("to", now)
+                .setParameter("from", from)
+                .setParameter("active", ACTIVE_STATUSES)
+                .resultList
+        }.map { rows ->
+            val tasks = rows.map { row ->
+                val status = row[1] as TaskStatus
+                TaskTimes(
+                    type = row[0] as TaskType,
+                    status = status,
+                    createdAt = row[2] as Instant,
+                    startedAt = row[3] as Instant?,
+                    // Tasks cancelled or failed before they ran may have no completion time
+                    endedAt = if (status in ACTIVE_STATUSES) null else (row[4] as Instant? ?: row[5] as Instant),
+                    duration = row[6] as Long? ?: durationOf(row[3] as Instant?, row[4] as Instant?),
+                    retryCount = row[7] as Int
+                )
+            }
+            val finished = tasks.filter { it.endedAt != null && it.endedAt >= from }
+
+            TaskAnalytics(
+                range = range.key,
+                zone = zone.id,
+                bucket = range.bucket.name.lowercase(),
+                from = from.toString(),
+                to = now.toString(),
+                throughput = throughput(finished, buckets, now),
+                types = finished.groupBy { it.type }
+                    .map { (type, group) -> typeAnalytics(type, group) }
+                    .sortedBy { it.type.ordinal },
+                queueDepth = queueDepth(tasks, from, now)
+            )
+        }
+    }
+
+    private fun bucketStarts(range: AnalyticsRange, zone: ZoneId, now: Instant): List<Instant> {
+        val current = now.atZone(zone).truncatedTo(range.bucket)
+        return (range.buckets - 1 downTo 0).map { current.minus(it.toLong(), range.bucket).toInstant() }
+    }
+
+    private fun throughput(finished: List<TaskTimes>, buckets: List<Instant>, now: Instant): List<ThroughputBucket> {
+        return buckets.mapIndexed { index, start ->
+            val end = buckets.getOrNull(index + 1) ?: now
+            val ended = finished.filter { it.endedAt!! >= start && it.endedAt < end }
+            ThroughputBucket(
+                start = start.toString(),
+                completed = ended.count { it.status == TaskStatus.COMPLETED },
+                failed = ended.count { it.status == TaskStatus.FAILED },
+                cancelled = ended.count { it.status == TaskStatus.CANCELLED }
+            )
+        }
+    }
+
+    private fun typeAnalytics(type: TaskType, finished: List<TaskTimes>): TaskTypeAnalytics {
+        val completed = finished.count { it.status == TaskStatus.COMPLETED }
+        val failed = finished.count { it.status == TaskStatus.FAILED }
+        // Durations of failed runs say more about timeouts than about speed, so only successes count
+        val durations = finished.filter { it.status == TaskStatus.COMPLETED }.mapNotNull { it.duration }.sorted()
+        return TaskTypeAnalytics(
+            type = type,
+            completed = completed,
+            failed = failed,
+            cancelled = finished.count { it.status == TaskStatus.CANCELLED },
+            successRate = if (completed + failed > 0) completed.toDouble() / (completed + failed) else null,
+            medianDurationMs = percentile(durations, 0.5),
+            p95DurationMs = percentile(durations, 0.95),
+            averageRetries = finished.map { it.retryCount }.average()
+        )
+    }
+
+    // Queued and running counts sampled at evenly spaced points, replayed from the task timestamps
+    private fun queueDepth(tasks: List<TaskTimes>, from: Instant, now: Instant): List<QueueDepthSample> {
+        val step = Duration.between(from, now).dividedBy(QUEUE_DEPTH_SAMPLES.toLong())
+        return (1..QUEUE_DEPTH_SAMPLES).map { index ->
+            val at = from.plus(step.multipliedBy(index.toLong()))
+            val open = tasks.filter { it.createdAt <= at && (it.endedAt == null || it.endedAt > at) }
+            QueueDepthSample(
+                at = at.toString(),
+                queued = open.count { it.startedAt == null || it.startedAt > at },
+                running = open.count { it.startedAt != null && it.startedAt <= at }
+            )
+        }
+    }
+
+    // Nearest-rank percentile of an ascending list
+    private fun percentile(sorted: List<Long>, fraction: Double): Long? {
+        if (sorted.isEmpty()) return null
+        val rank = ceil(fraction * sorted.size).toInt().coerceIn(1, sorted.size)
+        return sorted[rank - 1]
+    }
+
+    private fun durationOf(startedAt: Instant?, completedAt: Instant?): Long? =
+        if (startedAt != null && completedAt != null) Duration.between(startedAt, completedAt).toMillis() else null
+
+    companion object {
+        val ACTIVE_STATUSES = listOf(TaskStatus.PENDING, TaskStatus.SCHEDULED, TaskStatus.RUNNING, TaskStatus.PAUSED)
+        const val QUEUE_DEPTH_SAMPLES = 48
+    }
+
+    private data class TaskTimes(
+        val type: TaskType,
+        val status: TaskStatus,
+        val createdAt: Instant,
+        val startedAt: Instant?,
+        val endedAt: Instant?,
+        val duration: Long?,
+        val retryCount: Int
+    )
+}
+
+enum class AnalyticsRange(val key: String, val bucket: ChronoUnit, val buckets: Int) {
+    DAY("24h", ChronoUnit.HOURS, 24),
+    WEEK("7d", ChronoUnit.DAYS, 7),
+    MONTH("30d", ChronoUnit.DAYS, 30),
+    QUARTER("90d", ChronoUnit.DAYS, 90);
+
+    companion object {
+        fun fromKey(key: String): AnalyticsRange? =
+            entries.firstOrNull { it.key == key }
+    }
+}
+
+@Serializable
+data class TaskAnalytics(
+    val range: String,
+    val zone: String,
+    val bucket: String, // "hours" or "days"
+    val from: String,
+    val to: String,
+    val throughput: List<ThroughputBucket>,
+    val types: List<TaskTypeAnalytics>,
+    val queueDepth: List<QueueDepthSample>
+)
+
+@Serializable
+data class ThroughputBucket(
+    val start: String,
+    val completed: Int,
+    val failed: Int,
+    val cancelled: Int
+)
+
+@Serializable
+data class TaskTypeAnalytics(
+    val type: TaskType,
+    val completed: Int,
+    val failed: Int,
+    val cancelled: Int,
+    val successRate: Double?, // Completed out of completed and failed; null when neither happened
+    val medianDurationMs: Long?,
+    val p95DurationMs: Long?,
+    val averageRetries: Double
+)
+
+@Serializable
+data class QueueDepthSample(
+    val at: String,
+    val queued: Int,
+    val running: Int
+)
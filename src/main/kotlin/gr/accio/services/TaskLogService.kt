@@ -0,0 +1,267 @@
+package gr.accio.services
+
+import io.quarkus.logging.Log
+import io.quarkus.scheduler.Scheduled
+import jakarta.enterprise.context.ApplicationScoped
+import jakarta.inject.Inject
+import kotlinx.serialization.Serializable
+import org.eclipse.microprofile.config.inject.ConfigProperty
+import java.io.BufferedWriter
+import java.io.IOException
+import java.nio.file.Files
+import java.nio.file.Path
+import java.nio.file.Paths
+import java.nio.file.StandardOpenOption
+import java.time.Instant
+import java.time.temporal.ChronoUnit
+import java.util.UUID
+import java.util.concurrent.ConcurrentHashMap
+
+/**
+ * Output of the external tools a task runs (ffmpeg, ffprobe, whisper, ffsubsync), kept per task.
+ *
+ * Every task gets one plain-text file, `<task id>.log`, with one `<instant> <text>` entry per line and
+ * ANSI escapes removed. A file stops growing at `task-logs.max-bytes`; the last lines of the run are
+ * still kept and written after an "omitted" marker when the task ends. Files older than
+ * `task-logs.retention-days` are deleted nightly. Lines are also published as [LiveEvent.TaskLog]
+ * about once a second for the live tail.
+ */
+@ApplicationScoped
+class TaskLogService {
+
+    @Inject
+    lateinit var liveEventBroadcaster: LiveEventBroadcaster
+
+    @Inject
+    lateinit var taskProcessRegistry: TaskProcessRegistry
+
+    @ConfigProperty(name = "task-logs.directory", defaultValue = "data/task-logs")
+    lateinit var directory: String
+
+    @ConfigProperty(name = "task-logs.max-bytes", defaultValue = "1048576")
+    var maxBytes: Long = 1_048_576
+
+    @ConfigProperty(name = "task-logs.retention-days", defaultValue = "14")
+    var retentionDays: Long = 14
+
+    private val logs = ConcurrentHashMap<UUID, OpenLog>()
+
+    /**
+     * Read the merged stdout and stderr of a process to its end, copying each line to the task's log.
+     * Returns the output as read, for callers that parse it. Without a task the output is only returned.
+     * Meanwhile the process is registered with [TaskProcessRegistry], so pausing the task suspends it.
+     */
+    fun capture(taskId: UUID?, process: Process, onLine: (String) -> Unit = {}): String {
+        val output = StringBuilder()
+        if (taskId != null) taskProcessRegistry.track(taskId, process)
+        try {
+            process.inputStream.bufferedReader().use { reader ->
+                reader.lineSequence().forEach { line ->
+                    output.appendLine(line)
+                    onLine(line)
+                    if (taskId != null) append(taskId, line)
+                }
+            }
+        } finally {
+            if (taskId != null) taskProcessRegistry.release(taskId, process)
+        }
+        return output.toString()
+    }
+
+    /**
+     * Record the command line a task is about to run
+     */
+    fun command(taskId: UUID?, command: List<String>) {
+        if (taskId != null) append(taskId, "$ ${command.joinToString(" ")}")
+    }
+
+    /**
+     * Record how a process ended; a null exit code means it was stopped after timing out
+     */
+    fun exit(taskId: UUID?, exitCode: Int?) {
+        if (taskId == null) return
+        append(taskId, if (exitCode == null) "Process timed out and was stopped" else "Process exited with code $exitCode")
+    }
+
+    /**
+     * Append text to a task's log. Progress bars that redraw with carriage returns become separate lines.
+     */
+    fun append(taskId: UUID, text: String) {
+        val log = logs.computeIfAbsent(taskId) { openLog(it) }
+        stripAnsi(text).split('\r', '\n')
+            .filter { it.isNotBlank() }
+            .forEach { log.write(TaskLogLine(log.nextSequence(), Instant.now().toString(), it.trimEnd())) }
+    }
+
+    /**
+     * Finish a task's log once the task has ended: write the kept tail of a truncated log and close the file
+     */
+    fun close(taskId: UUID) {
+        val log = logs.remove(taskId) ?: return
+        log.close()
+        publish(taskId, log)
+    }
+
+    /**
+     * The stored log of a task; empty if the task has not run a process yet
+     */
+    fun read(taskId: UUID): TaskLog {
+        val file = logFile(taskId)
+        logs[taskId]?.flush()
+        if (!Files.exists(file)) return TaskLog(taskId.toString(), emptyList(), 0, truncated = false, live = logs.containsKey(taskId))
+
+        val lines = Files.readAllLines(file).mapIndexed { index, entry ->
+            val at = entry.substringBefore(' ')
+            TaskLogLine(index.toLong(), at, entry.substringAfter(' ', ""))
+        }
+        return TaskLog(
+            taskId = taskId.toString(),
+            lines = lines,
+            sizeBytes = Files.size(file),
+            truncated = lines.any { it.text.startsWith(OMITTED_MARKER) },
+            live = logs.containsKey(taskId)
+        )
+    }
+
+    /**
+     * The log file for downloading, or null if there is none
+     */
+    fun file(taskId: UUID): Path? {
+        logs[taskId]?.flush()
+        return logFile(taskId).takeIf { Files.exists(it) }
+    }
+
+    @Scheduled(every = "1s")
+    fun publishPending() {
+        logs.forEach { (taskId, log) -> publish(taskId, log) }
+    }
+
+    @Scheduled(cron = "0 30 2 * * ?") // Daily at 2:30 AM
+    fun deleteExpiredLogs() {
+        val root = Paths.get(directory)
+        if (!Files.isDirectory(root)) return
+        val cutoff = Instant.now().minus(retentionDays, ChronoUnit.DAYS)
+        var deleted = 0
+        Files.list(root).use { files ->
+            files.filter { it.fileName.toString().endsWith(LOG_EXTENSION) }
+                .filter { Files.getLastModifiedTime(it).toInstant() < cutoff }
+                .filter { logs.keys.none { id -> logFile(id) == it } }
+                .forEach { file ->
+                    try {
+                        Files.delete(file)
+                        deleted++
+                    } catch (e: IOException) {
+                        Log.warn("Could not delete expired task log $file: ${e.message}")
+                    }
+                }
+        }
+        Log.info("Deleted $deleted task logs older than $retentionDays days")
+    }
+
+    private fun publish(taskId: UUID, log: OpenLog) {
+        val lines = log.drainPending()
+        if (lines.isNotEmpty()) {
+            liveEventBroadcaster.publishTaskLog(LiveEvent.TaskLog(taskId, lines))
+        }
+    }
+
+    private fun openLog(taskId: UUID): OpenLog {
+        val file = logFile(taskId)
+        Files.createDirectories(file.parent)
+        // A retried task continues the file of its earlier runs
+        val existingLines = if (Files.exists(file)) Files.lines(file).use { it.count() } else 0L
+        val writer = Files.newBufferedWriter(file, StandardOpenOption.CREATE, StandardOpenOption.APPEND)
+        return OpenLog(writer, if (Files.exists(file)) Files.size(file) else 0L, existingLines, maxBytes)
+    }
+
+    private fun logFile(taskId: UUID): Path = Paths.get(directory).resolve("$taskId$LOG_EXTENSION")
+
+    companion object {
+        const val LOG_EXTENSION = ".log"
+        const val OMITTED_MARKER = "[…"
+        // Lines kept in memory once a log is full, written out when the task ends
+        const val TAIL_LINES = 200
+
+        private val ANSI_ESCAPE = Regex("\u001B(?:\\[[0-?]*[ -/]*[@-~]|\\][^\u0007\u001B]*(?:\u0007|\u001B\\\\)|[@-Z\\\\-_])")
+
+        fun stripAnsi(text: String): String = text.replace(ANSI_ESCAPE, "")
+    }
+
+    private class OpenLog(
+        private val writer: BufferedWriter,
+        private var bytes: Long,
+        private var sequence: Long,
+        private val maxBytes: Long
+    ) {
+        private val pending = mutableListOf<TaskLogLine>()
+        private val tail = ArrayDeque<TaskLogLine>()
+        private var omitted = 0L
+
+        @Synchronized
+        fun nextSequence(): Long = sequence++
+
+        @Synchronized
+        fun write(line: TaskLogLine) {
+            pending.add(line)
+            val entry = "${line.at} ${line.text}\n"
+            val size = entry.toByteArray().size
+            if (omitted == 0L && bytes + size <= maxBytes) {
+                writer.write(entry)
+                bytes += size
+            } else {
+                omitted++
+                tail.addLast(line)
+                if (tail.size > TAIL_LINES) tail.removeFirst()
+            }
+        }
+
+        @Synchronized
+        fun drainPending(): List<TaskLogLine> {
+            val lines = pending.toList()
+            pending.clear()
+            return lines
+        }
+
+        @Synchronized
+        fun flush() {
+            try {
+                writer.flush()
+            } catch (e: IOException) {
+                Log.warn("Could not flush task log: ${e.message}")
+            }
+        }
+
+        @Synchronized
+        fun close() {
+            try {
+                if (omitted > 0) {
+                    val skipped = omitted - tail.size
+                    if (skipped > 0) {
+                        val marker = TaskLogLine(sequence++, Instant.now().toString(), "$OMITTED_MARKER $skipped lines omitted, log limit of $maxBytes bytes reached]")
+                        writer.write("${marker.at} ${marker.text}\n")
+                    }
+                    tail.forEach { writer.write("${it.at} ${it.text}\n") }
+                }
+                writer.close()
+            } catch (e: IOException) {
+                Log.warn("Could not close task log: ${e.message}")
+            }
+        }
+    }
+}
+
+@Serializable
+data class TaskLog(
+    val taskId: String,
+    val lines: List<TaskLogLine>,
+    val sizeBytes: Long,
+    val truncated: Boolean, // Lines between the head and the kept tail were dropped
+    val live: Boolean // The task may still add lines
+)
+
+@Serializable
+data class TaskLogLine(
+    val seq: Long,
+    val at: String,
+    val text: String
+)
@@ -0,0 +1,90 @@
+package gr.accio.services
+
+import io.quarkus.logging.Log
+import jakarta.enterprise.context.ApplicationScoped
+import java.io.IOException
+import java.util.UUID
+import java.util.concurrent.ConcurrentHashMap
+import java.util.concurrent.TimeUnit
+
+/**
+ * The external processes each running task has open, so a paused task can be suspended in place.
+ *
+ * Pausing sends SIGSTOP to a task's processes and their children, and resuming sends SIGCONT, so a long
+ * Whisper run picks up where it stopped instead of starting over. A process a paused task starts is
+ * stopped right away. Work a task does without a process, such as calling a translation API, only
+ * pauses at its next process. Signals need a `kill` command, so this does nothing on Windows.
+ */
+@ApplicationScoped
+class TaskProcessRegistry {
+
+    private val processes = ConcurrentHashMap<UUID, MutableSet<Process>>()
+    private val suspended = ConcurrentHashMap.newKeySet<UUID>()
+
+    /**
+     * Register a process a task has started; it is stopped at once if the task is paused
+     */
+    fun track(taskId: UUID, process: Process) {
+        processes.computeIfAbsent(taskId) { ConcurrentHashMap.newKeySet() }.add(process)
+        if (taskId in suspended) signal(process, STOP)
+    }
+
+    fun release(taskId: UUID, process: Process) {
+        processes.computeIfPresent(taskId) { _, open ->
+            open.remove(process)
+            if (open.isEmpty()) null else open
+        }
+    }
+
+    /**
+     * Stop a task's processes. False if a process could not be signalled.
+     */
+    fun suspend(taskId: UUID): Boolean {
+        suspended.add(taskId)
+        val stopped = openProcesses(taskId).all { signal(it, STOP) }
+        if (!stopped) suspended.remove(taskId)
+        return stopped
+    }
+
+    /**
+     * Continue a task's stopped processes
+     */
+    fun resume(taskId: UUID) {
+        if (suspended.remove(taskId)) openProcesses(taskId).forEach { signal(it, CONTINUE) }
+    }
+
+    fun isSuspended(taskId: UUID): Boolean = taskId in suspended
+
+    /**
+     * Drop everything kept for a task once it has ended
+     */
+    fun forget(taskId: UUID) {
+        suspended.remove(taskId)
+        processes.remove(taskId)
+    }
+
+    private fun openProcesses(taskId: UUID): List<Process> =
+        processes[taskId]?.filter { it.isAlive }.orEmpty()
+
+    // The whole tree is signalled, since tools like whisper do their work in child processes
+    private fun signal(process: Process, signal: String): Boolean {
+        val handle = process.toHandle()
+        val pids = (listOf(handle) + handle.descendants().toList()).map { it.pid().toString() }
+        return try {
+            val kill = ProcessBuilder(listOf("kill", "-$signal") + pids).redirectErrorStream(true).start()
+            val exited = kill.waitFor(SIGNAL_TIMEOUT_SECONDS, TimeUnit.SECONDS)
+            if (!exited) kill.destroyForcibly()
+            // Processes that exited in the meantime make kill fail, which is harmless
+            exited && (kill.exitValue() == 0 || !process.isAlive)
+        } catch (e: IOException) {
+            Log.warn("Could not send SIG$signal to process ${handle.pid()}: ${e.message}")
+            false
+        }
+    }
+
+    companion object {
+        private const val STOP = "STOP"
+        private const val CONTINUE = "CONT"
+        private const val SIGNAL_TIMEOUT_SECONDS = 5L
+    }
+}
@@ -23,8 +23,11 @@ class TaskService {
     @Inject
     lateinit var taskUpdateBroadcaster: TaskUpdateBroadcaster
 
+    @Inject
+    lateinit var taskProcessRegistry: TaskProcessRegistry
+
     /**
-     * Create and schedule a new task
+     * Create and schedule a new task. With a future [runAt] it waits as SCHEDULED until then.
      */
     fun createTask(
         type: TaskType,
@@ -32,26 +35,108 @@ class TaskService {
         videoFile: VideoFile? = null,
         subtitle: Subtitle? = null,
         parameters: Map<String, Any>? = null,
-        createdBy: String = "system"
+        createdBy: String = "system",
+        parentId: UUID? = null,
+        runAt: Instant? = null
     ): Uni<Task> {
+        val deferred = runAt?.isAfter(Instant.now()) == true
         val task = Task().apply {
             this.type = type
-            this.status = TaskStatus.PENDING
+            this.status = if (deferred) TaskStatus.SCHEDULED else TaskStatus.PENDING
+            this.scheduledAt = if (deferred) runAt else null
             this.priority = priority
             this.video = videoFile
             this.subtitle = subtitle
             this.parameters = parameters?.let { encodeParameters(it) }
-            this.createdBy = null
+            this.parentId = parentId
             this.createdAt = Instant.now()
             this.lastHeartbeat = Instant.now()
             this.progressPercentage = 0
             this.retryCount = 0
         }
 
-        return task.persistAndFlush<Task>()
+        return findOwner(createdBy).flatMap { owner ->
+            task.createdBy = owner
+            persistAndSchedule(task)
+        }
+    }
+
+    /**
+     * Create a task that works on the whole system rather than one video, such as a cleanup,
+     * backup or health check. The parameters, if any, must be a JSON object.
+     */
+    fun createMaintenanceTask(
+        type: TaskType,
+        parameters: String? = null,
+        priority: TaskPriority = TaskPriority.LOW,
+        createdBy: String = "system"
+    ): Uni<Task> {
+        require(type in MAINTENANCE_TYPES) { "${type.name} is not a maintenance task" }
+        val task = Task().apply {
+            this.type = type
+            this.status = TaskStatus.PENDING
+            this.priority = priority
+            this.parameters = parameters?.let { normalizeParameters(it) }
+            this.createdAt = Instant.now()
+            this.lastHeartbeat = Instant.now()
+            this.progressPercentage = 0
+            this.retryCount = 0
+        }
+        Log.info("Creating ${type.name} task for $createdBy")
+        return persistAndSchedule(task)
+    }
+
+    /**
+     * Create a new task with the type, targets and priority of an existing one. The parameters
+     * are the original ones unless a replacement JSON object is given. Null if the task is missing.
+     */
+    fun cloneTask(taskId: UUID, parameters: String? = null, priority: TaskPriority? = null): Uni<Task?> {
+        return Task.findByIdWithRelations(taskId)
+            .onItem().transformToUni { original ->
+                if (original == null) {
+                    Log.warn("Attempted to clone non-existent task: $taskId")
+                    Uni.createFrom().nullItem<Task>()
+                } else {
+                    require(original.type !in PARENT_TYPES) { "Batch and pipeline tasks cannot be cloned; retry their failed children instead" }
+                    val task = Task().apply {
+                        this.type = original.type
+                        this.status = TaskStatus.PENDING
+                        this.priority = priority ?: original.priority
+                        this.video = original.video
+                        this.subtitle = original.subtitle
+                        this.parameters = parameters?.let { normalizeParameters(it) } ?: original.parameters
+                        this.maxRetries = original.maxRetries
+                        this.createdBy = original.createdBy
+                        this.createdAt = Instant.now()
+                        this.lastHeartbeat = Instant.now()
+                        this.progressPercentage = 0
+                        this.retryCount = 0
+                    }
+                    Log.info("Cloning task $taskId")
+                    persistAndSchedule(task)
+                }
+            }
+    }
+
+    /**
+     * The account a task is created for. Null for "system" and the other names that are not
+     * accounts, such as "schedule" or "pipeline"; their tasks use the default settings.
+     */
+    private fun findOwner(createdBy: String): Uni<User?> {
+        return User.findByUsername(createdBy)
+    }
+
+    private fun persistAndSchedule(task: Task): Uni<Task> {
+        return estimateDuration(task.type)
+            .flatMap { estimate ->
+                task.estimatedDuration = estimate
+                task.persistAndFlush<Task>()
+            }
             .onItem().transformToUni { savedTask ->
                 Log.info("Created task ${savedTask.id} of type ${savedTask.type}")
-                
+                // Lets open task lists show the task right away
+                taskUpdateBroadcaster.broadcastTaskUpdate(savedTask)
+
                 // Schedule the task for execution
                 taskScheduler.scheduleTask(savedTask)
                     .onItem().transform { scheduled ->
@@ -65,11 +150,26 @@ class TaskService {
             }
     }
 
+    /**
+     * Median run time of the last completed tasks of a type, or null without history
+     */
+    private fun estimateDuration(type: TaskType): Uni<Long?> {
+        return Task.find(
+            "type = ?1 AND status = ?2 AND actualDuration IS NOT NULL ORDER BY completedAt DESC",
+            type, TaskStatus.COMPLETED
+        )
+            .page(0, ESTIMATE_SAMPLE_SIZE).list()
+            .map { recent ->
+                val durations = recent.mapNotNull { it.actualDuration }.sorted()
+                if (durations.isEmpty()) null else durations[durations.size / 2]
+            }
+    }
+
     /**
      * Get task by ID
      */
     fun getTask(taskId: UUID): Uni<Task?> {
-        return Task.findById(taskId)
+        return Task.findByIdWithRelations(taskId)
     }
 
     /**
@@ -121,15 +221,30 @@ class TaskService {
                     task.completedAt = java.time.Instant.now()
                     task.lastHeartbeat = java.time.Instant.now()
                     
+                    // A suspended process would otherwise hold its worker thread for good
+                    taskProcessRegistry.resume(taskId)
+
                     task.persistAndFlush<Task>()
                         .onItem().transformToUni {
                             // Try to interrupt the running job
                             taskScheduler.cancelTask(taskId)
                         }
+                        .call { _ ->
+                            if (task.type in PARENT_TYPES) cancelChildren(taskId) else Uni.createFrom().voidItem()
+                        }
                 }
             }
     }
 
+    private fun cancelChildren(parentId: UUID): Uni<Void> {
+        return Task.findByParent(parentId)
+            .onItem().transformToMulti { children -> Multi.createFrom().iterable(children) }
+            .filter { it.status !in FINISHED_STATUSES }
+            .onItem().transformToUniAndConcatenate { child -> cancelTask(child.id!!) }
+            .collect().asList()
+            .replaceWithVoid()
+    }
+
     /**
      * Retry a failed task
      */
@@ -171,6 +286,91 @@ class TaskService {
             }
     }
 
+    /**
+     * Pause a queued or running task. A queued task is taken off the queue; a running one has its
+     * processes suspended where they are. Null if the task is missing.
+     */
+    fun pauseTask(taskId: UUID): Uni<Task?> {
+        return Task.findById(taskId)
+            .onItem().transformToUni { task ->
+                if (task == null) {
+                    Log.warn("Attempted to pause non-existent task: $taskId")
+                    Uni.createFrom().nullItem<Task>()
+                } else {
+                    require(task.type !in PARENT_TYPES) { "Batch and pipeline tasks cannot be paused; pause their steps instead" }
+                    require(task.status in PAUSABLE_STATUSES) { "Only queued or running tasks can be paused (this one is ${task.status})" }
+                    if (task.status == TaskStatus.RUNNING) {
+                        require(taskProcessRegistry.suspend(taskId)) { "The running processes of this task could not be suspended" }
+                    } else {
+                        taskScheduler.unscheduleTask(taskId)
+                    }
+                    Log.info("Pausing task $taskId (was ${task.status})")
+                    task.status = TaskStatus.PAUSED
+                    task.lastHeartbeat = Instant.now()
+                    saveAndBroadcast(task)
+                }
+            }
+    }
+
+    /**
+     * Resume a paused task. One paused while running continues in place; any other is queued
+     * again, for its scheduled time if that is still ahead. Null if the task is missing.
+     */
+    fun resumeTask(taskId: UUID): Uni<Task?> {
+        return Task.findById(taskId)
+            .onItem().transformToUni { task ->
+                if (task == null) {
+                    Log.warn("Attempted to resume non-existent task: $taskId")
+                    Uni.createFrom().nullItem<Task>()
+                } else {
+                    require(task.status == TaskStatus.PAUSED) { "Only paused tasks can be resumed (this one is ${task.status})" }
+                    task.lastHeartbeat = Instant.now()
+                    taskProcessRegistry.resume(taskId)
+                    if (taskScheduler.isRunning(taskId)) {
+                        Log.info("Resuming running task $taskId")
+                        task.status = TaskStatus.RUNNING
+                        saveAndBroadcast(task)
+                    } else {
+                        // Also covers tasks that were running when the server restarted; they start over
+                        val deferred = task.scheduledAt?.isAfter(Instant.now()) == true
+                        task.status = if (deferred) TaskStatus.SCHEDULED else TaskStatus.PENDING
+                        Log.info("Re-queueing paused task $taskId")
+                        saveAndBroadcast(task).call { saved -> taskScheduler.scheduleTask(saved) }
+                    }
+                }
+            }
+    }
+
+    /**
+     * Change the priority of a task that has not started yet; a queued task is queued again so the
+     * new priority counts. Null if the task is missing.
+     */
+    fun updatePriority(taskId: UUID, priority: TaskPriority): Uni<Task?> {
+        return Task.findById(taskId)
+            .onItem().transformToUni { task ->
+                if (task == null) {
+                    Log.warn("Attempted to reprioritise non-existent task: $taskId")
+                    Uni.createFrom().nullItem<Task>()
+                } else {
+                    val waiting = task.status == TaskStatus.PENDING || task.status == TaskStatus.SCHEDULED
+                    require(waiting || (task.status == TaskStatus.PAUSED && !taskScheduler.isRunning(taskId))) {
+                        "Only tasks that have not started can be reprioritised (this one is ${task.status})"
+                    }
+                    Log.info("Changing priority of task $taskId from ${task.priority} to $priority")
+                    task.priority = priority
+                    // Paused tasks pick the new priority up when they are resumed
+                    saveAndBroadcast(task).call { saved ->
+                        if (waiting) taskScheduler.rescheduleTask(saved) else Uni.createFrom().item(true)
+                    }
+                }
+            }
+    }
+
+    private fun saveAndBroadcast(task: Task): Uni<Task> {
+        return task.persistAndFlush<Task>()
+            .invoke { saved -> taskUpdateBroadcaster.broadcastTaskUpdate(saved) }
+    }
+
     /**
      * Get task statistics
      */
@@ -237,7 +437,13 @@ class TaskService {
     /**
      * Create a scan library task
      */
-    fun createScanTask(libraryPaths: List<String>, createdBy: String = "system"): Uni<Task> {
+    fun createScanTask(
+        libraryPaths: List<String>,
+        createdBy: String = "system",
+        videoFile: VideoFile? = null,
+        parentId: UUID? = null,
+        timing: TaskTiming = TaskTiming()
+    ): Uni<Task> {
         val parameters = mapOf(
             "paths" to libraryPaths,
             "recursive" to true,
@@ -246,16 +452,24 @@ class TaskService {
         
         return createTask(
             type = TaskType.SCAN_LIBRARY,
-            priority = TaskPriority.HIGH,
+            priority = timing.priority ?: TaskPriority.HIGH,
+            videoFile = videoFile,
             parameters = parameters,
-            createdBy = createdBy
+            createdBy = createdBy,
+            parentId = parentId,
+            runAt = timing.runAt
         )
     }
 
     /**
      * Create a sync subtitles task
      */
-    fun createSyncTask(videoFile: VideoFile, createdBy: String = "system"): Uni<Task> {
+    fun createSyncTask(
+        videoFile: VideoFile,
+        createdBy: String = "system",
+        parentId: UUID? = null,
+        timing: TaskTiming = TaskTiming()
+    ): Uni<Task> {
         val parameters = mapOf(
             "videoFileId" to videoFile.id.toString(),
             "autoSync" to true
@@ -263,10 +477,62 @@ class TaskService {
         
         return createTask(
             type = TaskType.SYNC_SUBTITLES,
-            priority = TaskPriority.MEDIUM,
+            priority = timing.priority ?: TaskPriority.MEDIUM,
+            videoFile = videoFile,
+            parameters = parameters,
+            createdBy = createdBy,
+            parentId = parentId,
+            runAt = timing.runAt
+        )
+    }
+
+    /**
+     * Create a subtitle extraction task
+     */
+    fun createExtractionTask(
+        videoFile: VideoFile,
+        createdBy: String = "system",
+        parentId: UUID? = null,
+        timing: TaskTiming = TaskTiming()
+    ): Uni<Task> {
+        val parameters = mapOf(
+            "videoFileId" to videoFile.id.toString()
+        )
+
+        return createTask(
+            type = TaskType.EXTRACT_SUBTITLES,
+            priority = timing.priority ?: TaskPriority.MEDIUM,
+            videoFile = videoFile,
+            parameters = parameters,
+            createdBy = createdBy,
+            parentId = parentId,
+            runAt = timing.runAt
+        )
+    }
+
+    /**
+     * Create a subtitle generation task
+     */
+    fun createGenerationTask(
+        videoFile: VideoFile,
+        language: String = "auto",
+        createdBy: String = "system",
+        parentId: UUID? = null,
+        timing: TaskTiming = TaskTiming()
+    ): Uni<Task> {
+        val parameters = mapOf(
+            "videoFileId" to videoFile.id.toString(),
+            "language" to language
+        )
+
+        return createTask(
+            type = TaskType.GENERATE_SUBTITLES,
+            priority = timing.priority ?: TaskPriority.MEDIUM,
             videoFile = videoFile,
             parameters = parameters,
-            createdBy = createdBy
+            createdBy = createdBy,
+            parentId = parentId,
+            runAt = timing.runAt
         )
     }
 
@@ -277,7 +543,9 @@ class TaskService {
         subtitle: Subtitle,
         targetLanguage: String = "el",
         provider: String = "openai",
-        createdBy: String = "system"
+        createdBy: String = "system",
+        parentId: UUID? = null,
+        timing: TaskTiming = TaskTiming()
     ): Uni<Task> {
         val parameters = mapOf(
             "subtitleId" to subtitle.id.toString(),
@@ -288,33 +556,147 @@ class TaskService {
         
         return createTask(
             type = TaskType.TRANSLATE_SUBTITLES,
-            priority = TaskPriority.MEDIUM,
+            priority = timing.priority ?: TaskPriority.MEDIUM,
+            // Linked to the video too, so the translation shows up in its task history
+            videoFile = subtitle.video,
             subtitle = subtitle,
             parameters = parameters,
-            createdBy = createdBy
+            createdBy = createdBy,
+            parentId = parentId,
+            runAt = timing.runAt
         )
     }
 
     /**
-     * Create a batch processing task
+     * Create a batch task that runs [type] on every video. One child task is queued per video
+     * right away; the batch itself only tracks them and rolls their progress up. Translation
+     * needs a source subtitle, so videos without one are skipped and counted in the batch.
      */
     fun createBatchTask(
-        operation: String,
-        fileIds: List<UUID>,
-        createdBy: String = "system"
+        type: TaskType,
+        videos: List<VideoFile>,
+        parameters: Map<String, String> = emptyMap(),
+        createdBy: String = "system",
+        timing: TaskTiming = TaskTiming()
     ): Uni<Task> {
-        val parameters = mapOf(
-            "operation" to operation,
-            "fileIds" to fileIds.map { it.toString() },
-            "batchSize" to 10
-        )
-        
-        return createTask(
-            type = TaskType.BATCH_PROCESS,
-            priority = TaskPriority.LOW,
-            parameters = parameters,
-            createdBy = createdBy
-        )
+        require(type in BATCH_TYPES) { "${type.name} cannot be run as a batch" }
+        require(videos.isNotEmpty()) { "Select at least one video" }
+
+        val deferred = timing.runAt?.isAfter(Instant.now()) == true
+        val batch = Task().apply {
+            this.type = TaskType.BATCH_PROCESS
+            this.status = if (deferred) TaskStatus.SCHEDULED else TaskStatus.PENDING
+            this.scheduledAt = if (deferred) timing.runAt else null
+            this.priority = TaskPriority.LOW
+            this.parameters = encodeParameters(parameters + mapOf("operation" to type.name, "videoCount" to videos.size))
+            this.progressMessage = "Queueing ${videos.size} videos"
+            this.lastHeartbeat = Instant.now()
+        }
+
+        // The batch is only scheduled once its children exist, otherwise it could finish early
+        return findOwner(createdBy).flatMap { owner ->
+            batch.createdBy = owner
+            batch.persistAndFlush<Task>()
+        }.flatMap { saved ->
+            Multi.createFrom().iterable(videos)
+                .onItem().transformToUniAndConcatenate { video ->
+                    createBatchChild(type, video, parameters, createdBy, saved.id!!, timing)
+                }
+                .collect().asList()
+                .flatMap { children ->
+                    val skipped = videos.size - children.size
+                    Log.info("Batch ${saved.id} queued ${children.size} ${type.name} tasks ($skipped skipped)")
+                    saved.parameters = encodeParameters(
+                        parameters + mapOf(
+                            "operation" to type.name,
+                            "videoCount" to videos.size,
+                            "childCount" to children.size,
+                            "skipped" to skipped
+                        )
+                    )
+                    saved.progressMessage = "0 of ${children.size} done" + if (skipped > 0) ", $skipped skipped" else ""
+                    saved.persistAndFlush<Task>()
+                }
+                .invoke { task -> taskUpdateBroadcaster.broadcastTaskUpdate(task) }
+                .call { task -> taskScheduler.scheduleTask(task) }
+        }
+    }
+
+    /**
+     * Create the task that runs a pipeline on one video. Its steps are queued as child tasks
+     * while it runs, each once the steps it depends on have succeeded.
+     */
+    fun createPipelineTask(
+        videoFile: VideoFile,
+        parameters: String,
+        createdBy: String = "system",
+        timing: TaskTiming = TaskTiming()
+    ): Uni<Task> {
+        val deferred = timing.runAt?.isAfter(Instant.now()) == true
+        val task = Task().apply {
+            this.type = TaskType.PIPELINE
+            this.status = if (deferred) TaskStatus.SCHEDULED else TaskStatus.PENDING
+            this.scheduledAt = if (deferred) timing.runAt else null
+            // Like a batch, the pipeline only tracks its steps; they carry the requested priority
+            this.priority = TaskPriority.LOW
+            this.video = videoFile
+            this.parameters = normalizeParameters(parameters)
+            this.createdAt = Instant.now()
+            this.lastHeartbeat = Instant.now()
+            this.progressPercentage = 0
+            this.retryCount = 0
+        }
+        Log.info("Creating pipeline task for ${videoFile.path} ($createdBy)")
+        return findOwner(createdBy).flatMap { owner ->
+            task.createdBy = owner
+            persistAndSchedule(task)
+        }
+    }
+
+    /**
+     * Emits a null item, which the batch skips, when the video cannot take part.
+     */
+    private fun createBatchChild(
+        type: TaskType,
+        video: VideoFile,
+        parameters: Map<String, String>,
+        createdBy: String,
+        batchId: UUID,
+        timing: TaskTiming
+    ): Uni<Task> {
+        return when (type) {
+            TaskType.SYNC_SUBTITLES -> createSyncTask(video, createdBy, batchId, timing)
+            TaskType.EXTRACT_SUBTITLES -> createExtractionTask(video, createdBy, batchId, timing)
+            TaskType.GENERATE_SUBTITLES ->
+                createGenerationTask(video, parameters["language"] ?: "auto", createdBy, batchId, timing)
+            TaskType.SCAN_LIBRARY -> createScanTask(listOf(video.path), createdBy, video, batchId, timing)
+            TaskType.TRANSLATE_SUBTITLES -> {
+                val targetLanguage = parameters["targetLanguage"] ?: "el"
+                Subtitle.findByVideo(video).flatMap { subtitles ->
+                    val candidates = subtitles.filter { it.filePath != null && it.language != targetLanguage }
+                    val source = candidates.firstOrNull { it.language == parameters["sourceLanguage"] }
+                        ?: candidates.firstOrNull()
+                    if (source == null) {
+                        Log.info("Skipping ${video.path} in batch $batchId: no subtitle to translate from")
+                        Uni.createFrom().nullItem<Task>()
+                    } else {
+                        createTranslationTask(source, targetLanguage, parameters["provider"] ?: "openai", createdBy, batchId, timing)
+                    }
+                }
+            }
+            else -> Uni.createFrom().failure(IllegalArgumentException("${type.name} cannot be run as a batch"))
+        }
+    }
+
+    // Edited parameters must be a JSON object, since every executor reads them as one
+    private fun normalizeParameters(parameters: String): String {
+        val element = try {
+            Json.parseToJsonElement(parameters)
+        } catch (e: Exception) {
+            throw IllegalArgumentException("Parameters are not valid JSON: ${e.message}")
+        }
+        require(element is JsonObject) { "Parameters must be a JSON object" }
+        return Json.encodeToString(JsonObject.serializer(), element)
     }
 
     private fun encodeParameters(parameters: Map<String, Any>): String {
@@ -336,4 +718,38 @@ class TaskService {
             "{}"
         }
     }
-}
\ No newline at end of file
+
+    companion object {
+        // Completed tasks of the same type that the duration estimate of a new task is based on
+        const val ESTIMATE_SAMPLE_SIZE = 20
+
+        val BATCH_TYPES = setOf(
+            TaskType.SYNC_SUBTITLES,
+            TaskType.TRANSLATE_SUBTITLES,
+            TaskType.EXTRACT_SUBTITLES,
+            TaskType.GENERATE_SUBTITLES,
+            TaskType.SCAN_LIBRARY
+        )
+
+        val MAINTENANCE_TYPES = setOf(
+            TaskType.CLEANUP_FILES,
+            TaskType.BACKUP_DATABASE,
+            TaskType.OPTIMIZE_DATABASE,
+            TaskType.HEALTH_CHECK
+        )
+
+        // Tasks that only track the child tasks they queue
+        val PARENT_TYPES = setOf(TaskType.BATCH_PROCESS, TaskType.PIPELINE)
+
+        private val FINISHED_STATUSES = setOf(TaskStatus.COMPLETED, TaskStatus.FAILED, TaskStatus.CANCELLED)
+        private val PAUSABLE_STATUSES = setOf(TaskStatus.PENDING, TaskStatus.SCHEDULED, TaskStatus.RUNNING)
+    }
+}
+
+/**
+ * When and how urgently a new task runs. Unset, it is queued right away at its type's usual priority.
+ */
+data class TaskTiming(
+    val priority: TaskPriority? = null,
+    val runAt: Instant? = null
+)
\ No newline at end of file
@@ -31,10 +31,14 @@ class TranslateService {
     @Inject
     lateinit var subtitleParser: SubtitleParser
 
+    @Inject
+    lateinit var reviewService: ReviewService
+
     /**
-     * Translate subtitles by subtitle ID with specific parameters
+     * Translate subtitles by subtitle ID with specific parameters. The review threshold is the one
+     * in the settings of [username], or the default when no user asked for the translation.
      */
-    fun translate(subtitleId: UUID, targetLanguage: String, provider: String): Uni<Map<String, Any>> {
+    fun translate(subtitleId: UUID, targetLanguage: String, provider: String, username: String?): Uni<Map<String, Any>> {
         return Subtitle.findById(subtitleId)
             .flatMap { subtitle ->
                 if (subtitle == null) {
@@ -63,12 +67,20 @@ class TranslateService {
                                 .flatMap { 
                                     performSubtitleTranslation(subtitle, task, config, targetLanguage, provider)
                                 }
+                                .flatMap { result ->
+                                    // Low-confidence translations wait in the review queue
+                                    if (result["success"] == true) {
+                                        reviewService.enqueueIfLowConfidence(subtitle, username).map { result }
+                                    } else {
+                                        Uni.createFrom().item(result)
+                                    }
+                                }
                         }
                 }
             }
     }
 
-    fun translate(videoId: UUID): Uni<Map<String, Any>> {
+    fun translate(videoId: UUID, username: String): Uni<Map<String, Any>> {
         return VideoFile.findById(videoId)
             .flatMap { video ->
                 if (video == null) {
@@ -92,7 +104,7 @@ class TranslateService {
                             task.persist<Task>()
                                 .flatMap { 
                                     // Start translation process
-                                    performTranslation(video, task, config)
+                                    performTranslation(video, task, config, username)
                                 }
                         }
                 }
@@ -225,7 +237,7 @@ class TranslateService {
         }
     }
 
-    private fun performTranslation(video: VideoFile, task: Task, config: UserConfiguration): Uni<Map<String, Any>> {
+    private fun performTranslation(video: VideoFile, task: Task, config: UserConfiguration, username: String): Uni<Map<String, Any>> {
         return task.persist<Task>()
             .flatMap {
                 task.status = TaskStatus.RUNNING
@@ -287,6 +299,7 @@ class TranslateService {
                     }
                     
                     translatedSubtitle.persist<Subtitle>()
+                        .flatMap { reviewService.enqueueIfLowConfidence(translatedSubtitle, username) }
                         .flatMap {
                             // Complete the translation
                             task.status = TaskStatus.COMPLETED
@@ -0,0 +1,156 @@
+package gr.accio.services
+
+import gr.accio.models.RefreshToken
+import gr.accio.models.User
+import gr.accio.models.UserRole
+import io.quarkus.hibernate.reactive.panache.common.WithTransaction
+import io.quarkus.logging.Log
+import io.smallrye.mutiny.Uni
+import jakarta.enterprise.context.ApplicationScoped
+import kotlinx.serialization.Serializable
+import org.mindrot.jbcrypt.BCrypt
+import java.util.UUID
+
+/**
+ * Accounts as the admin's user management page sees them. Users are deactivated rather than
+ * deleted, since tasks and notifications keep referring to them.
+ */
+@ApplicationScoped
+class UserService {
+
+    fun listUsers(): Uni<List<UserView>> {
+        return User.listByUsername().map { users -> users.map { UserView.of(it) } }
+    }
+
+    fun getUser(username: String): Uni<UserView?> {
+        return User.findByUsername(username).map { user -> user?.let { UserView.of(it) } }
+    }
+
+    @WithTransaction
+    fun createUser(request: UserCreateRequest): Uni<UserView> {
+        val username = request.username.trim()
+        val email = request.email?.trim()?.ifEmpty { null }
+        require(USERNAME.matches(username)) { "Usernames are 3 to 50 letters, digits, dots, dashes or underscores" }
+        requirePassword(request.password)
+        require(email == null || (email.length <= 100 && '@' in email)) { "\"$email\" is not an email address" }
+
+        return User.findByUsername(username).flatMap { existing ->
+            require(existing == null) { "The username $username is taken" }
+            if (email == null) Uni.createFrom().nullItem() else User.findByEmail(email)
+        }.flatMap { sameEmail ->
+            require(sameEmail == null) { "Another user already has the email $email" }
+            User().apply {
+                this.username = username
+                this.email = email
+                passwordHash = hashPassword(request.password)
+                role = request.role
+            }.persist<User>()
+        }.map { user ->
+            Log.info("Created ${user.role} user ${user.username}")
+            UserView.of(user)
+        }
+    }
+
+    /**
+     * Change a user's role or deactivate them. [actingUsername] is the admin making the change,
+     * who cannot lock themselves out; the last active admin cannot be demoted or deactivated either.
+     */
+    @WithTransaction
+    fun updateUser(id: UUID, update: UserUpdateRequest, actingUsername: String): Uni<UserView?> {
+        return User.findById(id).flatMap { user ->
+            if (user == null) {
+                Uni.createFrom().nullItem()
+            } else {
+                val role = update.role ?: user.role
+                val active = update.active ?: user.isActive
+                require(user.username != actingUsername || (role == user.role && active)) {
+                    "You cannot change your own role or deactivate yourself"
+                }
+                val losesAdmin = user.role == UserRole.ADMIN && user.isActive && (role != UserRole.ADMIN || !active)
+                val adminCheck: Uni<Long> = if (losesAdmin) User.countActiveAdmins() else Uni.createFrom().item(Long.MAX_VALUE)
+                adminCheck.flatMap { admins ->
+                    require(admins > 1) { "At least one active admin is required" }
+                    user.role = role
+                    user.isActive = active
+                    Log.info("Updated user ${user.username}: role $role, ${if (active) "active" else "deactivated"}")
+                    user.persist<User>().flatMap { saved ->
+                        // A deactivated user's sessions cannot be renewed; the role shows in the next renewal
+                        val revoke: Uni<Long> = if (active) Uni.createFrom().item(0L) else RefreshToken.deleteForUser(saved.username)
+                        revoke.map { UserView.of(saved) }
+                    }
+                }
+            }
+        }
+    }
+
+    @WithTransaction
+    fun resetPassword(id: UUID, request: PasswordResetRequest): Uni<UserView?> {
+        requirePassword(request.password)
+        return User.findById(id).flatMap { user ->
+            if (user == null) {
+                Uni.createFrom().nullItem()
+            } else {
+                user.passwordHash = hashPassword(request.password)
+                Log.info("Reset the password of user ${user.username}")
+                // Whoever was signed in with the old password is signed out
+                RefreshToken.deleteForUser(user.username).flatMap {
+                    user.persist<User>()
+                }.map { UserView.of(it) }
+            }
+        }
+    }
+
+    private fun requirePassword(password: String) {
+        require(password.length >= MIN_PASSWORD_LENGTH) { "Passwords need at least $MIN_PASSWORD_LENGTH characters" }
+    }
+
+    companion object {
+        const val MIN_PASSWORD_LENGTH = 8
+        private val USERNAME = Regex("[A-Za-z0-9._-]{3,50}")
+
+        fun hashPassword(password: String): String = BCrypt.hashpw(password, BCrypt.gensalt())
+    }
+}
+
+@Serializable
+data class UserView(
+    val id: String,
+    val username: String,
+    val email: String?,
+    val role: UserRole,
+    val active: Boolean,
+    val lastLoginAt: String?,
+    val createdAt: String
+) {
+    companion object {
+        fun of(user: User): UserView =
+            UserView(
+                id = user.id.toString(),
+                username = user.username,
+                email = user.email,
+                role = user.role,
+                active = user.isActive,
+                lastLoginAt = user.lastLoginAt?.toString(),
+                createdAt = user.createdAt.toString()
+            )
+    }
+}
+
+@Serializable
+data class UserCreateRequest(
+    val username: String,
+    val password: String,
+    val email: String? = null,
+    val role: UserRole = UserRole.USER
+)
+
+@Serializable
+data class UserUpdateRequest(
+    val role: UserRole? = null,
+    val active: Boolean? = null
+)
+
+@Serializable
+data class PasswordResetRequest(
+    val password: String
+)
@@ -1,11 +1,15 @@
 package gr.accio.websockets
 
+import gr.accio.config.SecurityConfig
 import gr.accio.models.Task
+import gr.accio.services.LiveEvent
+import gr.accio.services.LiveEventBroadcaster
 import gr.accio.services.TaskService
 import io.quarkus.logging.Log
-import io.smallrye.mutiny.Multi
+import io.smallrye.jwt.auth.principal.JWTParser
+import io.smallrye.jwt.auth.principal.ParseException
 import io.smallrye.mutiny.subscription.Cancellable
-import kotlinx.serialization.encodeToString
+import kotlinx.serialization.SerializationException
 import kotlinx.serialization.json.Json
 import java.util.concurrent.ConcurrentHashMap
 import jakarta.enterprise.context.ApplicationScoped
@@ -13,6 +17,14 @@ import jakarta.inject.Inject
 import jakarta.websocket.*
 import jakarta.websocket.server.ServerEndpoint
 
+/**
+ * Live task updates, scan progress and notifications (see [ServerMessage]).
+ *
+ * Browsers cannot set headers on a WebSocket handshake, so the client passes its JWT as the
+ * `token` query parameter. Task-scoped messages are filtered by the session's subscriptions;
+ * a session without subscriptions receives everything except process logs, which need a
+ * subscription to their task. Notifications only go to the sessions of their recipient.
+ */
 @ServerEndpoint("/ws/tasks")
 @ApplicationScoped
 class TaskUpdatesWebSocket {
@@ -20,36 +32,62 @@ class TaskUpdatesWebSocket {
     @Inject
     lateinit var taskService: TaskService
 
+    @Inject
+    lateinit var liveEventBroadcaster: LiveEventBroadcaster
+
+    @Inject
+    lateinit var jwtParser: JWTParser
+
+    private val json = Json {
+        ignoreUnknownKeys = true
+        encodeDefaults = true
+    }
+
     // Store active WebSocket sessions
     private val sessions = ConcurrentHashMap<String, Session>()
-    private val subscriptions = ConcurrentHashMap<String, Cancellable>()
+    private val streams = ConcurrentHashMap<String, List<Cancellable>>()
+    private val filters = ConcurrentHashMap<String, ConcurrentHashMap<String, SubscriptionFilter>>()
+    private val usernames = ConcurrentHashMap<String, String>()
 
     @OnOpen
     fun onOpen(session: Session) {
         val sessionId = session.id
+        val username = authenticate(session)
+
+        if (username == null) {
+            Log.warn("Rejected unauthenticated WebSocket connection: $sessionId")
+            sendMessage(session, ErrorMessage("unauthorized", "A valid token is required"))
+            session.close(CloseReason(CloseReason.CloseCodes.VIOLATED_POLICY, "Unauthorized"))
+            return
+        }
+
         sessions[sessionId] = session
-        
+        usernames[sessionId] = username
+        filters[sessionId] = ConcurrentHashMap()
+
         Log.info("WebSocket connection opened: $sessionId")
-        
-        // Subscribe to task updates for this session
-        val subscription = taskService.streamTaskUpdates()
+
+        val taskStream = taskService.streamTaskUpdates()
             .subscribe().with(
                 { task -> sendTaskUpdate(sessionId, task) },
-                { error -> 
+                { error ->
                     Log.error("Error in task updates stream for session $sessionId", error)
                     closeSession(sessionId)
                 }
             )
-        
-        subscriptions[sessionId] = subscription
-        
-        // Send initial connection confirmation
-        sendMessage(sessionId, mapOf(
-            "type" to "connection",
-            "status" to "connected",
-            "sessionId" to sessionId,
-            "timestamp" to System.currentTimeMillis()
-        ))
+
+        val eventStream = liveEventBroadcaster.stream()
+            .subscribe().with(
+                { event -> sendLiveEvent(sessionId, event) },
+                { error ->
+                    Log.error("Error in live event stream for session $sessionId", error)
+                    closeSession(sessionId)
+                }
+            )
+
+        streams[sessionId] = listOf(taskStream, eventStream)
+
+        sendMessage(sessionId, ConnectionMessage(status = "connected", sessionId = sessionId))
     }
 
     @OnClose
@@ -70,83 +108,110 @@ class TaskUpdatesWebSocket {
     fun onMessage(session: Session, message: String) {
         val sessionId = session.id
         Log.debug("Received message from session $sessionId: $message")
-        
-        try {
-            // Parse incoming message for potential commands
-            val messageData = Json.decodeFromString<Map<String, String>>(message)
-            
-            when (messageData["type"]) {
-                "ping" -> {
-                    sendMessage(sessionId, mapOf(
-                        "type" to "pong",
-                        "timestamp" to System.currentTimeMillis()
-                    ))
+
+        val clientMessage = try {
+            json.decodeFromString<ClientMessage>(message)
+        } catch (e: SerializationException) {
+            Log.warn("Invalid message from session $sessionId: ${e.message}")
+            sendMessage(sessionId, ErrorMessage("invalid_message", "Invalid message format"))
+            return
+        } catch (e: IllegalArgumentException) {
+            Log.warn("Invalid message from session $sessionId: ${e.message}")
+            sendMessage(sessionId, ErrorMessage("invalid_message", "Invalid message format"))
+            return
+        }
+
+        when (clientMessage) {
+            is PingMessage -> sendMessage(sessionId, PongMessage())
+            is SubscribeMessage -> {
+                filters[sessionId]?.put(clientMessage.subscriptionId, clientMessage.filter)
+                Log.info("Session $sessionId subscribed ${clientMessage.subscriptionId} with filter: ${clientMessage.filter}")
+                sendMessage(sessionId, SubscribedMessage(clientMessage.subscriptionId, clientMessage.filter))
+            }
+            is UnsubscribeMessage -> {
+                filters[sessionId]?.remove(clientMessage.subscriptionId)
+                Log.debug("Session $sessionId removed subscription ${clientMessage.subscriptionId}")
+            }
+        }
+    }
+
+    /**
+     * The user the session's token was issued to, or null when the token is missing or invalid
+     */
+    private fun authenticate(session: Session): String? {
+        val token = session.requestParameterMap["token"]?.firstOrNull()
+        if (token.isNullOrBlank()) {
+            return null
+        }
+
+        return try {
+            jwtParser.parse(token).takeIf { it.groups.contains(SecurityConfig.VIEWER_ROLE) }?.name
+        } catch (e: ParseException) {
+            Log.debug("WebSocket token rejected: ${e.message}")
+            null
+        }
+    }
+
+    private fun sendTaskUpdate(sessionId: String, task: Task) {
+        val snapshot = TaskSnapshot.from(task)
+        if (acceptsTaskMessage(sessionId) { it.matches(snapshot) }) {
+            sendMessage(sessionId, TaskUpdateMessage(snapshot))
+        }
+    }
+
+    private fun sendLiveEvent(sessionId: String, event: LiveEvent) {
+        when (event) {
+            is LiveEvent.ScanProgress -> {
+                val payload = ScanProgressPayload.from(event)
+                if (acceptsTaskMessage(sessionId) { it.matches(payload) }) {
+                    sendMessage(sessionId, ScanProgressMessage(payload))
                 }
-                "subscribe" -> {
-                    // Client can request specific task types or filters
-                    val filter = messageData["filter"]
-                    Log.info("Session $sessionId subscribed with filter: $filter")
-                    // For now, we send all updates, but this could be enhanced
+            }
+            is LiveEvent.TaskLog -> {
+                val payload = TaskLogPayload.from(event)
+                if (filters[sessionId]?.values?.any { it.matches(payload) } == true) {
+                    sendMessage(sessionId, TaskLogMessage(payload))
                 }
-                else -> {
-                    Log.warn("Unknown message type from session $sessionId: ${messageData["type"]}")
+            }
+            is LiveEvent.Notification -> {
+                // Each user has their own notifications
+                if (usernames[sessionId] == event.username) {
+                    sendMessage(sessionId, NotificationMessage(NotificationPayload.from(event)))
                 }
             }
-        } catch (e: Exception) {
-            Log.error("Error processing message from session $sessionId", e)
-            sendMessage(sessionId, mapOf(
-                "type" to "error",
-                "message" to "Invalid message format",
-                "timestamp" to System.currentTimeMillis()
-            ))
         }
     }
 
-    private fun sendTaskUpdate(sessionId: String, task: Task) {
-        val updateData = mapOf(
-            "type" to "task_update",
-            "task" to mapOf(
-                "id" to task.id.toString(),
-                "type" to task.type.toString(),
-                "status" to task.status.toString(),
-                "priority" to task.priority.toString(),
-                "progressPercentage" to task.progressPercentage,
-                "message" to task.progressMessage,
-                "createdAt" to task.createdAt?.toEpochMilli(),
-                "updatedAt" to task.updatedAt?.toEpochMilli(),
-                "startedAt" to task.startedAt?.toEpochMilli(),
-                "completedAt" to task.completedAt?.toEpochMilli(),
-                "retryCount" to task.retryCount,
-                "videoId" to task.video?.id?.toString(),
-                "subtitleId" to task.subtitle?.id?.toString()
-            ),
-            "timestamp" to System.currentTimeMillis()
-        )
-        
-        sendMessage(sessionId, updateData)
+    private fun acceptsTaskMessage(sessionId: String, predicate: (SubscriptionFilter) -> Boolean): Boolean {
+        val sessionFilters = filters[sessionId] ?: return false
+        return sessionFilters.isEmpty() || sessionFilters.values.any(predicate)
+    }
+
+    private fun sendMessage(sessionId: String, message: ServerMessage) {
+        val session = sessions[sessionId] ?: return
+        sendMessage(session, message)
     }
 
-    private fun sendMessage(sessionId: String, data: Map<String, Any?>) {
-        val session = sessions[sessionId]
-        if (session != null && session.isOpen) {
+    private fun sendMessage(session: Session, message: ServerMessage) {
+        if (session.isOpen) {
             try {
-                val jsonMessage = Json.encodeToString(data)
-                session.asyncRemote.sendText(jsonMessage)
+                session.asyncRemote.sendText(json.encodeToString(ServerMessage.serializer(), message))
             } catch (e: Exception) {
-                Log.error("Error sending message to session $sessionId", e)
-                closeSession(sessionId)
+                Log.error("Error sending message to session ${session.id}", e)
+                closeSession(session.id)
             }
         }
     }
 
     private fun closeSession(sessionId: String) {
-        // Cancel subscription
-        subscriptions[sessionId]?.cancel()
-        subscriptions.remove(sessionId)
-        
+        // Cancel subscriptions
+        streams.remove(sessionId)?.forEach { it.cancel() }
+        filters.remove(sessionId)
+        usernames.remove(sessionId)
+
         // Remove session
         sessions.remove(sessionId)
-        
+
         Log.info("Cleaned up resources for session $sessionId")
     }
 
@@ -163,4 +228,4 @@ class TaskUpdatesWebSocket {
      * Get the number of active WebSocket connections
      */
     fun getActiveConnectionsCount(): Int = sessions.size
-}
\ No newline at end of file
+}
@@ -0,0 +1,231 @@
+package gr.accio.websockets
+
+import gr.accio.models.Task
+import gr.accio.services.LiveEvent
+import gr.accio.services.TaskLogLine
+import kotlinx.serialization.SerialName
+import kotlinx.serialization.Serializable
+
+/**
+ * Wire format of the `/ws/tasks` endpoint (protocol version 4).
+ *
+ * Every frame is a JSON object whose `type` field selects the message; the webui mirrors
+ * these shapes in `src/services/websocket.ts`.
+ */
+const val PROTOCOL_VERSION = 4
+
+@Serializable
+sealed class ServerMessage {
+    abstract val timestamp: Long
+}
+
+@Serializable
+@SerialName("connection")
+data class ConnectionMessage(
+    val status: String,
+    val sessionId: String,
+    val protocolVersion: Int = PROTOCOL_VERSION,
+    override val timestamp: Long = System.currentTimeMillis()
+) : ServerMessage()
+
+@Serializable
+@SerialName("task_update")
+data class TaskUpdateMessage(
+    val task: TaskSnapshot,
+    override val timestamp: Long = System.currentTimeMillis()
+) : ServerMessage()
+
+@Serializable
+@SerialName("scan_progress")
+data class ScanProgressMessage(
+    val progress: ScanProgressPayload,
+    override val timestamp: Long = System.currentTimeMillis()
+) : ServerMessage()
+
+@Serializable
+@SerialName("task_log")
+data class TaskLogMessage(
+    val log: TaskLogPayload,
+    override val timestamp: Long = System.currentTimeMillis()
+) : ServerMessage()
+
+@Serializable
+@SerialName("notification")
+data class NotificationMessage(
+    val notification: NotificationPayload,
+    override val timestamp: Long = System.currentTimeMillis()
+) : ServerMessage()
+
+@Serializable
+@SerialName("subscribed")
+data class SubscribedMessage(
+    val subscriptionId: String,
+    val filter: SubscriptionFilter,
+    override val timestamp: Long = System.currentTimeMillis()
+) : ServerMessage()
+
+@Serializable
+@SerialName("pong")
+data class PongMessage(
+    override val timestamp: Long = System.currentTimeMillis()
+) : ServerMessage()
+
+@Serializable
+@SerialName("error")
+data class ErrorMessage(
+    val code: String,
+    val message: String,
+    override val timestamp: Long = System.currentTimeMillis()
+) : ServerMessage()
+
+@Serializable
+sealed class ClientMessage
+
+@Serializable
+@SerialName("ping")
+data class PingMessage(
+    val timestamp: Long? = null
+) : ClientMessage()
+
+@Serializable
+@SerialName("subscribe")
+data class SubscribeMessage(
+    val subscriptionId: String,
+    val filter: SubscriptionFilter = SubscriptionFilter()
+) : ClientMessage()
+
+@Serializable
+@SerialName("unsubscribe")
+data class UnsubscribeMessage(
+    val subscriptionId: String
+) : ClientMessage()
+
+/**
+ * Narrows task-scoped messages to one task, one video or one task type. Empty fields match anything.
+ * Process logs are only sent for a subscription that names its task and sets `logs`.
+ */
+@Serializable
+data class SubscriptionFilter(
+    val taskId: String? = null,
+    val videoId: String? = null,
+    val taskType: String? = null,
+    val logs: Boolean = false
+) {
+    fun matches(task: TaskSnapshot): Boolean =
+        (taskId == null || taskId == task.id) &&
+            (videoId == null || videoId == task.videoId) &&
+            (taskType == null || taskType.equals(task.type, ignoreCase = true))
+
+    fun matches(progress: ScanProgressPayload): Boolean =
+        (taskId == null || taskId == progress.taskId) &&
+            videoId == null &&
+            (taskType == null || taskType.equals("SCAN_LIBRARY", ignoreCase = true))
+
+    fun matches(log: TaskLogPayload): Boolean =
+        logs && taskId == log.taskId
+}
+
+/**
+ * The subset of [Task] pushed on every update; field names match the REST `Task` schema.
+ */
+@Serializable
+data class TaskSnapshot(
+    val id: String,
+    val type: String,
+    val status: String,
+    val priority: String,
+    val progressPercentage: Int,
+    val progressMessage: String? = null,
+    val errorMessage: String? = null,
+    val retryCount: Int,
+    val videoId: String? = null,
+    val subtitleId: String? = null,
+    val createdAt: String,
+    val updatedAt: String,
+    val startedAt: String? = null,
+    val completedAt: String? = null,
+    val parentId: String? = null,
+    val maxRetries: Int,
+    val estimatedDuration: Long? = null
+) {
+    companion object {
+        fun from(task: Task) = TaskSnapshot(
+            id = task.id.toString(),
+            type = task.type.name,
+            status = task.status.name,
+            priority = task.priority.name,
+            progressPercentage = task.progressPercentage,
+            progressMessage = task.progressMessage,
+            errorMessage = task.errorMessage,
+            retryCount = task.retryCount,
+            videoId = task.video?.id?.toString(),
+            subtitleId = task.subtitle?.id?.toString(),
+            createdAt = task.createdAt.toString(),
+            updatedAt = task.updatedAt.toString(),
+            startedAt = task.startedAt?.toString(),
+            completedAt = task.completedAt?.toString(),
+            parentId = task.parentId?.toString(),
+            maxRetries = task.maxRetries,
+            estimatedDuration = task.estimatedDuration
+        )
+    }
+}
+
+@Serializable
+data class ScanProgressPayload(
+    val taskId: String? = null,
+    val libraryPath: String,
+    val scanned: Int,
+    val total: Int,
+    val currentFile: String? = null,
+    val completed: Boolean
+) {
+    companion object {
+        fun from(event: LiveEvent.ScanProgress) = ScanProgressPayload(
+            taskId = event.taskId?.toString(),
+            libraryPath = event.libraryPath,
+            scanned = event.scanned,
+            total = event.total,
+            currentFile = event.currentFile,
+            completed = event.completed
+        )
+    }
+}
+
+@Serializable
+data class TaskLogPayload(
+    val taskId: String,
+    val lines: List<TaskLogLine>
+) {
+    companion object {
+        fun from(event: LiveEvent.TaskLog) = TaskLogPayload(
+            taskId = event.taskId.toString(),
+            lines = event.lines
+        )
+    }
+}
+
+@Serializable
+data class NotificationPayload(
+    val id: String,
+    val kind: String,
+    val level: String,
+    val title: String,
+    val message: String,
+    val taskId: String? = null,
+    val videoId: String? = null,
+    val createdAt: String
+) {
+    companion object {
+        fun from(event: LiveEvent.Notification) = NotificationPayload(
+            id = event.id.toString(),
+            kind = event.kind.name,
+            level = event.level.name,
+            title = event.title,
+            message = event.message,
+            taskId = event.taskId?.toString(),
+            videoId = event.videoId?.toString(),
+            createdAt = event.createdAt.toString()
+        )
+    }
+}
@@ -1,18 +1,29 @@
 import { BrowserRouter as Router, Routes, Route, Navigate } from 'react-router-dom';
 import { AuthProvider } from './contexts/AuthContext';
 import ProtectedRoute from './components/ProtectedRoute';
+import SessionTimeoutWarning from './components/SessionTimeoutWarning';
 import Layout from './components/Layout/Layout';
 import Dashboard from './pages/Dashboard';
 import Tasks from './pages/Tasks';
+import Schedules from './pages/Schedules';
+import Pipelines from './pages/Pipelines';
 import Videos from './pages/Videos';
+import VideoDetail from './pages/VideoDetail';
 import Subtitles from './pages/Subtitles';
+import SubtitleEditor from './pages/SubtitleEditor';
+import SubtitleTiming from './pages/SubtitleTiming';
+import Reviews from './pages/Reviews';
+import TranslationReview from './pages/TranslationReview';
+import Analytics from './pages/Analytics';
 import Settings from './pages/Settings';
+import Users from './pages/Users';
 import Login from './pages/Login';
 
 function App() {
   return (
     <AuthProvider>
       <Router>
+        <SessionTimeoutWarning />
         <Routes>
           {/* Public routes */}
           <Route path="/login" element={<Login />} />
@@ -33,6 +44,20 @@ function App() {
               </Layout>
             </ProtectedRoute>
           } />
+          <Route path="/schedules" element={
+            <ProtectedRoute role="ADMIN">
+              <Layout>
+                <Schedules />
+              </Layout>
+            </ProtectedRoute>
+          } />
+          <Route path="/pipelines" element={
+            <ProtectedRoute>
+              <Layout>
+                <Pipelines />
+              </Layout>
+            </ProtectedRoute>
+          } />
           <Route path="/videos" element={
             <ProtectedRoute>
               <Layout>
@@ -40,6 +65,13 @@ function App() {
               </Layout>
             </ProtectedRoute>
           } />
+          <Route path="/videos/:id" element={
+            <ProtectedRoute>
+              <Layout>
+                <VideoDetail />
+              </Layout>
+            </ProtectedRoute>
+          } />
           <Route path="/subtitles" element={
             <ProtectedRoute>
               <Layout>
@@ -47,6 +79,48 @@ function App() {
               </Layout>
             </ProtectedRoute>
           } />
+          <Route path="/subtitles/:id" element={
+            <ProtectedRoute>
+              <Layout>
+                <SubtitleEditor />
+              </Layout>
+            </ProtectedRoute>
+          } />
+          <Route path="/subtitles/:id/timing" element={
+            <ProtectedRoute>
+              <Layout>
+                <SubtitleTiming />
+              </Layout>
+            </ProtectedRoute>
+          } />
+          <Route path="/reviews" element={
+            <ProtectedRoute>
+              <Layout>
+                <Reviews />
+              </Layout>
+            </ProtectedRoute>
+          } />
+          <Route path="/reviews/:id" element={
+            <ProtectedRoute>
+              <Layout>
+                <TranslationReview />
+              </Layout>
+            </ProtectedRoute>
+          } />
+          <Route path="/analytics" element={
+            <ProtectedRoute>
+              <Layout>
+                <Analytics />
+              </Layout>
+            </ProtectedRoute>
+          } />
+          <Route path="/users" element={
+            <ProtectedRoute role="ADMIN">
+              <Layout>
+                <Users />
+              </Layout>
+            </ProtectedRoute>
+          } />
           <Route path="/settings" element={
             <ProtectedRoute>
               <Layout>
@@ -0,0 +1,150 @@
+import { useEffect, useRef, useState } from 'react';
+import type { ComponentType, CSSProperties, ReactNode, SVGProps } from 'react';
+import { EllipsisVerticalIcon } from '@heroicons/react/24/outline';
+
+export interface ActionMenuItem {
+  label: string;
+  icon: ComponentType<SVGProps<SVGSVGElement>>;
+  onSelect?: () => void;
+  // Rendered as a link instead, e.g. for downloads
+  href?: string;
+  disabled?: boolean;
+  // Why the item is disabled, shown as its tooltip
+  hint?: string;
+  danger?: boolean;
+  // For items that swap in a panel instead of acting right away
+  keepOpen?: boolean;
+}
+
+interface ActionMenuProps {
+  label: string;
+  items: ActionMenuItem[];
+  // Replaces the item list while it renders something, for actions that need input or confirmation
+  panel?: (close: () => void) => ReactNode;
+  onClose?: () => void;
+  busy?: boolean;
+}
+
+const MENU_WIDTH = 224;
+// Roughly the height of a full menu; rows closer than this to the bottom open upwards
+const MENU_HEIGHT = 320;
+
+// The menu is positioned against the viewport so scrolling table containers cannot clip it
+export default function ActionMenu({ label, items, panel, onClose, busy = false }: ActionMenuProps) {
+  const buttonRef = useRef<HTMLButtonElement>(null);
+  const menuRef = useRef<HTMLDivElement>(null);
+  const [position, setPosition] = useState<CSSProperties | null>(null);
+
+  const close = () => {
+    setPosition(null);
+    onClose?.();
+  };
+
+  const toggle = () => {
+    if (position) {
+      close();
+      return;
+    }
+    const rect = buttonRef.current!.getBoundingClientRect();
+    const right = window.innerWidth - rect.right;
+    setPosition(
+      rect.bottom + MENU_HEIGHT > window.innerHeight
+        ? { bottom: window.innerHeight - rect.top + 4, right }
+        : { top: rect.bottom + 4, right }
+    );
+  };
+
+  const open = position !== null;
+
+  useEffect(() => {
+    if (!open) return;
+    const closeMenu = () => {
+      setPosition(null);
+      onClose?.();
+    };
+    const onPointerDown = (event: MouseEvent) => {
+      const target = event.target as Node;
+      if (!menuRef.current?.contains(target) && !buttonRef.current?.contains(target)) {
+        closeMenu();
+      }
+    };
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') closeMenu();
+    };
+    // A fixed menu would drift away from its row, so scrolling anything but the menu closes it
+    const onScroll = (event: Event) => {
+      if (!menuRef.current?.contains(event.target as Node)) closeMenu();
+    };
+    const onResize = () => closeMenu();
+
+    document.addEventListener('mousedown', onPointerDown);
+    document.addEventListener('keydown', onKeyDown);
+    window.addEventListener('scroll', onScroll, true);
+    window.addEventListener('resize', onResize);
+    return () => {
+      document.removeEventListener('mousedown', onPointerDown);
+      document.removeEventListener('keydown', onKeyDown);
+      window.removeEventListener('scroll', onScroll, true);
+      window.removeEventListener('resize', onResize);
+    };
+  }, [open, onClose]);
+
+  const itemClass = (item: ActionMenuItem) =>
+    `flex w-full items-center px-3 py-2 text-sm text-left ${
+      item.disabled
+        ? 'text-gray-300 cursor-not-allowed'
+        : item.danger
+          ? 'text-red-600 hover:bg-red-50'
+          : 'text-gray-700 hover:bg-gray-100'
+    }`;
+
+  return (
+    <div onClick={e => e.stopPropagation()}>
+      <button
+        ref={buttonRef}
+        onClick={toggle}
+        disabled={busy}
+        className="p-1 text-gray-400 hover:text-gray-600 rounded-md disabled:opacity-50"
+        aria-label={label}
+        aria-haspopup="menu"
+        aria-expanded={open}
+      >
+        <EllipsisVerticalIcon className={`h-5 w-5 ${busy ? 'animate-pulse' : ''}`} />
+      </button>
+
+      {position && (
+        <div
+          ref={menuRef}
+          role="menu"
+          style={{ ...position, width: MENU_WIDTH }}
+          className="fixed z-30 py-1 bg-white rounded-md shadow-lg ring-1 ring-black/5 text-left whitespace-normal"
+        >
+          {panel?.(close) ??
+            items.map(item =>
+              item.href && !item.disabled ? (
+                <a key={item.label} href={item.href} role="menuitem" onClick={close} className={itemClass(item)}>
+                  <item.icon className="w-4 h-4 mr-2 flex-shrink-0" />
+                  {item.label}
+                </a>
+              ) : (
+                <button
+                  key={item.label}
+                  role="menuitem"
+                  disabled={item.disabled}
+                  title={item.disabled ? item.hint : undefined}
+                  onClick={() => {
+                    item.onSelect?.();
+                    if (!item.keepOpen) close();
+                  }}
+                  className={itemClass(item)}
+                >
+                  <item.icon className="w-4 h-4 mr-2 flex-shrink-0" />
+                  {item.label}
+                </button>
+              )
+            )}
+        </div>
+      )}
+    </div>
+  );
+}
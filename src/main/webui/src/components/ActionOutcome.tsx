@@ -0,0 +1,44 @@
+import { Link } from 'react-router-dom';
+import type { Task } from '../services/api';
+import { useQuery } from '../hooks/useQuery';
+import { queries } from '../services/queries';
+import TaskStatusBadge from './TaskStatusBadge';
+
+// What the last row action did: queued a task, finished on the spot, or failed
+export type ActionOutcome =
+  | { label: string; task: Task }
+  | { label: string; message: string }
+  | { label: string; error: string };
+
+// The task query is patched by live updates, so the badge follows the task to completion
+function QueuedTask({ label, task }: { label: string; task: Task }) {
+  const { data } = useQuery(queries.task(task.id));
+  const current = data ?? task;
+
+  return (
+    <Link
+      to={`/tasks?task=${task.id}`}
+      onClick={e => e.stopPropagation()}
+      className="inline-flex items-center space-x-2 text-xs text-gray-600 hover:text-primary-600"
+      title="Show this task"
+    >
+      <span>{label}</span>
+      <TaskStatusBadge status={current.status} />
+      {current.status === 'RUNNING' && <span>{current.progressPercentage}%</span>}
+    </Link>
+  );
+}
+
+export default function ActionOutcomeBadge({ outcome }: { outcome: ActionOutcome }) {
+  if ('task' in outcome) {
+    return <QueuedTask label={outcome.label} task={outcome.task} />;
+  }
+  if ('error' in outcome) {
+    return (
+      <span className="block max-w-[14rem] truncate text-xs text-red-600" title={outcome.error}>
+        {outcome.label} failed: {outcome.error}
+      </span>
+    );
+  }
+  return <span className="text-xs text-green-700">{outcome.message}</span>;
+}
@@ -0,0 +1,253 @@
+import { useState } from 'react';
+import { format, formatDistanceToNow } from 'date-fns';
+import { ClipboardDocumentIcon, KeyIcon, PlusIcon, XCircleIcon } from '@heroicons/react/24/outline';
+import { useAuth } from '../contexts/AuthContext';
+import { useQuery } from '../hooks/useQuery';
+import { apiTokenMutations, queries } from '../services/queries';
+import type { ApiTokenCreated, ApiTokenScope, ApiTokenView, UserRole } from '../services/api';
+import { API_TOKEN_SCOPES, formatEnumLabel } from '../services/models';
+
+// Mirrors ApiTokenScope.role: the role a user needs to create a token with each scope
+const SCOPE_ROLES: Record<ApiTokenScope, UserRole> = {
+  READ_ONLY: 'VIEWER',
+  TASKS: 'USER',
+  ADMIN: 'ADMIN',
+};
+
+const SCOPE_DESCRIPTIONS: Record<ApiTokenScope, string> = {
+  READ_ONLY: 'Read the library, tasks and statistics',
+  TASKS: 'Also start scans, tasks, pipelines and translations',
+  ADMIN: 'Also manage schedules, users and cleanup',
+};
+
+// The longest is ApiTokenService.MAX_EXPIRY_DAYS
+const EXPIRY_CHOICES = [7, 30, 90, 365];
+
+const INPUT_CLASS =
+  'mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-1 focus:ring-primary-500 focus:border-primary-500';
+
+function TokenForm({ onCancel, onCreated }: { onCancel: () => void; onCreated: (created: ApiTokenCreated) => void }) {
+  const { hasRole } = useAuth();
+  const [name, setName] = useState('');
+  const [scope, setScope] = useState<ApiTokenScope>('READ_ONLY');
+  const [expiresInDays, setExpiresInDays] = useState(90);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const scopes = API_TOKEN_SCOPES.filter(option => hasRole(SCOPE_ROLES[option]));
+
+  const submit = async () => {
+    if (!name.trim()) return;
+    setSaving(true);
+    setError(null);
+    const response = await apiTokenMutations.create({ name: name.trim(), scope, expiresInDays });
+    setSaving(false);
+    if (response.data) {
+      onCreated(response.data);
+    } else {
+      setError(response.error ?? 'Unknown error');
+    }
+  };
+
+  return (
+    <form
+      className="space-y-4 rounded-md border border-gray-200 p-4"
+      onSubmit={e => {
+        e.preventDefault();
+        submit();
+      }}
+    >
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <label className="block text-sm font-medium text-gray-700">
+          Name
+          <input
+            type="text"
+            value={name}
+            maxLength={100}
+            placeholder="e.g. Backup script"
+            onChange={e => setName(e.target.value)}
+            className={INPUT_CLASS}
+            autoFocus
+          />
+        </label>
+        <label className="block text-sm font-medium text-gray-700">
+          Scope
+          <select value={scope} onChange={e => setScope(e.target.value as ApiTokenScope)} className={INPUT_CLASS}>
+            {scopes.map(option => (
+              <option key={option} value={option}>{formatEnumLabel(option)}</option>
+            ))}
+          </select>
+          <span className="mt-1 block text-xs font-normal text-gray-500">{SCOPE_DESCRIPTIONS[scope]}</span>
+        </label>
+        <label className="block text-sm font-medium text-gray-700">
+          Expires after
+          <select value={expiresInDays} onChange={e => setExpiresInDays(Number(e.target.value))} className={INPUT_CLASS}>
+            {EXPIRY_CHOICES.map(days => (
+              <option key={days} value={days}>{days} days</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {error && <p className="text-sm text-red-600">Could not create the token: {error}</p>}
+
+      <div className="flex justify-end space-x-3">
+        <button type="button" onClick={onCancel} disabled={saving} className="btn-secondary">
+          Cancel
+        </button>
+        <button type="submit" disabled={saving || !name.trim()} className="btn-primary">
+          {saving ? 'Creating…' : 'Create token'}
+        </button>
+      </div>
+    </form>
+  );
+}
+
+// The secret of a token just created; the server keeps only its hash, so this is the one chance to copy it
+function NewTokenSecret({ created, onDone }: { created: ApiTokenCreated; onDone: () => void }) {
+  const [copied, setCopied] = useState(false);
+
+  const copy = async () => {
+    try {
+      await navigator.clipboard.writeText(created.secret);
+      setCopied(true);
+    } catch (error) {
+      // Clipboard access is refused outside secure contexts; the secret can still be selected by hand
+      console.error('Copy failed:', error);
+    }
+  };
+
+  return (
+    <div className="rounded-md border border-green-200 bg-green-50 p-4 space-y-3">
+      <p className="text-sm text-green-800">
+        Created <span className="font-medium">{created.token.name}</span>. Copy the token now, it will not be shown again.
+      </p>
+      <div className="flex items-center space-x-2">
+        <code className="flex-1 select-all break-all rounded bg-white px-3 py-2 font-mono text-sm text-gray-900 border border-green-200">
+          {created.secret}
+        </code>
+        <button type="button" onClick={copy} className="btn-secondary flex items-center space-x-1 text-sm">
+          <ClipboardDocumentIcon className="w-4 h-4" />
+          <span>{copied ? 'Copied' : 'Copy'}</span>
+        </button>
+      </div>
+      <p className="text-xs text-green-800">
+        Send it as <code className="font-mono">Authorization: Bearer {'<token>'}</code> to call the API.
+      </p>
+      <div className="flex justify-end">
+        <button type="button" onClick={onDone} className="btn-primary text-sm">
+          Done
+        </button>
+      </div>
+    </div>
+  );
+}
+
+// Personal API tokens for scripts, in the Security section of Settings
+export default function ApiTokenManager() {
+  const tokensQuery = useQuery(queries.apiTokens());
+  const tokens = tokensQuery.data ?? [];
+  const error = tokensQuery.data ? null : tokensQuery.error;
+
+  const [creating, setCreating] = useState(false);
+  const [created, setCreated] = useState<ApiTokenCreated | null>(null);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+  const [revokeError, setRevokeError] = useState<string | null>(null);
+
+  const revoke = async (token: ApiTokenView) => {
+    if (!window.confirm(`Revoke "${token.name}"? Scripts using it will be refused from now on.`)) return;
+    setRevokingId(token.id);
+    setRevokeError(null);
+    const response = await apiTokenMutations.revoke(token.id);
+    setRevokingId(null);
+    if (response.error) setRevokeError(response.error);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-start justify-between">
+        <div>
+          <h3 className="text-sm font-medium text-gray-900">API tokens</h3>
+          <p className="text-sm text-gray-500">
+            Let scripts call the API as you, limited to a scope. A token never does more than your role allows.
+          </p>
+        </div>
+        {!creating && !created && (
+          <button type="button" onClick={() => setCreating(true)} className="btn-secondary flex items-center space-x-2 text-sm">
+            <PlusIcon className="w-4 h-4" />
+            <span>New token</span>
+          </button>
+        )}
+      </div>
+
+      {creating && (
+        <TokenForm
+          onCancel={() => setCreating(false)}
+          onCreated={result => {
+            setCreating(false);
+            setCreated(result);
+          }}
+        />
+      )}
+
+      {created && <NewTokenSecret created={created} onDone={() => setCreated(null)} />}
+
+      {revokeError && <p className="text-sm text-red-600">Could not revoke the token: {revokeError}</p>}
+
+      {tokensQuery.isLoading ? (
+        <div className="space-y-2">
+          {[...Array(2)].map((_, i) => (
+            <div key={i} className="h-12 bg-gray-100 rounded animate-pulse" />
+          ))}
+        </div>
+      ) : error ? (
+        <div className="flex items-center space-x-2 text-sm text-red-600">
+          <XCircleIcon className="w-5 h-5" />
+          <span>Could not load your tokens: {error}</span>
+          <button type="button" onClick={tokensQuery.refetch} className="font-medium underline">
+            Retry
+          </button>
+        </div>
+      ) : tokens.length === 0 ? (
+        <div className="text-center py-6">
+          <KeyIcon className="mx-auto h-8 w-8 text-gray-400" />
+          <p className="mt-2 text-sm text-gray-500">No API tokens</p>
+        </div>
+      ) : (
+        <ul className="divide-y divide-gray-200 rounded-md border border-gray-200">
+          {tokens.map(token => (
+            <li key={token.id} className={`flex items-center justify-between px-4 py-3 ${token.expired ? 'bg-gray-50' : ''}`}>
+              <div className="min-w-0">
+                <p className="text-sm font-medium text-gray-900">
+                  {token.name}
+                  <span className="ml-2 font-mono text-xs font-normal text-gray-500">{token.prefix}…</span>
+                  <span className="ml-2 inline-flex px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-700">
+                    {formatEnumLabel(token.scope)}
+                  </span>
+                </p>
+                <p className="text-xs text-gray-500">
+                  {token.expired ? (
+                    <span className="text-red-600">Expired {format(new Date(token.expiresAt), 'PP')}</span>
+                  ) : (
+                    <>Expires {format(new Date(token.expiresAt), 'PP')}</>
+                  )}
+                  {' · '}
+                  {token.lastUsedAt
+                    ? `Last used ${formatDistanceToNow(new Date(token.lastUsedAt), { addSuffix: true })}${token.lastUsedFrom ? ` from ${token.lastUsedFrom}` : ''}`
+                    : 'Never used'}
+                </p>
+              </div>
+              <button
+                type="button"
+                onClick={() => revoke(token)}
+                disabled={revokingId === token.id}
+                className="ml-4 text-sm text-red-600 hover:text-red-700 disabled:opacity-50"
+              >
+                {revokingId === token.id ? 'Revoking…' : 'Revoke'}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,233 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import {
+  ArrowPathIcon,
+  DocumentArrowDownIcon,
+  LanguageIcon,
+  MagnifyingGlassIcon,
+  SparklesIcon,
+  XMarkIcon,
+} from '@heroicons/react/24/outline';
+import type { ComponentType, SVGProps } from 'react';
+import type { AIProvider, ApiResponse, Task, TaskTiming, TaskType } from '../services/api';
+import { AI_PROVIDERS, formatEnumLabel } from '../services/models';
+import { useQuery } from '../hooks/useQuery';
+import { queries } from '../services/queries';
+import TaskTimingFields from './TaskTimingFields';
+
+interface BatchAction {
+  type: TaskType;
+  label: string;
+  description: string;
+  icon: ComponentType<SVGProps<SVGSVGElement>>;
+}
+
+const ACTIONS: BatchAction[] = [
+  {
+    type: 'SYNC_SUBTITLES',
+    label: 'Sync',
+    description: 'Re-align the subtitles of each video to its audio.',
+    icon: ArrowPathIcon,
+  },
+  {
+    type: 'TRANSLATE_SUBTITLES',
+    label: 'Translate',
+    description: 'Translate one subtitle of each video. Videos without a subtitle to translate from are skipped.',
+    icon: LanguageIcon,
+  },
+  {
+    type: 'EXTRACT_SUBTITLES',
+    label: 'Extract',
+    description: 'Extract the embedded subtitle streams of each video to files.',
+    icon: DocumentArrowDownIcon,
+  },
+  {
+    type: 'GENERATE_SUBTITLES',
+    label: 'Generate',
+    description: 'Transcribe the audio of each video into a new subtitle.',
+    icon: SparklesIcon,
+  },
+  {
+    type: 'SCAN_LIBRARY',
+    label: 'Rescan',
+    description: 'Re-read each video file and the subtitles next to it.',
+    icon: MagnifyingGlassIcon,
+  },
+];
+
+interface BatchActionBarProps {
+  count: number;
+  onClear: () => void;
+  onSubmit: (type: TaskType, parameters: Record<string, string>, timing: TaskTiming) => Promise<ApiResponse<Task>>;
+}
+
+export default function BatchActionBar({ count, onClear, onSubmit }: BatchActionBarProps) {
+  const { data: settings } = useQuery(queries.settings());
+  const [pending, setPending] = useState<BatchAction | null>(null);
+  const [targetLanguage, setTargetLanguage] = useState('');
+  const [provider, setProvider] = useState<AIProvider>('OPENAI');
+  const [language, setLanguage] = useState('auto');
+  const [timing, setTiming] = useState<TaskTiming>({});
+  const [submitting, setSubmitting] = useState(false);
+  const [result, setResult] = useState<{ error: string } | { task: Task; label: string; count: number } | null>(null);
+
+  const open = (action: BatchAction) => {
+    setTargetLanguage(settings?.defaultTargetLanguage ?? 'el');
+    setProvider(settings?.aiProvider ?? 'OPENAI');
+    setLanguage('auto');
+    setTiming({});
+    setResult(null);
+    setPending(action);
+  };
+
+  const confirm = async () => {
+    if (!pending) return;
+    const parameters: Record<string, string> =
+      pending.type === 'TRANSLATE_SUBTITLES'
+        ? {
+            targetLanguage: targetLanguage.trim(),
+            provider: provider.toLowerCase(),
+            ...(settings?.defaultSourceLanguage ? { sourceLanguage: settings.defaultSourceLanguage } : {}),
+          }
+        : pending.type === 'GENERATE_SUBTITLES'
+          ? { language: language.trim() || 'auto' }
+          : {};
+
+    setSubmitting(true);
+    const response = await onSubmit(pending.type, parameters, timing);
+    setSubmitting(false);
+    setPending(null);
+    if (response.data) {
+      setResult({ task: response.data, label: pending.label, count });
+      onClear();
+    } else {
+      setResult({ error: `${pending.label} failed: ${response.error}` });
+    }
+  };
+
+  const plural = (n: number) => `${n.toLocaleString()} video${n === 1 ? '' : 's'}`;
+
+  return (
+    <>
+      {count > 0 && (
+        <div className="flex flex-wrap items-center justify-between gap-3 mb-3 px-4 py-2 rounded-md bg-primary-50">
+          <div className="flex items-center space-x-3 text-sm text-primary-800">
+            <span className="font-medium">{plural(count)} selected</span>
+            <button onClick={onClear} className="text-primary-600 hover:text-primary-700">
+              Clear
+            </button>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {ACTIONS.map(action => (
+              <button
+                key={action.type}
+                onClick={() => open(action)}
+                className="btn-secondary flex items-center space-x-1 text-sm py-1"
+                title={action.description}
+              >
+                <action.icon className="w-4 h-4" />
+                <span>{action.label}</span>
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {result && (
+        <div
+          className={`flex items-center justify-between mb-3 p-3 rounded-md text-sm ${
+            'error' in result ? 'bg-red-50 text-red-800' : 'bg-green-50 text-green-800'
+          }`}
+        >
+          {'error' in result ? (
+            <span>{result.error}</span>
+          ) : (
+            <span>
+              {result.label} {result.task.status === 'SCHEDULED' ? 'scheduled' : 'queued'} for {plural(result.count)}.{' '}
+              <Link to={`/tasks?batch=${result.task.id}`} className="font-medium underline">
+                View batch task
+              </Link>
+            </span>
+          )}
+          <button onClick={() => setResult(null)} className="ml-4 opacity-70 hover:opacity-100" title="Dismiss">
+            <XMarkIcon className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+
+      {pending && (
+        <div className="fixed inset-0 z-40 flex items-center justify-center bg-gray-900/50 p-4">
+          <div className="card w-full max-w-md" role="dialog" aria-modal="true" aria-labelledby="batch-confirm-title">
+            <h3 id="batch-confirm-title" className="text-lg font-semibold text-gray-900">
+              {pending.label} {plural(count)}?
+            </h3>
+            <p className="mt-1 text-sm text-gray-600">{pending.description}</p>
+
+            {pending.type === 'TRANSLATE_SUBTITLES' && (
+              <div className="mt-4 grid grid-cols-2 gap-4">
+                <label className="block text-sm font-medium text-gray-700">
+                  Target language
+                  <input
+                    type="text"
+                    value={targetLanguage}
+                    onChange={e => setTargetLanguage(e.target.value)}
+                    placeholder="el"
+                    className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-1 focus:ring-primary-500 focus:border-primary-500"
+                  />
+                </label>
+                <label className="block text-sm font-medium text-gray-700">
+                  Provider
+                  <select
+                    value={provider}
+                    onChange={e => setProvider(e.target.value as AIProvider)}
+                    className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-1 focus:ring-primary-500 focus:border-primary-500"
+                  >
+                    {AI_PROVIDERS.map(option => (
+                      <option key={option} value={option}>
+                        {formatEnumLabel(option)}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              </div>
+            )}
+
+            {pending.type === 'GENERATE_SUBTITLES' && (
+              <label className="mt-4 block text-sm font-medium text-gray-700">
+                Spoken language
+                <input
+                  type="text"
+                  value={language}
+                  onChange={e => setLanguage(e.target.value)}
+                  placeholder="auto"
+                  className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-1 focus:ring-primary-500 focus:border-primary-500"
+                />
+              </label>
+            )}
+
+            <div className="mt-4">
+              <TaskTimingFields timing={timing} onChange={setTiming} />
+            </div>
+
+            <p className="mt-4 text-sm text-gray-500">
+              One task is queued per video and tracked together as a single batch task.
+            </p>
+
+            <div className="mt-6 flex justify-end space-x-3">
+              <button onClick={() => setPending(null)} disabled={submitting} className="btn-secondary">
+                Cancel
+              </button>
+              <button
+                onClick={confirm}
+                disabled={submitting || (pending.type === 'TRANSLATE_SUBTITLES' && !targetLanguage.trim())}
+                className="btn-primary"
+              >
+                {submitting ? 'Queueing…' : `Queue for ${plural(count)}`}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
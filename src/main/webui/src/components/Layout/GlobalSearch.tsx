@@ -0,0 +1,181 @@
+import { useEffect, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { MagnifyingGlassIcon } from '@heroicons/react/24/outline';
+import type { SearchResults } from '../../services/api';
+import { formatEnumLabel } from '../../services/models';
+import { useQuery } from '../../hooks/useQuery';
+import { queries } from '../../services/queries';
+import TaskStatusBadge from '../TaskStatusBadge';
+
+// Waits for typing to pause before searching
+const SEARCH_DEBOUNCE_MS = 250;
+// Mirrors SearchService.MIN_TERM_LENGTH
+const MIN_TERM_LENGTH = 2;
+
+interface SearchItem {
+  key: string;
+  group: 'Videos' | 'Subtitles' | 'Tasks';
+  href: string;
+  label: string;
+  detail?: string | null;
+  status?: SearchResults['tasks'][number]['status'];
+}
+
+// One list in display order, so the arrow keys can walk across the groups
+function itemsFrom(results: SearchResults | undefined): SearchItem[] {
+  if (!results) return [];
+  return [
+    ...results.videos.map((video): SearchItem => ({
+      key: `video-${video.id}`,
+      group: 'Videos',
+      href: `/videos/${video.id}`,
+      label: video.title ?? video.path,
+      detail: video.title ? video.path : null,
+    })),
+    ...results.subtitles.map((subtitle): SearchItem => ({
+      key: `subtitle-${subtitle.id}`,
+      group: 'Subtitles',
+      href: `/subtitles/${subtitle.id}`,
+      label: `${subtitle.languageDisplayName ?? subtitle.language} · ${subtitle.videoTitle}`,
+      detail: subtitle.fileName,
+    })),
+    ...results.tasks.map((task): SearchItem => ({
+      key: `task-${task.id}`,
+      group: 'Tasks',
+      href: `/tasks?task=${task.id}`,
+      label: `${formatEnumLabel(task.type)}${task.videoTitle ? ` · ${task.videoTitle}` : ''}`,
+      detail: task.errorMessage ?? task.id,
+      status: task.status,
+    })),
+  ];
+}
+
+// Typing in these already means something, so "/" is left alone there
+const isEditable = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+// The header's search box. "/" focuses it, the arrow keys move through the results and Enter opens one.
+export default function GlobalSearch() {
+  const navigate = useNavigate();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [term, setTerm] = useState('');
+  const [debounced, setDebounced] = useState('');
+  const [open, setOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebounced(term.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [term]);
+
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.key !== '/' || event.ctrlKey || event.metaKey || event.altKey || isEditable(event.target)) return;
+      event.preventDefault();
+      inputRef.current?.focus();
+    };
+    document.addEventListener('keydown', onKeyDown);
+    return () => document.removeEventListener('keydown', onKeyDown);
+  }, []);
+
+  const ready = debounced.length >= MIN_TERM_LENGTH;
+  const { data, error, isLoading } = useQuery(queries.search(debounced), { enabled: ready, keepPreviousData: true });
+  const items = ready ? itemsFrom(data) : [];
+  const active = Math.min(activeIndex, items.length - 1);
+
+  const openItem = (item: SearchItem) => {
+    setOpen(false);
+    setTerm('');
+    inputRef.current?.blur();
+    navigate(item.href);
+  };
+
+  const onKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+      event.preventDefault();
+      if (items.length === 0) return;
+      setOpen(true);
+      const step = event.key === 'ArrowDown' ? 1 : -1;
+      setActiveIndex((Math.max(active, 0) + step + items.length) % items.length);
+    } else if (event.key === 'Enter') {
+      if (active >= 0 && items[active]) {
+        event.preventDefault();
+        openItem(items[active]);
+      }
+    } else if (event.key === 'Escape') {
+      setOpen(false);
+      inputRef.current?.blur();
+    }
+  };
+
+  const showDropdown = open && term.trim().length >= MIN_TERM_LENGTH;
+
+  return (
+    <div className="relative">
+      <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+        <MagnifyingGlassIcon className="h-5 w-5 text-gray-400" />
+      </div>
+      <input
+        ref={inputRef}
+        type="search"
+        value={term}
+        onChange={e => {
+          setTerm(e.target.value);
+          setActiveIndex(0);
+          setOpen(true);
+        }}
+        onFocus={() => setOpen(true)}
+        onBlur={() => setOpen(false)}
+        onKeyDown={onKeyDown}
+        placeholder="Search (press /)"
+        role="combobox"
+        aria-expanded={showDropdown}
+        aria-controls="global-search-results"
+        aria-activedescendant={showDropdown && items[active] ? `global-search-${items[active].key}` : undefined}
+        aria-label="Search videos, subtitles and tasks"
+        className="block w-64 pl-10 pr-3 py-2 border border-gray-300 rounded-md leading-5 bg-white placeholder-gray-500 focus:outline-none focus:placeholder-gray-400 focus:ring-1 focus:ring-primary-500 focus:border-primary-500 sm:text-sm"
+      />
+
+      {showDropdown && (
+        <div
+          id="global-search-results"
+          role="listbox"
+          className="absolute right-0 z-30 mt-2 w-96 max-h-96 overflow-y-auto bg-white border border-gray-200 rounded-md shadow-lg"
+        >
+          {error && !data ? (
+            <p className="px-4 py-3 text-sm text-red-600">{error}</p>
+          ) : items.length === 0 ? (
+            <p className="px-4 py-3 text-sm text-gray-500">
+              {isLoading || !ready || debounced !== term.trim() ? 'Searching…' : 'Nothing matches'}
+            </p>
+          ) : (
+            items.map((item, index) => (
+              <div key={item.key}>
+                {(index === 0 || items[index - 1].group !== item.group) && (
+                  <p className="px-4 pt-3 pb-1 text-xs font-medium text-gray-500 uppercase tracking-wider">{item.group}</p>
+                )}
+                <button
+                  id={`global-search-${item.key}`}
+                  role="option"
+                  aria-selected={index === active}
+                  // Keeps the input focused, so the dropdown is still open when the click lands
+                  onMouseDown={e => e.preventDefault()}
+                  onMouseEnter={() => setActiveIndex(index)}
+                  onClick={() => openItem(item)}
+                  className={`w-full text-left px-4 py-2 ${index === active ? 'bg-primary-50' : 'hover:bg-gray-50'}`}
+                >
+                  <span className="flex items-center gap-2">
+                    <span className="text-sm text-gray-900 truncate">{item.label}</span>
+                    {item.status && <TaskStatusBadge status={item.status} />}
+                  </span>
+                  {item.detail && <span className="block text-xs text-gray-500 truncate">{item.detail}</span>}
+                </button>
+              </div>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
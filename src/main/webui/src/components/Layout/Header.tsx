@@ -1,5 +1,7 @@
-import { BellIcon, MagnifyingGlassIcon, ArrowRightOnRectangleIcon } from '@heroicons/react/24/outline';
+import { ArrowRightOnRectangleIcon } from '@heroicons/react/24/outline';
 import { useAuth } from '../../contexts/AuthContext';
+import GlobalSearch from './GlobalSearch';
+import NotificationBell from './NotificationBell';
 
 interface HeaderProps {
   title: string;
@@ -7,7 +9,7 @@ interface HeaderProps {
 }
 
 export default function Header({ title, subtitle }: HeaderProps) {
-  const { logout } = useAuth();
+  const { user, logout } = useAuth();
 
   const handleLogout = async () => {
     await logout();
@@ -25,21 +27,10 @@ export default function Header({ title, subtitle }: HeaderProps) {
         
         <div className="flex items-center space-x-4">
           {/* Search */}
-          <div className="relative">
-            <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
-              <MagnifyingGlassIcon className="h-5 w-5 text-gray-400" />
-            </div>
-            <input
-              type="text"
-              placeholder="Search..."
-              className="block w-64 pl-10 pr-3 py-2 border border-gray-300 rounded-md leading-5 bg-white placeholder-gray-500 focus:outline-none focus:placeholder-gray-400 focus:ring-1 focus:ring-primary-500 focus:border-primary-500 sm:text-sm"
-            />
-          </div>
+          <GlobalSearch />
           
           {/* Notifications */}
-          <button className="p-2 text-gray-400 hover:text-gray-500 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:ring-offset-2 rounded-md">
-            <BellIcon className="h-6 w-6" />
-          </button>
+          <NotificationBell />
           
           {/* Logout button */}
           <button 
@@ -51,13 +42,18 @@ export default function Header({ title, subtitle }: HeaderProps) {
           </button>
           
           {/* User menu */}
-          <div className="relative">
-            <button className="flex items-center text-sm rounded-full focus:outline-none focus:ring-2 focus:ring-primary-500 focus:ring-offset-2">
-              <div className="w-8 h-8 bg-primary-500 rounded-full flex items-center justify-center">
-                <span className="text-sm font-medium text-white">A</span>
-              </div>
-            </button>
-          </div>
+          {user && (
+            <div className="relative">
+              <button
+                className="flex items-center text-sm rounded-full focus:outline-none focus:ring-2 focus:ring-primary-500 focus:ring-offset-2"
+                title={`Signed in as ${user.username}`}
+              >
+                <div className="w-8 h-8 bg-primary-500 rounded-full flex items-center justify-center">
+                  <span className="text-sm font-medium text-white">{user.username[0].toUpperCase()}</span>
+                </div>
+              </button>
+            </div>
+          )}
         </div>
       </div>
     </header>
@@ -1,5 +1,6 @@
 import Sidebar from './Sidebar';
 import Header from './Header';
+import { useLiveQueryUpdates } from '../../hooks/useLiveQueryUpdates';
 
 interface LayoutProps {
   children: React.ReactNode;
@@ -8,6 +9,8 @@ interface LayoutProps {
 }
 
 export default function Layout({ children, title = "Skiperr", subtitle }: LayoutProps) {
+  useLiveQueryUpdates();
+
   return (
     <div className="flex h-screen bg-gray-50">
       <Sidebar />
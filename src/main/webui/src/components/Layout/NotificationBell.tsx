@@ -0,0 +1,161 @@
+import { useEffect, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { BellIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import type { NotificationLevel, NotificationView } from '../../services/api';
+import type { LiveNotification } from '../../services/websocket';
+import { useQuery } from '../../hooks/useQuery';
+import { useWebSocket } from '../../hooks/useWebSocket';
+import { notificationMutations, queries } from '../../services/queries';
+
+const LEVEL_DOTS: Record<NotificationLevel, string> = {
+  INFO: 'bg-blue-500',
+  SUCCESS: 'bg-green-500',
+  WARNING: 'bg-yellow-500',
+  ERROR: 'bg-red-500',
+};
+
+const browserSupport = typeof window !== 'undefined' && 'Notification' in window;
+
+// Where a notification leads: the task it reports on, else its video
+const targetOf = (notification: NotificationView) =>
+  notification.taskId ? `/tasks?task=${notification.taskId}` : notification.videoId ? `/videos/${notification.videoId}` : null;
+
+// The header's bell: an unread badge and a dropdown of the newest notifications. With web
+// notifications enabled in Settings, the browser also shows the ones that arrive while the tab is hidden.
+export default function NotificationBell() {
+  const navigate = useNavigate();
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [open, setOpen] = useState(false);
+  const [permission, setPermission] = useState(browserSupport ? Notification.permission : 'denied');
+
+  const { data, error } = useQuery(queries.notifications());
+  const { data: settings } = useQuery(queries.settings());
+  const webNotifications = browserSupport && (settings?.enableWebNotifications ?? false);
+
+  useWebSocket({
+    onNotification: (notification: LiveNotification) => {
+      if (!webNotifications || Notification.permission !== 'granted' || !document.hidden) return;
+      const popup = new Notification(notification.title, { body: notification.message, tag: notification.id });
+      popup.onclick = () => {
+        window.focus();
+        const target = targetOf({ ...notification, read: false });
+        if (target) navigate(target);
+        popup.close();
+      };
+    },
+  });
+
+  useEffect(() => {
+    if (!open) return;
+    const onMouseDown = (event: MouseEvent) => {
+      if (event.target instanceof Node && !containerRef.current?.contains(event.target)) setOpen(false);
+    };
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') setOpen(false);
+    };
+    document.addEventListener('mousedown', onMouseDown);
+    document.addEventListener('keydown', onKeyDown);
+    return () => {
+      document.removeEventListener('mousedown', onMouseDown);
+      document.removeEventListener('keydown', onKeyDown);
+    };
+  }, [open]);
+
+  const notifications = data?.notifications ?? [];
+  const unread = data?.unreadCount ?? 0;
+
+  const openNotification = (notification: NotificationView) => {
+    if (!notification.read) notificationMutations.markRead(notification.id);
+    const target = targetOf(notification);
+    if (target) {
+      setOpen(false);
+      navigate(target);
+    }
+  };
+
+  // Browsers only ask for permission in response to a click
+  const askPermission = async () => {
+    setPermission(await Notification.requestPermission());
+  };
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setOpen(value => !value)}
+        className="relative p-2 text-gray-400 hover:text-gray-500 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:ring-offset-2 rounded-md"
+        aria-label={unread > 0 ? `Notifications, ${unread} unread` : 'Notifications'}
+        aria-expanded={open}
+      >
+        <BellIcon className="h-6 w-6" />
+        {unread > 0 && (
+          <span className="absolute top-1 right-1 min-w-[1.1rem] px-1 text-[0.65rem] leading-4 font-semibold text-white bg-red-500 rounded-full text-center">
+            {unread > 99 ? '99+' : unread}
+          </span>
+        )}
+      </button>
+
+      {open && (
+        <div className="absolute right-0 z-30 mt-2 w-96 bg-white border border-gray-200 rounded-md shadow-lg">
+          <div className="flex items-center justify-between px-4 py-2 border-b border-gray-200">
+            <p className="text-sm font-medium text-gray-900">Notifications</p>
+            <div className="flex items-center gap-3 text-xs">
+              <button
+                onClick={() => notificationMutations.markAllRead()}
+                disabled={unread === 0}
+                className="text-primary-600 hover:text-primary-700 disabled:text-gray-400 disabled:cursor-not-allowed"
+              >
+                Mark all read
+              </button>
+              <button
+                onClick={() => notificationMutations.clear()}
+                disabled={notifications.length === 0}
+                className="text-gray-600 hover:text-gray-800 disabled:text-gray-400 disabled:cursor-not-allowed"
+              >
+                Clear
+              </button>
+            </div>
+          </div>
+
+          {webNotifications && permission === 'default' && (
+            <button
+              onClick={askPermission}
+              className="w-full px-4 py-2 text-left text-xs text-primary-700 bg-primary-50 hover:bg-primary-100"
+            >
+              Allow browser notifications to hear about tasks while this tab is in the background
+            </button>
+          )}
+
+          <div className="max-h-96 overflow-y-auto">
+            {error && !data ? (
+              <p className="px-4 py-3 text-sm text-red-600">Could not load notifications: {error}</p>
+            ) : notifications.length === 0 ? (
+              <p className="px-4 py-6 text-sm text-center text-gray-500">{data ? 'No notifications' : 'Loading…'}</p>
+            ) : (
+              <ul className="divide-y divide-gray-100">
+                {notifications.map(notification => (
+                  <li key={notification.id} className={`flex items-start gap-3 px-4 py-3 ${notification.read ? '' : 'bg-primary-50/40'}`}>
+                    <span className={`mt-1.5 h-2 w-2 flex-shrink-0 rounded-full ${LEVEL_DOTS[notification.level]}`} />
+                    <button onClick={() => openNotification(notification)} className="flex-1 min-w-0 text-left">
+                      <span className={`block text-sm truncate ${notification.read ? 'text-gray-700' : 'font-medium text-gray-900'}`}>
+                        {notification.title}
+                      </span>
+                      <span className="block text-xs text-gray-600 line-clamp-2">{notification.message}</span>
+                      <span className="block text-xs text-gray-400">{new Date(notification.createdAt).toLocaleString()}</span>
+                    </button>
+                    <button
+                      onClick={() => notificationMutations.remove(notification.id)}
+                      className="p-0.5 text-gray-400 hover:text-gray-600 rounded"
+                      aria-label="Dismiss notification"
+                    >
+                      <XMarkIcon className="h-4 w-4" />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -6,18 +6,32 @@ import {
   ClockIcon,
   CogIcon,
   ChartBarIcon,
+  CheckBadgeIcon,
+  CalendarDaysIcon,
+  QueueListIcon,
+  UsersIcon,
 } from '@heroicons/react/24/outline';
+import { useAuth } from '../../contexts/AuthContext';
+import type { UserRole } from '../../services/api';
+import { formatEnumLabel } from '../../services/models';
 
-const navigation = [
+// Items with a role only show for users who have it; ProtectedRoute guards the pages themselves
+const navigation: { name: string; href: string; icon: typeof HomeIcon; role?: UserRole }[] = [
   { name: 'Dashboard', href: '/', icon: HomeIcon },
   { name: 'Videos', href: '/videos', icon: PlayIcon },
   { name: 'Subtitles', href: '/subtitles', icon: DocumentTextIcon },
+  { name: 'Reviews', href: '/reviews', icon: CheckBadgeIcon },
   { name: 'Tasks', href: '/tasks', icon: ClockIcon },
+  { name: 'Schedules', href: '/schedules', icon: CalendarDaysIcon, role: 'ADMIN' },
+  { name: 'Pipelines', href: '/pipelines', icon: QueueListIcon },
   { name: 'Analytics', href: '/analytics', icon: ChartBarIcon },
+  { name: 'Users', href: '/users', icon: UsersIcon, role: 'ADMIN' },
   { name: 'Settings', href: '/settings', icon: CogIcon },
 ];
 
 export default function Sidebar() {
+  const { user, hasRole } = useAuth();
+
   return (
     <div className="flex flex-col w-64 bg-white border-r border-gray-200">
       <div className="flex items-center h-16 px-6 border-b border-gray-200">
@@ -25,7 +39,7 @@ export default function Sidebar() {
       </div>
       
       <nav className="flex-1 px-4 py-6 space-y-1">
-        {navigation.map((item) => (
+        {navigation.filter((item) => !item.role || hasRole(item.role)).map((item) => (
           <NavLink
             key={item.name}
             to={item.href}
@@ -46,19 +60,21 @@ export default function Sidebar() {
         ))}
       </nav>
       
-      <div className="px-4 py-4 border-t border-gray-200">
-        <div className="flex items-center">
-          <div className="flex-shrink-0">
-            <div className="w-8 h-8 bg-primary-500 rounded-full flex items-center justify-center">
-              <span className="text-sm font-medium text-white">A</span>
+      {user && (
+        <div className="px-4 py-4 border-t border-gray-200">
+          <div className="flex items-center">
+            <div className="flex-shrink-0">
+              <div className="w-8 h-8 bg-primary-500 rounded-full flex items-center justify-center">
+                <span className="text-sm font-medium text-white">{user.username[0].toUpperCase()}</span>
+              </div>
+            </div>
+            <div className="ml-3 min-w-0">
+              <p className="text-sm font-medium text-gray-700 truncate">{user.username}</p>
+              <p className="text-xs text-gray-500 truncate">{user.email ?? formatEnumLabel(user.role)}</p>
             </div>
-          </div>
-          <div className="ml-3">
-            <p className="text-sm font-medium text-gray-700">Admin User</p>
-            <p className="text-xs text-gray-500">admin@skiperr.com</p>
           </div>
         </div>
-      </div>
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,81 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { QueueListIcon } from '@heroicons/react/24/outline';
+import type { Task } from '../services/api';
+import { useQuery } from '../hooks/useQuery';
+import { pipelineMutations, queries } from '../services/queries';
+
+// Picks a pipeline and queues it on one video
+export default function PipelineRunner({ videoId }: { videoId: string }) {
+  const pipelinesQuery = useQuery(queries.pipelines());
+  const pipelines = pipelinesQuery.data ?? [];
+  const [chosenId, setChosenId] = useState('');
+  const [running, setRunning] = useState(false);
+  const [queued, setQueued] = useState<Task | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Falls back to the first pipeline until one is picked
+  const pipelineId = chosenId || pipelines[0]?.id || '';
+
+  const run = async () => {
+    setRunning(true);
+    setError(null);
+    setQueued(null);
+    const response = await pipelineMutations.run(pipelineId, { videoIds: [videoId] });
+    setRunning(false);
+    if (response.error) {
+      setError(response.error);
+    } else {
+      setQueued(response.data?.[0] ?? null);
+    }
+  };
+
+  if (pipelinesQuery.isLoading) {
+    return <div className="h-10 bg-gray-100 rounded animate-pulse" />;
+  }
+  if (pipelines.length === 0) {
+    return (
+      <p className="text-sm text-gray-500">
+        No pipelines yet.{' '}
+        <Link to="/pipelines" className="text-primary-600 hover:text-primary-700">
+          Create one
+        </Link>{' '}
+        to run several steps on this video in order.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <select
+          value={pipelineId}
+          onChange={e => setChosenId(e.target.value)}
+          className="flex-1 px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-1 focus:ring-primary-500 focus:border-primary-500"
+          aria-label="Pipeline"
+        >
+          {pipelines.map(pipeline => (
+            <option key={pipeline.id} value={pipeline.id}>{pipeline.name}</option>
+          ))}
+        </select>
+        <button
+          onClick={run}
+          disabled={running || !pipelineId}
+          className="btn-secondary flex items-center space-x-1 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <QueueListIcon className={`w-4 h-4 ${running ? 'animate-pulse' : ''}`} />
+          <span>Run</span>
+        </button>
+      </div>
+      {queued && (
+        <p className="text-sm text-green-700">
+          Pipeline queued.{' '}
+          <Link to={`/tasks?task=${queued.id}`} className="font-medium underline">
+            Follow its steps
+          </Link>
+        </p>
+      )}
+      {error && <p className="text-sm text-red-600">Could not run the pipeline: {error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,78 @@
+import type { PipelineStepStatus } from '../services/api';
+import { formatEnumLabel } from '../services/models';
+import { useQuery } from '../hooks/useQuery';
+import { queries } from '../services/queries';
+
+const STEP_COLORS: Record<PipelineStepStatus, string> = {
+  WAITING: 'bg-gray-100 text-gray-700',
+  QUEUED: 'bg-yellow-100 text-yellow-800',
+  RUNNING: 'bg-blue-100 text-blue-800',
+  PAUSED: 'bg-orange-100 text-orange-800',
+  COMPLETED: 'bg-green-100 text-green-800',
+  SKIPPED: 'bg-teal-100 text-teal-800',
+  FAILED: 'bg-red-100 text-red-800',
+  CANCELLED: 'bg-gray-100 text-gray-800',
+  BLOCKED: 'bg-red-50 text-red-700',
+};
+
+interface PipelineStepsProps {
+  taskId: string;
+  // Opens the task that runs a step, e.g. in the task detail drawer
+  onOpenTask: (taskId: string) => void;
+}
+
+// The steps of one pipeline run in dependency order. The list is refetched as the
+// pipeline's live updates arrive (see applyTaskUpdate).
+export default function PipelineSteps({ taskId, onOpenTask }: PipelineStepsProps) {
+  const runQuery = useQuery(queries.pipelineRun(taskId));
+  const run = runQuery.data;
+
+  if (!run) {
+    return (
+      <p className="text-sm text-gray-500">
+        {runQuery.error ? `Could not load the pipeline steps: ${runQuery.error}` : 'Loading steps…'}
+      </p>
+    );
+  }
+
+  const labels = new Map(run.steps.map(step => [step.key, step.label]));
+
+  return (
+    <ol className="space-y-2">
+      {run.steps.map((step, index) => (
+        <li key={step.key} className="flex items-start gap-3 text-sm">
+          <span className="w-5 text-right text-gray-400">{index + 1}.</span>
+          <div className="flex-1 min-w-0">
+            <div className="flex flex-wrap items-center gap-2">
+              {step.taskId ? (
+                <button
+                  onClick={() => step.taskId && onOpenTask(step.taskId)}
+                  className="font-medium text-gray-900 hover:text-primary-700"
+                  title="Open the task that runs this step"
+                >
+                  {step.label}
+                </button>
+              ) : (
+                <span className="font-medium text-gray-900">{step.label}</span>
+              )}
+              <span className={`px-2 py-0.5 text-xs font-medium rounded-full ${STEP_COLORS[step.status]}`}>
+                {formatEnumLabel(step.status)}
+              </span>
+              {step.status === 'RUNNING' && (
+                <span className="text-xs text-gray-500">{step.progressPercentage}%</span>
+              )}
+            </div>
+            {step.dependsOn.length > 0 && (
+              <p className="text-xs text-gray-500">
+                After {step.dependsOn.map(key => labels.get(key) ?? key).join(', ')}
+              </p>
+            )}
+            {step.message && (
+              <p className={`text-xs ${step.status === 'FAILED' ? 'text-red-600' : 'text-gray-600'}`}>{step.message}</p>
+            )}
+          </div>
+        </li>
+      ))}
+    </ol>
+  );
+}
@@ -1,13 +1,20 @@
 import React from 'react';
-import { Navigate } from 'react-router-dom';
+import { Link, Navigate, useLocation } from 'react-router-dom';
+import { ShieldExclamationIcon } from '@heroicons/react/24/outline';
 import { useAuth } from '../contexts/AuthContext';
+import type { UserRole } from '../services/api';
+import { formatEnumLabel } from '../services/models';
+import Layout from './Layout/Layout';
 
 interface ProtectedRouteProps {
   children: React.ReactNode;
+  // The least role that may open the page; the API enforces the same for its endpoints
+  role?: UserRole;
 }
 
-export default function ProtectedRoute({ children }: ProtectedRouteProps) {
-  const { isAuthenticated, isLoading } = useAuth();
+export default function ProtectedRoute({ children, role }: ProtectedRouteProps) {
+  const { isAuthenticated, isLoading, sessionEnd, hasRole } = useAuth();
+  const location = useLocation();
 
   // Show loading spinner while checking authentication
   if (isLoading) {
@@ -21,9 +28,24 @@ export default function ProtectedRoute({ children }: ProtectedRouteProps) {
     );
   }
 
-  // If not authenticated, redirect to login
+  // If not authenticated, redirect to login, which comes back here afterwards unless the user signed out
   if (!isAuthenticated) {
-    return <Navigate to="/login" replace />;
+    const returnTo = `${location.pathname}${location.search}`;
+    return <Navigate to={sessionEnd === 'logout' ? '/login' : `/login?returnTo=${encodeURIComponent(returnTo)}`} replace />;
+  }
+
+  if (role && !hasRole(role)) {
+    return (
+      <Layout title="Access denied">
+        <div className="card max-w-lg mx-auto text-center py-10">
+          <ShieldExclamationIcon className="h-10 w-10 mx-auto text-gray-400" />
+          <p className="mt-4 text-sm text-gray-700">This page needs the {formatEnumLabel(role)} role.</p>
+          <Link to="/dashboard" className="mt-4 inline-block text-sm text-primary-600 hover:text-primary-700">
+            Back to the dashboard
+          </Link>
+        </div>
+      </Layout>
+    );
   }
 
   // If authenticated, render the protected content
@@ -0,0 +1,16 @@
+import type { ReviewStatus } from '../services/api';
+import { formatEnumLabel } from '../services/models';
+
+const REVIEW_STATUS_COLORS: Record<ReviewStatus, string> = {
+  NEEDS_REVIEW: 'bg-yellow-100 text-yellow-800',
+  IN_REVIEW: 'bg-blue-100 text-blue-800',
+  APPROVED: 'bg-green-100 text-green-800',
+};
+
+export default function ReviewStatusBadge({ status }: { status: ReviewStatus }) {
+  return (
+    <span className={`px-2 py-1 text-xs font-medium rounded-full ${REVIEW_STATUS_COLORS[status] ?? 'bg-gray-100 text-gray-800'}`}>
+      {formatEnumLabel(status)}
+    </span>
+  );
+}
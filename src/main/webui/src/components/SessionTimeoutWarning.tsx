@@ -0,0 +1,39 @@
+import { ClockIcon } from '@heroicons/react/24/outline';
+import { useAuth } from '../contexts/AuthContext';
+import { useIdleTimeout } from '../hooks/useIdleTimeout';
+
+// Warns a minute before an idle session is signed out, and signs it out when nobody answers.
+// The server keeps the session for as long as the tokens are renewed, which they are while any
+// tab is open, so staying signed in needs no request.
+export default function SessionTimeoutWarning() {
+  const { isAuthenticated, logout } = useAuth();
+  const { secondsLeft, stayActive } = useIdleTimeout(isAuthenticated, () => logout('idle'));
+
+  if (secondsLeft === null) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-gray-900/50 p-4">
+      <div className="card w-full max-w-md" role="alertdialog" aria-modal="true" aria-labelledby="session-timeout-title">
+        <div className="flex items-start space-x-3">
+          <ClockIcon className="h-6 w-6 flex-shrink-0 text-yellow-500" />
+          <div>
+            <h3 id="session-timeout-title" className="text-lg font-semibold text-gray-900">
+              Are you still there?
+            </h3>
+            <p className="mt-1 text-sm text-gray-600">
+              You will be signed out in {secondsLeft} {secondsLeft === 1 ? 'second' : 'seconds'} because of inactivity.
+            </p>
+          </div>
+        </div>
+        <div className="mt-6 flex justify-end space-x-3">
+          <button onClick={() => logout()} className="btn-secondary">
+            Sign out
+          </button>
+          <button onClick={stayActive} className="btn-primary" autoFocus>
+            Stay signed in
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
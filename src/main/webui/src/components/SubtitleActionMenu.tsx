@@ -0,0 +1,150 @@
+import { useState } from 'react';
+import {
+  ArrowDownTrayIcon,
+  ArrowPathIcon,
+  ArrowsRightLeftIcon,
+  FlagIcon,
+  LanguageIcon,
+  StarIcon,
+  TrashIcon,
+} from '@heroicons/react/24/outline';
+import { mediaApi } from '../services/api';
+import type { ApiResponse, Subtitle, Task } from '../services/api';
+import { useQuery } from '../hooks/useQuery';
+import { queries, subtitleMutations, taskMutations } from '../services/queries';
+import ActionMenu from './ActionMenu';
+import type { ActionOutcome } from './ActionOutcome';
+import TranslatePanel from './TranslatePanel';
+
+interface SubtitleActionMenuProps {
+  subtitle: Subtitle;
+  onOutcome: (outcome: ActionOutcome) => void;
+}
+
+// The formats the backend can read and write
+const CONVERTIBLE = ['srt', 'vtt'];
+
+export default function SubtitleActionMenu({ subtitle, onOutcome }: SubtitleActionMenuProps) {
+  const { data: settings } = useQuery(queries.settings());
+  const [panel, setPanel] = useState<'translate' | 'delete' | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const extension = subtitle.filePath?.split('.').pop()?.toLowerCase();
+  const convertTo = extension && CONVERTIBLE.includes(extension) ? CONVERTIBLE.find(format => format !== extension) : undefined;
+  const embedded = subtitle.type === 'EMBEDDED';
+  const name = `${subtitle.language} subtitle of ${subtitle.video.title ?? subtitle.video.path}`;
+
+  const queue = async (label: string, request: () => Promise<ApiResponse<Task>>) => {
+    setBusy(true);
+    const response = await request();
+    setBusy(false);
+    onOutcome(response.data ? { label, task: response.data } : { label, error: response.error ?? 'Unknown error' });
+  };
+
+  const apply = async (label: string, message: string, request: () => Promise<ApiResponse<unknown>>) => {
+    setBusy(true);
+    const response = await request();
+    setBusy(false);
+    onOutcome(response.error ? { label, error: response.error } : { label, message });
+  };
+
+  return (
+    <ActionMenu
+      label={`Actions for the ${name}`}
+      busy={busy}
+      onClose={() => setPanel(null)}
+      panel={
+        panel === 'translate'
+          ? close => (
+              <TranslatePanel
+                defaultLanguage={settings?.defaultTargetLanguage ?? 'el'}
+                onCancel={() => setPanel(null)}
+                onSubmit={language => {
+                  close();
+                  queue(`Translate to ${language}`, () =>
+                    taskMutations.createTranslation(subtitle.id, language, settings?.aiProvider.toLowerCase())
+                  );
+                }}
+              />
+            )
+          : panel === 'delete'
+            ? close => (
+                <div className="px-3 py-2 space-y-2">
+                  <p className="text-sm text-gray-700">
+                    Delete this subtitle and its file? Its review and timing history are deleted too.
+                  </p>
+                  <div className="flex justify-end space-x-2">
+                    <button onClick={() => setPanel(null)} className="text-xs text-gray-500 hover:text-gray-700">
+                      Back
+                    </button>
+                    <button
+                      onClick={() => {
+                        close();
+                        apply('Delete', 'Subtitle deleted', () => subtitleMutations.remove(subtitle.id));
+                      }}
+                      className="text-xs font-medium text-red-600 hover:text-red-700"
+                    >
+                      Delete
+                    </button>
+                  </div>
+                </div>
+              )
+            : undefined
+      }
+      items={[
+        {
+          label: 'Download',
+          icon: ArrowDownTrayIcon,
+          href: mediaApi.subtitleDownloadUrl(subtitle.id),
+          disabled: !subtitle.filePath,
+          hint: 'Embedded subtitles have no file; extract them first',
+        },
+        {
+          label: convertTo ? `Convert to ${convertTo.toUpperCase()}` : 'Convert format',
+          icon: ArrowsRightLeftIcon,
+          disabled: !convertTo,
+          hint: 'Only SRT and WebVTT files can be converted',
+          onSelect: () =>
+            convertTo &&
+            apply('Convert', `Saved a ${convertTo.toUpperCase()} copy`, () => subtitleMutations.convert(subtitle.id, convertTo)),
+        },
+        {
+          label: 'Sync',
+          icon: ArrowPathIcon,
+          onSelect: () => queue('Sync', () => taskMutations.createSync(subtitle.video.id, subtitle.id)),
+        },
+        {
+          label: 'Translate…',
+          icon: LanguageIcon,
+          keepOpen: true,
+          onSelect: () => setPanel('translate'),
+        },
+        {
+          label: subtitle.isDefault ? 'Unset as default' : 'Set as default',
+          icon: StarIcon,
+          onSelect: () =>
+            apply('Default', subtitle.isDefault ? 'No longer the default' : 'Set as default', () =>
+              subtitleMutations.updateFlags(subtitle.id, { isDefault: !subtitle.isDefault })
+            ),
+        },
+        {
+          label: subtitle.isForced ? 'Unmark as forced' : 'Mark as forced',
+          icon: FlagIcon,
+          onSelect: () =>
+            apply('Forced', subtitle.isForced ? 'No longer forced' : 'Marked as forced', () =>
+              subtitleMutations.updateFlags(subtitle.id, { isForced: !subtitle.isForced })
+            ),
+        },
+        {
+          label: 'Delete',
+          icon: TrashIcon,
+          danger: true,
+          disabled: embedded,
+          hint: 'Embedded subtitles are part of the video file',
+          keepOpen: true,
+          onSelect: () => setPanel('delete'),
+        },
+      ]}
+    />
+  );
+}
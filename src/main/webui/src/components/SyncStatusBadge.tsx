@@ -0,0 +1,18 @@
+import type { SyncStatus } from '../services/api';
+import { formatEnumLabel } from '../services/models';
+
+const SYNC_STATUS_COLORS: Record<SyncStatus, string> = {
+  NOT_SYNCED: 'bg-gray-100 text-gray-800',
+  SYNCING: 'bg-blue-100 text-blue-800',
+  SYNCED: 'bg-green-100 text-green-800',
+  SYNC_FAILED: 'bg-red-100 text-red-800',
+  MANUAL_SYNC: 'bg-purple-100 text-purple-800',
+};
+
+export default function SyncStatusBadge({ status }: { status: SyncStatus }) {
+  return (
+    <span className={`px-2 py-1 text-xs font-medium rounded-full ${SYNC_STATUS_COLORS[status] ?? 'bg-gray-100 text-gray-800'}`}>
+      {formatEnumLabel(status)}
+    </span>
+  );
+}
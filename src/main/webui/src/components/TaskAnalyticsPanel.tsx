@@ -0,0 +1,223 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import type { AnalyticsRange, QueueDepthSample, TaskAnalytics, ThroughputBucket } from '../services/api';
+import { useQuery } from '../hooks/useQuery';
+import { queries } from '../services/queries';
+import { formatEnumLabel } from '../services/models';
+import { formatElapsed } from '../utils/format';
+
+const RANGES: { value: AnalyticsRange; label: string }[] = [
+  { value: '24h', label: '24 hours' },
+  { value: '7d', label: '7 days' },
+  { value: '30d', label: '30 days' },
+  { value: '90d', label: '90 days' },
+];
+
+// Axis labels are thinned out to about this many per chart
+const MAX_AXIS_LABELS = 8;
+
+function axisLabel(bucket: TaskAnalytics['bucket'], date: Date): string {
+  return bucket === 'hours' ? format(date, 'HH:mm') : format(date, 'MMM d');
+}
+
+// Stacked bars of finished tasks per hour or day
+function ThroughputChart({ buckets, bucket }: { buckets: ThroughputBucket[]; bucket: TaskAnalytics['bucket'] }) {
+  const max = Math.max(1, ...buckets.map(b => b.completed + b.failed + b.cancelled));
+  const labelEvery = Math.ceil(buckets.length / MAX_AXIS_LABELS);
+  const total = buckets.reduce((sum, b) => sum + b.completed + b.failed + b.cancelled, 0);
+
+  return (
+    <div>
+      <div className="flex items-end h-40 space-x-px">
+        {buckets.map(b => {
+          const label = axisLabel(bucket, new Date(b.start));
+          const height = (count: number) => `${(count / max) * 100}%`;
+          return (
+            <div
+              key={b.start}
+              className="flex-1 flex flex-col justify-end h-full hover:bg-gray-50"
+              title={`${label}: ${b.completed} completed, ${b.failed} failed, ${b.cancelled} cancelled`}
+            >
+              <div className="bg-gray-300" style={{ height: height(b.cancelled) }} />
+              <div className="bg-red-400" style={{ height: height(b.failed) }} />
+              <div className="bg-green-500" style={{ height: height(b.completed) }} />
+            </div>
+          );
+        })}
+      </div>
+      <div className="flex space-x-px mt-1">
+        {buckets.map((b, index) => (
+          <div key={b.start} className="flex-1 text-[10px] text-gray-400 whitespace-nowrap overflow-visible">
+            {index % labelEvery === 0 ? axisLabel(bucket, new Date(b.start)) : ''}
+          </div>
+        ))}
+      </div>
+      {total === 0 && <p className="mt-2 text-sm text-gray-500">No tasks finished in this range.</p>}
+    </div>
+  );
+}
+
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 160;
+
+// Queued and running tasks over time as two lines
+function QueueDepthChart({ samples, bucket }: { samples: QueueDepthSample[]; bucket: TaskAnalytics['bucket'] }) {
+  const max = Math.max(1, ...samples.map(s => Math.max(s.queued, s.running)));
+  const x = (index: number) => (samples.length > 1 ? (index / (samples.length - 1)) * CHART_WIDTH : 0);
+  const y = (value: number) => CHART_HEIGHT - (value / max) * CHART_HEIGHT;
+  const line = (value: (sample: QueueDepthSample) => number) =>
+    samples.map((sample, index) => `${x(index)},${y(value(sample))}`).join(' ');
+  const peak = samples.reduce((best, s) => (s.queued > best.queued ? s : best), samples[0]);
+  const labelEvery = Math.ceil(samples.length / MAX_AXIS_LABELS);
+
+  return (
+    <div>
+      <div className="relative">
+        <span className="absolute top-0 left-0 text-[10px] text-gray-400">{max}</span>
+        <svg
+          viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+          preserveAspectRatio="none"
+          className="w-full h-40 border-b border-l border-gray-200"
+          role="img"
+          aria-label="Queued and running tasks over time"
+        >
+          <polyline points={line(s => s.queued)} fill="none" stroke="#f59e0b" strokeWidth="2" vectorEffect="non-scaling-stroke" />
+          <polyline points={line(s => s.running)} fill="none" stroke="#3b82f6" strokeWidth="2" vectorEffect="non-scaling-stroke" />
+        </svg>
+      </div>
+      <div className="flex mt-1">
+        {samples.map((s, index) => (
+          <div key={s.at} className="flex-1 text-[10px] text-gray-400 whitespace-nowrap overflow-visible">
+            {index % labelEvery === 0 ? axisLabel(bucket, new Date(s.at)) : ''}
+          </div>
+        ))}
+      </div>
+      <div className="flex items-center justify-between mt-2 text-xs text-gray-500">
+        <div className="flex items-center space-x-4">
+          <span className="flex items-center"><span className="w-3 h-0.5 bg-amber-500 mr-1" />Queued</span>
+          <span className="flex items-center"><span className="w-3 h-0.5 bg-blue-500 mr-1" />Running</span>
+        </div>
+        {peak && peak.queued > 0 && (
+          <span>Deepest queue: {peak.queued} at {format(new Date(peak.at), 'MMM d, HH:mm')}</span>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function percent(rate: number | null): string {
+  return rate === null ? '—' : `${Math.round(rate * 100)}%`;
+}
+
+function elapsed(ms: number | null): string {
+  return ms === null ? '—' : formatElapsed(ms);
+}
+
+// Throughput, reliability and speed per task type over a selectable range
+export default function TaskAnalyticsPanel() {
+  const [range, setRange] = useState<AnalyticsRange>('7d');
+  const { data, error, isLoading, isPreviousData, refetch } = useQuery(queries.taskAnalytics(range), { keepPreviousData: true });
+
+  return (
+    <div className="card space-y-6">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-medium text-gray-900">Task Analytics</h3>
+        <div className="inline-flex rounded-md shadow-sm" role="group" aria-label="Time range">
+          {RANGES.map((option, index) => (
+            <button
+              key={option.value}
+              onClick={() => setRange(option.value)}
+              aria-pressed={range === option.value}
+              className={`px-3 py-1 text-sm border border-gray-300 ${index === 0 ? 'rounded-l-md' : '-ml-px'} ${
+                index === RANGES.length - 1 ? 'rounded-r-md' : ''
+              } ${range === option.value ? 'bg-primary-50 text-primary-700 border-primary-300 z-10' : 'bg-white text-gray-600 hover:bg-gray-50'}`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {!data && isLoading && <div className="h-40 bg-gray-100 rounded animate-pulse" />}
+
+      {!data && error && (
+        <div className="text-sm text-red-600">
+          Could not load task analytics: {error}{' '}
+          <button onClick={refetch} className="font-medium underline">Retry</button>
+        </div>
+      )}
+
+      {data && (
+        // The previous range stays on screen, dimmed, until the new one arrives
+        <div className={`space-y-6 ${isPreviousData ? 'opacity-60' : ''}`}>
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <h4 className="text-sm font-medium text-gray-700">
+                Tasks finished per {data.bucket === 'hours' ? 'hour' : 'day'}
+              </h4>
+              <div className="flex items-center space-x-3 text-xs text-gray-500">
+                <span className="flex items-center"><span className="w-2 h-2 bg-green-500 mr-1" />Completed</span>
+                <span className="flex items-center"><span className="w-2 h-2 bg-red-400 mr-1" />Failed</span>
+                <span className="flex items-center"><span className="w-2 h-2 bg-gray-300 mr-1" />Cancelled</span>
+              </div>
+            </div>
+            <ThroughputChart buckets={data.throughput} bucket={data.bucket} />
+          </div>
+
+          <div>
+            <h4 className="text-sm font-medium text-gray-700 mb-2">By task type</h4>
+            {data.types.length === 0 ? (
+              <p className="text-sm text-gray-500">No tasks finished in this range.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="min-w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-xs font-medium text-gray-500 uppercase tracking-wider border-b border-gray-200">
+                      <th className="py-2 pr-4">Type</th>
+                      <th className="py-2 pr-4 text-right">Completed</th>
+                      <th className="py-2 pr-4 text-right">Failed</th>
+                      <th className="py-2 pr-4">Success rate</th>
+                      <th className="py-2 pr-4 text-right">Median</th>
+                      <th className="py-2 pr-4 text-right">p95</th>
+                      <th className="py-2 text-right">Avg. retries</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {data.types.map(row => (
+                      <tr key={row.type}>
+                        <td className="py-2 pr-4 text-gray-900">{formatEnumLabel(row.type)}</td>
+                        <td className="py-2 pr-4 text-right text-gray-700">{row.completed}</td>
+                        <td className="py-2 pr-4 text-right text-gray-700">{row.failed}</td>
+                        <td className="py-2 pr-4">
+                          <div className="flex items-center space-x-2">
+                            <div className="w-24 bg-red-100 rounded-full h-2 overflow-hidden">
+                              {row.successRate !== null && (
+                                <div className="bg-green-500 h-2" style={{ width: percent(row.successRate) }} />
+                              )}
+                            </div>
+                            <span className="text-gray-700">{percent(row.successRate)}</span>
+                          </div>
+                        </td>
+                        <td className="py-2 pr-4 text-right text-gray-700">{elapsed(row.medianDurationMs)}</td>
+                        <td className="py-2 pr-4 text-right text-gray-700">{elapsed(row.p95DurationMs)}</td>
+                        <td className="py-2 text-right text-gray-700">{row.averageRetries.toFixed(1)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                <p className="mt-2 text-xs text-gray-400">
+                  Durations cover completed tasks only. Cancelled tasks do not count towards the success rate.
+                </p>
+              </div>
+            )}
+          </div>
+
+          <div>
+            <h4 className="text-sm font-medium text-gray-700 mb-2">Queue depth</h4>
+            <QueueDepthChart samples={data.queueDepth} bucket={data.bucket} />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
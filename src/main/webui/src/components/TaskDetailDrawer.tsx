@@ -0,0 +1,294 @@
+import { useEffect, useState } from 'react';
+import type { ReactNode } from 'react';
+import { Link } from 'react-router-dom';
+import { DocumentDuplicateIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import type { Task, TaskPriority } from '../services/api';
+import { TASK_PRIORITIES, formatEnumLabel } from '../services/models';
+import { useQuery } from '../hooks/useQuery';
+import { queries, taskMutations } from '../services/queries';
+import { formatElapsed } from '../utils/format';
+import TaskStatusBadge from './TaskStatusBadge';
+import TaskLogViewer from './TaskLogViewer';
+import PipelineSteps from './PipelineSteps';
+
+interface TaskDetailDrawerProps {
+  taskId: string;
+  onClose: () => void;
+  // Switches the drawer to another task, such as a freshly queued clone
+  onOpenTask: (taskId: string) => void;
+}
+
+const FINISHED_STATUSES: Task['status'][] = ['COMPLETED', 'FAILED', 'CANCELLED'];
+
+// Parameters and results are stored as JSON text; anything that does not parse is shown as is
+function prettyJson(text: string | null | undefined): string | null {
+  if (!text) return null;
+  try {
+    return JSON.stringify(JSON.parse(text), null, 2);
+  } catch {
+    return text;
+  }
+}
+
+// Null when the text is a JSON object, otherwise what is wrong with it
+function validateParameters(text: string): string | null {
+  try {
+    const value: unknown = JSON.parse(text);
+    return value !== null && typeof value === 'object' && !Array.isArray(value) ? null : 'Parameters must be a JSON object';
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Not valid JSON';
+  }
+}
+
+function timestamp(value: string | null | undefined): string {
+  return value ? new Date(value).toLocaleString() : '—';
+}
+
+function Field({ label, children }: { label: string; children: ReactNode }) {
+  return (
+    <div>
+      <dt className="text-xs font-medium text-gray-500 uppercase tracking-wider">{label}</dt>
+      <dd className="mt-0.5 text-sm text-gray-900 break-words">{children}</dd>
+    </div>
+  );
+}
+
+function JsonBlock({ title, text }: { title: string; text: string | null | undefined }) {
+  const pretty = prettyJson(text);
+  return (
+    <section>
+      <h4 className="text-sm font-medium text-gray-700 mb-1">{title}</h4>
+      {pretty ? (
+        <pre className="text-xs bg-gray-50 border border-gray-200 rounded-md p-3 overflow-x-auto whitespace-pre-wrap break-all">
+          {pretty}
+        </pre>
+      ) : (
+        <p className="text-sm text-gray-500">None</p>
+      )}
+    </section>
+  );
+}
+
+// Queues a copy of the task, with the parameters edited as JSON
+function CloneForm({ task, onCancel, onQueued }: { task: Task; onCancel: () => void; onQueued: (task: Task) => void }) {
+  const [draft, setDraft] = useState(() => prettyJson(task.parameters) ?? '{}');
+  const [priority, setPriority] = useState<TaskPriority>(task.priority);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const invalid = validateParameters(draft);
+
+  const submit = async () => {
+    if (invalid) return;
+    setSubmitting(true);
+    setError(null);
+    const response = await taskMutations.clone(task.id, { parameters: draft, priority });
+    setSubmitting(false);
+    if (response.data) {
+      onQueued(response.data);
+    } else {
+      setError(response.error ?? 'Unknown error');
+    }
+  };
+
+  return (
+    <section className="space-y-3 border border-primary-200 bg-primary-50/40 rounded-md p-3">
+      <h4 className="text-sm font-medium text-gray-700">Clone &amp; re-run</h4>
+      <label className="block text-sm font-medium text-gray-700">
+        Parameters
+        <textarea
+          value={draft}
+          onChange={e => setDraft(e.target.value)}
+          rows={Math.min(16, Math.max(4, draft.split('\n').length))}
+          spellCheck={false}
+          className={`mt-1 block w-full px-3 py-2 border rounded-md font-mono text-xs focus:outline-none focus:ring-1 ${
+            invalid ? 'border-red-300 focus:ring-red-500 focus:border-red-500' : 'border-gray-300 focus:ring-primary-500 focus:border-primary-500'
+          }`}
+        />
+      </label>
+      {invalid && <p className="text-xs text-red-600">{invalid}</p>}
+      <label className="block text-sm font-medium text-gray-700">
+        Priority
+        <select
+          value={priority}
+          onChange={e => setPriority(e.target.value as TaskPriority)}
+          className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-1 focus:ring-primary-500 focus:border-primary-500"
+        >
+          {TASK_PRIORITIES.map(option => (
+            <option key={option} value={option}>{formatEnumLabel(option)}</option>
+          ))}
+        </select>
+      </label>
+      {error && <p className="text-sm text-red-600">Could not queue the task: {error}</p>}
+      <div className="flex justify-end space-x-3">
+        <button onClick={onCancel} disabled={submitting} className="btn-secondary">
+          Cancel
+        </button>
+        <button onClick={submit} disabled={submitting || invalid !== null} className="btn-primary">
+          {submitting ? 'Queueing…' : 'Queue copy'}
+        </button>
+      </div>
+    </section>
+  );
+}
+
+// Everything stored on a task, in a panel over the right edge of the page
+export default function TaskDetailDrawer({ taskId, onClose, onOpenTask }: TaskDetailDrawerProps) {
+  const { data: task, error, isLoading, refetch } = useQuery(queries.task(taskId));
+  const [cloning, setCloning] = useState(false);
+  const [cloned, setCloned] = useState<Task | null>(null);
+
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [onClose]);
+
+  const duration = task?.actualDuration ?? null;
+
+  return (
+    <div className="fixed inset-0 z-40 flex justify-end">
+      <div className="absolute inset-0 bg-gray-900/30" onClick={onClose} aria-hidden="true" />
+      <aside
+        className="relative w-full max-w-xl h-full bg-white shadow-xl overflow-y-auto"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="task-detail-title"
+      >
+        <div className="sticky top-0 z-10 flex items-center justify-between px-6 py-4 bg-white border-b border-gray-200">
+          <div className="flex items-center space-x-3 min-w-0">
+            <h3 id="task-detail-title" className="text-lg font-semibold text-gray-900 truncate">
+              {task ? formatEnumLabel(task.type) : 'Task'}
+            </h3>
+            {task && <TaskStatusBadge status={task.status} />}
+          </div>
+          <button onClick={onClose} className="p-1 text-gray-400 hover:text-gray-600" title="Close">
+            <XMarkIcon className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="px-6 py-4 space-y-6">
+          {!task && isLoading && <div className="h-64 bg-gray-100 rounded animate-pulse" />}
+
+          {!task && error && (
+            <div className="text-sm text-red-600">
+              Could not load the task: {error}{' '}
+              <button onClick={refetch} className="font-medium underline">Retry</button>
+            </div>
+          )}
+
+          {task && (
+            <>
+              <p className="text-xs text-gray-500 font-mono break-all">{task.id}</p>
+
+              {cloned && (
+                <div className="p-3 rounded-md text-sm bg-green-50 text-green-800">
+                  Queued a copy of this task.{' '}
+                  <button onClick={() => onOpenTask(cloned.id)} className="font-medium underline">
+                    Open the new task
+                  </button>
+                </div>
+              )}
+
+              {task.errorMessage && (
+                <section>
+                  <h4 className="text-sm font-medium text-gray-700 mb-1">Error</h4>
+                  <pre className="text-xs bg-red-50 border border-red-200 text-red-800 rounded-md p-3 whitespace-pre-wrap break-words">
+                    {task.errorMessage}
+                  </pre>
+                </section>
+              )}
+
+              <dl className="grid grid-cols-2 gap-4">
+                <Field label="Priority">{formatEnumLabel(task.priority)}</Field>
+                <Field label="Progress">
+                  {task.progressPercentage}%{task.progressMessage ? ` · ${task.progressMessage}` : ''}
+                </Field>
+                <Field label="Retries">{task.retryCount} of {task.maxRetries}</Field>
+                <Field label="Executor">{task.executorId ?? '—'}</Field>
+                <Field label="Created">{timestamp(task.createdAt)}</Field>
+                <Field label="Scheduled for">{timestamp(task.scheduledAt)}</Field>
+                <Field label="Started">{timestamp(task.startedAt)}</Field>
+                <Field label="Finished">{timestamp(task.completedAt)}</Field>
+                <Field label="Duration">
+                  {duration !== null ? formatElapsed(duration) : '—'}
+                  {task.estimatedDuration ? (
+                    <span className="text-gray-500"> (estimated {formatElapsed(task.estimatedDuration)})</span>
+                  ) : null}
+                </Field>
+                <Field label="Last heartbeat">{timestamp(task.lastHeartbeat)}</Field>
+              </dl>
+
+              {(task.video || task.subtitle || task.parentId) && (
+                <section>
+                  <h4 className="text-sm font-medium text-gray-700 mb-1">Related</h4>
+                  <ul className="space-y-1 text-sm">
+                    {task.video && (
+                      <li>
+                        Video:{' '}
+                        <Link to={`/videos/${task.video.id}`} className="text-primary-600 hover:text-primary-700">
+                          {task.video.title ?? task.video.path}
+                        </Link>
+                      </li>
+                    )}
+                    {task.subtitle && (
+                      <li>
+                        Subtitle:{' '}
+                        <Link to={`/subtitles/${task.subtitle.id}`} className="text-primary-600 hover:text-primary-700">
+                          {task.subtitle.language} subtitle of {task.subtitle.video.title ?? task.subtitle.video.path}
+                        </Link>
+                      </li>
+                    )}
+                    {task.parentId && (
+                      <li>
+                        Queued by:{' '}
+                        <Link to={`/tasks?batch=${task.parentId}`} className="text-primary-600 hover:text-primary-700">
+                          Show the batch or pipeline and the tasks it queued
+                        </Link>
+                      </li>
+                    )}
+                  </ul>
+                </section>
+              )}
+
+              {task.type === 'PIPELINE' && (
+                <section>
+                  <h4 className="text-sm font-medium text-gray-700 mb-2">Steps</h4>
+                  <PipelineSteps taskId={task.id} onOpenTask={onOpenTask} />
+                </section>
+              )}
+
+              <JsonBlock title="Parameters" text={task.parameters} />
+              <JsonBlock title="Result" text={task.result} />
+              <TaskLogViewer taskId={task.id} running={!FINISHED_STATUSES.includes(task.status)} />
+
+              {task.type !== 'BATCH_PROCESS' && task.type !== 'PIPELINE' &&
+                (cloning ? (
+                  <CloneForm
+                    task={task}
+                    onCancel={() => setCloning(false)}
+                    onQueued={copy => {
+                      setCloning(false);
+                      setCloned(copy);
+                    }}
+                  />
+                ) : (
+                  <button
+                    onClick={() => {
+                      setCloned(null);
+                      setCloning(true);
+                    }}
+                    className="btn-secondary flex items-center space-x-2"
+                  >
+                    <DocumentDuplicateIcon className="w-4 h-4" />
+                    <span>Clone &amp; re-run</span>
+                  </button>
+                ))}
+            </>
+          )}
+        </div>
+      </aside>
+    </div>
+  );
+}
@@ -0,0 +1,47 @@
+import { useEffect, useState } from 'react';
+import type { Task } from '../services/api';
+import { formatElapsed } from '../utils/format';
+
+// Below this much progress the observed rate is too noisy, so the historical estimate is used
+const MIN_PROGRESS_FOR_RATE = 5;
+
+interface Estimate {
+  remaining: number;
+  basis: 'rate' | 'history';
+}
+
+// Remaining time from how fast the task has progressed so far, falling back to its
+// estimatedDuration (the median run time of recent tasks of the same type)
+function estimate(task: Task, now: number): Estimate | null {
+  if (!task.startedAt) return null;
+  const elapsed = Math.max(0, now - Date.parse(task.startedAt));
+  const progress = task.progressPercentage;
+  if (progress >= MIN_PROGRESS_FOR_RATE && progress < 100) {
+    return { remaining: (elapsed * (100 - progress)) / progress, basis: 'rate' };
+  }
+  if (task.estimatedDuration) {
+    return { remaining: task.estimatedDuration - elapsed, basis: 'history' };
+  }
+  return null;
+}
+
+// Time left for a running task, ticking down every second between updates
+export default function TaskEta({ task }: { task: Task }) {
+  const [now, setNow] = useState(() => Date.now());
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const eta = estimate(task, now);
+  if (!eta) return null;
+
+  const title = eta.basis === 'rate'
+    ? 'Based on the progress so far'
+    : 'Based on how long recent tasks of this type took';
+  return (
+    <span className="text-xs text-gray-500" title={title}>
+      {eta.remaining > 0 ? `~${formatElapsed(eta.remaining)} left` : 'Taking longer than usual'}
+    </span>
+  );
+}
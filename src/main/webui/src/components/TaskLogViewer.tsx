@@ -0,0 +1,155 @@
+import { useEffect, useRef, useState } from 'react';
+import type { ReactNode } from 'react';
+import { format } from 'date-fns';
+import { ArrowDownTrayIcon, MagnifyingGlassIcon } from '@heroicons/react/24/outline';
+import { mediaApi } from '../services/api';
+import type { TaskLogLine } from '../services/api';
+import { useQuery } from '../hooks/useQuery';
+import { useWebSocket } from '../hooks/useWebSocket';
+import { queries } from '../services/queries';
+
+interface TaskLogViewerProps {
+  taskId: string;
+  // Whether more output can still arrive
+  running: boolean;
+}
+
+// Live lines kept in the browser; the download always has the whole stored log
+const MAX_LIVE_LINES = 5000;
+
+function lineTime(at: string): string {
+  const time = Date.parse(at);
+  return Number.isNaN(time) ? '' : format(time, 'HH:mm:ss');
+}
+
+// Wraps every case-insensitive occurrence of the term in <mark>
+function highlight(text: string, term: string): ReactNode {
+  if (!term) return text;
+  const parts: ReactNode[] = [];
+  const lower = text.toLowerCase();
+  let from = 0;
+  let index = lower.indexOf(term, from);
+  while (index !== -1) {
+    parts.push(text.slice(from, index));
+    parts.push(<mark key={index} className="bg-yellow-300 text-gray-900">{text.slice(index, index + term.length)}</mark>);
+    from = index + term.length;
+    index = lower.indexOf(term, from);
+  }
+  parts.push(text.slice(from));
+  return parts;
+}
+
+// Output of the tools a task ran, followed live while it runs
+export default function TaskLogViewer({ taskId, running }: TaskLogViewerProps) {
+  const { data, error, isLoading, refetch } = useQuery(queries.taskLog(taskId));
+  const [liveLines, setLiveLines] = useState<TaskLogLine[]>([]);
+  const [search, setSearch] = useState('');
+  const [follow, setFollow] = useState(true);
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  useWebSocket({
+    filter: { taskId, logs: true },
+    onTaskLog: chunk => setLiveLines(previous => [...previous, ...chunk.lines].slice(-MAX_LIVE_LINES)),
+  });
+
+  // Live lines already in the stored log are dropped, so a refetch never shows them twice
+  const stored = data?.lines ?? [];
+  const lastStored = stored.length > 0 ? stored[stored.length - 1].seq : -1;
+  const lines = [...stored, ...liveLines.filter(line => line.seq > lastStored)];
+  const term = search.trim().toLowerCase();
+  const shown = term ? lines.filter(line => line.text.toLowerCase().includes(term)) : lines;
+
+  useEffect(() => {
+    const element = scrollRef.current;
+    if (follow && element) element.scrollTop = element.scrollHeight;
+  }, [follow, shown.length]);
+
+  // Scrolling up pauses following; scrolling back to the bottom resumes it
+  const onScroll = () => {
+    const element = scrollRef.current;
+    if (!element) return;
+    setFollow(element.scrollHeight - element.scrollTop - element.clientHeight < 16);
+  };
+
+  return (
+    <section>
+      <div className="flex items-center justify-between mb-1">
+        <h4 className="text-sm font-medium text-gray-700">
+          Process log
+          {lines.length > 0 && <span className="ml-2 text-xs font-normal text-gray-500">{lines.length.toLocaleString()} lines</span>}
+          {running && (
+            <span className="ml-2 inline-flex items-center text-xs font-normal text-green-700">
+              <span className="w-1.5 h-1.5 rounded-full bg-green-500 animate-pulse mr-1" />
+              Live
+            </span>
+          )}
+        </h4>
+        <a
+          href={mediaApi.taskLogDownloadUrl(taskId)}
+          download
+          className={`inline-flex items-center text-xs text-primary-600 hover:text-primary-700 ${
+            data && data.sizeBytes > 0 ? '' : 'pointer-events-none opacity-50'
+          }`}
+          title="Download the stored log"
+        >
+          <ArrowDownTrayIcon className="w-4 h-4 mr-1" />
+          Download
+        </a>
+      </div>
+
+      {!data && isLoading && <div className="h-32 bg-gray-100 rounded animate-pulse" />}
+
+      {!data && error && (
+        <div className="text-sm text-red-600">
+          Could not load the log: {error}{' '}
+          <button onClick={refetch} className="font-medium underline">Retry</button>
+        </div>
+      )}
+
+      {data && lines.length === 0 && (
+        <p className="text-sm text-gray-500">
+          {running ? 'No output yet.' : 'This task did not run any external tools.'}
+        </p>
+      )}
+
+      {lines.length > 0 && (
+        <>
+          <div className="relative mb-2">
+            <MagnifyingGlassIcon className="absolute left-2 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+            <input
+              type="search"
+              value={search}
+              onChange={e => setSearch(e.target.value)}
+              placeholder="Search the log"
+              className="pl-8 pr-3 py-1 w-full border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-1 focus:ring-primary-500 focus:border-primary-500"
+            />
+          </div>
+          <div
+            ref={scrollRef}
+            onScroll={onScroll}
+            className="h-72 overflow-y-auto bg-gray-900 text-gray-100 rounded-md p-2 font-mono text-xs leading-5"
+          >
+            {shown.map(line => (
+              <div key={line.seq} className="flex whitespace-pre-wrap break-all">
+                <span className="select-none text-gray-500 mr-2 shrink-0">{lineTime(line.at)}</span>
+                <span className={line.text.startsWith('$ ') ? 'text-sky-300' : ''}>{highlight(line.text, term)}</span>
+              </div>
+            ))}
+            {term && shown.length === 0 && <p className="text-gray-400">No lines match “{search.trim()}”.</p>}
+          </div>
+          <div className="flex items-center justify-between mt-1 text-xs text-gray-500">
+            <span>
+              {term ? `${shown.length.toLocaleString()} of ${lines.length.toLocaleString()} lines match` : ''}
+              {data?.truncated ? ' Part of this log was omitted to stay within the size limit.' : ''}
+            </span>
+            {!follow && (
+              <button onClick={() => setFollow(true)} className="text-primary-600 hover:text-primary-700">
+                Jump to latest
+              </button>
+            )}
+          </div>
+        </>
+      )}
+    </section>
+  );
+}
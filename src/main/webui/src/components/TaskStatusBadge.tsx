@@ -0,0 +1,19 @@
+import type { TaskStatus } from '../services/api';
+
+const STATUS_COLORS: Record<TaskStatus, string> = {
+  PENDING: 'bg-yellow-100 text-yellow-800',
+  SCHEDULED: 'bg-indigo-100 text-indigo-800',
+  PAUSED: 'bg-orange-100 text-orange-800',
+  RUNNING: 'bg-blue-100 text-blue-800',
+  COMPLETED: 'bg-green-100 text-green-800',
+  FAILED: 'bg-red-100 text-red-800',
+  CANCELLED: 'bg-gray-100 text-gray-800',
+};
+
+export default function TaskStatusBadge({ status }: { status: TaskStatus }) {
+  return (
+    <span className={`px-2 py-1 text-xs font-medium rounded-full ${STATUS_COLORS[status] ?? 'bg-gray-100 text-gray-800'}`}>
+      {status}
+    </span>
+  );
+}
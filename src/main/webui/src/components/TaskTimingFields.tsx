@@ -0,0 +1,45 @@
+import { format } from 'date-fns';
+import type { TaskPriority, TaskTiming } from '../services/api';
+import { TASK_PRIORITIES, formatEnumLabel } from '../services/models';
+
+interface TaskTimingFieldsProps {
+  timing: TaskTiming;
+  onChange: (timing: TaskTiming) => void;
+}
+
+// datetime-local inputs work in the browser's zone without seconds; the API takes ISO instants
+const LOCAL_FORMAT = "yyyy-MM-dd'T'HH:mm";
+
+// Priority and an optional later start for a task about to be queued
+export default function TaskTimingFields({ timing, onChange }: TaskTimingFieldsProps) {
+  const runAt = timing.runAt ? format(new Date(timing.runAt), LOCAL_FORMAT) : '';
+
+  return (
+    <div className="grid grid-cols-2 gap-4">
+      <label className="block text-sm font-medium text-gray-700">
+        Priority
+        <select
+          value={timing.priority ?? ''}
+          onChange={e => onChange({ ...timing, priority: (e.target.value || undefined) as TaskPriority | undefined })}
+          className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-1 focus:ring-primary-500 focus:border-primary-500"
+        >
+          <option value="">Usual for the task</option>
+          {TASK_PRIORITIES.map(option => (
+            <option key={option} value={option}>{formatEnumLabel(option)}</option>
+          ))}
+        </select>
+      </label>
+      <label className="block text-sm font-medium text-gray-700">
+        Run at
+        <input
+          type="datetime-local"
+          value={runAt}
+          min={format(new Date(), LOCAL_FORMAT)}
+          onChange={e => onChange({ ...timing, runAt: e.target.value ? new Date(e.target.value).toISOString() : null })}
+          className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-1 focus:ring-primary-500 focus:border-primary-500"
+        />
+        <span className="mt-1 block text-xs font-normal text-gray-500">Leave empty to start right away</span>
+      </label>
+    </div>
+  );
+}
@@ -0,0 +1,40 @@
+import { useState } from 'react';
+import { formatTimestamp, parseTimestamp } from '../utils/format';
+
+interface TimeInputProps {
+  value: number;
+  label: string;
+  onChange: (ms: number) => void;
+}
+
+// A cue time field in hh:mm:ss,mmm. Typing is kept as a draft and committed on blur or Enter once it parses.
+export default function TimeInput({ value, label, onChange }: TimeInputProps) {
+  const [draft, setDraft] = useState<string | null>(null);
+  const invalid = draft !== null && parseTimestamp(draft) === null;
+
+  const commit = () => {
+    if (draft === null) return;
+    const ms = parseTimestamp(draft);
+    if (ms === null) return;
+    if (ms !== value) onChange(ms);
+    setDraft(null);
+  };
+
+  return (
+    <input
+      type="text"
+      aria-label={label}
+      value={draft ?? formatTimestamp(value)}
+      onChange={e => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={e => {
+        if (e.key === 'Enter') commit();
+        if (e.key === 'Escape') setDraft(null);
+      }}
+      title={invalid ? 'Use hh:mm:ss,mmm' : undefined}
+      className={`w-32 px-2 py-1 font-mono text-xs border rounded-md focus:outline-none focus:ring-1 ${
+        invalid ? 'border-red-500 text-red-600 focus:ring-red-500' : 'border-gray-300 focus:ring-primary-500 focus:border-primary-500'
+      }`}
+    />
+  );
+}
@@ -0,0 +1,43 @@
+import { useState } from 'react';
+
+interface TranslatePanelProps {
+  defaultLanguage: string;
+  onCancel: () => void;
+  onSubmit: (targetLanguage: string) => void;
+}
+
+// Asks for the target language inside an action menu
+export default function TranslatePanel({ defaultLanguage, onCancel, onSubmit }: TranslatePanelProps) {
+  const [language, setLanguage] = useState(defaultLanguage);
+  const target = language.trim();
+
+  return (
+    <form
+      className="px-3 py-2 space-y-2"
+      onSubmit={e => {
+        e.preventDefault();
+        if (target) onSubmit(target);
+      }}
+    >
+      <label className="block text-xs font-medium text-gray-700">
+        Translate to
+        <input
+          type="text"
+          value={language}
+          onChange={e => setLanguage(e.target.value)}
+          placeholder="el"
+          autoFocus
+          className="mt-1 block w-full px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-primary-500 focus:border-primary-500"
+        />
+      </label>
+      <div className="flex justify-end space-x-2">
+        <button type="button" onClick={onCancel} className="text-xs text-gray-500 hover:text-gray-700">
+          Back
+        </button>
+        <button type="submit" disabled={!target} className="text-xs font-medium text-primary-600 hover:text-primary-700 disabled:opacity-50">
+          Queue translation
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,115 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import {
+  ArrowPathIcon,
+  ArrowTopRightOnSquareIcon,
+  DocumentArrowDownIcon,
+  LanguageIcon,
+  MagnifyingGlassIcon,
+  SparklesIcon,
+} from '@heroicons/react/24/outline';
+import { videoApi } from '../services/api';
+import type { ApiResponse, Task, VideoView } from '../services/api';
+import { useQuery } from '../hooks/useQuery';
+import { queries, taskMutations } from '../services/queries';
+import ActionMenu from './ActionMenu';
+import type { ActionOutcome } from './ActionOutcome';
+import TranslatePanel from './TranslatePanel';
+
+interface VideoActionMenuProps {
+  video: VideoView;
+  onOutcome: (outcome: ActionOutcome) => void;
+}
+
+export default function VideoActionMenu({ video, onOutcome }: VideoActionMenuProps) {
+  const navigate = useNavigate();
+  const { data: settings } = useQuery(queries.settings());
+  const [translating, setTranslating] = useState(false);
+  const [busy, setBusy] = useState(false);
+
+  const run = async (label: string, request: () => Promise<ApiResponse<Task>>) => {
+    setBusy(true);
+    const response = await request();
+    setBusy(false);
+    onOutcome(response.data ? { label, task: response.data } : { label, error: response.error ?? 'Unknown error' });
+  };
+
+  // Same choice of source as the video page: the configured source language, else anything
+  // not already in the target language
+  const translate = async (targetLanguage: string) => {
+    const label = `Translate to ${targetLanguage}`;
+    setBusy(true);
+    const response = await videoApi.getVideoSubtitles(video.id);
+    setBusy(false);
+    if (!response.data) {
+      onOutcome({ label, error: response.error ?? 'Could not load the subtitles' });
+      return;
+    }
+    const subtitles = response.data;
+    const source =
+      subtitles.find(s => s.language === settings?.defaultSourceLanguage && s.language !== targetLanguage) ??
+      subtitles.find(s => s.language !== targetLanguage);
+    if (!source) {
+      onOutcome({ label, error: 'No subtitle to translate from' });
+      return;
+    }
+    await run(label, () =>
+      taskMutations.createTranslation(source.id, targetLanguage, settings?.aiProvider.toLowerCase())
+    );
+  };
+
+  return (
+    <ActionMenu
+      label={`Actions for ${video.title ?? video.path}`}
+      busy={busy}
+      onClose={() => setTranslating(false)}
+      panel={
+        translating
+          ? close => (
+              <TranslatePanel
+                defaultLanguage={settings?.defaultTargetLanguage ?? 'el'}
+                onCancel={() => setTranslating(false)}
+                onSubmit={language => {
+                  close();
+                  translate(language);
+                }}
+              />
+            )
+          : undefined
+      }
+      items={[
+        {
+          label: 'Open details',
+          icon: ArrowTopRightOnSquareIcon,
+          onSelect: () => navigate(`/videos/${video.id}`),
+        },
+        {
+          label: 'Re-probe metadata',
+          icon: MagnifyingGlassIcon,
+          onSelect: () => run('Re-probe', () => taskMutations.createRescan(video.id)),
+        },
+        {
+          label: 'Extract embedded subtitles',
+          icon: DocumentArrowDownIcon,
+          onSelect: () => run('Extraction', () => taskMutations.createExtraction(video.id)),
+        },
+        {
+          label: 'Generate with Whisper',
+          icon: SparklesIcon,
+          onSelect: () => run('Generation', () => taskMutations.createGeneration(video.id)),
+        },
+        {
+          label: 'Sync subtitles',
+          icon: ArrowPathIcon,
+          onSelect: () => run('Sync', () => taskMutations.createSync(video.id)),
+        },
+        {
+          label: 'Translate…',
+          icon: LanguageIcon,
+          keepOpen: true,
+          onSelect: () => setTranslating(true),
+        },
+      ]}
+    />
+  );
+}
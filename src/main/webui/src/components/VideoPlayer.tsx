@@ -0,0 +1,212 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+import { useQuery } from '../hooks/useQuery';
+import { queries } from '../services/queries';
+import { mediaApi, tokenManager } from '../services/api';
+import type { Subtitle, SubtitleCue } from '../services/api';
+import { formatTimestamp } from '../utils/format';
+import { toWebVtt } from '../utils/timing';
+
+interface VideoPlayerProps {
+  videoId: string;
+  // Only subtitles with a file can be rendered as a track
+  subtitles: Subtitle[];
+  initialSubtitleId?: string;
+  // Unsaved cues to overlay instead of a stored subtitle, e.g. a timing correction being tried out
+  preview?: { label: string; cues: SubtitleCue[] };
+}
+
+const PREVIEW_TRACK = 'preview';
+
+// Plays a video with the selected subtitle overlaid and a cue list to jump around. Files the
+// browser cannot decode are played through the server's transcode, which starts at a given
+// position instead of seeking, so cue jumps reload the stream there.
+export default function VideoPlayer({ videoId, subtitles, initialSubtitleId, preview }: VideoPlayerProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const activeCueRef = useRef<HTMLLIElement>(null);
+
+  const tracks = subtitles.filter(subtitle => subtitle.filePath);
+  const [selectedId, setSelectedId] = useState<string | null>(initialSubtitleId ?? tracks[0]?.id ?? null);
+  const [decodeFailed, setDecodeFailed] = useState(false);
+  const [transcodeStart, setTranscodeStart] = useState(0);
+  const [currentMs, setCurrentMs] = useState(0);
+  const [playbackError, setPlaybackError] = useState<string | null>(null);
+  // Stream URLs keep the token playback started with, since a new URL restarts the stream. Once the
+  // token has run out, a failing request switches to the current one and resumes where it stopped.
+  const [streamToken, setStreamToken] = useState(tokenManager.getToken);
+  const resumeMsRef = useRef(0);
+
+  const { data: playback, error: playbackInfoError } = useQuery(queries.playback(videoId));
+  const cuesQuery = useQuery(queries.subtitleCues(selectedId ?? ''), { enabled: !preview && selectedId !== null });
+  const cues = preview ? preview.cues : selectedId ? cuesQuery.data?.cues ?? [] : [];
+  const trackId = preview ? PREVIEW_TRACK : selectedId;
+
+  const canPlayDirect =
+    playback !== undefined &&
+    playback.direct &&
+    !decodeFailed &&
+    document.createElement('video').canPlayType(playback.mimeType) !== '';
+  const transcoding = playback !== undefined && !canPlayDirect;
+  const offsetMs = transcoding ? transcodeStart * 1000 : 0;
+
+  const src = useMemo(
+    () =>
+      playback
+        ? transcoding
+          ? mediaApi.videoTranscodeUrl(videoId, transcodeStart, streamToken)
+          : mediaApi.videoStreamUrl(videoId, streamToken)
+        : undefined,
+    [playback, transcoding, videoId, transcodeStart, streamToken]
+  );
+
+  const trackSrc = preview
+    ? `data:text/vtt;charset=utf-8,${encodeURIComponent(toWebVtt(preview.cues, offsetMs))}`
+    : selectedId
+      ? mediaApi.subtitleTrackUrl(selectedId, offsetMs, streamToken)
+      : undefined;
+
+  const activeIndex = cues.findIndex(cue => currentMs >= cue.startMs && currentMs < cue.endMs);
+
+  // Tracks added after the first render do not show by themselves
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+    for (const track of Array.from(video.textTracks)) {
+      track.mode = track.id === trackId ? 'showing' : 'disabled';
+    }
+  }, [trackId, src, trackSrc]);
+
+  useEffect(() => {
+    activeCueRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [activeIndex]);
+
+  const seek = (ms: number) => {
+    const video = videoRef.current;
+    if (!video) return;
+    if (transcoding) {
+      setTranscodeStart(ms / 1000);
+      setCurrentMs(ms);
+    } else {
+      video.currentTime = ms / 1000;
+      video.play().catch(() => undefined);
+    }
+  };
+
+  const handleError = () => {
+    const error = videoRef.current?.error;
+    if (!error) return;
+    const currentToken = tokenManager.getToken();
+    if (error.code === MediaError.MEDIA_ERR_NETWORK && currentToken && currentToken !== streamToken) {
+      if (transcoding) {
+        setTranscodeStart(currentMs / 1000);
+      } else {
+        resumeMsRef.current = currentMs;
+      }
+      setStreamToken(currentToken);
+      return;
+    }
+    const undecodable = error.code === MediaError.MEDIA_ERR_SRC_NOT_SUPPORTED || error.code === MediaError.MEDIA_ERR_DECODE;
+    if (!transcoding && undecodable) {
+      // Pick up where direct playback stopped
+      setTranscodeStart(currentMs / 1000);
+      setDecodeFailed(true);
+    } else {
+      setPlaybackError(error.message || 'The video could not be played');
+    }
+  };
+
+  if (playbackInfoError && !playback) {
+    return <p className="text-sm text-red-600">{playbackInfoError}</p>;
+  }
+
+  return (
+    <div className="grid grid-cols-1 gap-4 lg:grid-cols-3">
+      <div className="lg:col-span-2 space-y-2">
+        <div className="aspect-video bg-black rounded-lg overflow-hidden">
+          {src && (
+            <video
+              key={src}
+              ref={videoRef}
+              src={src}
+              controls
+              autoPlay={transcoding && transcodeStart > 0}
+              preload="metadata"
+              crossOrigin="anonymous"
+              onLoadedMetadata={e => {
+                if (resumeMsRef.current > 0) {
+                  e.currentTarget.currentTime = resumeMsRef.current / 1000;
+                  resumeMsRef.current = 0;
+                  e.currentTarget.play().catch(() => undefined);
+                }
+              }}
+              onTimeUpdate={e => setCurrentMs(Math.round(e.currentTarget.currentTime * 1000) + offsetMs)}
+              onError={handleError}
+              className="w-full h-full"
+            >
+              {trackId && trackSrc && (
+                <track
+                  key={trackSrc}
+                  id={trackId}
+                  kind="subtitles"
+                  src={trackSrc}
+                  label={preview ? preview.label : tracks.find(track => track.id === selectedId)?.language}
+                  default
+                />
+              )}
+            </video>
+          )}
+        </div>
+
+        {transcoding && (
+          <p className="flex items-start text-xs text-gray-500">
+            <ExclamationTriangleIcon className="w-4 h-4 mr-1 flex-shrink-0 text-yellow-500" />
+            {playback?.transcodeReason ?? 'Your browser could not decode this file'}, so a low-bitrate transcode is playing
+            {transcodeStart > 0 && ` from ${formatTimestamp(transcodeStart * 1000)}`}. Use the cue list to jump.
+          </p>
+        )}
+        {playbackError && <p className="text-sm text-red-600">{playbackError}</p>}
+      </div>
+
+      <div className="flex flex-col min-h-0">
+        {preview ? (
+          <p className="mb-2 px-3 py-2 text-sm font-medium text-gray-700 bg-gray-50 border border-gray-200 rounded-md">{preview.label}</p>
+        ) : (
+          <select
+            value={selectedId ?? ''}
+            onChange={e => setSelectedId(e.target.value || null)}
+            className="mb-2 border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-1 focus:ring-primary-500 focus:border-primary-500"
+          >
+            <option value="">No subtitles</option>
+            {tracks.map(track => (
+              <option key={track.id} value={track.id}>
+                {track.languageDisplayName ?? track.language} ({track.language}){track.isGenerated ? ' · generated' : ''}
+              </option>
+            ))}
+          </select>
+        )}
+
+        <ul className="flex-1 max-h-96 overflow-y-auto border border-gray-200 rounded-md divide-y divide-gray-100">
+          {trackId === null ? (
+            <li className="p-3 text-sm text-gray-500">Pick a subtitle to list its cues.</li>
+          ) : !preview && cuesQuery.isLoading ? (
+            <li className="p-3 text-sm text-gray-500">Loading cues…</li>
+          ) : !preview && cuesQuery.error && !cuesQuery.data ? (
+            <li className="p-3 text-sm text-red-600">{cuesQuery.error}</li>
+          ) : (
+            cues.map((cue, index) => (
+              <li
+                key={index}
+                ref={index === activeIndex ? activeCueRef : undefined}
+                onClick={() => seek(cue.startMs)}
+                className={`px-3 py-2 cursor-pointer text-sm ${index === activeIndex ? 'bg-primary-50' : 'hover:bg-gray-50'}`}
+              >
+                <span className="block font-mono text-xs text-gray-500">{formatTimestamp(cue.startMs)}</span>
+                <span className="whitespace-pre-line text-gray-900">{cue.text}</span>
+              </li>
+            ))
+          )}
+        </ul>
+      </div>
+    </div>
+  );
+}
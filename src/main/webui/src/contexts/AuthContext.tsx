@@ -1,12 +1,31 @@
-import { createContext, useContext, useState, useEffect } from 'react';
+import { createContext, useContext, useState, useEffect, useCallback } from 'react';
 import type { ReactNode } from 'react';
-import { authApi, tokenManager } from '../services/api';
+import { RENEW_BEFORE_EXPIRY_MS, authApi, expireSession, onSessionExpired, refreshSession, tokenManager } from '../services/api';
+import type { UserRole, UserView } from '../services/api';
+import webSocketService from '../services/websocket';
+import queryCache from '../services/queryCache';
+
+// Each role can do everything the roles below it can
+const ROLE_RANK: Record<UserRole, number> = { VIEWER: 0, USER: 1, ADMIN: 2 };
+
+// How often the access token's expiry is checked; timers in background tabs run about once a minute
+const RENEWAL_CHECK_INTERVAL = 30 * 1000;
+
+// Why the last session ended: the user signed out, the server ended it (or another tab did),
+// or the user was idle for longer than their session timeout
+export type SessionEnd = 'logout' | 'expired' | 'idle';
 
 interface AuthContextType {
   isAuthenticated: boolean;
   isLoading: boolean;
-  login: (password: string) => Promise<{ success: boolean; message: string }>;
-  logout: () => Promise<void>;
+  // The signed-in account, null while signed out
+  user: UserView | null;
+  // Set once a session ends, until the next sign-in
+  sessionEnd: SessionEnd | null;
+  // Whether the signed-in user has at least the given role
+  hasRole: (role: UserRole) => boolean;
+  login: (username: string, password: string) => Promise<{ success: boolean; message: string }>;
+  logout: (reason?: SessionEnd) => Promise<void>;
   validateToken: () => Promise<boolean>;
 }
 
@@ -17,48 +36,92 @@ interface AuthProviderProps {
 }
 
 export function AuthProvider({ children }: AuthProviderProps) {
-  const [isAuthenticated, setIsAuthenticated] = useState<boolean>(false);
+  const [user, setUser] = useState<UserView | null>(null);
   const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [sessionEnd, setSessionEnd] = useState<SessionEnd | null>(null);
+  const isAuthenticated = user !== null;
+
+  const endSession = useCallback((reason: SessionEnd) => {
+    setUser(null);
+    setSessionEnd(reason);
+    webSocketService.disconnect();
+    queryCache.clear();
+  }, []);
+
+  // Loading the account also validates the token, renewing it if it ran out
+  const loadUser = useCallback(async () => {
+    try {
+      const response = await authApi.getCurrentUser();
+      if (response.data) {
+        setUser(response.data);
+      } else {
+        // Token is invalid, remove it
+        tokenManager.removeToken();
+        setUser(null);
+      }
+    } catch (error) {
+      // If validation fails, assume token is invalid
+      tokenManager.removeToken();
+      setUser(null);
+    }
+  }, []);
 
   // Check if user is authenticated on app start
   useEffect(() => {
     const checkAuth = async () => {
-      const token = tokenManager.getToken();
-      
-      if (!token) {
-        setIsAuthenticated(false);
-        setIsLoading(false);
-        return;
+      if (tokenManager.getToken()) {
+        await loadUser();
       }
-
-      // Validate the token with the backend
-      try {
-        const response = await authApi.validateToken();
-        if (response.data?.valid) {
-          setIsAuthenticated(true);
-        } else {
-          // Token is invalid, remove it
-          tokenManager.removeToken();
-          setIsAuthenticated(false);
-        }
-      } catch (error) {
-        // If validation fails, assume token is invalid
-        tokenManager.removeToken();
-        setIsAuthenticated(false);
-      }
-      
       setIsLoading(false);
     };
 
     checkAuth();
-  }, []);
+  }, [loadUser]);
 
-  const login = async (password: string): Promise<{ success: boolean; message: string }> => {
+  // The server refused to renew the session, from an API call or the WebSocket
+  useEffect(() => onSessionExpired(() => endSession('expired')), [endSession]);
+
+  // Signing in or out in one tab does the same in the others
+  useEffect(
+    () =>
+      tokenManager.onOtherTabChange(signedIn => {
+        if (signedIn) {
+          setSessionEnd(null);
+          loadUser();
+        } else {
+          endSession('expired');
+        }
+      }),
+    [endSession, loadUser]
+  );
+
+  // Renew the access token shortly before it runs out, so requests never see it expire
+  useEffect(() => {
+    if (!isAuthenticated) return;
+
+    const timer = setInterval(async () => {
+      const session = tokenManager.getSession();
+      if (!session || session.expiresAt - Date.now() > RENEW_BEFORE_EXPIRY_MS) return;
+      // An unreachable server is retried on the next check
+      if ((await refreshSession()) === 'rejected') {
+        expireSession();
+      }
+    }, RENEWAL_CHECK_INTERVAL);
+    return () => clearInterval(timer);
+  }, [isAuthenticated]);
+
+  const login = async (username: string, password: string): Promise<{ success: boolean; message: string }> => {
     try {
-      const response = await authApi.login(password);
+      const response = await authApi.login(username, password);
       
       if (response.data?.success) {
-        setIsAuthenticated(true);
+        const account = response.data.user ?? (await authApi.getCurrentUser()).data;
+        if (!account) {
+          tokenManager.removeToken();
+          return { success: false, message: 'Could not load your account' };
+        }
+        setUser(account);
+        setSessionEnd(null);
         return { success: true, message: response.data.message };
       } else {
         return { 
@@ -74,15 +137,15 @@ export function AuthProvider({ children }: AuthProviderProps) {
     }
   };
 
-  const logout = async (): Promise<void> => {
+  const logout = async (reason: SessionEnd = 'logout'): Promise<void> => {
     try {
       await authApi.logout();
     } catch (error) {
       // Even if logout fails on backend, we still clear local state
       console.error('Logout error:', error);
     } finally {
-      setIsAuthenticated(false);
       tokenManager.removeToken();
+      endSession(reason);
     }
   };
 
@@ -92,21 +155,26 @@ export function AuthProvider({ children }: AuthProviderProps) {
       const isValid = response.data?.valid || false;
       
       if (!isValid) {
-        setIsAuthenticated(false);
+        setUser(null);
         tokenManager.removeToken();
       }
       
       return isValid;
     } catch (error) {
-      setIsAuthenticated(false);
+      setUser(null);
       tokenManager.removeToken();
       return false;
     }
   };
 
+  const hasRole = (role: UserRole): boolean => user !== null && ROLE_RANK[user.role] >= ROLE_RANK[role];
+
   const value: AuthContextType = {
     isAuthenticated,
     isLoading,
+    user,
+    sessionEnd,
+    hasRole,
     login,
     logout,
     validateToken,
@@ -0,0 +1,76 @@
+import { useEffect, useRef, useState } from 'react';
+import { tokenManager } from '../services/api';
+
+// Last time the user did anything, shared by all tabs so being busy in one keeps the others signed in
+const ACTIVITY_KEY = 'skiperr_last_activity';
+const ACTIVITY_EVENTS = ['pointerdown', 'pointermove', 'keydown', 'wheel', 'touchstart'] as const;
+// Activity is written at most this often
+const ACTIVITY_WRITE_INTERVAL = 10 * 1000;
+// How long before the timeout the warning shows
+export const IDLE_WARNING_MS = 60 * 1000;
+
+const readActivity = () => Number(localStorage.getItem(ACTIVITY_KEY)) || Date.now();
+const writeActivity = () => localStorage.setItem(ACTIVITY_KEY, String(Date.now()));
+
+interface IdleTimeout {
+  // Seconds until the user is signed out, while the warning shows; null otherwise
+  secondsLeft: number | null;
+  // Counts as activity even while the warning shows
+  stayActive: () => void;
+}
+
+// Tracks inactivity against the session timeout the server sent with the tokens, and calls
+// onTimeout once it is exceeded. Activity stops counting once the warning shows, so the user
+// has to confirm they are still there.
+export function useIdleTimeout(enabled: boolean, onTimeout: () => void): IdleTimeout {
+  const [secondsLeft, setSecondsLeft] = useState<number | null>(null);
+  const warningRef = useRef(false);
+  const onTimeoutRef = useRef(onTimeout);
+  useEffect(() => {
+    onTimeoutRef.current = onTimeout;
+  });
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    // A new session starts out active, whatever an earlier one left behind
+    writeActivity();
+    let lastWrite = Date.now();
+    let timedOut = false;
+    const handleActivity = () => {
+      if (warningRef.current || Date.now() - lastWrite < ACTIVITY_WRITE_INTERVAL) return;
+      lastWrite = Date.now();
+      writeActivity();
+    };
+    ACTIVITY_EVENTS.forEach(name => window.addEventListener(name, handleActivity, { passive: true }));
+
+    const timer = setInterval(() => {
+      const timeout = tokenManager.getSession()?.sessionTimeout;
+      if (!timeout || timedOut) return;
+      const remaining = readActivity() + timeout - Date.now();
+      if (remaining <= 0) {
+        timedOut = true;
+        warningRef.current = false;
+        setSecondsLeft(null);
+        onTimeoutRef.current();
+      } else {
+        warningRef.current = remaining <= IDLE_WARNING_MS;
+        setSecondsLeft(warningRef.current ? Math.ceil(remaining / 1000) : null);
+      }
+    }, 1000);
+
+    return () => {
+      ACTIVITY_EVENTS.forEach(name => window.removeEventListener(name, handleActivity));
+      clearInterval(timer);
+      warningRef.current = false;
+    };
+  }, [enabled]);
+
+  const stayActive = () => {
+    warningRef.current = false;
+    writeActivity();
+    setSecondsLeft(null);
+  };
+
+  return { secondsLeft: enabled ? secondsLeft : null, stayActive };
+}
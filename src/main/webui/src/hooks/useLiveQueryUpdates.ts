@@ -0,0 +1,7 @@
+import { applyNotification, applyTaskUpdate } from '../services/queries';
+import { useWebSocket } from './useWebSocket';
+
+// Keeps the query cache in step with task updates and notifications pushed over the WebSocket
+export function useLiveQueryUpdates() {
+  return useWebSocket({ onTaskUpdate: applyTaskUpdate, onNotification: applyNotification });
+}
@@ -0,0 +1,141 @@
+import { useCallback, useEffect, useRef, useState, useSyncExternalStore } from 'react';
+import { queryCache, DEFAULT_STALE_TIME } from '../services/queryCache';
+import type { QueryDefinition, QueryKey, QueryState } from '../services/queryCache';
+
+interface QueryOptions {
+  enabled?: boolean;
+  staleTime?: number;
+  // Keep showing the previous key's data while a new key loads (e.g. while typing a search)
+  keepPreviousData?: boolean;
+}
+
+function useQueryState<T>(hash: string): QueryState<T> {
+  const subscribe = useCallback((listener: () => void) => queryCache.subscribe(hash, listener), [hash]);
+  const getSnapshot = useCallback(() => queryCache.getState<T>(hash), [hash]);
+  return useSyncExternalStore(subscribe, getSnapshot);
+}
+
+// Reads a cached query, fetching it on mount when missing or stale
+export function useQuery<T>(
+  { key, fetch: fetcher }: QueryDefinition<T>,
+  { enabled = true, staleTime = DEFAULT_STALE_TIME, keepPreviousData = false }: QueryOptions = {}
+) {
+  const hash = queryCache.register(key);
+  const state = useQueryState<T>(hash);
+
+  const previousData = useRef<T | undefined>(undefined);
+  useEffect(() => {
+    if (state.data !== undefined) {
+      previousData.current = state.data;
+    }
+  }, [state.data]);
+
+  // Latest fetcher, so callers can pass inline closures
+  const fetcherRef = useRef(fetcher);
+  useEffect(() => {
+    fetcherRef.current = fetcher;
+  });
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    queryCache.setFetcher(hash, () => fetcherRef.current(), staleTime);
+    if (queryCache.isStale(hash)) {
+      queryCache.fetch(hash).catch(() => undefined);
+    }
+  }, [hash, enabled, staleTime]);
+
+  const refetch = useCallback(() => queryCache.fetch<T>(hash).catch(() => undefined), [hash]);
+
+  const isPreviousData = keepPreviousData && state.data === undefined && previousData.current !== undefined;
+  const data = isPreviousData ? previousData.current : state.data;
+
+  return {
+    data,
+    error: state.error,
+    isLoading: enabled && data === undefined && !state.error,
+    isFetching: state.isFetching,
+    isPreviousData,
+    refetch,
+  };
+}
+
+interface InfiniteData<TPage> {
+  pages: TPage[];
+}
+
+// Paged reads that grow as the user scrolls. Revalidation refetches every loaded page so
+// the cached list stays consistent with the server.
+export function useInfiniteQuery<TPage>(
+  key: QueryKey,
+  fetchPage: (pageIndex: number) => Promise<TPage>,
+  hasNextPage: (pages: TPage[]) => boolean,
+  options: QueryOptions = {}
+) {
+  const hash = queryCache.register(key);
+  const [isFetchingNextPage, setIsFetchingNextPage] = useState(false);
+  const [nextPageError, setNextPageError] = useState<string | null>(null);
+  const fetchingNext = useRef(false);
+
+  const keyRef = useRef(key);
+  const fetchPageRef = useRef(fetchPage);
+  useEffect(() => {
+    keyRef.current = key;
+    fetchPageRef.current = fetchPage;
+  });
+
+  useEffect(() => {
+    setNextPageError(null);
+  }, [hash]);
+
+  const query = useQuery<InfiniteData<TPage>>(
+    {
+      key,
+      fetch: async () => {
+        const loaded = queryCache.getState<InfiniteData<TPage>>(hash).data?.pages.length ?? 0;
+        const pages: TPage[] = [];
+        for (let i = 0; i < Math.max(1, loaded); i++) {
+          pages.push(await fetchPageRef.current(i));
+        }
+        return { pages };
+      },
+    },
+    options
+  );
+
+  const pages = query.data?.pages;
+  // Pages kept from a previous key cannot be extended
+  const currentPages = query.isPreviousData ? undefined : pages;
+  const hasMore = currentPages !== undefined && hasNextPage(currentPages);
+
+  const fetchNextPage = useCallback(async () => {
+    if (!currentPages || fetchingNext.current) return;
+
+    // Captured up front so a page that lands after the key changed goes to its own entry
+    const targetKey = keyRef.current;
+    fetchingNext.current = true;
+    setIsFetchingNextPage(true);
+    setNextPageError(null);
+
+    try {
+      const page = await fetchPageRef.current(currentPages.length);
+      queryCache.setData<InfiniteData<TPage>>(targetKey, previous => ({
+        pages: [...(previous?.pages ?? currentPages), page],
+      }));
+    } catch (err) {
+      setNextPageError(err instanceof Error ? err.message : 'Failed to load more');
+    } finally {
+      fetchingNext.current = false;
+      setIsFetchingNextPage(false);
+    }
+  }, [currentPages]);
+
+  return {
+    ...query,
+    pages,
+    hasNextPage: hasMore,
+    fetchNextPage,
+    isFetchingNextPage,
+    nextPageError,
+  };
+}
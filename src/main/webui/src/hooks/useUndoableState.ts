@@ -0,0 +1,84 @@
+import { useCallback, useEffect, useState } from 'react';
+
+interface History<T> {
+  past: T[];
+  present: T;
+  future: T[];
+  // Edits with the same key in a row collapse into one undo step (e.g. typing in one field)
+  lastKey?: string;
+}
+
+const MAX_HISTORY = 200;
+
+// State with an undo/redo history. Ctrl+Z undoes, Ctrl+Shift+Z and Ctrl+Y redo.
+export function useUndoableState<T>(initial: T) {
+  const [history, setHistory] = useState<History<T>>({ past: [], present: initial, future: [] });
+
+  const set = useCallback((updater: (previous: T) => T, coalesceKey?: string) => {
+    setHistory(current => {
+      const next = updater(current.present);
+      if (Object.is(next, current.present)) return current;
+
+      const coalesce = coalesceKey !== undefined && coalesceKey === current.lastKey;
+      return {
+        past: coalesce ? current.past : [...current.past, current.present].slice(-MAX_HISTORY),
+        present: next,
+        future: [],
+        lastKey: coalesceKey,
+      };
+    });
+  }, []);
+
+  // Replaces the state and forgets the history, e.g. after loading or saving
+  const reset = useCallback((value: T) => {
+    setHistory({ past: [], present: value, future: [] });
+  }, []);
+
+  const undo = useCallback(() => {
+    setHistory(current => {
+      if (current.past.length === 0) return current;
+      return {
+        past: current.past.slice(0, -1),
+        present: current.past[current.past.length - 1],
+        future: [current.present, ...current.future],
+      };
+    });
+  }, []);
+
+  const redo = useCallback(() => {
+    setHistory(current => {
+      if (current.future.length === 0) return current;
+      return {
+        past: [...current.past, current.present],
+        present: current.future[0],
+        future: current.future.slice(1),
+      };
+    });
+  }, []);
+
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey)) return;
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        undo();
+      } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+        event.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [undo, redo]);
+
+  return {
+    state: history.present,
+    set,
+    reset,
+    undo,
+    redo,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+  };
+}
@@ -0,0 +1,57 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { UIEvent } from 'react';
+
+interface VirtualRowsOptions {
+  count: number;
+  rowHeight: number;
+  overscan?: number;
+}
+
+// Windowing for fixed-height rows inside a scroll container: only the rows in
+// [start, end) are rendered, with spacer padding standing in for the rest.
+export function useVirtualRows<T extends HTMLElement>({ count, rowHeight, overscan = 10 }: VirtualRowsOptions) {
+  const elementRef = useRef<T | null>(null);
+  const [element, setElement] = useState<T | null>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(0);
+
+  const containerRef = useCallback((node: T | null) => {
+    elementRef.current = node;
+    setElement(node);
+  }, []);
+
+  useEffect(() => {
+    if (!element) return;
+
+    const observer = new ResizeObserver(() => setViewportHeight(element.clientHeight));
+    observer.observe(element);
+
+    return () => {
+      observer.disconnect();
+    };
+  }, [element]);
+
+  const onScroll = useCallback((event: UIEvent<T>) => {
+    setScrollTop(event.currentTarget.scrollTop);
+  }, []);
+
+  const scrollToTop = useCallback(() => {
+    if (elementRef.current) {
+      elementRef.current.scrollTop = 0;
+    }
+    setScrollTop(0);
+  }, []);
+
+  const start = Math.max(0, Math.floor(scrollTop / rowHeight) - overscan);
+  const end = Math.min(count, Math.ceil((scrollTop + viewportHeight) / rowHeight) + overscan);
+
+  return {
+    containerRef,
+    onScroll,
+    scrollToTop,
+    start,
+    end,
+    paddingTop: start * rowHeight,
+    paddingBottom: Math.max(0, count - end) * rowHeight,
+  };
+}
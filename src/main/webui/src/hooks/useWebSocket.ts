@@ -1,47 +1,43 @@
-import { useEffect, useCallback } from 'react';
-
-// Type definitions
-const TaskStatus = {
-  PENDING: 'PENDING',
-  RUNNING: 'RUNNING',
-  COMPLETED: 'COMPLETED',
-  FAILED: 'FAILED',
-  CANCELLED: 'CANCELLED'
-} as const;
-
-type TaskStatus = typeof TaskStatus[keyof typeof TaskStatus];
-
-interface TaskUpdate {
-  taskId: string;
-  status: TaskStatus;
-  progress: number;
-  progressMessage?: string;
-  errorMessage?: string;
-  message?: string;
-  updatedAt: string;
-}
+import { useEffect, useRef, useSyncExternalStore } from 'react';
 import webSocketService from '../services/websocket';
+import type { MessageHandlers, SubscriptionFilter } from '../services/websocket';
 
-export function useWebSocket(onTaskUpdate?: (update: TaskUpdate) => void) {
-  const handleTaskUpdate = useCallback((update: TaskUpdate) => {
-    if (onTaskUpdate) {
-      onTaskUpdate(update);
-    }
-  }, [onTaskUpdate]);
+interface UseWebSocketOptions extends MessageHandlers {
+  filter?: SubscriptionFilter;
+}
 
+export function useWebSocket({ filter, ...handlers }: UseWebSocketOptions = {}) {
+  // Handlers live in a ref so callers can pass inline functions without resubscribing
+  const handlersRef = useRef<MessageHandlers>(handlers);
   useEffect(() => {
-    if (!onTaskUpdate) return;
+    handlersRef.current = handlers;
+  });
 
-    const unsubscribe = webSocketService.subscribe(handleTaskUpdate);
+  const hasHandlers = Object.values(handlers).some(Boolean);
+  const filterKey = JSON.stringify(filter ?? {});
+
+  useEffect(() => {
+    if (!hasHandlers) return;
+
+    const unsubscribe = webSocketService.subscribe(JSON.parse(filterKey) as SubscriptionFilter, {
+      onTaskUpdate: task => handlersRef.current.onTaskUpdate?.(task),
+      onScanProgress: progress => handlersRef.current.onScanProgress?.(progress),
+      onTaskLog: log => handlersRef.current.onTaskLog?.(log),
+      onNotification: notification => handlersRef.current.onNotification?.(notification),
+      onError: error => handlersRef.current.onError?.(error),
+    });
 
     return () => {
       unsubscribe();
     };
-  }, [handleTaskUpdate]);
+  }, [filterKey, hasHandlers]);
+
+  const state = useSyncExternalStore(webSocketService.onStateChange, webSocketService.getState);
 
   return {
-    isConnected: webSocketService.isConnected(),
+    state,
+    isConnected: state === 'open',
     connect: () => webSocketService.connect(),
     disconnect: () => webSocketService.disconnect(),
   };
-}
\ No newline at end of file
+}
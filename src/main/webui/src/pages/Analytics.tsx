@@ -0,0 +1,16 @@
+import TaskAnalyticsPanel from '../components/TaskAnalyticsPanel';
+
+export default function Analytics() {
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold text-gray-900">Analytics</h2>
+        <p className="text-gray-600">
+          How many tasks finish, how often each type fails and how long it takes. Compare ranges after changing the Whisper model or the translation provider.
+        </p>
+      </div>
+
+      <TaskAnalyticsPanel />
+    </div>
+  );
+}
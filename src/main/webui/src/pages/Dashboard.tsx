@@ -1,53 +1,103 @@
-import { useState, useEffect } from 'react';
 import {
   PlayIcon,
   DocumentTextIcon,
   ClockIcon,
   CheckCircleIcon,
   XCircleIcon,
-  ServerIcon,
+  LanguageIcon,
 } from '@heroicons/react/24/outline';
-import { dashboardApi, taskApi } from '../services/api';
-import type { DashboardStats, Task } from '../services/api';
+import { useQuery } from '../hooks/useQuery';
+import { queries } from '../services/queries';
+import { formatEnumLabel } from '../services/models';
+import type { LibraryDiskUsage } from '../services/models';
+import { formatFileSize } from '../utils/format';
+import TaskAnalyticsPanel from '../components/TaskAnalyticsPanel';
+
+interface BreakdownProps {
+  title: string;
+  counts: Record<string, number>;
+  label: (key: string) => string;
+}
+
+// One count per category, largest first, with a bar relative to the total
+function Breakdown({ title, counts, label }: BreakdownProps) {
+  const entries = Object.entries(counts).sort(([, a], [, b]) => b - a);
+  const total = entries.reduce((sum, [, count]) => sum + count, 0);
+
+  return (
+    <div className="card">
+      <h3 className="text-sm font-medium text-gray-900 mb-3">{title}</h3>
+      {entries.length === 0 ? (
+        <p className="text-sm text-gray-500">Nothing yet</p>
+      ) : (
+        <ul className="space-y-2">
+          {entries.map(([key, count]) => (
+            <li key={key}>
+              <div className="flex justify-between text-sm">
+                <span className="text-gray-600">{label(key)}</span>
+                <span className="font-medium text-gray-900">{count.toLocaleString()}</span>
+              </div>
+              <div className="mt-1 w-full bg-gray-100 rounded-full h-1.5">
+                <div
+                  className="bg-primary-500 h-1.5 rounded-full"
+                  style={{ width: `${total > 0 ? (count / total) * 100 : 0}%` }}
+                />
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+// The bar shows the whole disk: the library's videos, everything else on the disk, and free space
+function LibraryUsage({ usage }: { usage: LibraryDiskUsage }) {
+  if (!usage.available || usage.totalBytes === 0) {
+    return (
+      <div className="text-sm">
+        <p className="font-medium text-gray-900 break-all">{usage.path}</p>
+        <p className="text-red-600">Not reachable from the server</p>
+      </div>
+    );
+  }
+
+  const usedBytes = usage.totalBytes - usage.usableBytes;
+  const percent = (bytes: number) => `${(bytes / usage.totalBytes) * 100}%`;
+
+  return (
+    <div className="space-y-2 text-sm">
+      <div className="flex justify-between">
+        <span className="font-medium text-gray-900 break-all">{usage.path}</span>
+        <span className="text-gray-500 whitespace-nowrap ml-4">
+          {formatFileSize(usage.usableBytes)} free of {formatFileSize(usage.totalBytes)}
+        </span>
+      </div>
+      <div className="flex w-full bg-gray-200 rounded-full h-2 overflow-hidden">
+        <div className="bg-primary-600 h-2" style={{ width: percent(Math.min(usage.videoBytes, usedBytes)) }} />
+        <div className="bg-gray-400 h-2" style={{ width: percent(Math.max(usedBytes - usage.videoBytes, 0)) }} />
+      </div>
+      <p className="text-gray-500">
+        {usage.videoCount.toLocaleString()} videos using {formatFileSize(usage.videoBytes)}, {formatFileSize(usedBytes)} used on the disk in total
+      </p>
+    </div>
+  );
+}
 
 export default function Dashboard() {
-  const [stats, setStats] = useState<DashboardStats | null>(null);
-  const [recentTasks, setRecentTasks] = useState<Task[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-
-  useEffect(() => {
-    const fetchDashboardData = async () => {
-      setLoading(true);
-      setError(null);
-
-      try {
-        // Fetch dashboard stats and recent tasks in parallel
-        const [statsResponse, tasksResponse] = await Promise.all([
-          dashboardApi.getStats(),
-          taskApi.getTasks(0, 5), // Get first 5 tasks for recent tasks
-        ]);
-
-        if (statsResponse.error) {
-          throw new Error(statsResponse.error);
-        }
-
-        if (tasksResponse.error) {
-          throw new Error(tasksResponse.error);
-        }
-
-        setStats(statsResponse.data!);
-        setRecentTasks(tasksResponse.data || []);
-      } catch (err) {
-        setError(err instanceof Error ? err.message : 'Failed to fetch dashboard data');
-        console.error('Dashboard data fetch error:', err);
-      } finally {
-        setLoading(false);
-      }
-    };
-
-    fetchDashboardData();
-  }, []);
+  const statsQuery = useQuery(queries.dashboardStats());
+  const tasksQuery = useQuery(queries.tasks({ page: 0, size: 5 })); // First 5 tasks for recent tasks
+
+  const stats = statsQuery.data;
+  const recentTasks = tasksQuery.data ?? [];
+  const loading = statsQuery.isLoading || tasksQuery.isLoading;
+  // Cached data stays on screen when a background refresh fails
+  const error = (!stats && statsQuery.error) || (!tasksQuery.data && tasksQuery.error) || null;
+
+  const retry = () => {
+    statsQuery.refetch();
+    tasksQuery.refetch();
+  };
 
   if (loading) {
     return (
@@ -78,7 +128,7 @@ export default function Dashboard() {
             <h3 className="text-lg font-medium text-gray-900 mb-2">Error Loading Dashboard</h3>
             <p className="text-gray-500 mb-4">{error}</p>
             <button
-              onClick={() => window.location.reload()}
+              onClick={retry}
               className="btn-primary"
             >
               Retry
@@ -93,21 +143,31 @@ export default function Dashboard() {
     return null;
   }
 
+  const library = stats.library;
+  const targetLanguage = library.targetLanguage.toUpperCase();
+
   const statCards = [
     {
       name: 'Total Videos',
-      value: stats.totalVideos.toLocaleString(),
+      value: library.totalVideos.toLocaleString(),
       icon: PlayIcon,
       color: 'text-blue-600',
       bgColor: 'bg-blue-50',
     },
     {
       name: 'Total Subtitles',
-      value: stats.totalSubtitles.toLocaleString(),
+      value: library.totalSubtitles.toLocaleString(),
       icon: DocumentTextIcon,
       color: 'text-green-600',
       bgColor: 'bg-green-50',
     },
+    {
+      name: `Videos Missing ${targetLanguage} Subtitles`,
+      value: library.videosMissingTargetLanguage.toLocaleString(),
+      icon: LanguageIcon,
+      color: 'text-orange-600',
+      bgColor: 'bg-orange-50',
+    },
     {
       name: 'Active Tasks',
       value: stats.activeTasks.toString(),
@@ -129,12 +189,21 @@ export default function Dashboard() {
       color: 'text-red-600',
       bgColor: 'bg-red-50',
     },
+  ];
+
+  const breakdowns = [
     {
-      name: 'Storage Used',
-      value: `${stats.storageUsed}GB`,
-      icon: ServerIcon,
-      color: 'text-purple-600',
-      bgColor: 'bg-purple-50',
+      title: 'Videos by Type',
+      counts: library.videosByType,
+      label: (key: string) => (key === 'unknown' ? 'Unknown' : key),
+    },
+    { title: 'Subtitles by Type', counts: library.subtitlesByType, label: formatEnumLabel },
+    { title: 'Subtitles by Language', counts: library.subtitlesByLanguage, label: (key: string) => key.toUpperCase() },
+    { title: 'Subtitles by Sync Status', counts: library.subtitlesBySyncStatus, label: formatEnumLabel },
+    {
+      title: 'Subtitle Origin',
+      counts: { Generated: library.generatedSubtitles, 'Human-made': library.humanSubtitles },
+      label: (key: string) => key,
     },
   ];
 
@@ -151,10 +220,6 @@ export default function Dashboard() {
     }
   };
 
-  const formatTaskType = (type: string) => {
-    return type.replace(/_/g, ' ').toLowerCase().replace(/\b\w/g, l => l.toUpperCase());
-  };
-
   return (
     <div className="space-y-6">
       {/* Stats Grid */}
@@ -174,23 +239,31 @@ export default function Dashboard() {
         ))}
       </div>
 
+      {/* Library Breakdown */}
+      <div className="grid grid-cols-1 gap-5 md:grid-cols-2 xl:grid-cols-3">
+        {breakdowns.map((breakdown) => (
+          <Breakdown key={breakdown.title} {...breakdown} />
+        ))}
+      </div>
+
       {/* Storage Usage */}
       <div className="card">
         <h3 className="text-lg font-medium text-gray-900 mb-4">Storage Usage</h3>
-        <div className="space-y-2">
-          <div className="flex justify-between text-sm">
-            <span className="text-gray-500">Used: {stats.storageUsed}GB</span>
-            <span className="text-gray-500">Total: {stats.storageTotal}GB</span>
-          </div>
-          <div className="w-full bg-gray-200 rounded-full h-2">
-            <div
-              className="bg-primary-600 h-2 rounded-full transition-all duration-300"
-              style={{ width: `${(stats.storageUsed / stats.storageTotal) * 100}%` }}
-            />
+        {library.libraries.length === 0 ? (
+          <p className="text-sm text-gray-500">
+            No library paths are configured. Set LIBRARY_PATHS on the server or add custom paths in the settings.
+          </p>
+        ) : (
+          <div className="space-y-5">
+            {library.libraries.map((usage) => (
+              <LibraryUsage key={usage.path} usage={usage} />
+            ))}
           </div>
-        </div>
+        )}
       </div>
 
+      <TaskAnalyticsPanel />
+
       {/* Recent Tasks */}
       <div className="card">
         <div className="flex items-center justify-between mb-4">
@@ -207,7 +280,7 @@ export default function Dashboard() {
                 {getStatusIcon(task.status)}
                 <div>
                   <p className="text-sm font-medium text-gray-900">
-                    {formatTaskType(task.type)}
+                    {formatEnumLabel(task.type)}
                   </p>
                   <p className="text-sm text-gray-500">
                     {task.progressMessage || task.errorMessage || 'No message'}
@@ -221,10 +294,10 @@ export default function Dashboard() {
                     <div className="w-24 bg-gray-200 rounded-full h-2">
                       <div
                         className="bg-blue-600 h-2 rounded-full transition-all duration-300"
-                        style={{ width: `${task.progress}%` }}
+                        style={{ width: `${task.progressPercentage}%` }}
                       />
                     </div>
-                    <span className="text-sm text-gray-500">{task.progress}%</span>
+                    <span className="text-sm text-gray-500">{task.progressPercentage}%</span>
                   </div>
                 )}
                 
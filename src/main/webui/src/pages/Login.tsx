@@ -1,18 +1,32 @@
 import React, { useState } from 'react';
-import { Navigate } from 'react-router-dom';
+import { Navigate, useSearchParams } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
+import type { SessionEnd } from '../contexts/AuthContext';
 import { LockClosedIcon, EyeIcon, EyeSlashIcon } from '@heroicons/react/24/outline';
 
+const SESSION_END_MESSAGES: Partial<Record<SessionEnd, string>> = {
+  expired: 'Your session has ended. Sign in again to continue where you left off.',
+  idle: 'You were signed out after a period of inactivity.',
+};
+
+// Only paths within the app, so a crafted link cannot send the user elsewhere after signing in
+function safeReturnTo(value: string | null): string {
+  return value && value.startsWith('/') && !value.startsWith('//') ? value : '/dashboard';
+}
+
 export default function Login() {
-  const { login, isAuthenticated, isLoading } = useAuth();
+  const { login, isAuthenticated, isLoading, sessionEnd } = useAuth();
+  const [searchParams] = useSearchParams();
+  const returnTo = safeReturnTo(searchParams.get('returnTo'));
+  const [username, setUsername] = useState('');
   const [password, setPassword] = useState('');
   const [showPassword, setShowPassword] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState('');
 
-  // If already authenticated, redirect to dashboard
+  // If already authenticated, go back to where the user was sent here from
   if (isAuthenticated) {
-    return <Navigate to="/dashboard" replace />;
+    return <Navigate to={returnTo} replace />;
   }
 
   // Show loading spinner while checking authentication
@@ -30,7 +44,7 @@ export default function Login() {
     setIsSubmitting(true);
 
     try {
-      const result = await login(password);
+      const result = await login(username.trim(), password);
       if (!result.success) {
         setError(result.message);
       }
@@ -53,11 +67,35 @@ export default function Login() {
             Welcome to Skiperr
           </h2>
           <p className="mt-2 text-center text-sm text-gray-600">
-            Enter your password to access the dashboard
+            Sign in with your account to access the dashboard
           </p>
         </div>
         
+        {sessionEnd && SESSION_END_MESSAGES[sessionEnd] && (
+          <div className="rounded-md bg-yellow-50 p-4">
+            <div className="text-sm text-yellow-800">{SESSION_END_MESSAGES[sessionEnd]}</div>
+          </div>
+        )}
+
         <form className="mt-8 space-y-6" onSubmit={handleSubmit}>
+          <div>
+            <label htmlFor="username" className="sr-only">
+              Username
+            </label>
+            <input
+              id="username"
+              name="username"
+              type="text"
+              autoComplete="username"
+              required
+              className="appearance-none rounded-md relative block w-full px-3 py-2 border border-gray-300 placeholder-gray-500 text-gray-900 focus:outline-none focus:ring-primary-500 focus:border-primary-500 focus:z-10 sm:text-sm"
+              placeholder="Username"
+              value={username}
+              onChange={(e) => setUsername(e.target.value)}
+              disabled={isSubmitting}
+            />
+          </div>
+
           <div>
             <label htmlFor="password" className="sr-only">
               Password
@@ -67,6 +105,7 @@ export default function Login() {
                 id="password"
                 name="password"
                 type={showPassword ? 'text' : 'password'}
+                autoComplete="current-password"
                 required
                 className="appearance-none rounded-md relative block w-full px-3 py-2 border border-gray-300 placeholder-gray-500 text-gray-900 focus:outline-none focus:ring-primary-500 focus:border-primary-500 focus:z-10 sm:text-sm"
                 placeholder="Enter your password"
@@ -98,7 +137,7 @@ export default function Login() {
           <div>
             <button
               type="submit"
-              disabled={isSubmitting || !password.trim()}
+              disabled={isSubmitting || !username.trim() || !password.trim()}
               className="group relative w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-primary-600 hover:bg-primary-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500 disabled:opacity-50 disabled:cursor-not-allowed"
             >
               {isSubmitting ? (
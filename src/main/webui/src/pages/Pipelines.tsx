@@ -0,0 +1,461 @@
+import { useState } from 'react';
+import {
+  PencilSquareIcon,
+  PlusIcon,
+  QueueListIcon,
+  TrashIcon,
+  XCircleIcon,
+  XMarkIcon,
+} from '@heroicons/react/24/outline';
+import { useQuery } from '../hooks/useQuery';
+import { pipelineMutations, queries } from '../services/queries';
+import type { AIProvider, PipelineRequest, PipelineStep, PipelineView, TaskType } from '../services/api';
+import { AI_PROVIDERS, formatEnumLabel } from '../services/models';
+
+// Task types a pipeline step can run, as the backend accepts them
+const STEP_TYPES: TaskType[] = [
+  'EXTRACT_SUBTITLES',
+  'GENERATE_SUBTITLES',
+  'TRANSLATE_SUBTITLES',
+  'SYNC_SUBTITLES',
+  'SCAN_LIBRARY',
+];
+
+const STEP_DESCRIPTIONS: Partial<Record<TaskType, string>> = {
+  EXTRACT_SUBTITLES: 'Skipped when the video already has a subtitle in the language, or its embedded tracks were extracted',
+  GENERATE_SUBTITLES: 'Transcribes the audio; skipped when the video already has a subtitle in the language',
+  TRANSLATE_SUBTITLES: 'Skipped when the video already has a subtitle in the target language',
+  SYNC_SUBTITLES: 'Skipped when the subtitles are already synced',
+  SCAN_LIBRARY: 'Rescans the video so later steps see its current tracks',
+};
+
+// Mirrors PipelineService.MAX_STEPS
+const MAX_STEPS = 20;
+
+const INPUT_CLASS =
+  'mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-1 focus:ring-primary-500 focus:border-primary-500';
+
+interface PipelineDraft {
+  name: string;
+  description: string;
+  steps: PipelineStep[];
+}
+
+const EMPTY_DRAFT: PipelineDraft = {
+  name: '',
+  description: '',
+  steps: [{ key: 'step1', type: 'EXTRACT_SUBTITLES', dependsOn: [], language: 'en' }],
+};
+
+// Keys only tie dependencies together, so any unused one will do
+function nextKey(steps: PipelineStep[]): string {
+  const keys = new Set(steps.map(step => step.key));
+  let n = steps.length + 1;
+  while (keys.has(`step${n}`)) n++;
+  return `step${n}`;
+}
+
+function describeStep(step: PipelineStep): string {
+  switch (step.type) {
+    case 'EXTRACT_SUBTITLES':
+      return `Extract ${step.language ?? 'subtitles'}`;
+    case 'GENERATE_SUBTITLES':
+      return `Generate ${step.language && step.language !== 'auto' ? step.language : 'subtitles'}`;
+    case 'TRANSLATE_SUBTITLES':
+      return `Translate${step.sourceLanguage ? ` ${step.sourceLanguage}` : ''} to ${step.targetLanguage ?? '?'}`;
+    case 'SYNC_SUBTITLES':
+      return `Sync ${step.language ?? 'subtitles'}`;
+    case 'SCAN_LIBRARY':
+      return 'Rescan';
+    default:
+      return formatEnumLabel(step.type);
+  }
+}
+
+// Blank fields are left out, and only the fields the step's type reads are sent
+function requestFrom(draft: PipelineDraft): PipelineRequest {
+  const text = (value: string | null | undefined) => value?.trim() || null;
+  return {
+    name: draft.name.trim(),
+    description: text(draft.description),
+    steps: draft.steps.map(step => ({
+      key: step.key,
+      type: step.type,
+      dependsOn: step.dependsOn ?? [],
+      language: step.type === 'TRANSLATE_SUBTITLES' || step.type === 'SCAN_LIBRARY' ? null : text(step.language),
+      sourceLanguage: step.type === 'TRANSLATE_SUBTITLES' ? text(step.sourceLanguage) : null,
+      targetLanguage: step.type === 'TRANSLATE_SUBTITLES' ? text(step.targetLanguage) : null,
+      provider: step.type === 'TRANSLATE_SUBTITLES' ? text(step.provider) : null,
+    })),
+  };
+}
+
+function StepEditor({
+  step,
+  index,
+  earlier,
+  onChange,
+  onRemove,
+}: {
+  step: PipelineStep;
+  index: number;
+  // Steps listed before this one, which are the only ones it can depend on
+  earlier: PipelineStep[];
+  onChange: (changes: Partial<PipelineStep>) => void;
+  onRemove: (() => void) | null;
+}) {
+  const dependsOn = step.dependsOn ?? [];
+  const toggleDependency = (key: string, checked: boolean) =>
+    onChange({ dependsOn: checked ? [...dependsOn, key] : dependsOn.filter(other => other !== key) });
+
+  return (
+    <div className="border border-gray-200 rounded-md p-3 space-y-3">
+      <div className="flex items-start gap-3">
+        <span className="mt-2 w-5 text-right text-sm text-gray-400">{index + 1}.</span>
+        <div className="flex-1 grid grid-cols-1 md:grid-cols-3 gap-3">
+          <label className="block text-sm font-medium text-gray-700">
+            Step
+            <select
+              value={step.type}
+              onChange={e => onChange({ type: e.target.value as TaskType })}
+              className={INPUT_CLASS}
+            >
+              {STEP_TYPES.map(type => (
+                <option key={type} value={type}>{formatEnumLabel(type)}</option>
+              ))}
+            </select>
+          </label>
+
+          {step.type === 'TRANSLATE_SUBTITLES' ? (
+            <>
+              <label className="block text-sm font-medium text-gray-700">
+                From
+                <input
+                  type="text"
+                  value={step.sourceLanguage ?? ''}
+                  onChange={e => onChange({ sourceLanguage: e.target.value })}
+                  placeholder="Any language"
+                  className={INPUT_CLASS}
+                />
+              </label>
+              <label className="block text-sm font-medium text-gray-700">
+                To
+                <input
+                  type="text"
+                  value={step.targetLanguage ?? ''}
+                  onChange={e => onChange({ targetLanguage: e.target.value })}
+                  placeholder="el"
+                  className={INPUT_CLASS}
+                />
+              </label>
+              <label className="block text-sm font-medium text-gray-700">
+                Provider
+                <select
+                  value={step.provider ?? 'openai'}
+                  onChange={e => onChange({ provider: e.target.value })}
+                  className={INPUT_CLASS}
+                >
+                  {AI_PROVIDERS.map((provider: AIProvider) => (
+                    <option key={provider} value={provider.toLowerCase()}>{formatEnumLabel(provider)}</option>
+                  ))}
+                </select>
+              </label>
+            </>
+          ) : step.type !== 'SCAN_LIBRARY' ? (
+            <label className="block text-sm font-medium text-gray-700">
+              Language
+              <input
+                type="text"
+                value={step.language ?? ''}
+                onChange={e => onChange({ language: e.target.value })}
+                placeholder={step.type === 'GENERATE_SUBTITLES' ? 'auto' : 'Any language'}
+                className={INPUT_CLASS}
+              />
+            </label>
+          ) : null}
+        </div>
+        {onRemove && (
+          <button type="button" onClick={onRemove} className="mt-6 p-1 text-gray-400 hover:text-red-600" title="Remove step">
+            <XMarkIcon className="w-5 h-5" />
+          </button>
+        )}
+      </div>
+
+      <p className="ml-8 text-xs text-gray-500">{STEP_DESCRIPTIONS[step.type]}</p>
+
+      {earlier.length > 0 && (
+        <fieldset className="ml-8">
+          <legend className="text-xs font-medium text-gray-700">Starts after</legend>
+          <div className="mt-1 flex flex-wrap gap-x-4 gap-y-1">
+            {earlier.map((other, otherIndex) => (
+              <label key={other.key} className="flex items-center space-x-1.5 text-xs text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={dependsOn.includes(other.key)}
+                  onChange={e => toggleDependency(other.key, e.target.checked)}
+                />
+                <span>{otherIndex + 1}. {describeStep(other)}</span>
+              </label>
+            ))}
+          </div>
+        </fieldset>
+      )}
+    </div>
+  );
+}
+
+function PipelineForm({
+  pipeline,
+  onCancel,
+  onSaved,
+}: {
+  pipeline: PipelineView | null;
+  onCancel: () => void;
+  onSaved: () => void;
+}) {
+  const [draft, setDraft] = useState<PipelineDraft>(() =>
+    pipeline ? { name: pipeline.name, description: pipeline.description ?? '', steps: pipeline.steps } : EMPTY_DRAFT
+  );
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const updateStep = (index: number, changes: Partial<PipelineStep>) =>
+    setDraft(current => ({
+      ...current,
+      steps: current.steps.map((step, i) => (i === index ? { ...step, ...changes } : step)),
+    }));
+
+  // A new step follows the last one, which is what most chains want
+  const addStep = () =>
+    setDraft(current => {
+      const last = current.steps[current.steps.length - 1];
+      const step: PipelineStep = {
+        key: nextKey(current.steps),
+        type: 'SYNC_SUBTITLES',
+        dependsOn: last ? [last.key] : [],
+      };
+      return { ...current, steps: [...current.steps, step] };
+    });
+
+  // Later steps stop depending on a removed step rather than pointing at nothing
+  const removeStep = (index: number) =>
+    setDraft(current => {
+      const removed = current.steps[index].key;
+      return {
+        ...current,
+        steps: current.steps
+          .filter((_, i) => i !== index)
+          .map(step => ({ ...step, dependsOn: (step.dependsOn ?? []).filter(key => key !== removed) })),
+      };
+    });
+
+  const invalid = !draft.name.trim()
+    ? 'Give the pipeline a name'
+    : draft.steps.some(step => step.type === 'TRANSLATE_SUBTITLES' && !step.targetLanguage?.trim())
+      ? 'Choose the language each translation step translates to'
+      : null;
+
+  const submit = async () => {
+    if (invalid) return;
+    setSaving(true);
+    setError(null);
+    const request = requestFrom(draft);
+    const response = pipeline
+      ? await pipelineMutations.update(pipeline.id, request)
+      : await pipelineMutations.create(request);
+    setSaving(false);
+    if (response.error) {
+      setError(response.error);
+    } else {
+      onSaved();
+    }
+  };
+
+  return (
+    <form
+      className="card space-y-4"
+      onSubmit={e => {
+        e.preventDefault();
+        submit();
+      }}
+    >
+      <h3 className="text-lg font-medium text-gray-900">{pipeline ? `Edit ${pipeline.name}` : 'New pipeline'}</h3>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <label className="block text-sm font-medium text-gray-700">
+          Name
+          <input
+            type="text"
+            value={draft.name}
+            maxLength={100}
+            onChange={e => setDraft(current => ({ ...current, name: e.target.value }))}
+            placeholder="English to Greek"
+            className={INPUT_CLASS}
+          />
+        </label>
+        <label className="block text-sm font-medium text-gray-700">
+          Description
+          <input
+            type="text"
+            value={draft.description}
+            maxLength={500}
+            onChange={e => setDraft(current => ({ ...current, description: e.target.value }))}
+            className={INPUT_CLASS}
+          />
+        </label>
+      </div>
+
+      <div className="space-y-3">
+        <h4 className="text-sm font-medium text-gray-700">Steps</h4>
+        {draft.steps.map((step, index) => (
+          <StepEditor
+            key={step.key}
+            step={step}
+            index={index}
+            earlier={draft.steps.slice(0, index)}
+            onChange={changes => updateStep(index, changes)}
+            onRemove={draft.steps.length > 1 ? () => removeStep(index) : null}
+          />
+        ))}
+        {draft.steps.length < MAX_STEPS && (
+          <button type="button" onClick={addStep} className="btn-secondary flex items-center space-x-2">
+            <PlusIcon className="w-4 h-4" />
+            <span>Add step</span>
+          </button>
+        )}
+        <p className="text-xs text-gray-500">
+          A step starts once every step it follows has completed or been skipped. When one fails, the steps after it are
+          blocked; retrying the pipeline picks up from the failed step.
+        </p>
+      </div>
+
+      {invalid && <p className="text-xs text-gray-500">{invalid}</p>}
+      {error && <p className="text-sm text-red-600">Could not save the pipeline: {error}</p>}
+
+      <div className="flex justify-end space-x-3">
+        <button type="button" onClick={onCancel} disabled={saving} className="btn-secondary">
+          Cancel
+        </button>
+        <button type="submit" disabled={saving || invalid !== null} className="btn-primary">
+          {saving ? 'Saving…' : pipeline ? 'Save changes' : 'Create pipeline'}
+        </button>
+      </div>
+    </form>
+  );
+}
+
+export default function Pipelines() {
+  const pipelinesQuery = useQuery(queries.pipelines());
+  const pipelines = pipelinesQuery.data ?? [];
+  const error = pipelinesQuery.data ? null : pipelinesQuery.error;
+
+  // null while the form is closed, 'new' for a new pipeline, otherwise the pipeline being edited
+  const [editing, setEditing] = useState<PipelineView | 'new' | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  const remove = async (pipeline: PipelineView) => {
+    if (!window.confirm(`Delete the pipeline "${pipeline.name}"? Runs already queued carry on.`)) return;
+    setBusyId(pipeline.id);
+    setActionError(null);
+    const response = await pipelineMutations.remove(pipeline.id);
+    setBusyId(null);
+    if (response.error) setActionError(response.error);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">Pipelines</h2>
+          <p className="text-gray-600">
+            Chains of subtitle steps run on a video, each starting once the steps before it succeed. Run one from a
+            video's page.
+          </p>
+        </div>
+        {editing === null && (
+          <button onClick={() => setEditing('new')} className="btn-primary flex items-center space-x-2">
+            <PlusIcon className="w-4 h-4" />
+            <span>New pipeline</span>
+          </button>
+        )}
+      </div>
+
+      {editing !== null && (
+        <PipelineForm
+          key={editing === 'new' ? 'new' : editing.id}
+          pipeline={editing === 'new' ? null : editing}
+          onCancel={() => setEditing(null)}
+          onSaved={() => setEditing(null)}
+        />
+      )}
+
+      {actionError && (
+        <div className="p-3 rounded-md text-sm bg-red-50 text-red-800">
+          {actionError}{' '}
+          <button onClick={() => setActionError(null)} className="font-medium underline">Dismiss</button>
+        </div>
+      )}
+
+      <div className="card">
+        {pipelinesQuery.isLoading ? (
+          <div className="space-y-2">
+            {[...Array(3)].map((_, i) => (
+              <div key={i} className="h-16 bg-gray-100 rounded animate-pulse" />
+            ))}
+          </div>
+        ) : error ? (
+          <div className="text-center py-8">
+            <XCircleIcon className="w-12 h-12 text-red-500 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">Error Loading Pipelines</h3>
+            <p className="text-gray-500 mb-4">{error}</p>
+            <button onClick={pipelinesQuery.refetch} className="btn-primary">
+              Retry
+            </button>
+          </div>
+        ) : pipelines.length === 0 ? (
+          <div className="text-center py-12">
+            <QueueListIcon className="mx-auto h-12 w-12 text-gray-400" />
+            <h3 className="mt-2 text-sm font-medium text-gray-900">No pipelines</h3>
+            <p className="mt-1 text-sm text-gray-500">Create one to extract, translate and sync a video's subtitles in one go.</p>
+          </div>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {pipelines.map(pipeline => {
+              const busy = busyId === pipeline.id;
+              return (
+                <li key={pipeline.id} className="py-3 flex items-start justify-between gap-4">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-gray-900">{pipeline.name}</p>
+                    {pipeline.description && <p className="text-xs text-gray-500">{pipeline.description}</p>}
+                    <p className="mt-1 text-sm text-gray-600">
+                      {pipeline.steps.map(step => describeStep(step)).join(' → ')}
+                    </p>
+                  </div>
+                  <div className="flex space-x-2">
+                    <button
+                      onClick={() => setEditing(pipeline)}
+                      disabled={busy}
+                      className="p-1 text-gray-400 hover:text-gray-600 disabled:opacity-50"
+                      title="Edit"
+                    >
+                      <PencilSquareIcon className="w-5 h-5" />
+                    </button>
+                    <button
+                      onClick={() => remove(pipeline)}
+                      disabled={busy}
+                      className="p-1 text-gray-400 hover:text-red-600 disabled:opacity-50"
+                      title="Delete"
+                    >
+                      <TrashIcon className="w-5 h-5" />
+                    </button>
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,143 @@
+import { useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { formatDistanceToNow } from 'date-fns';
+import { CheckBadgeIcon, FlagIcon, XCircleIcon } from '@heroicons/react/24/outline';
+import { useQuery } from '../hooks/useQuery';
+import { queries } from '../services/queries';
+import type { ReviewStatus } from '../services/api';
+import { REVIEW_STATUSES, formatEnumLabel } from '../services/models';
+import ReviewStatusBadge from '../components/ReviewStatusBadge';
+
+export default function Reviews() {
+  const navigate = useNavigate();
+  const [statusFilter, setStatusFilter] = useState<ReviewStatus | undefined>('NEEDS_REVIEW');
+
+  const reviewsQuery = useQuery(queries.reviews(statusFilter));
+  const reviews = reviewsQuery.data ?? [];
+  const error = reviewsQuery.data ? null : reviewsQuery.error;
+
+  const tabs: { label: string; status?: ReviewStatus }[] = [
+    ...REVIEW_STATUSES.map(status => ({ label: formatEnumLabel(status), status })),
+    { label: 'All' },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold text-gray-900">Translation Reviews</h2>
+        <p className="text-gray-600">
+          Check translated subtitles cue by cue. Translations below the minimum confidence in Settings are queued here automatically.
+        </p>
+      </div>
+
+      <div className="border-b border-gray-200">
+        <nav className="-mb-px flex space-x-6">
+          {tabs.map(tab => (
+            <button
+              key={tab.label}
+              onClick={() => setStatusFilter(tab.status)}
+              className={`py-2 px-1 border-b-2 text-sm font-medium ${
+                statusFilter === tab.status
+                  ? 'border-primary-600 text-primary-700'
+                  : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+              }`}
+            >
+              {tab.label}
+            </button>
+          ))}
+        </nav>
+      </div>
+
+      <div className="card">
+        {reviewsQuery.isLoading ? (
+          <div className="space-y-2">
+            {[...Array(4)].map((_, i) => (
+              <div key={i} className="h-14 bg-gray-100 rounded animate-pulse" />
+            ))}
+          </div>
+        ) : error ? (
+          <div className="text-center py-8">
+            <XCircleIcon className="w-12 h-12 text-red-500 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">Error Loading Reviews</h3>
+            <p className="text-gray-500 mb-4">{error}</p>
+            <button onClick={reviewsQuery.refetch} className="btn-primary">
+              Retry
+            </button>
+          </div>
+        ) : reviews.length === 0 ? (
+          <div className="text-center py-12">
+            <CheckBadgeIcon className="mx-auto h-12 w-12 text-gray-400" />
+            <h3 className="mt-2 text-sm font-medium text-gray-900">Nothing to review</h3>
+            <p className="mt-1 text-sm text-gray-500">
+              {statusFilter === 'NEEDS_REVIEW' ? 'No translations are waiting for review.' : 'No reviews match this filter.'}
+            </p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  {['Video', 'Language', 'Confidence', 'Progress', 'Status', 'Opened'].map(heading => (
+                    <th key={heading} scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      {heading}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {reviews.map(review => {
+                  const resolved = review.acceptedCount + review.editedCount;
+                  const percent = review.cueCount > 0 ? Math.round((resolved / review.cueCount) * 100) : 0;
+                  return (
+                    <tr key={review.id} onClick={() => navigate(`/reviews/${review.id}`)} className="hover:bg-gray-50 cursor-pointer">
+                      <td className="px-4 py-3">
+                        <Link
+                          to={`/videos/${review.videoId}`}
+                          onClick={e => e.stopPropagation()}
+                          className="text-sm font-medium text-gray-900 hover:text-primary-600"
+                        >
+                          {review.videoTitle}
+                        </Link>
+                        {review.reason && <p className="text-xs text-gray-500">{review.reason}</p>}
+                      </td>
+                      <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-500">
+                        {review.targetLanguage ? `${review.language} → ${review.targetLanguage}` : review.language}
+                      </td>
+                      <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-500">
+                        {review.confidence != null ? `${Math.round(review.confidence * 100)}%` : '—'}
+                      </td>
+                      <td className="px-4 py-3 whitespace-nowrap">
+                        <div className="w-40">
+                          <div className="flex justify-between text-xs text-gray-600 mb-1">
+                            <span>
+                              {resolved} / {review.cueCount}
+                            </span>
+                            {review.flaggedCount > 0 && (
+                              <span className="flex items-center text-red-600">
+                                <FlagIcon className="w-3 h-3 mr-0.5" />
+                                {review.flaggedCount}
+                              </span>
+                            )}
+                          </div>
+                          <div className="w-full bg-gray-200 rounded-full h-2">
+                            <div className="bg-primary-600 h-2 rounded-full" style={{ width: `${percent}%` }} />
+                          </div>
+                        </div>
+                      </td>
+                      <td className="px-4 py-3 whitespace-nowrap">
+                        <ReviewStatusBadge status={review.status} />
+                      </td>
+                      <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-500">
+                        {formatDistanceToNow(new Date(review.createdAt), { addSuffix: true })}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,514 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { formatDistanceToNow } from 'date-fns';
+import {
+  CalendarDaysIcon,
+  PencilSquareIcon,
+  PlayIcon,
+  PlusIcon,
+  TrashIcon,
+  XCircleIcon,
+} from '@heroicons/react/24/outline';
+import { useQuery } from '../hooks/useQuery';
+import { queries, scheduleMutations } from '../services/queries';
+import type { SchedulePreviewQuery } from '../services/queries';
+import type { AIProvider, ScheduleAction, ScheduleRequest, ScheduleView, TaskPriority } from '../services/api';
+import { AI_PROVIDERS, SCHEDULE_ACTIONS, TASK_PRIORITIES, formatEnumLabel } from '../services/models';
+import TaskStatusBadge from '../components/TaskStatusBadge';
+
+const ACTION_DESCRIPTIONS: Record<ScheduleAction, string> = {
+  SCAN_LIBRARY: 'Scan library paths for new and changed videos',
+  CLEANUP_FILES: 'Remove temporary and orphaned files',
+  BACKUP_DATABASE: 'Back the database up',
+  HEALTH_CHECK: 'Check the database, disk space and external tools',
+  TRANSLATE_MISSING: 'Translate every video that has no subtitle in a language',
+};
+
+// Waits for typing to pause before asking the server for a preview
+const PREVIEW_DEBOUNCE_MS = 400;
+
+const INPUT_CLASS =
+  'mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-1 focus:ring-primary-500 focus:border-primary-500';
+
+interface ScheduleDraft {
+  name: string;
+  action: ScheduleAction;
+  timingMode: 'cron' | 'interval';
+  cronExpression: string;
+  intervalMinutes: string;
+  priority: TaskPriority;
+  enabled: boolean;
+  // One path per line; empty scans the configured library paths
+  paths: string;
+  targetLanguage: string;
+  provider: string;
+}
+
+const EMPTY_DRAFT: ScheduleDraft = {
+  name: '',
+  action: 'SCAN_LIBRARY',
+  timingMode: 'cron',
+  cronExpression: '0 0 3 * * ?',
+  intervalMinutes: '60',
+  priority: 'LOW',
+  enabled: true,
+  paths: '',
+  targetLanguage: '',
+  provider: 'openai',
+};
+
+function parseParameters(text: string | null | undefined): Record<string, unknown> {
+  if (!text) return {};
+  try {
+    const value: unknown = JSON.parse(text);
+    return value !== null && typeof value === 'object' && !Array.isArray(value) ? (value as Record<string, unknown>) : {};
+  } catch {
+    return {};
+  }
+}
+
+function draftFrom(schedule: ScheduleView): ScheduleDraft {
+  const parameters = parseParameters(schedule.parameters);
+  return {
+    name: schedule.name,
+    action: schedule.action,
+    timingMode: schedule.cronExpression ? 'cron' : 'interval',
+    cronExpression: schedule.cronExpression ?? EMPTY_DRAFT.cronExpression,
+    intervalMinutes: String(schedule.intervalMinutes ?? EMPTY_DRAFT.intervalMinutes),
+    priority: schedule.priority,
+    enabled: schedule.enabled,
+    paths: Array.isArray(parameters.paths) ? parameters.paths.join('\n') : '',
+    targetLanguage: typeof parameters.targetLanguage === 'string' ? parameters.targetLanguage : '',
+    provider: typeof parameters.provider === 'string' ? parameters.provider : EMPTY_DRAFT.provider,
+  };
+}
+
+// Only the parameters the chosen action reads are sent
+function requestFrom(draft: ScheduleDraft): ScheduleRequest {
+  const paths = draft.paths.split('\n').map(path => path.trim()).filter(Boolean);
+  let parameters: Record<string, unknown> | null = null;
+  if (draft.action === 'SCAN_LIBRARY' && paths.length > 0) {
+    parameters = { paths };
+  } else if (draft.action === 'TRANSLATE_MISSING') {
+    parameters = { targetLanguage: draft.targetLanguage.trim(), provider: draft.provider };
+  }
+
+  return {
+    name: draft.name.trim(),
+    action: draft.action,
+    cronExpression: draft.timingMode === 'cron' ? draft.cronExpression.trim() : null,
+    intervalMinutes: draft.timingMode === 'interval' ? Number(draft.intervalMinutes) : null,
+    parameters: parameters ? JSON.stringify(parameters) : null,
+    priority: draft.priority,
+    enabled: draft.enabled,
+  };
+}
+
+function previewQuery(draft: ScheduleDraft): SchedulePreviewQuery {
+  return draft.timingMode === 'cron'
+    ? { cron: draft.cronExpression.trim() }
+    : { intervalMinutes: Number(draft.intervalMinutes) };
+}
+
+function describeTiming(schedule: ScheduleView): string {
+  if (schedule.cronExpression) return `Cron ${schedule.cronExpression}`;
+  const minutes = schedule.intervalMinutes ?? 0;
+  if (minutes % 1440 === 0) return `Every ${minutes / 1440} day${minutes === 1440 ? '' : 's'}`;
+  if (minutes % 60 === 0) return `Every ${minutes / 60} hour${minutes === 60 ? '' : 's'}`;
+  return `Every ${minutes} minute${minutes === 1 ? '' : 's'}`;
+}
+
+// Upcoming runs for the timing being edited
+function TimingPreview({ cron, intervalMinutes }: SchedulePreviewQuery) {
+  const [debounced, setDebounced] = useState<SchedulePreviewQuery>({ cron, intervalMinutes });
+  const ready = cron !== undefined ? cron.length > 0 : Number.isInteger(intervalMinutes) && (intervalMinutes ?? 0) > 0;
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebounced({ cron, intervalMinutes }), PREVIEW_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [cron, intervalMinutes]);
+
+  const { data, error, isLoading } = useQuery(queries.schedulePreview(debounced), { enabled: ready });
+
+  if (!ready) return null;
+  if (error) return <p className="text-xs text-red-600">{error}</p>;
+  if (isLoading || !data) return <p className="text-xs text-gray-500">Working out the next runs…</p>;
+  return (
+    <div className="text-xs text-gray-600">
+      Next runs:
+      <ul className="mt-1 space-y-0.5">
+        {data.nextRuns.map(run => (
+          <li key={run}>{new Date(run).toLocaleString()}</li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+function ScheduleForm({
+  schedule,
+  onCancel,
+  onSaved,
+}: {
+  schedule: ScheduleView | null;
+  onCancel: () => void;
+  onSaved: () => void;
+}) {
+  const [draft, setDraft] = useState<ScheduleDraft>(() => (schedule ? draftFrom(schedule) : EMPTY_DRAFT));
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const update = (changes: Partial<ScheduleDraft>) => setDraft(current => ({ ...current, ...changes }));
+
+  const invalid =
+    !draft.name.trim()
+      ? 'Give the schedule a name'
+      : draft.action === 'TRANSLATE_MISSING' && !draft.targetLanguage.trim()
+        ? 'Choose the language to translate to'
+        : null;
+
+  const submit = async () => {
+    if (invalid) return;
+    setSaving(true);
+    setError(null);
+    const request = requestFrom(draft);
+    const response = schedule
+      ? await scheduleMutations.update(schedule.id, request)
+      : await scheduleMutations.create(request);
+    setSaving(false);
+    if (response.error) {
+      setError(response.error);
+    } else {
+      onSaved();
+    }
+  };
+
+  return (
+    <form
+      className="card space-y-4"
+      onSubmit={e => {
+        e.preventDefault();
+        submit();
+      }}
+    >
+      <h3 className="text-lg font-medium text-gray-900">{schedule ? `Edit ${schedule.name}` : 'New schedule'}</h3>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <label className="block text-sm font-medium text-gray-700">
+          Name
+          <input
+            type="text"
+            value={draft.name}
+            maxLength={100}
+            onChange={e => update({ name: e.target.value })}
+            placeholder="Nightly library scan"
+            className={INPUT_CLASS}
+          />
+        </label>
+        <label className="block text-sm font-medium text-gray-700">
+          Action
+          <select
+            value={draft.action}
+            onChange={e => update({ action: e.target.value as ScheduleAction })}
+            className={INPUT_CLASS}
+          >
+            {SCHEDULE_ACTIONS.map(action => (
+              <option key={action} value={action}>{formatEnumLabel(action)}</option>
+            ))}
+          </select>
+          <span className="mt-1 block text-xs font-normal text-gray-500">{ACTION_DESCRIPTIONS[draft.action]}</span>
+        </label>
+      </div>
+
+      {draft.action === 'SCAN_LIBRARY' && (
+        <label className="block text-sm font-medium text-gray-700">
+          Library paths
+          <textarea
+            value={draft.paths}
+            onChange={e => update({ paths: e.target.value })}
+            rows={3}
+            placeholder="/media/movies"
+            className={`${INPUT_CLASS} font-mono`}
+          />
+          <span className="mt-1 block text-xs font-normal text-gray-500">One per line. Leave empty to scan the configured library paths.</span>
+        </label>
+      )}
+
+      {draft.action === 'TRANSLATE_MISSING' && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <label className="block text-sm font-medium text-gray-700">
+            Target language
+            <input
+              type="text"
+              value={draft.targetLanguage}
+              onChange={e => update({ targetLanguage: e.target.value })}
+              placeholder="el"
+              className={INPUT_CLASS}
+            />
+          </label>
+          <label className="block text-sm font-medium text-gray-700">
+            Provider
+            <select value={draft.provider} onChange={e => update({ provider: e.target.value })} className={INPUT_CLASS}>
+              {AI_PROVIDERS.map((provider: AIProvider) => (
+                <option key={provider} value={provider.toLowerCase()}>{formatEnumLabel(provider)}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+      )}
+
+      <fieldset className="space-y-2">
+        <legend className="text-sm font-medium text-gray-700">Runs</legend>
+        <div className="flex space-x-6 text-sm text-gray-700">
+          <label className="flex items-center space-x-2">
+            <input type="radio" checked={draft.timingMode === 'cron'} onChange={() => update({ timingMode: 'cron' })} />
+            <span>On a cron expression</span>
+          </label>
+          <label className="flex items-center space-x-2">
+            <input type="radio" checked={draft.timingMode === 'interval'} onChange={() => update({ timingMode: 'interval' })} />
+            <span>Every few minutes</span>
+          </label>
+        </div>
+        {draft.timingMode === 'cron' ? (
+          <label className="block text-sm font-medium text-gray-700">
+            Cron expression
+            <input
+              type="text"
+              value={draft.cronExpression}
+              onChange={e => update({ cronExpression: e.target.value })}
+              className={`${INPUT_CLASS} font-mono`}
+            />
+            <span className="mt-1 block text-xs font-normal text-gray-500">
+              Seconds, minutes, hours, day of month, month, day of week, in the server's time zone. 0 0 3 * * ? runs daily at 3 AM.
+            </span>
+          </label>
+        ) : (
+          <label className="block text-sm font-medium text-gray-700">
+            Interval in minutes
+            <input
+              type="number"
+              min={1}
+              value={draft.intervalMinutes}
+              onChange={e => update({ intervalMinutes: e.target.value })}
+              className={INPUT_CLASS}
+            />
+          </label>
+        )}
+        <TimingPreview {...previewQuery(draft)} />
+      </fieldset>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <label className="block text-sm font-medium text-gray-700">
+          Task priority
+          <select
+            value={draft.priority}
+            onChange={e => update({ priority: e.target.value as TaskPriority })}
+            className={INPUT_CLASS}
+          >
+            {TASK_PRIORITIES.map(option => (
+              <option key={option} value={option}>{formatEnumLabel(option)}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center space-x-2 text-sm font-medium text-gray-700 md:mt-6">
+          <input type="checkbox" checked={draft.enabled} onChange={e => update({ enabled: e.target.checked })} />
+          <span>Enabled</span>
+        </label>
+      </div>
+
+      {invalid && <p className="text-xs text-gray-500">{invalid}</p>}
+      {error && <p className="text-sm text-red-600">Could not save the schedule: {error}</p>}
+
+      <div className="flex justify-end space-x-3">
+        <button type="button" onClick={onCancel} disabled={saving} className="btn-secondary">
+          Cancel
+        </button>
+        <button type="submit" disabled={saving || invalid !== null} className="btn-primary">
+          {saving ? 'Saving…' : schedule ? 'Save changes' : 'Create schedule'}
+        </button>
+      </div>
+    </form>
+  );
+}
+
+function LastRun({ schedule }: { schedule: ScheduleView }) {
+  if (!schedule.lastRunAt) return <span className="text-sm text-gray-400">Never run</span>;
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center space-x-2 text-sm text-gray-600">
+        <span>{formatDistanceToNow(new Date(schedule.lastRunAt), { addSuffix: true })}</span>
+        {schedule.lastTaskStatus && schedule.lastTaskId && (
+          <Link to={`/tasks?task=${schedule.lastTaskId}`} title="Open the task">
+            <TaskStatusBadge status={schedule.lastTaskStatus} />
+          </Link>
+        )}
+      </div>
+      {schedule.lastMessage && <p className="text-xs text-gray-500">{schedule.lastMessage}</p>}
+    </div>
+  );
+}
+
+export default function Schedules() {
+  const schedulesQuery = useQuery(queries.schedules());
+  const schedules = schedulesQuery.data ?? [];
+  const error = schedulesQuery.data ? null : schedulesQuery.error;
+
+  // null while the form is closed, 'new' for a new schedule, otherwise the schedule being edited
+  const [editing, setEditing] = useState<ScheduleView | 'new' | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  const runAction = async (id: string, action: () => Promise<{ error?: string }>) => {
+    setBusyId(id);
+    setActionError(null);
+    const response = await action();
+    setBusyId(null);
+    if (response.error) setActionError(response.error);
+  };
+
+  const remove = (schedule: ScheduleView) => {
+    if (!window.confirm(`Delete the schedule "${schedule.name}"? Tasks it already queued are kept.`)) return;
+    runAction(schedule.id, () => scheduleMutations.remove(schedule.id));
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">Schedules</h2>
+          <p className="text-gray-600">Recurring scans, maintenance and translations, queued as tasks when they come due.</p>
+        </div>
+        {editing === null && (
+          <button onClick={() => setEditing('new')} className="btn-primary flex items-center space-x-2">
+            <PlusIcon className="w-4 h-4" />
+            <span>New schedule</span>
+          </button>
+        )}
+      </div>
+
+      {editing !== null && (
+        <ScheduleForm
+          key={editing === 'new' ? 'new' : editing.id}
+          schedule={editing === 'new' ? null : editing}
+          onCancel={() => setEditing(null)}
+          onSaved={() => setEditing(null)}
+        />
+      )}
+
+      {actionError && (
+        <div className="p-3 rounded-md text-sm bg-red-50 text-red-800">
+          {actionError}{' '}
+          <button onClick={() => setActionError(null)} className="font-medium underline">Dismiss</button>
+        </div>
+      )}
+
+      <div className="card">
+        {schedulesQuery.isLoading ? (
+          <div className="space-y-2">
+            {[...Array(3)].map((_, i) => (
+              <div key={i} className="h-16 bg-gray-100 rounded animate-pulse" />
+            ))}
+          </div>
+        ) : error ? (
+          <div className="text-center py-8">
+            <XCircleIcon className="w-12 h-12 text-red-500 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">Error Loading Schedules</h3>
+            <p className="text-gray-500 mb-4">{error}</p>
+            <button onClick={schedulesQuery.refetch} className="btn-primary">
+              Retry
+            </button>
+          </div>
+        ) : schedules.length === 0 ? (
+          <div className="text-center py-12">
+            <CalendarDaysIcon className="mx-auto h-12 w-12 text-gray-400" />
+            <h3 className="mt-2 text-sm font-medium text-gray-900">No schedules</h3>
+            <p className="mt-1 text-sm text-gray-500">Create one to scan the library or back up the database on a timetable.</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  {['Schedule', 'Timing', 'Next runs', 'Last run', 'Enabled', ''].map(heading => (
+                    <th key={heading} scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      {heading}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {schedules.map(schedule => {
+                  const busy = busyId === schedule.id;
+                  return (
+                    <tr key={schedule.id} className={schedule.enabled ? '' : 'bg-gray-50'}>
+                      <td className="px-4 py-3">
+                        <p className="text-sm font-medium text-gray-900">{schedule.name}</p>
+                        <p className="text-xs text-gray-500">
+                          {formatEnumLabel(schedule.action)} · {formatEnumLabel(schedule.priority)} priority
+                        </p>
+                      </td>
+                      <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-600">{describeTiming(schedule)}</td>
+                      <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-600">
+                        {schedule.nextRuns.length > 0 ? (
+                          <ul className="space-y-0.5">
+                            {schedule.nextRuns.map(run => (
+                              <li key={run}>{new Date(run).toLocaleString()}</li>
+                            ))}
+                          </ul>
+                        ) : (
+                          <span className="text-gray-400">Disabled</span>
+                        )}
+                      </td>
+                      <td className="px-4 py-3">
+                        <LastRun schedule={schedule} />
+                      </td>
+                      <td className="px-4 py-3 whitespace-nowrap">
+                        <input
+                          type="checkbox"
+                          checked={schedule.enabled}
+                          disabled={busy}
+                          onChange={e => {
+                            const enabled = e.target.checked;
+                            runAction(schedule.id, () => scheduleMutations.setEnabled(schedule.id, enabled));
+                          }}
+                          title={schedule.enabled ? 'Disable' : 'Enable'}
+                        />
+                      </td>
+                      <td className="px-4 py-3 whitespace-nowrap text-right">
+                        <div className="flex justify-end space-x-2">
+                          <button
+                            onClick={() => runAction(schedule.id, () => scheduleMutations.runNow(schedule.id))}
+                            disabled={busy}
+                            className="p-1 text-gray-400 hover:text-primary-600 disabled:opacity-50"
+                            title="Run now"
+                          >
+                            <PlayIcon className="w-5 h-5" />
+                          </button>
+                          <button
+                            onClick={() => setEditing(schedule)}
+                            disabled={busy}
+                            className="p-1 text-gray-400 hover:text-gray-600 disabled:opacity-50"
+                            title="Edit"
+                          >
+                            <PencilSquareIcon className="w-5 h-5" />
+                          </button>
+                          <button
+                            onClick={() => remove(schedule)}
+                            disabled={busy}
+                            className="p-1 text-gray-400 hover:text-red-600 disabled:opacity-50"
+                            title="Delete"
+                          >
+                            <TrashIcon className="w-5 h-5" />
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
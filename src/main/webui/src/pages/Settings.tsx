@@ -1,397 +1,772 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import {
-  CogIcon,
-  ServerIcon,
-  UserIcon,
+  LanguageIcon,
+  SparklesIcon,
+  ArrowPathIcon,
+  CpuChipIcon,
   BellIcon,
-  ShieldCheckIcon,
   FolderIcon,
+  ArchiveBoxIcon,
+  ShieldCheckIcon,
+  XCircleIcon,
+  XMarkIcon,
 } from '@heroicons/react/24/outline';
+import ApiTokenManager from '../components/ApiTokenManager';
+import { useAuth } from '../contexts/AuthContext';
+import { useQuery } from '../hooks/useQuery';
+import { queries, settingsMutations } from '../services/queries';
+import type { SettingsUpdate, UserSettings } from '../services/api';
+import { AI_PROVIDERS, SYNC_TOOLS, formatEnumLabel } from '../services/models';
+
+type SectionId = 'languages' | 'ai' | 'sync' | 'processing' | 'notifications' | 'library' | 'backup' | 'security';
+type Field = keyof SettingsUpdate;
 
 interface SettingsSection {
-  id: string;
+  id: SectionId;
   name: string;
-  icon: React.ComponentType<any>;
+  description: string;
+  icon: React.ComponentType<React.SVGProps<SVGSVGElement>>;
+  fields: Field[];
 }
 
 const sections: SettingsSection[] = [
-  { id: 'general', name: 'General', icon: CogIcon },
-  { id: 'storage', name: 'Storage', icon: ServerIcon },
-  { id: 'profile', name: 'Profile', icon: UserIcon },
-  { id: 'notifications', name: 'Notifications', icon: BellIcon },
-  { id: 'security', name: 'Security', icon: ShieldCheckIcon },
-  { id: 'library', name: 'Library', icon: FolderIcon },
+  {
+    id: 'languages',
+    name: 'Languages',
+    description: 'Which languages subtitles are translated from and into.',
+    icon: LanguageIcon,
+    fields: ['preferredLanguages', 'defaultSourceLanguage', 'defaultTargetLanguage'],
+  },
+  {
+    id: 'ai',
+    name: 'AI Translation',
+    description: 'The provider, model and credentials used for translation.',
+    icon: SparklesIcon,
+    fields: ['aiProvider', 'openaiModel', 'openaiApiKey', 'anthropicModel', 'anthropicApiKey', 'geminiModel', 'geminiApiKey'],
+  },
+  {
+    id: 'sync',
+    name: 'Synchronization',
+    description: 'How subtitles are aligned to the audio.',
+    icon: ArrowPathIcon,
+    fields: ['syncTool', 'enableAutoSync', 'autoSyncThreshold', 'maxSyncOffset'],
+  },
+  {
+    id: 'processing',
+    name: 'Processing',
+    description: 'Background work, concurrency and quality checks.',
+    icon: CpuChipIcon,
+    fields: [
+      'enableAutoTranslation',
+      'enableBackgroundProcessing',
+      'maxConcurrentTasks',
+      'minConfidenceScore',
+      'enableQualityCheck',
+      'retryFailedTasks',
+    ],
+  },
+  {
+    id: 'notifications',
+    name: 'Notifications',
+    description: 'When and how you are told about finished work.',
+    icon: BellIcon,
+    fields: ['enableWebNotifications', 'enableEmailNotifications', 'notifyOnTaskCompletion', 'notifyOnErrors'],
+  },
+  {
+    id: 'library',
+    name: 'Library',
+    description: 'Extra library folders, scan schedule and Plex.',
+    icon: FolderIcon,
+    fields: ['customLibraryPaths', 'scanInterval', 'enablePlexIntegration', 'plexServerUrl', 'plexToken'],
+  },
+  {
+    id: 'backup',
+    name: 'Backup',
+    description: 'Automatic backups of subtitles and configuration.',
+    icon: ArchiveBoxIcon,
+    fields: ['enableAutoBackup', 'backupRetentionDays', 'backupPath'],
+  },
+  {
+    id: 'security',
+    name: 'Security',
+    description: 'How long you stay signed in, and API tokens for scripts.',
+    icon: ShieldCheckIcon,
+    fields: ['sessionTimeout'],
+  },
 ];
 
-export default function Settings() {
-  const [activeSection, setActiveSection] = useState('general');
-  const [settings, setSettings] = useState({
-    // General
-    theme: 'light',
-    language: 'en',
-    autoScan: true,
-    
-    // Storage
-    videoPath: '/videos',
-    subtitlePath: '/subtitles',
-    maxStorageSize: 100,
-    cleanupOldFiles: true,
-    
-    // Profile
-    username: 'admin',
-    email: 'admin@skiperr.com',
-    
-    // Notifications
-    emailNotifications: true,
-    taskNotifications: true,
-    errorNotifications: true,
-    
-    // Security
-    sessionTimeout: 24,
-    requireAuth: true,
-    
-    // Library
-    supportedFormats: ['mp4', 'avi', 'mkv', 'mov'],
-    autoGenerateSubtitles: true,
-    defaultLanguage: 'en',
+const NUMBER_FIELDS: Field[] = [
+  'autoSyncThreshold',
+  'maxSyncOffset',
+  'maxConcurrentTasks',
+  'minConfidenceScore',
+  'scanInterval',
+  'backupRetentionDays',
+  'sessionTimeout',
+];
+
+const inputClass =
+  'block w-full border rounded-md px-3 py-2 focus:outline-none focus:ring-1 focus:ring-primary-500 focus:border-primary-500 disabled:bg-gray-50 disabled:text-gray-400';
+
+// Secrets start out undefined, meaning "keep what is stored"
+const toForm = (settings: UserSettings): SettingsUpdate => ({
+  preferredLanguages: settings.preferredLanguages,
+  defaultSourceLanguage: settings.defaultSourceLanguage,
+  defaultTargetLanguage: settings.defaultTargetLanguage,
+  aiProvider: settings.aiProvider,
+  openaiModel: settings.openaiModel,
+  anthropicModel: settings.anthropicModel,
+  geminiModel: settings.geminiModel,
+  syncTool: settings.syncTool,
+  autoSyncThreshold: settings.autoSyncThreshold,
+  maxSyncOffset: settings.maxSyncOffset,
+  enableAutoTranslation: settings.enableAutoTranslation,
+  enableAutoSync: settings.enableAutoSync,
+  enableBackgroundProcessing: settings.enableBackgroundProcessing,
+  maxConcurrentTasks: settings.maxConcurrentTasks,
+  minConfidenceScore: settings.minConfidenceScore,
+  enableQualityCheck: settings.enableQualityCheck,
+  retryFailedTasks: settings.retryFailedTasks,
+  enableEmailNotifications: settings.enableEmailNotifications,
+  enableWebNotifications: settings.enableWebNotifications,
+  notifyOnTaskCompletion: settings.notifyOnTaskCompletion,
+  notifyOnErrors: settings.notifyOnErrors,
+  sessionTimeout: settings.sessionTimeout,
+  customLibraryPaths: settings.customLibraryPaths,
+  scanInterval: settings.scanInterval,
+  enablePlexIntegration: settings.enablePlexIntegration,
+  plexServerUrl: settings.plexServerUrl,
+  enableAutoBackup: settings.enableAutoBackup,
+  backupRetentionDays: settings.backupRetentionDays,
+  backupPath: settings.backupPath,
+});
+
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+// Errors that can be caught before the request is sent
+function validateLocally(form: SettingsUpdate): Partial<Record<Field, string>> {
+  const errors: Partial<Record<Field, string>> = {};
+  NUMBER_FIELDS.forEach(field => {
+    if (!Number.isFinite(form[field])) {
+      errors[field] = 'Enter a number';
+    }
   });
+  return errors;
+}
 
-  const handleSettingChange = (key: string, value: any) => {
-    setSettings(prev => ({ ...prev, [key]: value }));
-  };
+interface FieldRowProps {
+  label: string;
+  description?: string;
+  error?: string;
+  children: React.ReactNode;
+}
 
-  const renderGeneralSettings = () => (
-    <div className="space-y-6">
-      <div>
-        <label className="block text-sm font-medium text-gray-700 mb-2">
-          Theme
-        </label>
-        <select
-          value={settings.theme}
-          onChange={(e) => handleSettingChange('theme', e.target.value)}
-          className="block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-1 focus:ring-primary-500 focus:border-primary-500"
-        >
-          <option value="light">Light</option>
-          <option value="dark">Dark</option>
-          <option value="system">System</option>
-        </select>
-      </div>
-      
+function FieldRow({ label, description, error, children }: FieldRowProps) {
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 mb-1">{label}</label>
+      {description && <p className="text-sm text-gray-500 mb-2">{description}</p>}
+      {children}
+      {error && <p className="mt-1 text-sm text-red-600">{error}</p>}
+    </div>
+  );
+}
+
+interface ToggleRowProps {
+  label: string;
+  description: string;
+  checked: boolean;
+  onChange: (checked: boolean) => void;
+}
+
+function ToggleRow({ label, description, checked, onChange }: ToggleRowProps) {
+  return (
+    <div className="flex items-center justify-between">
       <div>
-        <label className="block text-sm font-medium text-gray-700 mb-2">
-          Language
-        </label>
-        <select
-          value={settings.language}
-          onChange={(e) => handleSettingChange('language', e.target.value)}
-          className="block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-1 focus:ring-primary-500 focus:border-primary-500"
-        >
-          <option value="en">English</option>
-          <option value="es">Spanish</option>
-          <option value="fr">French</option>
-          <option value="de">German</option>
-        </select>
+        <label className="text-sm font-medium text-gray-700">{label}</label>
+        <p className="text-sm text-gray-500">{description}</p>
       </div>
-      
-      <div className="flex items-center justify-between">
-        <div>
-          <label className="text-sm font-medium text-gray-700">Auto-scan library</label>
-          <p className="text-sm text-gray-500">Automatically scan for new videos</p>
+      <input
+        type="checkbox"
+        checked={checked}
+        onChange={(e) => onChange(e.target.checked)}
+        className="h-4 w-4 text-primary-600 focus:ring-primary-500 border-gray-300 rounded"
+      />
+    </div>
+  );
+}
+
+interface SecretInputProps {
+  stored: boolean;
+  value: string | null | undefined;
+  invalid: boolean;
+  onChange: (value: string | undefined) => void;
+}
+
+// undefined keeps the stored secret, '' removes it, anything else replaces it
+function SecretInput({ stored, value, invalid, onChange }: SecretInputProps) {
+  const removing = value === '';
+  return (
+    <div className="flex items-center space-x-2">
+      <input
+        type="password"
+        autoComplete="off"
+        value={value ?? ''}
+        disabled={removing}
+        placeholder={removing ? 'Will be removed on save' : stored ? '•••••••• (saved)' : 'Not set'}
+        onChange={(e) => onChange(e.target.value === '' ? undefined : e.target.value)}
+        className={`${inputClass} ${invalid ? 'border-red-300' : 'border-gray-300'}`}
+      />
+      {stored && (
+        <button type="button" className="btn-secondary whitespace-nowrap" onClick={() => onChange(removing ? undefined : '')}>
+          {removing ? 'Keep' : 'Remove'}
+        </button>
+      )}
+    </div>
+  );
+}
+
+interface ListEditorProps {
+  items: string[];
+  placeholder: string;
+  invalid: boolean;
+  onChange: (items: string[]) => void;
+}
+
+function ListEditor({ items, placeholder, invalid, onChange }: ListEditorProps) {
+  const [entry, setEntry] = useState('');
+
+  const add = () => {
+    const value = entry.trim();
+    if (value && !items.includes(value)) {
+      onChange([...items, value]);
+    }
+    setEntry('');
+  };
+
+  return (
+    <div className="space-y-2">
+      {items.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {items.map(item => (
+            <span key={item} className="inline-flex items-center px-2 py-1 rounded-md bg-gray-100 text-sm text-gray-700">
+              {item}
+              <button
+                type="button"
+                onClick={() => onChange(items.filter(i => i !== item))}
+                className="ml-1 text-gray-400 hover:text-gray-600"
+                aria-label={`Remove ${item}`}
+              >
+                <XMarkIcon className="h-4 w-4" />
+              </button>
+            </span>
+          ))}
         </div>
+      )}
+      <div className="flex items-center space-x-2">
         <input
-          type="checkbox"
-          checked={settings.autoScan}
-          onChange={(e) => handleSettingChange('autoScan', e.target.checked)}
-          className="h-4 w-4 text-primary-600 focus:ring-primary-500 border-gray-300 rounded"
+          type="text"
+          value={entry}
+          placeholder={placeholder}
+          onChange={(e) => setEntry(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              add();
+            }
+          }}
+          className={`${inputClass} ${invalid ? 'border-red-300' : 'border-gray-300'}`}
         />
+        <button type="button" className="btn-secondary" onClick={add} disabled={!entry.trim()}>
+          Add
+        </button>
       </div>
     </div>
   );
+}
 
-  const renderStorageSettings = () => (
-    <div className="space-y-6">
-      <div>
-        <label className="block text-sm font-medium text-gray-700 mb-2">
-          Video Storage Path
-        </label>
-        <input
-          type="text"
-          value={settings.videoPath}
-          onChange={(e) => handleSettingChange('videoPath', e.target.value)}
-          className="block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-1 focus:ring-primary-500 focus:border-primary-500"
-        />
+export default function Settings() {
+  const [activeSection, setActiveSection] = useState<SectionId>('languages');
+  const [changes, setChanges] = useState<Partial<SettingsUpdate>>({});
+  const [fieldErrors, setFieldErrors] = useState<Partial<Record<Field, string>>>({});
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [savedAt, setSavedAt] = useState<Date | null>(null);
+  // Viewers can look at the settings but only users and admins can change them
+  const canSave = useAuth().hasRole('USER');
+
+  const { data: settings, error, isLoading, refetch } = useQuery(queries.settings());
+
+  // Unsaved edits sit on top of the server copy, so a background refresh never loses them
+  const baseline = settings ? toForm(settings) : null;
+  const form = baseline ? { ...baseline, ...changes } : null;
+  const dirtyFields = baseline
+    ? (Object.keys(changes) as Field[]).filter(field => !sameValue(changes[field], baseline[field]))
+    : [];
+  const isDirty = dirtyFields.length > 0;
+
+  useEffect(() => {
+    if (!isDirty) return;
+
+    const warn = (event: BeforeUnloadEvent) => {
+      event.preventDefault();
+    };
+    window.addEventListener('beforeunload', warn);
+    return () => window.removeEventListener('beforeunload', warn);
+  }, [isDirty]);
+
+  const setField = <K extends Field>(field: K, value: SettingsUpdate[K]) => {
+    setChanges(prev => ({ ...prev, [field]: value }));
+    setFieldErrors(prev => {
+      if (!prev[field]) return prev;
+      const next = { ...prev };
+      delete next[field];
+      return next;
+    });
+    setSavedAt(null);
+  };
+
+  const handleRevert = () => {
+    setChanges({});
+    setFieldErrors({});
+    setSaveError(null);
+  };
+
+  const handleSave = async () => {
+    if (!form) return;
+
+    const localErrors = validateLocally(form);
+    if (Object.keys(localErrors).length > 0) {
+      setFieldErrors(localErrors);
+      setSaveError('Some settings are invalid');
+      return;
+    }
+
+    setSaving(true);
+    setSaveError(null);
+    const response = await settingsMutations.update(form);
+    setSaving(false);
+
+    if (response.error) {
+      setFieldErrors((response.fieldErrors ?? {}) as Partial<Record<Field, string>>);
+      setSaveError(response.error);
+      return;
+    }
+
+    setChanges({});
+    setFieldErrors({});
+    setSavedAt(new Date());
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex space-x-6">
+        <div className="w-64 card animate-pulse">
+          {[...Array(8)].map((_, i) => (
+            <div key={i} className="h-9 bg-gray-200 rounded mb-2" />
+          ))}
+        </div>
+        <div className="flex-1 card animate-pulse">
+          <div className="h-6 bg-gray-200 rounded w-48 mb-6" />
+          {[...Array(4)].map((_, i) => (
+            <div key={i} className="h-12 bg-gray-100 rounded mb-4" />
+          ))}
+        </div>
       </div>
-      
-      <div>
-        <label className="block text-sm font-medium text-gray-700 mb-2">
-          Subtitle Storage Path
-        </label>
-        <input
-          type="text"
-          value={settings.subtitlePath}
-          onChange={(e) => handleSettingChange('subtitlePath', e.target.value)}
-          className="block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-1 focus:ring-primary-500 focus:border-primary-500"
-        />
+    );
+  }
+
+  if (!settings || !form) {
+    return (
+      <div className="card">
+        <div className="text-center py-8">
+          <XCircleIcon className="w-12 h-12 text-red-500 mx-auto mb-4" />
+          <h3 className="text-lg font-medium text-gray-900 mb-2">Error Loading Settings</h3>
+          <p className="text-gray-500 mb-4">{error}</p>
+          <button onClick={refetch} className="btn-primary">
+            Retry
+          </button>
+        </div>
       </div>
-      
-      <div>
-        <label className="block text-sm font-medium text-gray-700 mb-2">
-          Maximum Storage Size (GB)
-        </label>
-        <input
-          type="number"
-          value={settings.maxStorageSize}
-          onChange={(e) => handleSettingChange('maxStorageSize', parseInt(e.target.value))}
-          className="block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-1 focus:ring-primary-500 focus:border-primary-500"
+    );
+  }
+
+  const inputBorder = (field: Field) => (fieldErrors[field] ? 'border-red-300' : 'border-gray-300');
+
+  const textInput = (field: Field, value: string | null | undefined, placeholder?: string) => (
+    <input
+      type="text"
+      value={value ?? ''}
+      placeholder={placeholder}
+      onChange={(e) => setField(field, e.target.value)}
+      className={`${inputClass} ${inputBorder(field)}`}
+    />
+  );
+
+  const numberInput = (field: Field, value: number, min: number, max: number, step = 1) => (
+    <input
+      type="number"
+      value={Number.isNaN(value) ? '' : value}
+      min={min}
+      max={max}
+      step={step}
+      onChange={(e) => setField(field, e.target.value === '' ? NaN : Number(e.target.value))}
+      className={`${inputClass} ${inputBorder(field)}`}
+    />
+  );
+
+  const renderLanguageSettings = () => (
+    <div className="space-y-6">
+      <FieldRow
+        label="Preferred languages"
+        description="Language codes offered first when choosing a translation target."
+        error={fieldErrors.preferredLanguages}
+      >
+        <ListEditor
+          items={form.preferredLanguages ?? []}
+          placeholder="e.g. el"
+          invalid={!!fieldErrors.preferredLanguages}
+          onChange={(items) => setField('preferredLanguages', items)}
         />
+      </FieldRow>
+
+      <div className="grid grid-cols-1 gap-6 sm:grid-cols-2">
+        <FieldRow label="Default source language" error={fieldErrors.defaultSourceLanguage}>
+          {textInput('defaultSourceLanguage', form.defaultSourceLanguage, 'en')}
+        </FieldRow>
+        <FieldRow label="Default target language" error={fieldErrors.defaultTargetLanguage}>
+          {textInput('defaultTargetLanguage', form.defaultTargetLanguage, 'el')}
+        </FieldRow>
       </div>
-      
-      <div className="flex items-center justify-between">
-        <div>
-          <label className="text-sm font-medium text-gray-700">Cleanup old files</label>
-          <p className="text-sm text-gray-500">Automatically remove old temporary files</p>
+    </div>
+  );
+
+  const renderAiSettings = () => (
+    <div className="space-y-6">
+      <FieldRow label="Provider" error={fieldErrors.aiProvider}>
+        <select
+          value={form.aiProvider}
+          onChange={(e) => setField('aiProvider', e.target.value as SettingsUpdate['aiProvider'])}
+          className={`${inputClass} ${inputBorder('aiProvider')}`}
+        >
+          {AI_PROVIDERS.map(provider => (
+            <option key={provider} value={provider}>
+              {provider === 'OPENAI' ? 'OpenAI' : formatEnumLabel(provider)}
+            </option>
+          ))}
+        </select>
+      </FieldRow>
+
+      {([
+        ['OpenAI', 'openaiModel', 'openaiApiKey', settings.openaiApiKeySet],
+        ['Anthropic', 'anthropicModel', 'anthropicApiKey', settings.anthropicApiKeySet],
+        ['Gemini', 'geminiModel', 'geminiApiKey', settings.geminiApiKeySet],
+      ] as const).map(([name, modelField, keyField, stored]) => (
+        <div key={name} className="grid grid-cols-1 gap-6 sm:grid-cols-2">
+          <FieldRow label={`${name} model`} error={fieldErrors[modelField]}>
+            {textInput(modelField, form[modelField])}
+          </FieldRow>
+          <FieldRow label={`${name} API key`} error={fieldErrors[keyField]}>
+            <SecretInput
+              stored={stored}
+              value={form[keyField]}
+              invalid={!!fieldErrors[keyField]}
+              onChange={(value) => setField(keyField, value)}
+            />
+          </FieldRow>
         </div>
-        <input
-          type="checkbox"
-          checked={settings.cleanupOldFiles}
-          onChange={(e) => handleSettingChange('cleanupOldFiles', e.target.checked)}
-          className="h-4 w-4 text-primary-600 focus:ring-primary-500 border-gray-300 rounded"
-        />
-      </div>
+      ))}
     </div>
   );
 
-  const renderProfileSettings = () => (
+  const renderSyncSettings = () => (
     <div className="space-y-6">
-      <div>
-        <label className="block text-sm font-medium text-gray-700 mb-2">
-          Username
-        </label>
-        <input
-          type="text"
-          value={settings.username}
-          onChange={(e) => handleSettingChange('username', e.target.value)}
-          className="block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-1 focus:ring-primary-500 focus:border-primary-500"
-        />
-      </div>
-      
-      <div>
-        <label className="block text-sm font-medium text-gray-700 mb-2">
-          Email
-        </label>
-        <input
-          type="email"
-          value={settings.email}
-          onChange={(e) => handleSettingChange('email', e.target.value)}
-          className="block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-1 focus:ring-primary-500 focus:border-primary-500"
-        />
+      <FieldRow label="Sync tool" error={fieldErrors.syncTool}>
+        <select
+          value={form.syncTool}
+          onChange={(e) => setField('syncTool', e.target.value as SettingsUpdate['syncTool'])}
+          className={`${inputClass} ${inputBorder('syncTool')}`}
+        >
+          {SYNC_TOOLS.map(tool => (
+            <option key={tool} value={tool}>
+              {formatEnumLabel(tool)}
+            </option>
+          ))}
+        </select>
+      </FieldRow>
+
+      <ToggleRow
+        label="Automatic sync"
+        description="Sync new subtitles against the audio without asking"
+        checked={form.enableAutoSync}
+        onChange={(checked) => setField('enableAutoSync', checked)}
+      />
+
+      <div className="grid grid-cols-1 gap-6 sm:grid-cols-2">
+        <FieldRow
+          label="Auto-sync threshold"
+          description="Apply a sync automatically above this confidence (0–1)."
+          error={fieldErrors.autoSyncThreshold}
+        >
+          {numberInput('autoSyncThreshold', form.autoSyncThreshold, 0, 1, 0.05)}
+        </FieldRow>
+        <FieldRow
+          label="Maximum sync offset (ms)"
+          description="Larger corrections are treated as a failed sync."
+          error={fieldErrors.maxSyncOffset}
+        >
+          {numberInput('maxSyncOffset', form.maxSyncOffset, 0, 600000, 100)}
+        </FieldRow>
       </div>
-      
-      <div>
-        <button className="btn-secondary">
-          Change Password
-        </button>
+    </div>
+  );
+
+  const renderProcessingSettings = () => (
+    <div className="space-y-6">
+      <ToggleRow
+        label="Automatic translation"
+        description="Translate new subtitles into the default target language"
+        checked={form.enableAutoTranslation}
+        onChange={(checked) => setField('enableAutoTranslation', checked)}
+      />
+      <ToggleRow
+        label="Background processing"
+        description="Run scheduled and queued work without an open browser"
+        checked={form.enableBackgroundProcessing}
+        onChange={(checked) => setField('enableBackgroundProcessing', checked)}
+      />
+
+      <div className="grid grid-cols-1 gap-6 sm:grid-cols-2">
+        <FieldRow label="Concurrent tasks" error={fieldErrors.maxConcurrentTasks}>
+          {numberInput('maxConcurrentTasks', form.maxConcurrentTasks, 1, 10)}
+        </FieldRow>
+        <FieldRow
+          label="Minimum confidence"
+          description="AI output below this score (0–1) needs review."
+          error={fieldErrors.minConfidenceScore}
+        >
+          {numberInput('minConfidenceScore', form.minConfidenceScore, 0, 1, 0.05)}
+        </FieldRow>
       </div>
+
+      <ToggleRow
+        label="Quality check"
+        description="Check translations for missing or malformed cues"
+        checked={form.enableQualityCheck}
+        onChange={(checked) => setField('enableQualityCheck', checked)}
+      />
+      <ToggleRow
+        label="Retry failed tasks"
+        description="Automatically retry tasks that fail"
+        checked={form.retryFailedTasks}
+        onChange={(checked) => setField('retryFailedTasks', checked)}
+      />
     </div>
   );
 
   const renderNotificationSettings = () => (
     <div className="space-y-6">
-      <div className="flex items-center justify-between">
-        <div>
-          <label className="text-sm font-medium text-gray-700">Email notifications</label>
-          <p className="text-sm text-gray-500">Receive notifications via email</p>
-        </div>
-        <input
-          type="checkbox"
-          checked={settings.emailNotifications}
-          onChange={(e) => handleSettingChange('emailNotifications', e.target.checked)}
-          className="h-4 w-4 text-primary-600 focus:ring-primary-500 border-gray-300 rounded"
-        />
-      </div>
-      
-      <div className="flex items-center justify-between">
-        <div>
-          <label className="text-sm font-medium text-gray-700">Task notifications</label>
-          <p className="text-sm text-gray-500">Get notified when tasks complete</p>
-        </div>
-        <input
-          type="checkbox"
-          checked={settings.taskNotifications}
-          onChange={(e) => handleSettingChange('taskNotifications', e.target.checked)}
-          className="h-4 w-4 text-primary-600 focus:ring-primary-500 border-gray-300 rounded"
-        />
-      </div>
-      
-      <div className="flex items-center justify-between">
-        <div>
-          <label className="text-sm font-medium text-gray-700">Error notifications</label>
-          <p className="text-sm text-gray-500">Get notified when errors occur</p>
-        </div>
-        <input
-          type="checkbox"
-          checked={settings.errorNotifications}
-          onChange={(e) => handleSettingChange('errorNotifications', e.target.checked)}
-          className="h-4 w-4 text-primary-600 focus:ring-primary-500 border-gray-300 rounded"
-        />
-      </div>
+      <ToggleRow
+        label="Web notifications"
+        description="Also show notifications as browser notifications while Skiperr is in the background"
+        checked={form.enableWebNotifications}
+        onChange={(checked) => {
+          setField('enableWebNotifications', checked);
+          // Browsers only ask for permission in response to a click
+          if (checked && 'Notification' in window && Notification.permission === 'default') {
+            Notification.requestPermission();
+          }
+        }}
+      />
+      <ToggleRow
+        label="Email notifications"
+        description="Receive notifications via email"
+        checked={form.enableEmailNotifications}
+        onChange={(checked) => setField('enableEmailNotifications', checked)}
+      />
+      <ToggleRow
+        label="Task notifications"
+        description="Get notified when tasks and library scans complete"
+        checked={form.notifyOnTaskCompletion}
+        onChange={(checked) => setField('notifyOnTaskCompletion', checked)}
+      />
+      <ToggleRow
+        label="Error notifications"
+        description="Get notified when tasks fail or a health check finds problems"
+        checked={form.notifyOnErrors}
+        onChange={(checked) => setField('notifyOnErrors', checked)}
+      />
     </div>
   );
 
-  const renderSecuritySettings = () => (
+  const renderLibrarySettings = () => (
     <div className="space-y-6">
-      <div>
-        <label className="block text-sm font-medium text-gray-700 mb-2">
-          Session Timeout (hours)
-        </label>
-        <input
-          type="number"
-          value={settings.sessionTimeout}
-          onChange={(e) => handleSettingChange('sessionTimeout', parseInt(e.target.value))}
-          className="block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-1 focus:ring-primary-500 focus:border-primary-500"
-        />
-      </div>
-      
-      <div className="flex items-center justify-between">
-        <div>
-          <label className="text-sm font-medium text-gray-700">Require authentication</label>
-          <p className="text-sm text-gray-500">Require login to access the dashboard</p>
-        </div>
-        <input
-          type="checkbox"
-          checked={settings.requireAuth}
-          onChange={(e) => handleSettingChange('requireAuth', e.target.checked)}
-          className="h-4 w-4 text-primary-600 focus:ring-primary-500 border-gray-300 rounded"
+      <FieldRow
+        label="Additional library paths"
+        description="Scanned together with the server's configured libraries."
+        error={fieldErrors.customLibraryPaths}
+      >
+        <ListEditor
+          items={form.customLibraryPaths ?? []}
+          placeholder="/media/anime"
+          invalid={!!fieldErrors.customLibraryPaths}
+          onChange={(items) => setField('customLibraryPaths', items)}
         />
+      </FieldRow>
+
+      <FieldRow label="Scan interval (hours)" error={fieldErrors.scanInterval}>
+        {numberInput('scanInterval', form.scanInterval, 1, 720)}
+      </FieldRow>
+
+      <ToggleRow
+        label="Plex integration"
+        description="Refresh Plex libraries after subtitles change"
+        checked={form.enablePlexIntegration}
+        onChange={(checked) => setField('enablePlexIntegration', checked)}
+      />
+
+      <div className="grid grid-cols-1 gap-6 sm:grid-cols-2">
+        <FieldRow label="Plex server URL" error={fieldErrors.plexServerUrl}>
+          {textInput('plexServerUrl', form.plexServerUrl, 'http://plex.local:32400')}
+        </FieldRow>
+        <FieldRow label="Plex token" error={fieldErrors.plexToken}>
+          <SecretInput
+            stored={settings.plexTokenSet}
+            value={form.plexToken}
+            invalid={!!fieldErrors.plexToken}
+            onChange={(value) => setField('plexToken', value)}
+          />
+        </FieldRow>
       </div>
     </div>
   );
 
-  const renderLibrarySettings = () => (
+  const renderBackupSettings = () => (
     <div className="space-y-6">
-      <div>
-        <label className="block text-sm font-medium text-gray-700 mb-2">
-          Supported Video Formats
-        </label>
-        <div className="space-y-2">
-          {['mp4', 'avi', 'mkv', 'mov', 'wmv', 'flv'].map(format => (
-            <div key={format} className="flex items-center">
-              <input
-                type="checkbox"
-                id={format}
-                checked={settings.supportedFormats.includes(format)}
-                onChange={(e) => {
-                  const formats = e.target.checked
-                    ? [...settings.supportedFormats, format]
-                    : settings.supportedFormats.filter(f => f !== format);
-                  handleSettingChange('supportedFormats', formats);
-                }}
-                className="h-4 w-4 text-primary-600 focus:ring-primary-500 border-gray-300 rounded"
-              />
-              <label htmlFor={format} className="ml-2 text-sm text-gray-700">
-                .{format}
-              </label>
-            </div>
-          ))}
-        </div>
-      </div>
-      
-      <div className="flex items-center justify-between">
-        <div>
-          <label className="text-sm font-medium text-gray-700">Auto-generate subtitles</label>
-          <p className="text-sm text-gray-500">Automatically generate subtitles for new videos</p>
-        </div>
-        <input
-          type="checkbox"
-          checked={settings.autoGenerateSubtitles}
-          onChange={(e) => handleSettingChange('autoGenerateSubtitles', e.target.checked)}
-          className="h-4 w-4 text-primary-600 focus:ring-primary-500 border-gray-300 rounded"
-        />
+      <ToggleRow
+        label="Automatic backups"
+        description="Back up subtitles and configuration daily"
+        checked={form.enableAutoBackup}
+        onChange={(checked) => setField('enableAutoBackup', checked)}
+      />
+
+      <div className="grid grid-cols-1 gap-6 sm:grid-cols-2">
+        <FieldRow label="Retention (days)" error={fieldErrors.backupRetentionDays}>
+          {numberInput('backupRetentionDays', form.backupRetentionDays, 1, 3650)}
+        </FieldRow>
+        <FieldRow label="Backup path" error={fieldErrors.backupPath}>
+          {textInput('backupPath', form.backupPath, '/backups/skiperr')}
+        </FieldRow>
       </div>
-      
-      <div>
-        <label className="block text-sm font-medium text-gray-700 mb-2">
-          Default Language
-        </label>
-        <select
-          value={settings.defaultLanguage}
-          onChange={(e) => handleSettingChange('defaultLanguage', e.target.value)}
-          className="block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-1 focus:ring-primary-500 focus:border-primary-500"
-        >
-          <option value="en">English</option>
-          <option value="es">Spanish</option>
-          <option value="fr">French</option>
-          <option value="de">German</option>
-        </select>
+    </div>
+  );
+
+  const renderSecuritySettings = () => (
+    <div className="space-y-6">
+      <FieldRow
+        label="Session timeout (minutes)"
+        description="You are signed out after this long without activity in any tab, with a warning a minute before. Changes apply within 15 minutes, when your session is next renewed."
+        error={fieldErrors.sessionTimeout}
+      >
+        {numberInput('sessionTimeout', form.sessionTimeout, 5, 1440)}
+      </FieldRow>
+      <div className="border-t border-gray-200 pt-6">
+        <ApiTokenManager />
       </div>
     </div>
   );
 
   const renderContent = () => {
     switch (activeSection) {
-      case 'general':
-        return renderGeneralSettings();
-      case 'storage':
-        return renderStorageSettings();
-      case 'profile':
-        return renderProfileSettings();
+      case 'languages':
+        return renderLanguageSettings();
+      case 'ai':
+        return renderAiSettings();
+      case 'sync':
+        return renderSyncSettings();
+      case 'processing':
+        return renderProcessingSettings();
       case 'notifications':
         return renderNotificationSettings();
-      case 'security':
-        return renderSecuritySettings();
       case 'library':
         return renderLibrarySettings();
-      default:
-        return renderGeneralSettings();
+      case 'backup':
+        return renderBackupSettings();
+      case 'security':
+        return renderSecuritySettings();
     }
   };
 
-  return (
-    <div className="flex space-x-6">
-      {/* Settings Navigation */}
-      <div className="w-64 card">
-        <nav className="space-y-1">
-          {sections.map((section) => (
-            <button
-              key={section.id}
-              onClick={() => setActiveSection(section.id)}
-              className={`w-full flex items-center px-3 py-2 text-sm font-medium rounded-md transition-colors duration-200 ${
-                activeSection === section.id
-                  ? 'bg-primary-50 text-primary-700 border-r-2 border-primary-700'
-                  : 'text-gray-600 hover:bg-gray-50 hover:text-gray-900'
-              }`}
-            >
-              <section.icon className="flex-shrink-0 w-5 h-5 mr-3" />
-              {section.name}
-            </button>
-          ))}
-        </nav>
-      </div>
+  const current = sections.find(s => s.id === activeSection)!;
 
-      {/* Settings Content */}
-      <div className="flex-1 card">
-        <div className="mb-6">
-          <h2 className="text-lg font-medium text-gray-900">
-            {sections.find(s => s.id === activeSection)?.name} Settings
-          </h2>
-          <p className="text-sm text-gray-500 mt-1">
-            Manage your {activeSection} preferences and configuration.
-          </p>
+  return (
+    <div className="space-y-6">
+      <div className="flex space-x-6">
+        {/* Settings Navigation */}
+        <div className="w-64 card self-start">
+          <nav className="space-y-1">
+            {sections.map((section) => {
+              const hasErrors = section.fields.some(field => fieldErrors[field]);
+              const hasChanges = section.fields.some(field => dirtyFields.includes(field));
+              return (
+                <button
+                  key={section.id}
+                  onClick={() => setActiveSection(section.id)}
+                  className={`w-full flex items-center px-3 py-2 text-sm font-medium rounded-md transition-colors duration-200 ${
+                    activeSection === section.id
+                      ? 'bg-primary-50 text-primary-700 border-r-2 border-primary-700'
+                      : 'text-gray-600 hover:bg-gray-50 hover:text-gray-900'
+                  }`}
+                >
+                  <section.icon className="flex-shrink-0 w-5 h-5 mr-3" />
+                  <span className="flex-1 text-left">{section.name}</span>
+                  {(hasErrors || hasChanges) && (
+                    <span
+                      className={`w-2 h-2 rounded-full ${hasErrors ? 'bg-red-500' : 'bg-yellow-400'}`}
+                      title={hasErrors ? 'Has errors' : 'Unsaved changes'}
+                    />
+                  )}
+                </button>
+              );
+            })}
+          </nav>
         </div>
 
-        {renderContent()}
-
-        <div className="mt-8 pt-6 border-t border-gray-200">
-          <div className="flex justify-end space-x-3">
-            <button className="btn-secondary">
-              Reset to Defaults
-            </button>
-            <button className="btn-primary">
-              Save Changes
-            </button>
+        {/* Settings Content */}
+        <div className="flex-1 card">
+          <div className="mb-6">
+            <h2 className="text-lg font-medium text-gray-900">{current.name}</h2>
+            <p className="text-sm text-gray-500 mt-1">{current.description}</p>
           </div>
+
+          {renderContent()}
         </div>
       </div>
+
+      {/* Save / revert bar */}
+      {(isDirty || saveError || savedAt) && (
+        <div className="sticky bottom-0 z-10 card flex items-center justify-between shadow-lg">
+          <p className={`text-sm ${saveError ? 'text-red-600' : 'text-gray-600'}`}>
+            {saveError
+              ? saveError
+              : isDirty
+                ? canSave
+                  ? `${dirtyFields.length} unsaved ${dirtyFields.length === 1 ? 'change' : 'changes'}`
+                  : 'Your viewer role cannot change settings'
+                : `Settings saved at ${savedAt!.toLocaleTimeString()}`}
+          </p>
+          {isDirty && (
+            <div className="flex space-x-3">
+              <button className="btn-secondary" onClick={handleRevert} disabled={saving}>
+                Revert
+              </button>
+              <button className="btn-primary" onClick={handleSave} disabled={saving || !canSave}>
+                {saving ? 'Saving…' : 'Save Changes'}
+              </button>
+            </div>
+          )}
+        </div>
+      )}
     </div>
   );
-}
\ No newline at end of file
+}
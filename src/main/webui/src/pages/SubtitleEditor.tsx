@@ -0,0 +1,387 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import {
+  ArrowLeftIcon,
+  ArrowUturnLeftIcon,
+  ArrowUturnRightIcon,
+  ArrowsPointingInIcon,
+  PlusIcon,
+  ScissorsIcon,
+  TrashIcon,
+  XCircleIcon,
+} from '@heroicons/react/24/outline';
+import { useQuery } from '../hooks/useQuery';
+import { useUndoableState } from '../hooks/useUndoableState';
+import { useVirtualRows } from '../hooks/useVirtualRows';
+import { queries, subtitleMutations } from '../services/queries';
+import type { SubtitleCue, SubtitleCues } from '../services/api';
+import SyncStatusBadge from '../components/SyncStatusBadge';
+import TimeInput from '../components/TimeInput';
+
+const ROW_HEIGHT = 104;
+// Length given to a cue inserted where there is no room before the next one
+const DEFAULT_CUE_MS = 2000;
+
+// Cues carry a local key so rows keep their identity while cues are split, merged and reordered
+interface EditorCue extends SubtitleCue {
+  key: number;
+}
+
+const toEditorCues = (cues: SubtitleCue[]): EditorCue[] => cues.map((cue, index) => ({ ...cue, key: index }));
+
+// The index is kept so the backend can tell moved cues from added and deleted ones
+const toCues = (cues: SubtitleCue[]): SubtitleCue[] =>
+  cues.map(({ startMs, endMs, text, index }) => ({ startMs, endMs, text, index }));
+
+const sameCues = (a: SubtitleCue[], b: SubtitleCue[]) => JSON.stringify(toCues(a)) === JSON.stringify(toCues(b));
+
+// Like SubtitleEditorService.timingsEdited: only cues loaded from the file whose times moved count
+const timingsEdited = (cues: SubtitleCue[], baseline: SubtitleCue[]) =>
+  cues.some(cue => {
+    const original = cue.index != null ? baseline[cue.index] : undefined;
+    return original !== undefined && (original.startMs !== cue.startMs || original.endMs !== cue.endMs);
+  });
+
+// Splits between lines when there are several, otherwise at the space nearest the middle
+function splitText(text: string): [string, string] {
+  const lines = text.split('\n');
+  if (lines.length > 1) {
+    const half = Math.ceil(lines.length / 2);
+    return [lines.slice(0, half).join('\n'), lines.slice(half).join('\n')];
+  }
+
+  const middle = Math.floor(text.length / 2);
+  let at = middle;
+  for (let offset = 0; offset < middle; offset++) {
+    if (text[middle - offset] === ' ') {
+      at = middle - offset;
+      break;
+    }
+    if (text[middle + offset] === ' ') {
+      at = middle + offset;
+      break;
+    }
+  }
+  return [text.slice(0, at).trim(), text.slice(at).trim()];
+}
+
+function cueIssues(cue: SubtitleCue, next?: SubtitleCue): { errors: string[]; warnings: string[] } {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  if (cue.endMs <= cue.startMs) errors.push('Ends before it starts');
+  if (!cue.text.trim()) errors.push('No text');
+  if (next && next.startMs < cue.endMs) warnings.push('Overlaps the next cue');
+  return { errors, warnings };
+}
+
+export default function SubtitleEditor() {
+  const { id = '' } = useParams<{ id: string }>();
+  const subtitleQuery = useQuery(queries.subtitle(id));
+  const cuesQuery = useQuery(queries.subtitleCues(id));
+  const { state: cues, set, reset, undo, redo, canUndo, canRedo } = useUndoableState<EditorCue[]>([]);
+
+  // The server copy the edits are measured against
+  const [loaded, setLoaded] = useState<SubtitleCues | undefined>(undefined);
+  const [saving, setSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [savedAt, setSavedAt] = useState<Date | null>(null);
+
+  const baseline = loaded?.cues;
+  const isDirty = baseline !== undefined && !sameCues(cues, baseline);
+
+  // Take newer server data unless it would overwrite unsaved edits
+  if (cuesQuery.data && cuesQuery.data !== loaded && !isDirty) {
+    setLoaded(cuesQuery.data);
+    if (!baseline || !sameCues(cuesQuery.data.cues, baseline)) {
+      reset(toEditorCues(cuesQuery.data.cues));
+    }
+  }
+
+  const timingsChanged = baseline !== undefined && timingsEdited(cues, baseline);
+
+  const issues = useMemo(() => cues.map((cue, index) => cueIssues(cue, cues[index + 1])), [cues]);
+  const errorCount = issues.filter(issue => issue.errors.length > 0).length;
+
+  const { containerRef, onScroll, start, end, paddingTop, paddingBottom } =
+    useVirtualRows<HTMLDivElement>({ count: cues.length, rowHeight: ROW_HEIGHT });
+
+  useEffect(() => {
+    if (!isDirty) return;
+
+    const warn = (event: BeforeUnloadEvent) => {
+      event.preventDefault();
+    };
+    window.addEventListener('beforeunload', warn);
+    return () => window.removeEventListener('beforeunload', warn);
+  }, [isDirty]);
+
+  const nextKey = () => cues.reduce((max, cue) => Math.max(max, cue.key), -1) + 1;
+
+  const updateCue = (key: number, patch: Partial<SubtitleCue>, coalesceKey?: string) => {
+    set(previous => previous.map(cue => (cue.key === key ? { ...cue, ...patch } : cue)), coalesceKey);
+  };
+
+  const splitCue = (index: number) => {
+    const cue = cues[index];
+    const [first, second] = splitText(cue.text);
+    const share = first.length + second.length > 0 ? first.length / (first.length + second.length) : 0.5;
+    const at = cue.startMs + Math.round((cue.endMs - cue.startMs) * share);
+    const key = nextKey();
+    set(previous => [
+      ...previous.slice(0, index),
+      { ...cue, endMs: at, text: first },
+      { key, startMs: at, endMs: cue.endMs, text: second },
+      ...previous.slice(index + 1),
+    ]);
+  };
+
+  const mergeWithNext = (index: number) => {
+    const cue = cues[index];
+    const next = cues[index + 1];
+    set(previous => [
+      ...previous.slice(0, index),
+      {
+        ...cue,
+        startMs: Math.min(cue.startMs, next.startMs),
+        endMs: Math.max(cue.endMs, next.endMs),
+        text: [cue.text, next.text].filter(text => text.trim()).join('\n'),
+      },
+      ...previous.slice(index + 2),
+    ]);
+  };
+
+  const insertAfter = (index: number) => {
+    const cue = cues[index] as EditorCue | undefined;
+    const next = cues[index + 1];
+    const startMs = cue ? cue.endMs : 0;
+    const room = next ? next.startMs - startMs : DEFAULT_CUE_MS;
+    const endMs = startMs + (room > 0 ? Math.min(room, DEFAULT_CUE_MS) : DEFAULT_CUE_MS);
+    const key = nextKey();
+    set(previous => [...previous.slice(0, index + 1), { key, startMs, endMs, text: '' }, ...previous.slice(index + 1)]);
+  };
+
+  const deleteCue = (index: number) => {
+    set(previous => [...previous.slice(0, index), ...previous.slice(index + 1)]);
+  };
+
+  const handleRevert = () => {
+    if (baseline) set(() => toEditorCues(baseline));
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setSaveError(null);
+    const response = await subtitleMutations.saveCues(id, toCues(cues));
+    setSaving(false);
+
+    if (response.data) {
+      setLoaded(response.data);
+      reset(toEditorCues(response.data.cues));
+      setSavedAt(new Date());
+    } else {
+      setSaveError(response.error ?? 'Saving failed');
+    }
+  };
+
+  const subtitle = subtitleQuery.data;
+  const backLink = subtitle ? `/videos/${subtitle.video.id}` : '/subtitles';
+
+  if (cuesQuery.isLoading || subtitleQuery.isLoading) {
+    return (
+      <div className="space-y-6">
+        <div className="h-5 bg-gray-200 rounded w-24 animate-pulse" />
+        <div className="card animate-pulse">
+          <div className="h-7 bg-gray-200 rounded w-1/2 mb-6" />
+          {[...Array(6)].map((_, i) => (
+            <div key={i} className="h-20 bg-gray-100 rounded mb-2" />
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  if (!loaded || !subtitle) {
+    return (
+      <div className="space-y-6">
+        <Link to={backLink} className="inline-flex items-center text-sm text-gray-500 hover:text-gray-700">
+          <ArrowLeftIcon className="w-4 h-4 mr-1" />
+          Back
+        </Link>
+        <div className="card">
+          <div className="text-center py-8">
+            <XCircleIcon className="w-12 h-12 text-red-500 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">Error Loading Subtitle</h3>
+            <p className="text-gray-500 mb-4">{cuesQuery.error ?? subtitleQuery.error}</p>
+            <button
+              onClick={() => {
+                subtitleQuery.refetch();
+                cuesQuery.refetch();
+              }}
+              className="btn-primary"
+            >
+              Retry
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Link to={backLink} className="inline-flex items-center text-sm text-gray-500 hover:text-gray-700">
+        <ArrowLeftIcon className="w-4 h-4 mr-1" />
+        {subtitle.video.title ?? 'Video'}
+      </Link>
+
+      <div className="card">
+        <div className="flex items-start justify-between gap-6">
+          <div className="min-w-0">
+            <div className="flex items-center space-x-3">
+              <h2 className="text-xl font-semibold text-gray-900">
+                {subtitle.languageDisplayName ?? subtitle.language} subtitles
+              </h2>
+              <SyncStatusBadge status={subtitle.syncStatus} />
+            </div>
+            <p className="mt-1 text-sm text-gray-500 break-all">{subtitle.filePath}</p>
+            <p className="mt-1 text-xs text-gray-500">
+              {cues.length} cues · {loaded.format.toUpperCase()}
+              {errorCount > 0 && <span className="ml-2 text-red-600">{errorCount} with problems</span>}
+            </p>
+          </div>
+
+          <div className="flex flex-shrink-0 space-x-2">
+            <Link to={`/subtitles/${id}/timing`} className="btn-secondary">
+              Fix Timing
+            </Link>
+            <button
+              onClick={undo}
+              disabled={!canUndo}
+              title="Undo (Ctrl+Z)"
+              className="btn-secondary flex items-center space-x-1 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <ArrowUturnLeftIcon className="w-4 h-4" />
+              <span>Undo</span>
+            </button>
+            <button
+              onClick={redo}
+              disabled={!canRedo}
+              title="Redo (Ctrl+Shift+Z)"
+              className="btn-secondary flex items-center space-x-1 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <ArrowUturnRightIcon className="w-4 h-4" />
+              <span>Redo</span>
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <div className="card p-0">
+        {cues.length === 0 ? (
+          <div className="text-center py-12">
+            <p className="text-sm text-gray-500 mb-4">This subtitle has no cues.</p>
+            <button onClick={() => insertAfter(-1)} className="btn-primary">
+              Add a cue
+            </button>
+          </div>
+        ) : (
+          <div ref={containerRef} onScroll={onScroll} className="max-h-[65vh] overflow-y-auto">
+            <div style={{ paddingTop, paddingBottom }}>
+              {cues.slice(start, end).map((cue, offset) => {
+                const index = start + offset;
+                const { errors, warnings } = issues[index];
+                const message = [...errors, ...warnings].join(' · ');
+                return (
+                  <div
+                    key={cue.key}
+                    style={{ height: ROW_HEIGHT }}
+                    className={`flex items-start gap-4 px-4 py-2 border-b border-gray-200 ${errors.length > 0 ? 'bg-red-50' : ''}`}
+                  >
+                    <span className="w-10 pt-1 text-right text-xs font-mono text-gray-400">{index + 1}</span>
+
+                    <div className="flex flex-col space-y-1">
+                      <TimeInput value={cue.startMs} label={`Cue ${index + 1} start`} onChange={startMs => updateCue(cue.key, { startMs })} />
+                      <TimeInput value={cue.endMs} label={`Cue ${index + 1} end`} onChange={endMs => updateCue(cue.key, { endMs })} />
+                    </div>
+
+                    <div className="flex-1 min-w-0">
+                      <textarea
+                        value={cue.text}
+                        aria-label={`Cue ${index + 1} text`}
+                        onChange={e => updateCue(cue.key, { text: e.target.value }, `text:${cue.key}`)}
+                        rows={2}
+                        className="block w-full px-2 py-1 text-sm border border-gray-300 rounded-md resize-none focus:outline-none focus:ring-1 focus:ring-primary-500 focus:border-primary-500"
+                      />
+                      <p className={`mt-1 h-4 text-xs truncate ${errors.length > 0 ? 'text-red-600' : 'text-yellow-700'}`}>{message}</p>
+                    </div>
+
+                    <div className="flex space-x-1">
+                      <button
+                        onClick={() => splitCue(index)}
+                        className="p-1.5 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded-md"
+                        title="Split into two cues"
+                      >
+                        <ScissorsIcon className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => mergeWithNext(index)}
+                        disabled={index === cues.length - 1}
+                        className="p-1.5 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded-md disabled:opacity-30 disabled:cursor-not-allowed"
+                        title="Merge with the next cue"
+                      >
+                        <ArrowsPointingInIcon className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => insertAfter(index)}
+                        className="p-1.5 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded-md"
+                        title="Insert a cue after this one"
+                      >
+                        <PlusIcon className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => deleteCue(index)}
+                        className="p-1.5 text-red-500 hover:text-red-700 hover:bg-red-50 rounded-md"
+                        title="Delete cue"
+                      >
+                        <TrashIcon className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+      </div>
+
+      {(isDirty || saveError || savedAt) && (
+        <div className="sticky bottom-0 z-10 card flex items-center justify-between shadow-lg">
+          <p className={`text-sm ${saveError ? 'text-red-600' : 'text-gray-600'}`}>
+            {saveError
+              ? saveError
+              : isDirty
+                ? timingsChanged
+                  ? 'Unsaved changes. Timings were edited, so saving marks this subtitle as Manual Sync.'
+                  : 'Unsaved changes'
+                : `Saved at ${savedAt!.toLocaleTimeString()}`}
+          </p>
+          {isDirty && (
+            <div className="flex space-x-3">
+              <button className="btn-secondary" onClick={handleRevert} disabled={saving}>
+                Revert
+              </button>
+              <button
+                className="btn-primary disabled:opacity-50 disabled:cursor-not-allowed"
+                onClick={handleSave}
+                disabled={saving || errorCount > 0}
+                title={errorCount > 0 ? 'Fix the highlighted cues first' : undefined}
+              >
+                {saving ? 'Saving…' : 'Save Changes'}
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,398 @@
+import { useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { format } from 'date-fns';
+import { ArrowLeftIcon, CheckCircleIcon, ClockIcon, PlayIcon, XCircleIcon } from '@heroicons/react/24/outline';
+import { useQuery } from '../hooks/useQuery';
+import { queries, subtitleMutations } from '../services/queries';
+import type { SubtitleCue, TimingAdjustmentSummary, TimingAnchor, TimingMode, TimingRequest } from '../services/api';
+import { TIMING_MODES } from '../services/models';
+import SyncStatusBadge from '../components/SyncStatusBadge';
+import TimeInput from '../components/TimeInput';
+import VideoPlayer from '../components/VideoPlayer';
+import { formatTimestamp } from '../utils/format';
+import { frameRateHint, retimeCues, timingTransform } from '../utils/timing';
+import type { LinearTransform } from '../utils/timing';
+
+const MODE_LABELS: Record<TimingMode, string> = {
+  OFFSET: 'Shift',
+  STRETCH: 'Two-point stretch',
+};
+
+const NUDGES_MS = [-1000, -100, 100, 1000];
+
+const formatOffset = (ms: number) => `${ms < 0 ? '−' : '+'}${(Math.abs(ms) / 1000).toFixed(3)} s`;
+
+function describeTransform({ scale, offsetMs }: { scale: number; offsetMs: number }): string {
+  if (scale === 1) return `Shift ${formatOffset(offsetMs)}`;
+  const hint = frameRateHint(scale);
+  return `Scale ×${scale.toFixed(5)}${hint ? ` (${hint})` : ''}, then shift ${formatOffset(offsetMs)}`;
+}
+
+const snippet = (cue: SubtitleCue) => {
+  const text = cue.text.replace(/\n/g, ' ');
+  return text.length > 40 ? `${text.slice(0, 40)}…` : text;
+};
+
+// Until the user picks anchors, stretch between the first and last cue as they are
+const defaultAnchors = (cues: SubtitleCue[]): TimingAnchor[] =>
+  cues.length < 2
+    ? []
+    : [
+        { cueIndex: 0, targetMs: cues[0].startMs },
+        { cueIndex: cues.length - 1, targetMs: cues[cues.length - 1].startMs },
+      ];
+
+function AnchorRow({
+  label,
+  anchor,
+  cues,
+  onChange,
+}: {
+  label: string;
+  anchor: TimingAnchor;
+  cues: SubtitleCue[];
+  onChange: (anchor: TimingAnchor) => void;
+}) {
+  return (
+    <div className="grid grid-cols-1 gap-2 sm:grid-cols-[6rem_1fr_auto] sm:items-center">
+      <span className="text-sm font-medium text-gray-700">{label}</span>
+      <select
+        value={anchor.cueIndex}
+        onChange={e => {
+          const cueIndex = Number(e.target.value);
+          onChange({ cueIndex, targetMs: cues[cueIndex].startMs });
+        }}
+        className="min-w-0 border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-1 focus:ring-primary-500 focus:border-primary-500"
+      >
+        {cues.map((cue, index) => (
+          <option key={index} value={index}>
+            #{index + 1} {formatTimestamp(cue.startMs)} — {snippet(cue)}
+          </option>
+        ))}
+      </select>
+      <label className="flex items-center space-x-2 text-sm text-gray-600">
+        <span>should start at</span>
+        <TimeInput
+          value={anchor.targetMs}
+          label={`${label} correct start`}
+          onChange={targetMs => onChange({ ...anchor, targetMs })}
+        />
+      </label>
+    </div>
+  );
+}
+
+function HistoryItem({ adjustment, subtitleId }: { adjustment: TimingAdjustmentSummary; subtitleId: string }) {
+  const produced = adjustment.resultSubtitleId === subtitleId;
+  return (
+    <li className="py-3">
+      <p className="text-sm text-gray-900">{describeTransform(adjustment)}</p>
+      {adjustment.anchors.length > 0 && (
+        <p className="mt-0.5 text-xs text-gray-500">
+          {adjustment.anchors
+            .map(
+              anchor =>
+                `#${anchor.cueIndex + 1} ${anchor.originalMs != null ? formatTimestamp(anchor.originalMs) : '?'} → ${formatTimestamp(anchor.targetMs)}`
+            )
+            .join(' · ')}
+        </p>
+      )}
+      <p className="mt-0.5 text-xs text-gray-500">
+        {produced ? (
+          <>Created this file from <span className="break-all">{adjustment.sourceFilePath}</span></>
+        ) : (
+          <>
+            Saved as{' '}
+            <Link to={`/subtitles/${adjustment.resultSubtitleId}`} className="text-primary-600 hover:text-primary-700 break-all">
+              {adjustment.resultFilePath}
+            </Link>
+          </>
+        )}
+        {' · '}
+        {adjustment.appliedBy ?? 'unknown'} on {format(new Date(adjustment.createdAt), 'MMM dd, yyyy HH:mm')}
+      </p>
+    </li>
+  );
+}
+
+export default function SubtitleTiming() {
+  const { id = '' } = useParams<{ id: string }>();
+  const [mode, setMode] = useState<TimingMode>('OFFSET');
+  const [offsetMs, setOffsetMs] = useState(0);
+  const [pickedAnchors, setPickedAnchors] = useState<TimingAnchor[] | null>(null);
+  // The player starts streaming as soon as it mounts, so it waits for a click
+  const [showPlayer, setShowPlayer] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [saved, setSaved] = useState<TimingAdjustmentSummary | null>(null);
+
+  const subtitleQuery = useQuery(queries.subtitle(id));
+  const cuesQuery = useQuery(queries.subtitleCues(id));
+  const historyQuery = useQuery(queries.timingHistory(id));
+
+  const subtitle = subtitleQuery.data;
+  const cues = cuesQuery.data?.cues ?? [];
+  const history = historyQuery.data ?? [];
+  const backLink = subtitle ? `/videos/${subtitle.video.id}` : '/subtitles';
+
+  const anchors = pickedAnchors ?? defaultAnchors(cues);
+  const request: TimingRequest = mode === 'OFFSET' ? { mode, offsetMs } : { mode, anchors };
+  const transform = timingTransform(request, cues);
+  const retimed = typeof transform === 'string' ? transform : retimeCues(cues, transform);
+  const problem = typeof retimed === 'string' ? retimed : null;
+  const preview = typeof retimed === 'string' ? cues : retimed;
+  const isIdentity = typeof transform !== 'string' && transform.scale === 1 && transform.offsetMs === 0;
+
+  const updateAnchor = (position: number, anchor: TimingAnchor) => {
+    setPickedAnchors(anchors.map((existing, index) => (index === position ? anchor : existing)));
+    setSaved(null);
+  };
+
+  const changeOffset = (ms: number) => {
+    setOffsetMs(ms);
+    setSaved(null);
+  };
+
+  const save = async () => {
+    setSaving(true);
+    setSaveError(null);
+    const response = await subtitleMutations.retime(id, request);
+    setSaving(false);
+    if (response.data) {
+      setSaved(response.data);
+    } else {
+      setSaveError(response.error ?? 'Saving failed');
+    }
+  };
+
+  if (cuesQuery.isLoading || subtitleQuery.isLoading) {
+    return (
+      <div className="space-y-6">
+        <div className="h-5 bg-gray-200 rounded w-24 animate-pulse" />
+        <div className="card animate-pulse">
+          <div className="h-7 bg-gray-200 rounded w-1/2 mb-6" />
+          <div className="h-24 bg-gray-100 rounded" />
+        </div>
+      </div>
+    );
+  }
+
+  if (!cuesQuery.data || !subtitle) {
+    return (
+      <div className="space-y-6">
+        <Link to={backLink} className="inline-flex items-center text-sm text-gray-500 hover:text-gray-700">
+          <ArrowLeftIcon className="w-4 h-4 mr-1" />
+          Back
+        </Link>
+        <div className="card">
+          <div className="text-center py-8">
+            <XCircleIcon className="w-12 h-12 text-red-500 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">Error Loading Subtitle</h3>
+            <p className="text-gray-500 mb-4">{cuesQuery.error ?? subtitleQuery.error}</p>
+            <button
+              onClick={() => {
+                subtitleQuery.refetch();
+                cuesQuery.refetch();
+              }}
+              className="btn-primary"
+            >
+              Retry
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  // Before/after times for the cues that show the effect best: both ends and the anchors
+  const sampleIndexes = [...new Set([0, ...(mode === 'STRETCH' ? anchors.map(a => a.cueIndex) : []), cues.length - 1])]
+    .filter(index => index >= 0 && index < cues.length)
+    .sort((a, b) => a - b);
+  const mapTime = (ms: number, { scale, offsetMs: shift }: LinearTransform) => Math.max(0, Math.round(scale * ms + shift));
+
+  return (
+    <div className="space-y-6">
+      <Link to={backLink} className="inline-flex items-center text-sm text-gray-500 hover:text-gray-700">
+        <ArrowLeftIcon className="w-4 h-4 mr-1" />
+        {subtitle.video.title ?? 'Video'}
+      </Link>
+
+      <div className="card">
+        <div className="flex items-start justify-between gap-6">
+          <div className="min-w-0">
+            <div className="flex items-center space-x-3">
+              <h2 className="text-xl font-semibold text-gray-900">
+                Fix timing · {subtitle.languageDisplayName ?? subtitle.language}
+              </h2>
+              <SyncStatusBadge status={subtitle.syncStatus} />
+            </div>
+            <p className="mt-1 text-sm text-gray-500 break-all">{subtitle.filePath}</p>
+            <p className="mt-1 text-xs text-gray-500">
+              {cues.length} cues. The corrected subtitle is saved as a new file next to this one, which is left as it is.
+            </p>
+          </div>
+          <Link to={`/subtitles/${id}`} className="btn-secondary flex-shrink-0">
+            Open Editor
+          </Link>
+        </div>
+      </div>
+
+      <div className="card space-y-5">
+        <div className="flex space-x-2">
+          {TIMING_MODES.map(value => (
+            <button
+              key={value}
+              onClick={() => {
+                setMode(value);
+                setSaved(null);
+              }}
+              className={`px-3 py-1.5 text-sm rounded-md ${
+                mode === value ? 'bg-primary-100 text-primary-700 font-medium' : 'text-gray-600 hover:bg-gray-100'
+              }`}
+            >
+              {MODE_LABELS[value]}
+            </button>
+          ))}
+        </div>
+
+        {mode === 'OFFSET' ? (
+          <div className="space-y-2">
+            <p className="text-sm text-gray-600">Move every cue by the same amount. Positive values show subtitles later.</p>
+            <div className="flex flex-wrap items-center gap-2">
+              <input
+                type="number"
+                step={0.1}
+                value={offsetMs / 1000}
+                onChange={e => changeOffset(Math.round(Number(e.target.value) * 1000) || 0)}
+                aria-label="Offset in seconds"
+                className="w-32 px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-primary-500 focus:border-primary-500"
+              />
+              <span className="text-sm text-gray-500">seconds</span>
+              {NUDGES_MS.map(nudge => (
+                <button key={nudge} onClick={() => changeOffset(offsetMs + nudge)} className="btn-secondary px-2 py-1 text-xs">
+                  {nudge > 0 ? '+' : '−'}
+                  {Math.abs(nudge) >= 1000 ? `${Math.abs(nudge) / 1000} s` : `${Math.abs(nudge)} ms`}
+                </button>
+              ))}
+              {offsetMs !== 0 && (
+                <button onClick={() => changeOffset(0)} className="text-xs text-gray-500 hover:text-gray-700">
+                  Reset
+                </button>
+              )}
+            </div>
+          </div>
+        ) : cues.length < 2 ? (
+          <p className="text-sm text-gray-500">A stretch needs at least two cues.</p>
+        ) : (
+          <div className="space-y-3">
+            <p className="text-sm text-gray-600">
+              Pick a cue near the start and one near the end and enter when each should really appear. Everything is re-timed
+              along the line through them, which fixes drift from a framerate mismatch.
+            </p>
+            {anchors.map((anchor, position) => (
+              <AnchorRow
+                key={position}
+                label={position === 0 ? 'First anchor' : 'Second anchor'}
+                anchor={anchor}
+                cues={cues}
+                onChange={updated => updateAnchor(position, updated)}
+              />
+            ))}
+            {pickedAnchors && (
+              <button onClick={() => setPickedAnchors(null)} className="text-xs text-gray-500 hover:text-gray-700">
+                Reset anchors
+              </button>
+            )}
+          </div>
+        )}
+
+        <div className="border-t border-gray-200 pt-4">
+          {problem ? (
+            <p className="text-sm text-red-600">{problem}</p>
+          ) : typeof transform !== 'string' && (
+            <>
+              <p className="text-sm font-medium text-gray-900">{describeTransform(transform)}</p>
+              <table className="mt-2 text-xs">
+                <tbody>
+                  {sampleIndexes.map(index => (
+                    <tr key={index}>
+                      <td className="pr-4 text-gray-500">#{index + 1}</td>
+                      <td className="pr-2 font-mono text-gray-500">{formatTimestamp(cues[index].startMs)}</td>
+                      <td className="pr-2 text-gray-400">→</td>
+                      <td className="font-mono text-gray-900">{formatTimestamp(mapTime(cues[index].startMs, transform))}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {preview.length < cues.length && (
+                <p className="mt-2 text-xs text-yellow-700">
+                  {cues.length - preview.length} cues would move before 00:00:00 and are dropped.
+                </p>
+              )}
+            </>
+          )}
+        </div>
+
+        <div className="flex items-center justify-end space-x-3">
+          {saveError && <p className="text-sm text-red-600">{saveError}</p>}
+          <button onClick={save} disabled={saving || problem !== null || isIdentity} className="btn-primary disabled:opacity-50">
+            {saving ? 'Saving…' : 'Save as New File'}
+          </button>
+        </div>
+
+        {saved && (
+          <div className="flex items-start p-3 rounded-md bg-green-50 text-sm text-green-800">
+            <CheckCircleIcon className="w-5 h-5 mr-2 flex-shrink-0" />
+            <p>
+              Saved as <span className="break-all">{saved.resultFilePath}</span> and marked as manually synced.{' '}
+              <Link to={`/subtitles/${saved.resultSubtitleId}`} className="font-medium underline">
+                Open it in the editor
+              </Link>
+            </p>
+          </div>
+        )}
+      </div>
+
+      <div className="card">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-medium text-gray-900">Preview</h3>
+          {!showPlayer && (
+            <button onClick={() => setShowPlayer(true)} className="btn-primary flex items-center space-x-2">
+              <PlayIcon className="w-4 h-4" />
+              <span>Open Player</span>
+            </button>
+          )}
+        </div>
+        {showPlayer ? (
+          <VideoPlayer
+            videoId={subtitle.video.id}
+            subtitles={[]}
+            preview={{ label: isIdentity ? 'Current timing' : 'Corrected timing (not saved)', cues: preview }}
+          />
+        ) : (
+          <p className="text-sm text-gray-500">Play the video with the corrected cues before saving them.</p>
+        )}
+      </div>
+
+      <div className="card">
+        <h3 className="flex items-center text-lg font-medium text-gray-900 mb-2">
+          <ClockIcon className="w-5 h-5 mr-2 text-gray-400" />
+          Timing History
+        </h3>
+        {historyQuery.isLoading ? (
+          <div className="h-12 bg-gray-100 rounded animate-pulse" />
+        ) : historyQuery.error && !historyQuery.data ? (
+          <p className="text-sm text-red-600">{historyQuery.error}</p>
+        ) : history.length === 0 ? (
+          <p className="text-sm text-gray-500">No timing corrections have been made to this subtitle.</p>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {history.map(adjustment => (
+              <HistoryItem key={adjustment.id} adjustment={adjustment} subtitleId={id} />
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,9 +1,9 @@
-import { useState, useEffect } from 'react';
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
 import { format } from 'date-fns';
 import {
   DocumentTextIcon,
   LanguageIcon,
-  EllipsisVerticalIcon,
   MagnifyingGlassIcon,
   FunnelIcon,
   PlusIcon,
@@ -11,69 +11,33 @@ import {
   XCircleIcon,
   ExclamationTriangleIcon,
 } from '@heroicons/react/24/outline';
-import { videoApi } from '../services/api';
-import type { Subtitle, Video } from '../services/api';
-
-interface SubtitleWithVideo extends Subtitle {
-  video: Video;
-}
+import { useQuery } from '../hooks/useQuery';
+import { queries } from '../services/queries';
+import ActionOutcomeBadge from '../components/ActionOutcome';
+import type { ActionOutcome } from '../components/ActionOutcome';
+import SubtitleActionMenu from '../components/SubtitleActionMenu';
 
 export default function Subtitles() {
-  const [subtitles, setSubtitles] = useState<SubtitleWithVideo[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
   const [languageFilter, setLanguageFilter] = useState<string>('all');
   const [typeFilter, setTypeFilter] = useState<'all' | 'generated' | 'uploaded'>('all');
   const [sortBy, setSortBy] = useState<'createdAt' | 'language' | 'video'>('createdAt');
   const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('desc');
+  // The last action taken from each row's menu
+  const [outcomes, setOutcomes] = useState<Record<string, ActionOutcome>>({});
 
-  // Fetch videos and their subtitles
-  useEffect(() => {
-    const fetchData = async () => {
-      try {
-        setLoading(true);
-        setError(null);
-        
-        const response = await videoApi.getVideos();
-        if (response.error) {
-          setError(response.error);
-          return;
-        }
-
-        const videosData = response.data || [];
-        
-        // Extract all subtitles from videos and create SubtitleWithVideo objects
-        const allSubtitles: SubtitleWithVideo[] = [];
-        videosData.forEach(video => {
-          if (video.subtitles && video.subtitles.length > 0) {
-            video.subtitles.forEach(subtitle => {
-              allSubtitles.push({
-                ...subtitle,
-                video: video,
-              });
-            });
-          }
-        });
-        
-        setSubtitles(allSubtitles);
-      } catch (err) {
-        setError('Failed to fetch subtitles data');
-        console.error('Error fetching subtitles:', err);
-      } finally {
-        setLoading(false);
-      }
-    };
-
-    fetchData();
-  }, []);
+  // Subtitles together with their videos
+  const subtitlesQuery = useQuery(queries.subtitles());
+  const subtitles = subtitlesQuery.data ?? [];
+  const loading = subtitlesQuery.isLoading;
+  const error = subtitlesQuery.data ? null : subtitlesQuery.error;
 
   const availableLanguages = Array.from(new Set(subtitles.map(sub => sub.language)));
 
   const filteredAndSortedSubtitles = subtitles
     .filter(subtitle => {
       const matchesSearch = 
-        subtitle.video.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
+        (subtitle.video.title ?? subtitle.video.path).toLowerCase().includes(searchTerm.toLowerCase()) ||
         subtitle.language.toLowerCase().includes(searchTerm.toLowerCase());
       
       const matchesLanguage = languageFilter === 'all' || subtitle.language === languageFilter;
@@ -86,8 +50,8 @@ export default function Subtitles() {
       return matchesSearch && matchesLanguage && matchesType;
     })
     .sort((a, b) => {
-      let aValue: any;
-      let bValue: any;
+      let aValue: string | number;
+      let bValue: string | number;
       
       switch (sortBy) {
         case 'createdAt':
@@ -99,8 +63,8 @@ export default function Subtitles() {
           bValue = b.language;
           break;
         case 'video':
-          aValue = a.video.title;
-          bValue = b.video.title;
+          aValue = a.video.title ?? a.video.path;
+          bValue = b.video.title ?? b.video.path;
           break;
         default:
           aValue = a.createdAt;
@@ -173,7 +137,7 @@ export default function Subtitles() {
           {/* Type Filter */}
           <select
             value={typeFilter}
-            onChange={(e) => setTypeFilter(e.target.value as any)}
+            onChange={(e) => setTypeFilter(e.target.value as 'all' | 'generated' | 'uploaded')}
             className="border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-1 focus:ring-primary-500 focus:border-primary-500"
           >
             <option value="all">All Types</option>
@@ -188,8 +152,8 @@ export default function Subtitles() {
               value={`${sortBy}-${sortOrder}`}
               onChange={(e) => {
                 const [field, order] = e.target.value.split('-');
-                setSortBy(field as any);
-                setSortOrder(order as any);
+                setSortBy(field as 'createdAt' | 'language' | 'video');
+                setSortOrder(order as 'asc' | 'desc');
               }}
               className="border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-1 focus:ring-primary-500 focus:border-primary-500"
             >
@@ -277,7 +241,7 @@ export default function Subtitles() {
             <h3 className="mt-2 text-sm font-medium text-gray-900">Error loading subtitles</h3>
             <p className="mt-1 text-sm text-gray-500">{error}</p>
             <button 
-              onClick={() => window.location.reload()}
+              onClick={subtitlesQuery.refetch}
               className="mt-4 btn-secondary"
             >
               Try Again
@@ -350,8 +314,8 @@ export default function Subtitles() {
                           </div>
                         </div>
                         <div className="ml-4">
-                          <div className="text-sm font-medium text-gray-900">{subtitle.video.title}</div>
-                          <div className="text-sm text-gray-500 truncate max-w-xs">{subtitle.video.filePath}</div>
+                          <div className="text-sm font-medium text-gray-900">{subtitle.video.title ?? subtitle.video.path}</div>
+                          <div className="text-sm text-gray-500 truncate max-w-xs">{subtitle.video.path}</div>
                         </div>
                       </div>
                     </td>
@@ -390,9 +354,18 @@ export default function Subtitles() {
                       {format(new Date(subtitle.createdAt), 'MMM dd, yyyy')}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
-                      <button className="text-gray-400 hover:text-gray-600">
-                        <EllipsisVerticalIcon className="h-5 w-5" />
-                      </button>
+                      <div className="flex items-center justify-end space-x-3">
+                        {outcomes[subtitle.id] && <ActionOutcomeBadge outcome={outcomes[subtitle.id]} />}
+                        {subtitle.filePath && (
+                          <Link to={`/subtitles/${subtitle.id}`} className="text-primary-600 hover:text-primary-700">
+                            Edit
+                          </Link>
+                        )}
+                        <SubtitleActionMenu
+                          subtitle={subtitle}
+                          onOutcome={outcome => setOutcomes(previous => ({ ...previous, [subtitle.id]: outcome }))}
+                        />
+                      </div>
                     </td>
                   </tr>
                 ))}
@@ -1,80 +1,139 @@
-import { useState, useEffect } from 'react';
+import { useCallback, useEffect, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
 import {
   StopIcon,
   ArrowPathIcon,
+  ChevronDownIcon,
+  ChevronRightIcon,
+  DocumentMagnifyingGlassIcon,
   FunnelIcon,
   MagnifyingGlassIcon,
+  PauseIcon,
+  PlayIcon,
   XCircleIcon,
 } from '@heroicons/react/24/outline';
-import { taskApi } from '../services/api';
-import type { Task, TaskType, TaskStatus } from '../services/api';
+import type { ApiResponse, Task, TaskPriority, TaskType, TaskStatus } from '../services/api';
+import { TASK_PRIORITIES, TASK_STATUSES, TASK_TYPES, formatEnumLabel } from '../services/models';
+import { useQuery } from '../hooks/useQuery';
+import { useWebSocket } from '../hooks/useWebSocket';
+import { queries, taskMutations } from '../services/queries';
+import type { ConnectionState } from '../services/websocket';
+import TaskStatusBadge from '../components/TaskStatusBadge';
+import TaskEta from '../components/TaskEta';
+import TaskDetailDrawer from '../components/TaskDetailDrawer';
+import PipelineSteps from '../components/PipelineSteps';
+
+// How often the list is refetched while live updates are unavailable
+const POLL_INTERVAL = 5000;
+
+// Tasks that have not finished can be cancelled; those waiting to start can be reprioritised
+const ACTIVE_STATUSES: TaskStatus[] = ['PENDING', 'SCHEDULED', 'RUNNING', 'PAUSED'];
+const WAITING_STATUSES: TaskStatus[] = ['PENDING', 'SCHEDULED', 'PAUSED'];
+
+// Batches and pipelines only track the tasks they queued, which are paused and reprioritised one by one instead
+const PARENT_TYPES: TaskType[] = ['BATCH_PROCESS', 'PIPELINE'];
+const canPause = (task: Task) =>
+  !PARENT_TYPES.includes(task.type) && ['PENDING', 'SCHEDULED', 'RUNNING'].includes(task.status);
+
+// Reconnecting and dropped sockets fall back to polling; the first connect does not
+const isPolling = (state: ConnectionState) => state !== 'open' && state !== 'connecting';
+
+function ConnectionIndicator({ state }: { state: ConnectionState }) {
+  const [dot, label, title] =
+    state === 'open'
+      ? ['bg-green-500', 'Live', 'Tasks update as they change']
+      : state === 'connecting'
+        ? ['bg-gray-400 animate-pulse', 'Connecting…', 'Connecting to live updates']
+        : [
+            'bg-amber-500',
+            `Polling every ${POLL_INTERVAL / 1000}s`,
+            'Live updates are unavailable, so the list is refetched until the connection is back',
+          ];
+  return (
+    <span className="inline-flex items-center text-xs text-gray-600" title={title}>
+      <span className={`w-2 h-2 rounded-full mr-1.5 ${dot}`} />
+      {label}
+    </span>
+  );
+}
 
 export default function Tasks() {
-  const [tasks, setTasks] = useState<Task[]>([]);
-  const [filteredTasks, setFilteredTasks] = useState<Task[]>([]);
   const [searchTerm, setSearchTerm] = useState('');
   const [statusFilter, setStatusFilter] = useState<TaskStatus | 'all'>('all');
   const [typeFilter, setTypeFilter] = useState<TaskType | 'all'>('all');
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  // Narrows the list to one task, or to a batch task and the per-video tasks it queued
+  const [searchParams] = useSearchParams();
+  const taskId = searchParams.get('task');
+  const batchId = searchParams.get('batch');
 
-  const fetchTasks = async () => {
-    try {
-      setLoading(true);
-      setError(null);
-      
-      const response = await taskApi.getTasks(0, 100); // Get first 100 tasks
-      
-      if (response.error) {
-        throw new Error(response.error);
-      }
+  // Rows are patched in place and new tasks inserted by live updates (see applyTaskUpdate)
+  const tasksQuery = useQuery(queries.tasks({ page: 0, size: 100 })); // First 100 tasks
+  const tasks = tasksQuery.data ?? [];
+  const { state: connection } = useWebSocket();
+  const polling = isPolling(connection);
+  const refetchTasks = tasksQuery.refetch;
+  // Tasks created after the page opened are highlighted as they arrive
+  const [openedAt] = useState(() => Date.now());
+  // Task shown in the detail drawer; linking to one task (e.g. from search) opens it here too
+  const [selectedTaskId, setSelectedTaskId] = useState<string | null>(taskId);
+  const [linkedTaskId, setLinkedTaskId] = useState(taskId);
+  if (linkedTaskId !== taskId) {
+    setLinkedTaskId(taskId);
+    setSelectedTaskId(taskId);
+  }
+  const closeDrawer = useCallback(() => setSelectedTaskId(null), []);
+  // Why the last pause, resume or priority change was refused
+  const [actionError, setActionError] = useState<string | null>(null);
+  // Pipeline tasks whose steps are shown under them
+  const [expandedPipelines, setExpandedPipelines] = useState<Set<string>>(() => new Set());
 
-      setTasks(response.data || []);
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to fetch tasks');
-      console.error('Tasks fetch error:', err);
-    } finally {
-      setLoading(false);
-    }
-  };
+  const togglePipeline = (id: string) =>
+    setExpandedPipelines(current => {
+      const next = new Set(current);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
 
   useEffect(() => {
-    fetchTasks();
-  }, []);
+    if (!polling) return;
+    const timer = setInterval(refetchTasks, POLL_INTERVAL);
+    return () => clearInterval(timer);
+  }, [polling, refetchTasks]);
 
-  useEffect(() => {
-    let filtered = tasks;
+  const loading = tasksQuery.isLoading;
+  const error = tasksQuery.data ? null : tasksQuery.error;
 
-    // Filter by search term
-    if (searchTerm) {
-      filtered = filtered.filter(task =>
-        task.type.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        task.progressMessage?.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        task.errorMessage?.toLowerCase().includes(searchTerm.toLowerCase())
-      );
-    }
+  // A pipeline is one entry whose steps expand under it, so its step tasks are left out of the full list
+  const pipelineIds = new Set(tasks.filter(task => task.type === 'PIPELINE').map(task => task.id));
 
-    // Filter by status
-    if (statusFilter !== 'all') {
-      filtered = filtered.filter(task => task.status === statusFilter);
-    }
+  const filteredTasks = tasks.filter(task => {
+    if (taskId && task.id !== taskId) return false;
+    if (batchId && task.id !== batchId && task.parentId !== batchId) return false;
+    if (!taskId && !batchId && task.parentId && pipelineIds.has(task.parentId)) return false;
 
-    // Filter by type
-    if (typeFilter !== 'all') {
-      filtered = filtered.filter(task => task.type === typeFilter);
+    // Filter by search term
+    if (searchTerm) {
+      const term = searchTerm.toLowerCase();
+      const matches =
+        task.type.toLowerCase().includes(term) ||
+        task.progressMessage?.toLowerCase().includes(term) ||
+        task.errorMessage?.toLowerCase().includes(term);
+      if (!matches) return false;
     }
 
-    setFilteredTasks(filtered);
-  }, [tasks, searchTerm, statusFilter, typeFilter]);
+    // Filter by status and type
+    return (statusFilter === 'all' || task.status === statusFilter) &&
+      (typeFilter === 'all' || task.type === typeFilter);
+  });
 
   const handleCancelTask = async (taskId: string) => {
     try {
-      const response = await taskApi.cancelTask(taskId);
+      // Task lists are invalidated by the mutation
+      const response = await taskMutations.cancel(taskId);
       if (response.error) {
         throw new Error(response.error);
       }
-      // Refresh tasks after cancellation
-      fetchTasks();
     } catch (error) {
       console.error('Failed to cancel task:', error);
     }
@@ -82,17 +141,30 @@ export default function Tasks() {
 
   const handleRetryTask = async (taskId: string) => {
     try {
-      const response = await taskApi.retryTask(taskId);
+      const response = await taskMutations.retry(taskId);
       if (response.error) {
         throw new Error(response.error);
       }
-      // Refresh tasks after retry
-      fetchTasks();
     } catch (error) {
       console.error('Failed to retry task:', error);
     }
   };
 
+  const runAction = async (label: string, request: Promise<ApiResponse<Task>>) => {
+    setActionError(null);
+    const response = await request;
+    if (response.error) {
+      setActionError(`Could not ${label}: ${response.error}`);
+    }
+  };
+
+  const handlePauseTask = (taskId: string) => runAction('pause the task', taskMutations.pause(taskId));
+
+  const handleResumeTask = (taskId: string) => runAction('resume the task', taskMutations.resume(taskId));
+
+  const handlePriorityChange = (taskId: string, priority: TaskPriority) =>
+    runAction('change the priority', taskMutations.setPriority(taskId, priority));
+
   if (loading) {
     return (
       <div className="space-y-6">
@@ -145,7 +217,7 @@ export default function Tasks() {
             <h3 className="text-lg font-medium text-gray-900 mb-2">Error Loading Tasks</h3>
             <p className="text-gray-500 mb-4">{error}</p>
             <button
-              onClick={fetchTasks}
+              onClick={tasksQuery.refetch}
               className="btn-primary"
             >
               Retry
@@ -156,39 +228,25 @@ export default function Tasks() {
     );
   }
 
-  const getStatusColor = (status: TaskStatus) => {
-    switch (status) {
-      case 'PENDING':
-        return 'bg-yellow-100 text-yellow-800';
-      case 'RUNNING':
-        return 'bg-blue-100 text-blue-800';
-      case 'COMPLETED':
-        return 'bg-green-100 text-green-800';
-      case 'FAILED':
-        return 'bg-red-100 text-red-800';
-      case 'CANCELLED':
-        return 'bg-gray-100 text-gray-800';
-      default:
-        return 'bg-gray-100 text-gray-800';
-    }
-  };
-
   const getTypeIcon = (type: TaskType) => {
     switch (type) {
-      case 'SUBTITLE_EXTRACTION':
-      case 'SUBTITLE_GENERATION':
+      case 'EXTRACT_SUBTITLES':
+      case 'GENERATE_SUBTITLES':
         return '📝';
-      case 'SUBTITLE_TRANSLATION':
-      case 'TRANSLATION':
+      case 'TRANSLATE_SUBTITLES':
         return '🌐';
-      case 'LIBRARY_SCAN':
+      case 'SCAN_LIBRARY':
         return '📁';
-      case 'FILE_CLEANUP':
+      case 'CLEANUP_FILES':
         return '🧹';
-      case 'DATABASE_BACKUP':
+      case 'BACKUP_DATABASE':
         return '💾';
-      case 'SUBTITLE_SYNC':
+      case 'SYNC_SUBTITLES':
         return '🔄';
+      case 'BATCH_PROCESS':
+        return '📦';
+      case 'PIPELINE':
+        return '🔗';
       default:
         return '⚙️';
     }
@@ -200,15 +258,30 @@ export default function Tasks() {
       <div className="flex justify-between items-center">
         <div>
           <h1 className="text-2xl font-bold text-gray-900">Task Monitor</h1>
-          <p className="text-gray-600">Monitor and manage background tasks</p>
+          <p className="text-gray-600">
+            {taskId || batchId ? (
+              <>
+                {taskId ? 'Showing one task' : 'Showing one batch or pipeline and the tasks it queued'} ·{' '}
+                <Link to="/tasks" className="text-primary-600 hover:text-primary-700">
+                  Show all tasks
+                </Link>
+              </>
+            ) : (
+              'Monitor and manage background tasks'
+            )}
+          </p>
+        </div>
+        <div className="flex items-center space-x-4">
+          <ConnectionIndicator state={connection} />
+          <button
+            onClick={tasksQuery.refetch}
+            disabled={tasksQuery.isFetching}
+            className="btn-secondary flex items-center space-x-2"
+          >
+            <ArrowPathIcon className={`w-4 h-4 ${tasksQuery.isFetching ? 'animate-spin' : ''}`} />
+            <span>Refresh</span>
+          </button>
         </div>
-        <button
-          onClick={fetchTasks}
-          className="btn-secondary flex items-center space-x-2"
-        >
-          <ArrowPathIcon className="w-4 h-4" />
-          <span>Refresh</span>
-        </button>
       </div>
 
       {/* Filters */}
@@ -237,11 +310,9 @@ export default function Tasks() {
               className="border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-1 focus:ring-primary-500 focus:border-primary-500"
             >
               <option value="all">All Status</option>
-              <option value="PENDING">Pending</option>
-              <option value="RUNNING">Running</option>
-              <option value="COMPLETED">Completed</option>
-              <option value="FAILED">Failed</option>
-              <option value="CANCELLED">Cancelled</option>
+              {TASK_STATUSES.map(status => (
+                <option key={status} value={status}>{formatEnumLabel(status)}</option>
+              ))}
             </select>
           </div>
 
@@ -253,19 +324,23 @@ export default function Tasks() {
               className="border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-1 focus:ring-primary-500 focus:border-primary-500"
             >
               <option value="all">All Types</option>
-              <option value="SUBTITLE_EXTRACTION">Subtitle Extraction</option>
-              <option value="SUBTITLE_GENERATION">Subtitle Generation</option>
-              <option value="SUBTITLE_TRANSLATION">Subtitle Translation</option>
-              <option value="TRANSLATION">Translation</option>
-              <option value="LIBRARY_SCAN">Library Scan</option>
-              <option value="FILE_CLEANUP">File Cleanup</option>
-              <option value="DATABASE_BACKUP">Database Backup</option>
-              <option value="SUBTITLE_SYNC">Subtitle Sync</option>
+              {TASK_TYPES.map(type => (
+                <option key={type} value={type}>{formatEnumLabel(type)}</option>
+              ))}
             </select>
           </div>
         </div>
       </div>
 
+      {actionError && (
+        <div className="flex items-center justify-between p-3 rounded-md text-sm bg-red-50 text-red-800">
+          <span>{actionError}</span>
+          <button onClick={() => setActionError(null)} className="ml-4 opacity-70 hover:opacity-100" title="Dismiss">
+            <XCircleIcon className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+
       {/* Tasks List */}
       <div className="space-y-4">
         {filteredTasks.length === 0 ? (
@@ -274,7 +349,7 @@ export default function Tasks() {
           </div>
         ) : (
           filteredTasks.map((task) => (
-            <div key={task.id} className="card">
+            <div key={task.id} className={`card ${Date.parse(task.createdAt) > openedAt ? 'live-enter' : ''}`}>
               <div className="flex items-center justify-between">
                 <div className="flex items-center space-x-4 flex-1">
                   <div className="text-2xl">{getTypeIcon(task.type)}</div>
@@ -282,15 +357,53 @@ export default function Tasks() {
                   <div className="flex-1">
                     <div className="flex items-center space-x-3">
                       <h3 className="font-medium text-gray-900">
-                        {task.type.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase())}
+                        <button onClick={() => setSelectedTaskId(task.id)} className="hover:text-primary-700">
+                          {formatEnumLabel(task.type)}
+                        </button>
                       </h3>
-                      <span className={`px-2 py-1 text-xs font-medium rounded-full ${getStatusColor(task.status)}`}>
-                        {task.status}
-                      </span>
+                      <TaskStatusBadge status={task.status} />
+                      {WAITING_STATUSES.includes(task.status) && !PARENT_TYPES.includes(task.type) ? (
+                        <select
+                          value={task.priority}
+                          onChange={e => handlePriorityChange(task.id, e.target.value as TaskPriority)}
+                          className="border border-gray-300 rounded-md px-2 py-0.5 text-xs text-gray-700 focus:outline-none focus:ring-1 focus:ring-primary-500 focus:border-primary-500"
+                          title="Priority"
+                          aria-label="Priority"
+                        >
+                          {TASK_PRIORITIES.map(priority => (
+                            <option key={priority} value={priority}>{formatEnumLabel(priority)} priority</option>
+                          ))}
+                        </select>
+                      ) : (
+                        <span className="text-xs text-gray-500">{formatEnumLabel(task.priority)} priority</span>
+                      )}
                     </div>
                     
                     {task.progressMessage && (
-                      <p className="text-sm text-gray-600 mt-1">{task.progressMessage}</p>
+                      <p key={task.progressMessage} className="text-sm text-gray-600 mt-1 live-fade-in">
+                        {task.progressMessage}
+                      </p>
+                    )}
+
+                    {task.type === 'BATCH_PROCESS' && task.id !== batchId && (
+                      <Link to={`/tasks?batch=${task.id}`} className="text-sm text-primary-600 hover:text-primary-700">
+                        Show per-video tasks
+                      </Link>
+                    )}
+
+                    {task.type === 'PIPELINE' && (
+                      <button
+                        onClick={() => togglePipeline(task.id)}
+                        className="inline-flex items-center text-sm text-primary-600 hover:text-primary-700"
+                        aria-expanded={expandedPipelines.has(task.id)}
+                      >
+                        {expandedPipelines.has(task.id) ? (
+                          <ChevronDownIcon className="w-4 h-4 mr-1" />
+                        ) : (
+                          <ChevronRightIcon className="w-4 h-4 mr-1" />
+                        )}
+                        {expandedPipelines.has(task.id) ? 'Hide steps' : 'Show steps'}
+                      </button>
                     )}
                     
                     {task.errorMessage && (
@@ -299,6 +412,9 @@ export default function Tasks() {
                     
                     <div className="flex items-center space-x-4 mt-2 text-xs text-gray-500">
                       <span>Created: {new Date(task.createdAt).toLocaleString()}</span>
+                      {task.scheduledAt && WAITING_STATUSES.includes(task.status) && (
+                        <span>Runs at: {new Date(task.scheduledAt).toLocaleString()}</span>
+                      )}
                       {task.updatedAt && (
                         <span>Updated: {new Date(task.updatedAt).toLocaleString()}</span>
                       )}
@@ -312,20 +428,51 @@ export default function Tasks() {
                     <div className="w-32">
                       <div className="flex justify-between text-xs text-gray-600 mb-1">
                         <span>Progress</span>
-                        <span>{task.progress}%</span>
+                        <span>{task.progressPercentage}%</span>
                       </div>
                       <div className="w-full bg-gray-200 rounded-full h-2">
                         <div
-                          className="bg-primary-600 h-2 rounded-full transition-all duration-300"
-                          style={{ width: `${task.progress}%` }}
+                          className="bg-primary-600 h-2 rounded-full transition-[width] duration-700 ease-out"
+                          style={{ width: `${task.progressPercentage}%` }}
                         ></div>
                       </div>
+                      <div className="mt-1 text-right">
+                        <TaskEta task={task} />
+                      </div>
                     </div>
                   )}
 
                   {/* Actions */}
                   <div className="flex space-x-2">
-                    {task.status === 'RUNNING' && (
+                    <button
+                      onClick={() => setSelectedTaskId(task.id)}
+                      className="p-2 text-gray-600 hover:bg-gray-100 rounded-md transition-colors duration-200"
+                      title="Task Details"
+                    >
+                      <DocumentMagnifyingGlassIcon className="w-4 h-4" />
+                    </button>
+
+                    {canPause(task) && (
+                      <button
+                        onClick={() => handlePauseTask(task.id)}
+                        className="p-2 text-orange-600 hover:bg-orange-50 rounded-md transition-colors duration-200"
+                        title="Pause Task"
+                      >
+                        <PauseIcon className="w-4 h-4" />
+                      </button>
+                    )}
+
+                    {task.status === 'PAUSED' && (
+                      <button
+                        onClick={() => handleResumeTask(task.id)}
+                        className="p-2 text-green-600 hover:bg-green-50 rounded-md transition-colors duration-200"
+                        title="Resume Task"
+                      >
+                        <PlayIcon className="w-4 h-4" />
+                      </button>
+                    )}
+
+                    {ACTIVE_STATUSES.includes(task.status) && (
                       <button
                         onClick={() => handleCancelTask(task.id)}
                         className="p-2 text-red-600 hover:bg-red-50 rounded-md transition-colors duration-200"
@@ -347,10 +494,25 @@ export default function Tasks() {
                   </div>
                 </div>
               </div>
+
+              {task.type === 'PIPELINE' && expandedPipelines.has(task.id) && (
+                <div className="mt-4 pt-4 border-t border-gray-200">
+                  <PipelineSteps taskId={task.id} onOpenTask={setSelectedTaskId} />
+                </div>
+              )}
             </div>
           ))
         )}
       </div>
+
+      {selectedTaskId && (
+        <TaskDetailDrawer
+          key={selectedTaskId}
+          taskId={selectedTaskId}
+          onClose={closeDrawer}
+          onOpenTask={setSelectedTaskId}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
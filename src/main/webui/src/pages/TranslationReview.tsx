@@ -0,0 +1,292 @@
+import { useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { format } from 'date-fns';
+import {
+  ArrowLeftIcon,
+  CheckBadgeIcon,
+  CheckIcon,
+  ExclamationTriangleIcon,
+  FlagIcon,
+  PencilSquareIcon,
+  XCircleIcon,
+} from '@heroicons/react/24/outline';
+import { useQuery } from '../hooks/useQuery';
+import { queries, reviewMutations } from '../services/queries';
+import type { CueDecision, CueDecisionRequest, ReviewCue } from '../services/api';
+import { formatEnumLabel } from '../services/models';
+import ReviewStatusBadge from '../components/ReviewStatusBadge';
+import { formatTimestamp } from '../utils/format';
+
+const DECISION_COLORS: Record<CueDecision, string> = {
+  PENDING: 'bg-gray-100 text-gray-700',
+  ACCEPTED: 'bg-green-100 text-green-800',
+  EDITED: 'bg-blue-100 text-blue-800',
+  FLAGGED: 'bg-red-100 text-red-800',
+};
+
+type CueFilter = 'all' | 'open' | 'flagged' | 'resolved';
+
+const FILTERS: { value: CueFilter; label: string; matches: (cue: ReviewCue) => boolean }[] = [
+  { value: 'all', label: 'All', matches: () => true },
+  { value: 'open', label: 'Unresolved', matches: cue => cue.decision === 'PENDING' || cue.decision === 'FLAGGED' },
+  { value: 'flagged', label: 'Flagged', matches: cue => cue.decision === 'FLAGGED' },
+  { value: 'resolved', label: 'Resolved', matches: cue => cue.decision === 'ACCEPTED' || cue.decision === 'EDITED' },
+];
+
+interface CueRowProps {
+  cue: ReviewCue;
+  showSource: boolean;
+  onDecide: (request: CueDecisionRequest) => Promise<string | undefined>;
+}
+
+function CueRow({ cue, showSource, onDecide }: CueRowProps) {
+  const [mode, setMode] = useState<'view' | 'edit' | 'flag'>('view');
+  const [draft, setDraft] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const decide = async (request: CueDecisionRequest) => {
+    setSaving(true);
+    setError(null);
+    const failure = await onDecide(request);
+    setSaving(false);
+    if (failure) {
+      setError(failure);
+    } else {
+      setMode('view');
+    }
+  };
+
+  const startEdit = () => {
+    setDraft(cue.targetText);
+    setMode('edit');
+  };
+
+  const startFlag = () => {
+    setDraft(cue.note ?? '');
+    setMode('flag');
+  };
+
+  return (
+    <li className={`grid gap-4 px-4 py-3 ${showSource ? 'grid-cols-[7rem_1fr_1fr_auto]' : 'grid-cols-[7rem_1fr_auto]'}`}>
+      <div className="text-xs font-mono text-gray-500">
+        <div className="text-gray-400">#{cue.index + 1}</div>
+        <div>{formatTimestamp(cue.startMs)}</div>
+        <div>{formatTimestamp(cue.endMs)}</div>
+      </div>
+
+      {showSource && <p className="text-sm text-gray-600 whitespace-pre-line">{cue.sourceText ?? <span className="italic text-gray-400">No source cue</span>}</p>}
+
+      <div className="min-w-0">
+        {mode === 'edit' ? (
+          <textarea
+            value={draft}
+            onChange={e => setDraft(e.target.value)}
+            rows={3}
+            autoFocus
+            aria-label={`Translation of cue ${cue.index + 1}`}
+            className="block w-full px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-primary-500 focus:border-primary-500"
+          />
+        ) : (
+          <p className="text-sm text-gray-900 whitespace-pre-line">{cue.targetText}</p>
+        )}
+
+        {mode === 'flag' && (
+          <input
+            type="text"
+            value={draft}
+            onChange={e => setDraft(e.target.value)}
+            placeholder="What is wrong with this cue? (optional)"
+            autoFocus
+            className="mt-2 block w-full px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-red-500 focus:border-red-500"
+          />
+        )}
+        {mode === 'view' && cue.decision === 'FLAGGED' && cue.note && (
+          <p className="mt-1 text-xs text-red-600">Flagged: {cue.note}</p>
+        )}
+        {error && <p className="mt-1 text-xs text-red-600">{error}</p>}
+      </div>
+
+      <div className="flex flex-col items-end space-y-2">
+        <span className={`px-2 py-0.5 text-xs font-medium rounded-full ${DECISION_COLORS[cue.decision]}`}>
+          {formatEnumLabel(cue.decision)}
+        </span>
+
+        {mode === 'view' ? (
+          <div className="flex space-x-1">
+            <button
+              onClick={() => decide({ decision: 'ACCEPTED' })}
+              disabled={saving || cue.decision === 'ACCEPTED'}
+              className="p-1.5 text-green-600 hover:bg-green-50 rounded-md disabled:opacity-30 disabled:cursor-not-allowed"
+              title="Accept"
+            >
+              <CheckIcon className="w-4 h-4" />
+            </button>
+            <button onClick={startEdit} disabled={saving} className="p-1.5 text-blue-600 hover:bg-blue-50 rounded-md" title="Edit">
+              <PencilSquareIcon className="w-4 h-4" />
+            </button>
+            <button onClick={startFlag} disabled={saving} className="p-1.5 text-red-600 hover:bg-red-50 rounded-md" title="Flag">
+              <FlagIcon className="w-4 h-4" />
+            </button>
+          </div>
+        ) : (
+          <div className="flex space-x-2">
+            <button onClick={() => setMode('view')} disabled={saving} className="text-xs text-gray-500 hover:text-gray-700">
+              Cancel
+            </button>
+            <button
+              onClick={() =>
+                decide(mode === 'edit' ? { decision: 'EDITED', text: draft } : { decision: 'FLAGGED', note: draft })
+              }
+              disabled={saving || (mode === 'edit' && !draft.trim())}
+              className="text-xs font-medium text-primary-600 hover:text-primary-700 disabled:opacity-50"
+            >
+              {saving ? 'Saving…' : mode === 'edit' ? 'Save' : 'Flag'}
+            </button>
+          </div>
+        )}
+      </div>
+    </li>
+  );
+}
+
+export default function TranslationReview() {
+  const { id = '' } = useParams<{ id: string }>();
+  const [filter, setFilter] = useState<CueFilter>('open');
+
+  const reviewQuery = useQuery(queries.review(id));
+  const detail = reviewQuery.data;
+
+  if (reviewQuery.isLoading) {
+    return (
+      <div className="space-y-6">
+        <div className="h-5 bg-gray-200 rounded w-24 animate-pulse" />
+        <div className="card animate-pulse">
+          <div className="h-7 bg-gray-200 rounded w-1/2 mb-6" />
+          {[...Array(6)].map((_, i) => (
+            <div key={i} className="h-16 bg-gray-100 rounded mb-2" />
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  if (!detail) {
+    return (
+      <div className="space-y-6">
+        <Link to="/reviews" className="inline-flex items-center text-sm text-gray-500 hover:text-gray-700">
+          <ArrowLeftIcon className="w-4 h-4 mr-1" />
+          Reviews
+        </Link>
+        <div className="card">
+          <div className="text-center py-8">
+            <XCircleIcon className="w-12 h-12 text-red-500 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">Error Loading Review</h3>
+            <p className="text-gray-500 mb-4">{reviewQuery.error}</p>
+            <button onClick={reviewQuery.refetch} className="btn-primary">
+              Retry
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const { review, cues, hasSource } = detail;
+  const resolved = review.acceptedCount + review.editedCount;
+  const percent = review.cueCount > 0 ? Math.round((resolved / review.cueCount) * 100) : 0;
+  const matches = FILTERS.find(f => f.value === filter)!.matches;
+  const visibleCues = cues.filter(matches);
+
+  const decide = async (cue: ReviewCue, request: CueDecisionRequest) => {
+    const response = await reviewMutations.decide(id, cue.index, request);
+    return response.error;
+  };
+
+  return (
+    <div className="space-y-6">
+      <Link to="/reviews" className="inline-flex items-center text-sm text-gray-500 hover:text-gray-700">
+        <ArrowLeftIcon className="w-4 h-4 mr-1" />
+        Reviews
+      </Link>
+
+      <div className="card">
+        <div className="flex items-start justify-between gap-6">
+          <div className="min-w-0">
+            <div className="flex items-center space-x-3">
+              <h2 className="text-xl font-semibold text-gray-900 truncate">{review.videoTitle}</h2>
+              <ReviewStatusBadge status={review.status} />
+            </div>
+            <p className="mt-1 text-sm text-gray-500">
+              {review.targetLanguage ? `${review.language} → ${review.targetLanguage}` : review.language}
+              {review.confidence != null && ` · ${Math.round(review.confidence * 100)}% confidence`}
+              {review.reason && ` · ${review.reason}`}
+            </p>
+          </div>
+          <Link to={`/videos/${review.videoId}`} className="btn-secondary flex-shrink-0">
+            Open Video
+          </Link>
+        </div>
+
+        <div className="mt-4">
+          <div className="flex justify-between text-sm text-gray-600 mb-1">
+            <span>
+              {resolved} of {review.cueCount} cues resolved
+              {review.editedCount > 0 && ` · ${review.editedCount} edited`}
+            </span>
+            {review.flaggedCount > 0 && <span className="text-red-600">{review.flaggedCount} flagged</span>}
+          </div>
+          <div className="w-full bg-gray-200 rounded-full h-2">
+            <div className="bg-primary-600 h-2 rounded-full transition-all duration-300" style={{ width: `${percent}%` }} />
+          </div>
+        </div>
+
+        {review.status === 'APPROVED' && (
+          <div className="mt-4 flex items-center p-3 rounded-md bg-green-50 text-sm text-green-800">
+            <CheckBadgeIcon className="w-5 h-5 mr-2 flex-shrink-0" />
+            Approved
+            {review.approvedBy && ` by ${review.approvedBy}`}
+            {review.approvedAt && ` on ${format(new Date(review.approvedAt), 'MMM dd, yyyy HH:mm')}`}
+          </div>
+        )}
+        {!hasSource && (
+          <div className="mt-4 flex items-center p-3 rounded-md bg-yellow-50 text-sm text-yellow-800">
+            <ExclamationTriangleIcon className="w-5 h-5 mr-2 flex-shrink-0" />
+            The original subtitle file could not be found, so only the translation is shown.
+          </div>
+        )}
+      </div>
+
+      <div className="card p-0">
+        <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200">
+          <div className="flex space-x-2">
+            {FILTERS.map(f => (
+              <button
+                key={f.value}
+                onClick={() => setFilter(f.value)}
+                className={`px-3 py-1 text-sm rounded-full ${
+                  filter === f.value ? 'bg-primary-100 text-primary-700 font-medium' : 'text-gray-600 hover:bg-gray-100'
+                }`}
+              >
+                {f.label} ({cues.filter(f.matches).length})
+              </button>
+            ))}
+          </div>
+          {hasSource && (
+            <div className="hidden md:flex text-xs font-medium text-gray-500 uppercase tracking-wider">Source · Translation</div>
+          )}
+        </div>
+
+        {visibleCues.length === 0 ? (
+          <p className="px-4 py-8 text-center text-sm text-gray-500">No cues match this filter.</p>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {visibleCues.map(cue => (
+              <CueRow key={cue.index} cue={cue} showSource={hasSource} onDecide={request => decide(cue, request)} />
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
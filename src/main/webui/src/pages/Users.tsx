@@ -0,0 +1,346 @@
+import { useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { KeyIcon, PlusIcon, UsersIcon, XCircleIcon } from '@heroicons/react/24/outline';
+import { useAuth } from '../contexts/AuthContext';
+import { useQuery } from '../hooks/useQuery';
+import { queries, userMutations } from '../services/queries';
+import type { UserRole, UserView } from '../services/api';
+import { USER_ROLES, formatEnumLabel } from '../services/models';
+
+const ROLE_DESCRIPTIONS: Record<UserRole, string> = {
+  ADMIN: 'Everything, including users and schedules',
+  USER: 'Browse the library and run tasks, pipelines and reviews',
+  VIEWER: 'Browse the library and follow tasks, without changing anything',
+};
+
+// Mirrors UserService.MIN_PASSWORD_LENGTH
+const MIN_PASSWORD_LENGTH = 8;
+
+const INPUT_CLASS =
+  'mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-1 focus:ring-primary-500 focus:border-primary-500';
+
+interface UserDraft {
+  username: string;
+  email: string;
+  password: string;
+  role: UserRole;
+}
+
+const EMPTY_DRAFT: UserDraft = { username: '', email: '', password: '', role: 'USER' };
+
+function UserForm({ onCancel, onSaved }: { onCancel: () => void; onSaved: () => void }) {
+  const [draft, setDraft] = useState<UserDraft>(EMPTY_DRAFT);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const update = (changes: Partial<UserDraft>) => setDraft(current => ({ ...current, ...changes }));
+
+  const invalid =
+    draft.username.trim().length < 3
+      ? 'Usernames need at least 3 characters'
+      : draft.password.length < MIN_PASSWORD_LENGTH
+        ? `Passwords need at least ${MIN_PASSWORD_LENGTH} characters`
+        : null;
+
+  const submit = async () => {
+    if (invalid) return;
+    setSaving(true);
+    setError(null);
+    const response = await userMutations.create({
+      username: draft.username.trim(),
+      email: draft.email.trim() || null,
+      password: draft.password,
+      role: draft.role,
+    });
+    setSaving(false);
+    if (response.error) {
+      setError(response.error);
+    } else {
+      onSaved();
+    }
+  };
+
+  return (
+    <form
+      className="card space-y-4"
+      onSubmit={e => {
+        e.preventDefault();
+        submit();
+      }}
+    >
+      <h3 className="text-lg font-medium text-gray-900">New user</h3>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <label className="block text-sm font-medium text-gray-700">
+          Username
+          <input
+            type="text"
+            value={draft.username}
+            maxLength={50}
+            autoComplete="off"
+            onChange={e => update({ username: e.target.value })}
+            className={INPUT_CLASS}
+          />
+        </label>
+        <label className="block text-sm font-medium text-gray-700">
+          Email <span className="font-normal text-gray-500">(optional)</span>
+          <input
+            type="email"
+            value={draft.email}
+            maxLength={100}
+            onChange={e => update({ email: e.target.value })}
+            className={INPUT_CLASS}
+          />
+        </label>
+        <label className="block text-sm font-medium text-gray-700">
+          Password
+          <input
+            type="password"
+            value={draft.password}
+            autoComplete="new-password"
+            onChange={e => update({ password: e.target.value })}
+            className={INPUT_CLASS}
+          />
+        </label>
+        <label className="block text-sm font-medium text-gray-700">
+          Role
+          <select value={draft.role} onChange={e => update({ role: e.target.value as UserRole })} className={INPUT_CLASS}>
+            {USER_ROLES.map(role => (
+              <option key={role} value={role}>{formatEnumLabel(role)}</option>
+            ))}
+          </select>
+          <span className="mt-1 block text-xs font-normal text-gray-500">{ROLE_DESCRIPTIONS[draft.role]}</span>
+        </label>
+      </div>
+
+      {invalid && <p className="text-xs text-gray-500">{invalid}</p>}
+      {error && <p className="text-sm text-red-600">Could not create the user: {error}</p>}
+
+      <div className="flex justify-end space-x-3">
+        <button type="button" onClick={onCancel} disabled={saving} className="btn-secondary">
+          Cancel
+        </button>
+        <button type="submit" disabled={saving || invalid !== null} className="btn-primary">
+          {saving ? 'Creating…' : 'Create user'}
+        </button>
+      </div>
+    </form>
+  );
+}
+
+// Inline form under a user's row; the new password is typed by the admin and handed over out of band
+function PasswordReset({ user, onDone }: { user: UserView; onDone: (message: string | null) => void }) {
+  const [password, setPassword] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const submit = async () => {
+    setSaving(true);
+    setError(null);
+    const response = await userMutations.resetPassword(user.id, { password });
+    setSaving(false);
+    if (response.error) {
+      setError(response.error);
+    } else {
+      onDone(`Set a new password for ${user.username}`);
+    }
+  };
+
+  return (
+    <form
+      className="flex flex-wrap items-center gap-2"
+      onSubmit={e => {
+        e.preventDefault();
+        submit();
+      }}
+    >
+      <input
+        type="password"
+        value={password}
+        autoComplete="new-password"
+        onChange={e => setPassword(e.target.value)}
+        placeholder={`New password for ${user.username}`}
+        className="w-64 px-3 py-1.5 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-1 focus:ring-primary-500 focus:border-primary-500"
+        aria-label={`New password for ${user.username}`}
+      />
+      <button type="submit" disabled={saving || password.length < MIN_PASSWORD_LENGTH} className="btn-primary text-sm">
+        {saving ? 'Saving…' : 'Set password'}
+      </button>
+      <button type="button" onClick={() => onDone(null)} disabled={saving} className="btn-secondary text-sm">
+        Cancel
+      </button>
+      {error && <span className="text-sm text-red-600">{error}</span>}
+    </form>
+  );
+}
+
+export default function Users() {
+  const { user: currentUser } = useAuth();
+  const usersQuery = useQuery(queries.users());
+  const users = usersQuery.data ?? [];
+  const error = usersQuery.data ? null : usersQuery.error;
+
+  const [creating, setCreating] = useState(false);
+  const [resettingId, setResettingId] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [outcome, setOutcome] = useState<{ message: string; error: boolean } | null>(null);
+
+  const update = async (user: UserView, changes: { role?: UserRole; active?: boolean }) => {
+    setBusyId(user.id);
+    setOutcome(null);
+    const response = await userMutations.update(user.id, changes);
+    setBusyId(null);
+    if (response.error) setOutcome({ message: response.error, error: true });
+  };
+
+  const deactivate = (user: UserView) => {
+    if (!window.confirm(`Deactivate ${user.username}? They will not be able to sign in until reactivated.`)) return;
+    update(user, { active: false });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">Users</h2>
+          <p className="text-gray-600">Accounts that can sign in, and what each of them may do.</p>
+        </div>
+        {!creating && (
+          <button onClick={() => setCreating(true)} className="btn-primary flex items-center space-x-2">
+            <PlusIcon className="w-4 h-4" />
+            <span>New user</span>
+          </button>
+        )}
+      </div>
+
+      {creating && <UserForm onCancel={() => setCreating(false)} onSaved={() => setCreating(false)} />}
+
+      {outcome && (
+        <div className={`p-3 rounded-md text-sm ${outcome.error ? 'bg-red-50 text-red-800' : 'bg-green-50 text-green-800'}`}>
+          {outcome.message}{' '}
+          <button onClick={() => setOutcome(null)} className="font-medium underline">Dismiss</button>
+        </div>
+      )}
+
+      <div className="card">
+        {usersQuery.isLoading ? (
+          <div className="space-y-2">
+            {[...Array(3)].map((_, i) => (
+              <div key={i} className="h-12 bg-gray-100 rounded animate-pulse" />
+            ))}
+          </div>
+        ) : error ? (
+          <div className="text-center py-8">
+            <XCircleIcon className="w-12 h-12 text-red-500 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">Error Loading Users</h3>
+            <p className="text-gray-500 mb-4">{error}</p>
+            <button onClick={usersQuery.refetch} className="btn-primary">
+              Retry
+            </button>
+          </div>
+        ) : users.length === 0 ? (
+          <div className="text-center py-12">
+            <UsersIcon className="mx-auto h-12 w-12 text-gray-400" />
+            <h3 className="mt-2 text-sm font-medium text-gray-900">No users</h3>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  {['User', 'Role', 'Status', 'Last sign-in', ''].map(heading => (
+                    <th key={heading} scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      {heading}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {users.map(user => {
+                  const busy = busyId === user.id;
+                  // Admins cannot demote or lock out themselves; the server refuses it too
+                  const self = user.username === currentUser?.username;
+                  return (
+                    <tr key={user.id} className={user.active ? '' : 'bg-gray-50'}>
+                      <td className="px-4 py-3">
+                        <p className="text-sm font-medium text-gray-900">
+                          {user.username}
+                          {self && <span className="ml-2 text-xs font-normal text-gray-500">(you)</span>}
+                        </p>
+                        {user.email && <p className="text-xs text-gray-500">{user.email}</p>}
+                        {resettingId === user.id && (
+                          <div className="mt-2">
+                            <PasswordReset
+                              user={user}
+                              onDone={message => {
+                                setResettingId(null);
+                                if (message) setOutcome({ message, error: false });
+                              }}
+                            />
+                          </div>
+                        )}
+                      </td>
+                      <td className="px-4 py-3 whitespace-nowrap">
+                        <select
+                          value={user.role}
+                          disabled={busy || self}
+                          onChange={e => update(user, { role: e.target.value as UserRole })}
+                          className="px-2 py-1 border border-gray-300 rounded-md text-sm disabled:bg-gray-50"
+                          aria-label={`Role of ${user.username}`}
+                        >
+                          {USER_ROLES.map(role => (
+                            <option key={role} value={role}>{formatEnumLabel(role)}</option>
+                          ))}
+                        </select>
+                      </td>
+                      <td className="px-4 py-3 whitespace-nowrap text-sm">
+                        {user.active ? (
+                          <span className="text-green-700">Active</span>
+                        ) : (
+                          <span className="text-gray-500">Deactivated</span>
+                        )}
+                      </td>
+                      <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-600">
+                        {user.lastLoginAt ? formatDistanceToNow(new Date(user.lastLoginAt), { addSuffix: true }) : 'Never'}
+                      </td>
+                      <td className="px-4 py-3 whitespace-nowrap text-right">
+                        <div className="flex justify-end items-center space-x-3">
+                          <button
+                            onClick={() => setResettingId(user.id)}
+                            disabled={busy}
+                            className="p-1 text-gray-400 hover:text-gray-600 disabled:opacity-50"
+                            title="Reset password"
+                          >
+                            <KeyIcon className="w-5 h-5" />
+                          </button>
+                          {!self && (
+                            user.active ? (
+                              <button
+                                onClick={() => deactivate(user)}
+                                disabled={busy}
+                                className="text-sm text-red-600 hover:text-red-700 disabled:opacity-50"
+                              >
+                                Deactivate
+                              </button>
+                            ) : (
+                              <button
+                                onClick={() => update(user, { active: true })}
+                                disabled={busy}
+                                className="text-sm text-primary-600 hover:text-primary-700 disabled:opacity-50"
+                              >
+                                Reactivate
+                              </button>
+                            )
+                          )}
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
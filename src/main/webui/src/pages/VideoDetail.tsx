@@ -0,0 +1,399 @@
+import { useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { format, formatDistanceToNow } from 'date-fns';
+import {
+  ArrowLeftIcon,
+  ArrowPathIcon,
+  DocumentArrowDownIcon,
+  ExclamationTriangleIcon,
+  LanguageIcon,
+  PlayIcon,
+  SparklesIcon,
+  XCircleIcon,
+} from '@heroicons/react/24/outline';
+import { useQuery } from '../hooks/useQuery';
+import { queries, reviewMutations, taskMutations } from '../services/queries';
+import type { ApiResponse, Subtitle, Task, TaskType } from '../services/api';
+import { formatEnumLabel } from '../services/models';
+import PipelineRunner from '../components/PipelineRunner';
+import SyncStatusBadge from '../components/SyncStatusBadge';
+import TaskStatusBadge from '../components/TaskStatusBadge';
+import VideoPlayer from '../components/VideoPlayer';
+import { formatBitrate, formatDuration, formatFileSize } from '../utils/format';
+
+const ACTIVE_STATUSES = new Set(['PENDING', 'SCHEDULED', 'RUNNING', 'PAUSED']);
+
+type Action = 'extract' | 'generate' | 'sync' | 'translate' | 'review';
+
+export default function VideoDetail() {
+  const { id = '' } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const [pendingAction, setPendingAction] = useState<Action | null>(null);
+  const [actionResult, setActionResult] = useState<{ error: boolean; message: string } | null>(null);
+  // The player starts streaming (or transcoding) as soon as it mounts, so it waits for a click
+  const [showPlayer, setShowPlayer] = useState(false);
+
+  const videoQuery = useQuery(queries.video(id));
+  const subtitlesQuery = useQuery(queries.videoSubtitles(id));
+  const tasksQuery = useQuery(queries.videoTasks(id));
+  const { data: settings } = useQuery(queries.settings());
+
+  const video = videoQuery.data;
+  const subtitles = subtitlesQuery.data ?? [];
+  const tasks = tasksQuery.data ?? [];
+
+  // Translate the configured source language when the video has it, otherwise any
+  // subtitle that is not already in the target language
+  const targetLanguage = settings?.defaultTargetLanguage ?? 'el';
+  const translationSource =
+    subtitles.find(s => s.language === settings?.defaultSourceLanguage) ??
+    subtitles.find(s => s.language !== targetLanguage);
+
+  const isActive = (type: TaskType) => tasks.some(task => task.type === type && ACTIVE_STATUSES.has(task.status));
+
+  const runAction = async (action: Action, label: string, request: () => Promise<ApiResponse<Task>>) => {
+    setPendingAction(action);
+    setActionResult(null);
+    const response = await request();
+    setPendingAction(null);
+    setActionResult(
+      response.error
+        ? { error: true, message: `${label} failed: ${response.error}` }
+        : { error: false, message: `${label} queued` }
+    );
+  };
+
+  const translate = (subtitle: Subtitle) =>
+    runAction('translate', `Translation to ${targetLanguage}`, () =>
+      taskMutations.createTranslation(subtitle.id, targetLanguage, settings?.aiProvider.toLowerCase())
+    );
+
+  const review = async (subtitle: Subtitle) => {
+    setPendingAction('review');
+    setActionResult(null);
+    const response = await reviewMutations.open(subtitle.id);
+    setPendingAction(null);
+    if (response.data) {
+      navigate(`/reviews/${response.data.id}`);
+    } else {
+      setActionResult({ error: true, message: `Opening the review failed: ${response.error}` });
+    }
+  };
+
+  if (videoQuery.isLoading) {
+    return (
+      <div className="space-y-6">
+        <div className="h-5 bg-gray-200 rounded w-24 animate-pulse" />
+        <div className="card animate-pulse">
+          <div className="h-7 bg-gray-200 rounded w-1/2 mb-3" />
+          <div className="h-4 bg-gray-200 rounded w-3/4 mb-6" />
+          <div className="grid grid-cols-2 gap-4 sm:grid-cols-4">
+            {[...Array(8)].map((_, i) => (
+              <div key={i} className="h-10 bg-gray-100 rounded" />
+            ))}
+          </div>
+        </div>
+        {[...Array(2)].map((_, i) => (
+          <div key={i} className="card animate-pulse">
+            <div className="h-6 bg-gray-200 rounded w-40 mb-4" />
+            {[...Array(3)].map((_, j) => (
+              <div key={j} className="h-12 bg-gray-100 rounded mb-2" />
+            ))}
+          </div>
+        ))}
+      </div>
+    );
+  }
+
+  if (!video) {
+    return (
+      <div className="space-y-6">
+        <Link to="/videos" className="inline-flex items-center text-sm text-gray-500 hover:text-gray-700">
+          <ArrowLeftIcon className="w-4 h-4 mr-1" />
+          Videos
+        </Link>
+        <div className="card">
+          <div className="text-center py-8">
+            <XCircleIcon className="w-12 h-12 text-red-500 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">Error Loading Video</h3>
+            <p className="text-gray-500 mb-4">{videoQuery.error}</p>
+            <button onClick={videoQuery.refetch} className="btn-primary">
+              Retry
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const metadata: [string, string][] = [
+    ['Duration', video.duration ? formatDuration(video.duration) : 'Unknown'],
+    ['Resolution', video.resolution ?? 'Unknown'],
+    ['Codec', video.codec ?? 'Unknown'],
+    ['Bitrate', video.bitrate ? formatBitrate(video.bitrate) : 'Unknown'],
+    ['File size', video.fileSize ? formatFileSize(video.fileSize) : 'Unknown'],
+    ['Type', video.type ?? 'Unknown'],
+    ['Added', format(new Date(video.createdAt), 'MMM dd, yyyy')],
+    ['Last checked', video.lastChecked ? formatDistanceToNow(new Date(video.lastChecked), { addSuffix: true }) : 'Never'],
+  ];
+
+  const actions: { action: Action; label: string; type: TaskType; icon: typeof SparklesIcon; disabled?: string; run: () => void }[] = [
+    {
+      action: 'extract',
+      label: 'Extract',
+      type: 'EXTRACT_SUBTITLES',
+      icon: DocumentArrowDownIcon,
+      run: () => runAction('extract', 'Extraction', () => taskMutations.createExtraction(video.id)),
+    },
+    {
+      action: 'generate',
+      label: 'Generate',
+      type: 'GENERATE_SUBTITLES',
+      icon: SparklesIcon,
+      run: () => runAction('generate', 'Generation', () => taskMutations.createGeneration(video.id)),
+    },
+    {
+      action: 'sync',
+      label: 'Sync',
+      type: 'SYNC_SUBTITLES',
+      icon: ArrowPathIcon,
+      disabled: subtitles.length === 0 ? 'No subtitles to sync' : undefined,
+      run: () => runAction('sync', 'Sync', () => taskMutations.createSync(video.id)),
+    },
+    {
+      action: 'translate',
+      label: 'Translate',
+      type: 'TRANSLATE_SUBTITLES',
+      icon: LanguageIcon,
+      disabled: translationSource ? undefined : 'No subtitle to translate from',
+      run: () => translationSource && translate(translationSource),
+    },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <Link to="/videos" className="inline-flex items-center text-sm text-gray-500 hover:text-gray-700">
+        <ArrowLeftIcon className="w-4 h-4 mr-1" />
+        Videos
+      </Link>
+
+      {/* Metadata and actions */}
+      <div className="card">
+        <div className="flex items-start justify-between gap-6">
+          <div className="min-w-0">
+            <div className="flex items-center space-x-3">
+              <h2 className="text-xl font-semibold text-gray-900 truncate">{video.title ?? video.path}</h2>
+              {video.isProcessing && (
+                <span className="px-2 py-1 text-xs font-medium rounded-full bg-blue-100 text-blue-800">Processing</span>
+              )}
+            </div>
+            <p className="mt-1 text-sm text-gray-500 break-all">{video.path}</p>
+          </div>
+
+          <div className="flex flex-shrink-0 space-x-2">
+            {actions.map(({ action, label, type, icon: Icon, disabled, run }) => {
+              const running = isActive(type);
+              return (
+                <button
+                  key={action}
+                  onClick={run}
+                  disabled={!!disabled || running || pendingAction !== null}
+                  title={disabled ?? (running ? `A ${formatEnumLabel(type).toLowerCase()} task is already queued` : undefined)}
+                  className="btn-secondary flex items-center space-x-1 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <Icon className={`w-4 h-4 ${pendingAction === action || running ? 'animate-pulse' : ''}`} />
+                  <span>{label}</span>
+                </button>
+              );
+            })}
+          </div>
+        </div>
+
+        {actionResult && (
+          <p className={`mt-4 text-sm ${actionResult.error ? 'text-red-600' : 'text-green-700'}`}>{actionResult.message}</p>
+        )}
+
+        {video.processingError && (
+          <div className="mt-4 flex items-start p-3 rounded-md bg-red-50 text-sm text-red-700">
+            <ExclamationTriangleIcon className="w-5 h-5 mr-2 flex-shrink-0" />
+            <span className="break-words">{video.processingError}</span>
+          </div>
+        )}
+
+        <dl className="mt-6 grid grid-cols-2 gap-4 sm:grid-cols-4">
+          {metadata.map(([label, value]) => (
+            <div key={label}>
+              <dt className="text-xs font-medium text-gray-500 uppercase tracking-wider">{label}</dt>
+              <dd className="mt-1 text-sm text-gray-900">{value}</dd>
+            </div>
+          ))}
+        </dl>
+      </div>
+
+      {/* Preview */}
+      <div className="card">
+        <div className="flex items-center justify-between">
+          <h3 className="text-lg font-medium text-gray-900">Preview</h3>
+          {!showPlayer && (
+            <button onClick={() => setShowPlayer(true)} className="btn-secondary flex items-center space-x-1">
+              <PlayIcon className="w-4 h-4" />
+              <span>Open Player</span>
+            </button>
+          )}
+        </div>
+        {showPlayer && (
+          <div className="mt-4">
+            <VideoPlayer videoId={video.id} subtitles={subtitles} />
+          </div>
+        )}
+      </div>
+
+      {/* Subtitles */}
+      <div className="card">
+        <h3 className="text-lg font-medium text-gray-900 mb-4">Subtitles</h3>
+        {subtitlesQuery.isLoading ? (
+          <div className="h-24 bg-gray-100 rounded animate-pulse" />
+        ) : subtitlesQuery.error && !subtitlesQuery.data ? (
+          <p className="text-sm text-red-600">{subtitlesQuery.error}</p>
+        ) : subtitles.length === 0 ? (
+          <p className="text-sm text-gray-500">No subtitles yet. Extract embedded tracks or generate them from the audio.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  {['Language', 'Type', 'Sync', 'Confidence', 'Lines', 'Source', ''].map(heading => (
+                    <th key={heading} scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      {heading}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {subtitles.map(subtitle => (
+                  <tr key={subtitle.id}>
+                    <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-900">
+                      {subtitle.languageDisplayName ?? subtitle.language}
+                      <span className="ml-1 text-xs text-gray-500">({subtitle.language})</span>
+                    </td>
+                    <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-500">
+                      {formatEnumLabel(subtitle.type)}
+                      {subtitle.isForced && <span className="ml-1 text-xs">(forced)</span>}
+                    </td>
+                    <td className="px-4 py-3 whitespace-nowrap">
+                      <SyncStatusBadge status={subtitle.syncStatus} />
+                    </td>
+                    <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-500">
+                      {subtitle.confidence != null ? `${Math.round(subtitle.confidence * 100)}%` : '—'}
+                    </td>
+                    <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-500">{subtitle.lineCount ?? '—'}</td>
+                    <td className="px-4 py-3 text-sm text-gray-500 break-all">
+                      {subtitle.filePath ?? `Stream #${subtitle.streamIndex ?? '?'}`}
+                    </td>
+                    <td className="px-4 py-3 whitespace-nowrap text-right space-x-3">
+                      {subtitle.filePath && (
+                        <Link
+                          to={`/subtitles/${subtitle.id}`}
+                          className="text-sm font-medium text-primary-600 hover:text-primary-700"
+                        >
+                          Edit
+                        </Link>
+                      )}
+                      {subtitle.filePath && (
+                        <Link
+                          to={`/subtitles/${subtitle.id}/timing`}
+                          className="text-sm font-medium text-primary-600 hover:text-primary-700"
+                        >
+                          Timing
+                        </Link>
+                      )}
+                      {(subtitle.translatedFilePath || subtitle.translatedAt) && (
+                        <button
+                          onClick={() => review(subtitle)}
+                          disabled={pendingAction !== null}
+                          className="text-sm font-medium text-primary-600 hover:text-primary-700 disabled:opacity-50"
+                        >
+                          Review
+                        </button>
+                      )}
+                      {subtitle.language !== targetLanguage && (
+                        <button
+                          onClick={() => translate(subtitle)}
+                          disabled={pendingAction !== null}
+                          className="text-sm font-medium text-primary-600 hover:text-primary-700 disabled:opacity-50"
+                        >
+                          Translate
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {/* Pipelines */}
+      <div className="card">
+        <h3 className="text-lg font-medium text-gray-900 mb-4">Pipelines</h3>
+        <PipelineRunner videoId={video.id} />
+      </div>
+
+      {/* Task history */}
+      <div className="card">
+        <h3 className="text-lg font-medium text-gray-900 mb-4">Task History</h3>
+        {tasksQuery.isLoading ? (
+          <div className="h-24 bg-gray-100 rounded animate-pulse" />
+        ) : tasksQuery.error && !tasksQuery.data ? (
+          <p className="text-sm text-red-600">{tasksQuery.error}</p>
+        ) : tasks.length === 0 ? (
+          <p className="text-sm text-gray-500">No tasks have run for this video.</p>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {tasks.map(task => (
+              <li key={task.id} className="py-3 flex items-center justify-between gap-4">
+                <div className="min-w-0">
+                  <div className="flex items-center space-x-3">
+                    <span className="text-sm font-medium text-gray-900">{formatEnumLabel(task.type)}</span>
+                    <TaskStatusBadge status={task.status} />
+                  </div>
+                  {task.progressMessage && <p className="mt-1 text-sm text-gray-600">{task.progressMessage}</p>}
+                  {task.errorMessage && <p className="mt-1 text-sm text-red-600 break-words">{task.errorMessage}</p>}
+                  <p className="mt-1 text-xs text-gray-500">
+                    {formatDistanceToNow(new Date(task.createdAt), { addSuffix: true })}
+                    {task.completedAt && ` · finished ${formatDistanceToNow(new Date(task.completedAt), { addSuffix: true })}`}
+                  </p>
+                </div>
+
+                {task.status === 'RUNNING' && (
+                  <div className="w-32 flex-shrink-0">
+                    <div className="flex justify-between text-xs text-gray-600 mb-1">
+                      <span>Progress</span>
+                      <span>{task.progressPercentage}%</span>
+                    </div>
+                    <div className="w-full bg-gray-200 rounded-full h-2">
+                      <div
+                        className="bg-primary-600 h-2 rounded-full transition-all duration-300"
+                        style={{ width: `${task.progressPercentage}%` }}
+                      />
+                    </div>
+                  </div>
+                )}
+                {task.status === 'FAILED' && (
+                  <button
+                    onClick={() => taskMutations.retry(task.id)}
+                    className="p-2 text-blue-600 hover:bg-blue-50 rounded-md transition-colors duration-200"
+                    title="Retry Task"
+                  >
+                    <ArrowPathIcon className="w-4 h-4" />
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,50 +1,113 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
 import { format } from 'date-fns';
 import {
   PlayIcon,
   DocumentTextIcon,
-  EllipsisVerticalIcon,
   MagnifyingGlassIcon,
   FunnelIcon,
   PlusIcon,
   XCircleIcon,
+  ArrowPathIcon,
 } from '@heroicons/react/24/outline';
 import { videoApi } from '../services/api';
-import type { Video } from '../services/api';
+import type { TaskTiming, TaskType, VideoPage, VideoSortField, VideoView } from '../services/api';
+import { queries, queryKeys, taskMutations, unwrap } from '../services/queries';
+import { useInfiniteQuery, useQuery } from '../hooks/useQuery';
+import { useVirtualRows } from '../hooks/useVirtualRows';
+import { formatDuration } from '../utils/format';
+import ActionOutcomeBadge from '../components/ActionOutcome';
+import type { ActionOutcome } from '../components/ActionOutcome';
+import BatchActionBar from '../components/BatchActionBar';
+import VideoActionMenu from '../components/VideoActionMenu';
+
+const PAGE_SIZE = 100;
+const ROW_HEIGHT = 73;
+// Start fetching the next page this many rows before the end of what is loaded
+const LOAD_AHEAD = 30;
+const SEARCH_DEBOUNCE_MS = 300;
+
+// A selection belongs to the search it was made under; "all matching" reaches past the loaded pages
+interface Selection {
+  search: string;
+  ids: Set<string>;
+  allMatching: boolean;
+}
+
+const emptySelection = (search: string): Selection => ({ search, ids: new Set(), allMatching: false });
 
 export default function Videos() {
-  const [videos, setVideos] = useState<Video[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const navigate = useNavigate();
   const [searchTerm, setSearchTerm] = useState('');
-  const [sortBy, setSortBy] = useState<'title' | 'createdAt' | 'duration'>('createdAt');
+  const [search, setSearch] = useState('');
+  const [sortBy, setSortBy] = useState<VideoSortField>('createdAt');
   const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('desc');
+  const [selection, setSelection] = useState<Selection>(() => emptySelection(''));
+  // The last action taken from each row's menu
+  const [outcomes, setOutcomes] = useState<Record<string, ActionOutcome>>({});
 
-  useEffect(() => {
-    const fetchVideos = async () => {
-      setLoading(true);
-      setError(null);
+  const listQuery = { size: PAGE_SIZE, sort: sortBy, order: sortOrder, search };
+  const {
+    pages,
+    error,
+    isLoading,
+    isFetching,
+    isPreviousData,
+    refetch,
+    hasNextPage,
+    fetchNextPage,
+    isFetchingNextPage,
+    nextPageError,
+  } = useInfiniteQuery<VideoPage>(
+    queryKeys.videos.list(listQuery),
+    pageIndex => unwrap(videoApi.getVideos({ ...listQuery, page: pageIndex })),
+    loaded => {
+      const last = loaded[loaded.length - 1];
+      const count = loaded.reduce((sum, page) => sum + page.items.length, 0);
+      return last.items.length === PAGE_SIZE && count < last.total;
+    },
+    // Keeps the current rows on screen while a new search or sort loads
+    { keepPreviousData: true }
+  );
+  const { data: totals } = useQuery(queries.videoTotals());
 
-      try {
-        const response = await videoApi.getVideos(0, 100); // Get first 100 videos
-        
-        if (response.error) {
-          throw new Error(response.error);
-        }
+  // Rows added or removed between page loads can shift page boundaries
+  const videos = useMemo(() => {
+    const seen = new Set<string>();
+    return (pages ?? []).flatMap(page => page.items).filter(video => {
+      if (seen.has(video.id)) return false;
+      seen.add(video.id);
+      return true;
+    });
+  }, [pages]);
+  const total = pages?.[pages.length - 1].total ?? 0;
+  const updating = isPreviousData || (isFetching && !isFetchingNextPage);
 
-        setVideos(response.data || []);
-      } catch (err) {
-        setError(err instanceof Error ? err.message : 'Failed to fetch videos');
-        console.error('Videos fetch error:', err);
-      } finally {
-        setLoading(false);
-      }
-    };
+  // Changing the search drops the selection instead of acting on videos that are no longer listed
+  const selected = selection.search === search ? selection : emptySelection(search);
+  const selectedCount = selected.allMatching ? total : selected.ids.size;
+  const isSelected = (id: string) => selected.allMatching || selected.ids.has(id);
+  const allLoadedSelected = videos.length > 0 && videos.every(video => isSelected(video.id));
 
-    fetchVideos();
-  }, []);
+  const { containerRef, onScroll, scrollToTop, start, end, paddingTop, paddingBottom } =
+    useVirtualRows<HTMLDivElement>({ count: videos.length, rowHeight: ROW_HEIGHT });
+
+  useEffect(() => {
+    const timer = setTimeout(() => setSearch(searchTerm.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [searchTerm]);
 
-  if (loading) {
+  useEffect(() => {
+    scrollToTop();
+  }, [search, sortBy, sortOrder, scrollToTop]);
+
+  useEffect(() => {
+    if (hasNextPage && !nextPageError && end >= videos.length - LOAD_AHEAD) {
+      fetchNextPage();
+    }
+  }, [end, hasNextPage, nextPageError, videos.length, fetchNextPage]);
+
+  if (isLoading) {
     return (
       <div className="space-y-6">
         {/* Loading skeleton for header */}
@@ -84,7 +147,7 @@ export default function Videos() {
     );
   }
 
-  if (error) {
+  if (error && (!pages || isPreviousData)) {
     return (
       <div className="space-y-6">
         <div className="card">
@@ -93,7 +156,7 @@ export default function Videos() {
             <h3 className="text-lg font-medium text-gray-900 mb-2">Error Loading Videos</h3>
             <p className="text-gray-500 mb-4">{error}</p>
             <button
-              onClick={() => window.location.reload()}
+              onClick={refetch}
               className="btn-primary"
             >
               Retry
@@ -104,42 +167,41 @@ export default function Videos() {
     );
   }
 
-  const filteredAndSortedVideos = videos
-    .filter(video => 
-      video.title.toLowerCase().includes(searchTerm.toLowerCase())
-    )
-    .sort((a, b) => {
-      let aValue: any = a[sortBy];
-      let bValue: any = b[sortBy];
-      
-      if (sortBy === 'createdAt') {
-        aValue = new Date(aValue).getTime();
-        bValue = new Date(bValue).getTime();
-      }
-      
-      if (sortOrder === 'asc') {
-        return aValue > bValue ? 1 : -1;
-      } else {
-        return aValue < bValue ? 1 : -1;
-      }
-    });
+  const getSubtitleLanguages = (video: VideoView) => {
+    const languages: string[] = [];
+    if (video.hasEmbeddedEnglish) languages.push('en');
+    if (video.hasGreekSubtitle) languages.push('el');
+    return languages;
+  };
 
-  const formatDuration = (seconds: number) => {
-    const hours = Math.floor(seconds / 3600);
-    const minutes = Math.floor((seconds % 3600) / 60);
-    const remainingSeconds = seconds % 60;
-    
-    if (hours > 0) {
-      return `${hours}:${minutes.toString().padStart(2, '0')}:${remainingSeconds.toString().padStart(2, '0')}`;
+  const toggleVideo = (id: string) => {
+    // Unticking one row of "all matching" keeps the rest of what is loaded
+    const ids = new Set(selected.allMatching ? videos.map(video => video.id) : selected.ids);
+    if (ids.has(id)) {
+      ids.delete(id);
+    } else {
+      ids.add(id);
     }
-    return `${minutes}:${remainingSeconds.toString().padStart(2, '0')}`;
+    setSelection({ search, ids, allMatching: false });
   };
 
-  const getSubtitleLanguages = (subtitles: any[]) => {
-    return subtitles.map(sub => sub.language).join(', ');
+  const toggleAllLoaded = () => {
+    setSelection(
+      allLoadedSelected ? emptySelection(search) : { search, ids: new Set(videos.map(video => video.id)), allMatching: false }
+    );
   };
 
-  const handleSort = (field: 'title' | 'createdAt' | 'duration') => {
+  const queueBatch = (type: TaskType, parameters: Record<string, string>, timing: TaskTiming) =>
+    taskMutations.createBatch({
+      type,
+      videoIds: selected.allMatching ? [] : [...selected.ids],
+      allMatching: selected.allMatching,
+      search: selected.allMatching && search ? search : null,
+      parameters,
+      ...timing,
+    });
+
+  const handleSort = (field: VideoSortField) => {
     if (sortBy === field) {
       setSortOrder(sortOrder === 'asc' ? 'desc' : 'asc');
     } else {
@@ -174,8 +236,8 @@ export default function Videos() {
               value={`${sortBy}-${sortOrder}`}
               onChange={(e) => {
                 const [field, order] = e.target.value.split('-');
-                setSortBy(field as any);
-                setSortOrder(order as any);
+                setSortBy(field as VideoSortField);
+                setSortOrder(order as 'asc' | 'desc');
               }}
               className="border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-1 focus:ring-primary-500 focus:border-primary-500"
             >
@@ -204,7 +266,7 @@ export default function Videos() {
             </div>
             <div className="ml-4">
               <p className="text-sm font-medium text-gray-500">Total Videos</p>
-              <p className="text-2xl font-semibold text-gray-900">{videos.length}</p>
+              <p className="text-2xl font-semibold text-gray-900">{totals?.videos.toLocaleString() ?? '—'}</p>
             </div>
           </div>
         </div>
@@ -216,9 +278,7 @@ export default function Videos() {
             </div>
             <div className="ml-4">
               <p className="text-sm font-medium text-gray-500">With Subtitles</p>
-              <p className="text-2xl font-semibold text-gray-900">
-                {videos.filter(v => v.subtitles.length > 0).length}
-              </p>
+              <p className="text-2xl font-semibold text-gray-900">{totals?.withSubtitles.toLocaleString() ?? '—'}</p>
             </div>
           </div>
         </div>
@@ -226,115 +286,207 @@ export default function Videos() {
         <div className="card">
           <div className="flex items-center">
             <div className="flex-shrink-0 p-3 rounded-lg bg-purple-50">
-              <PlayIcon className="w-6 h-6 text-purple-600" />
+              <ArrowPathIcon className="w-6 h-6 text-purple-600" />
             </div>
             <div className="ml-4">
-              <p className="text-sm font-medium text-gray-500">Total Duration</p>
-              <p className="text-2xl font-semibold text-gray-900">
-                {formatDuration(videos.reduce((acc, v) => acc + (v.duration || 0), 0))}
-              </p>
+              <p className="text-sm font-medium text-gray-500">Out of Sync</p>
+              <p className="text-2xl font-semibold text-gray-900">{totals?.outOfSync.toLocaleString() ?? '—'}</p>
             </div>
           </div>
         </div>
       </div>
 
-      {/* Videos Grid */}
+      {/* Videos Table */}
       <div className="card">
-        {filteredAndSortedVideos.length === 0 ? (
+        <BatchActionBar count={selectedCount} onClear={() => setSelection(emptySelection(search))} onSubmit={queueBatch} />
+
+        {videos.length === 0 ? (
           <div className="text-center py-12">
             <PlayIcon className="mx-auto h-12 w-12 text-gray-400" />
             <h3 className="mt-2 text-sm font-medium text-gray-900">No videos found</h3>
             <p className="mt-1 text-sm text-gray-500">
-              {searchTerm ? 'Try adjusting your search terms.' : 'Get started by adding your first video.'}
+              {search ? 'Try adjusting your search terms.' : 'Get started by adding your first video.'}
             </p>
           </div>
         ) : (
-          <div className="overflow-hidden">
-            <table className="min-w-full divide-y divide-gray-200">
-              <thead className="bg-gray-50">
-                <tr>
-                  <th
-                    scope="col"
-                    className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider cursor-pointer hover:bg-gray-100"
-                    onClick={() => handleSort('title')}
-                  >
-                    Title
-                    {sortBy === 'title' && (
-                      <span className="ml-1">{sortOrder === 'asc' ? '↑' : '↓'}</span>
-                    )}
-                  </th>
-                  <th
-                    scope="col"
-                    className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider cursor-pointer hover:bg-gray-100"
-                    onClick={() => handleSort('duration')}
-                  >
-                    Duration
-                    {sortBy === 'duration' && (
-                      <span className="ml-1">{sortOrder === 'asc' ? '↑' : '↓'}</span>
-                    )}
-                  </th>
-                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                    Subtitles
-                  </th>
-                  <th
-                    scope="col"
-                    className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider cursor-pointer hover:bg-gray-100"
-                    onClick={() => handleSort('createdAt')}
-                  >
-                    Created
-                    {sortBy === 'createdAt' && (
-                      <span className="ml-1">{sortOrder === 'asc' ? '↑' : '↓'}</span>
-                    )}
-                  </th>
-                  <th scope="col" className="relative px-6 py-3">
-                    <span className="sr-only">Actions</span>
-                  </th>
-                </tr>
-              </thead>
-              <tbody className="bg-white divide-y divide-gray-200">
-                {filteredAndSortedVideos.map((video) => (
-                  <tr key={video.id} className="hover:bg-gray-50">
-                    <td className="px-6 py-4 whitespace-nowrap">
-                      <div className="flex items-center">
-                        <div className="flex-shrink-0 h-10 w-10">
-                          <div className="h-10 w-10 rounded-lg bg-gray-200 flex items-center justify-center">
-                            <PlayIcon className="h-5 w-5 text-gray-500" />
+          <>
+            <div className="flex items-center justify-between mb-3 text-sm text-gray-500">
+              <span>
+                Showing {videos.length.toLocaleString()} of {total.toLocaleString()} {search ? 'matching ' : ''}videos
+              </span>
+              {updating && <span>Updating…</span>}
+            </div>
+
+            {allLoadedSelected && total > videos.length && (
+              <div className="mb-3 px-4 py-2 rounded-md bg-gray-50 text-sm text-center text-gray-700">
+                {selected.allMatching ? (
+                  <>
+                    All {total.toLocaleString()} {search ? 'matching ' : ''}videos are selected.{' '}
+                    <button onClick={toggleAllLoaded} className="font-medium text-primary-600 hover:text-primary-700">
+                      Clear selection
+                    </button>
+                  </>
+                ) : (
+                  <>
+                    All {videos.length.toLocaleString()} loaded videos are selected.{' '}
+                    <button
+                      onClick={() => setSelection({ search, ids: new Set(), allMatching: true })}
+                      className="font-medium text-primary-600 hover:text-primary-700"
+                    >
+                      Select all {total.toLocaleString()} {search ? 'matching ' : ''}videos
+                    </button>
+                  </>
+                )}
+              </div>
+            )}
+
+            {/* Only the visible window of rows is rendered; the spacer rows keep the scrollbar honest */}
+            <div
+              ref={containerRef}
+              onScroll={onScroll}
+              className={`max-h-[70vh] overflow-y-auto ${updating ? 'opacity-60' : ''}`}
+            >
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50 sticky top-0 z-10">
+                  <tr>
+                    <th scope="col" className="pl-6 py-3 w-4">
+                      <input
+                        type="checkbox"
+                        checked={allLoadedSelected}
+                        onChange={toggleAllLoaded}
+                        aria-label="Select all loaded videos"
+                        className="h-4 w-4 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                      />
+                    </th>
+                    <th
+                      scope="col"
+                      className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider cursor-pointer hover:bg-gray-100"
+                      onClick={() => handleSort('title')}
+                    >
+                      Title
+                      {sortBy === 'title' && (
+                        <span className="ml-1">{sortOrder === 'asc' ? '↑' : '↓'}</span>
+                      )}
+                    </th>
+                    <th
+                      scope="col"
+                      className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider cursor-pointer hover:bg-gray-100"
+                      onClick={() => handleSort('duration')}
+                    >
+                      Duration
+                      {sortBy === 'duration' && (
+                        <span className="ml-1">{sortOrder === 'asc' ? '↑' : '↓'}</span>
+                      )}
+                    </th>
+                    <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Subtitles
+                    </th>
+                    <th
+                      scope="col"
+                      className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider cursor-pointer hover:bg-gray-100"
+                      onClick={() => handleSort('createdAt')}
+                    >
+                      Created
+                      {sortBy === 'createdAt' && (
+                        <span className="ml-1">{sortOrder === 'asc' ? '↑' : '↓'}</span>
+                      )}
+                    </th>
+                    <th scope="col" className="relative px-6 py-3">
+                      <span className="sr-only">Actions</span>
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {paddingTop > 0 && (
+                    <tr style={{ height: paddingTop }} aria-hidden="true" />
+                  )}
+                  {videos.slice(start, end).map((video) => (
+                    <tr
+                      key={video.id}
+                      onClick={() => navigate(`/videos/${video.id}`)}
+                      className="hover:bg-gray-50 cursor-pointer"
+                      style={{ height: ROW_HEIGHT }}
+                    >
+                      <td className="pl-6 py-4" onClick={(e) => e.stopPropagation()}>
+                        <input
+                          type="checkbox"
+                          checked={isSelected(video.id)}
+                          onChange={() => toggleVideo(video.id)}
+                          aria-label={`Select ${video.title ?? video.path}`}
+                          className="h-4 w-4 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                        />
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="flex items-center">
+                          <div className="flex-shrink-0 h-10 w-10">
+                            <div className="h-10 w-10 rounded-lg bg-gray-200 flex items-center justify-center">
+                              <PlayIcon className="h-5 w-5 text-gray-500" />
+                            </div>
+                          </div>
+                          <div className="ml-4 min-w-0">
+                            <Link
+                              to={`/videos/${video.id}`}
+                              onClick={(e) => e.stopPropagation()}
+                              className="block text-sm font-medium text-gray-900 hover:text-primary-600 truncate max-w-md"
+                            >
+                              {video.title ?? video.path}
+                            </Link>
+                            <div className="text-sm text-gray-500 truncate max-w-xs">{video.path}</div>
                           </div>
                         </div>
-                        <div className="ml-4">
-                          <div className="text-sm font-medium text-gray-900">{video.title}</div>
-                          <div className="text-sm text-gray-500 truncate max-w-xs">{video.filePath}</div>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {video.duration ? formatDuration(video.duration) : 'Unknown'}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="flex items-center space-x-2">
+                          <span className="text-sm text-gray-900">{getSubtitleLanguages(video).length}</span>
+                          {getSubtitleLanguages(video).length > 0 && (
+                            <span className="text-xs text-gray-500">
+                              ({getSubtitleLanguages(video).join(', ')})
+                            </span>
+                          )}
                         </div>
-                      </div>
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                      {video.duration ? formatDuration(video.duration) : 'Unknown'}
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap">
-                      <div className="flex items-center space-x-2">
-                        <span className="text-sm text-gray-900">{video.subtitles.length}</span>
-                        {video.subtitles.length > 0 && (
-                          <span className="text-xs text-gray-500">
-                            ({getSubtitleLanguages(video.subtitles)})
-                          </span>
-                        )}
-                      </div>
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                      {format(new Date(video.createdAt), 'MMM dd, yyyy')}
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
-                      <button className="text-gray-400 hover:text-gray-600">
-                        <EllipsisVerticalIcon className="h-5 w-5" />
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                        {format(new Date(video.createdAt), 'MMM dd, yyyy')}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                        <div className="flex items-center justify-end space-x-3">
+                          {outcomes[video.id] && <ActionOutcomeBadge outcome={outcomes[video.id]} />}
+                          <VideoActionMenu
+                            video={video}
+                            onOutcome={outcome => setOutcomes(previous => ({ ...previous, [video.id]: outcome }))}
+                          />
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                  {paddingBottom > 0 && (
+                    <tr style={{ height: paddingBottom }} aria-hidden="true" />
+                  )}
+                </tbody>
+              </table>
+
+              {/* Infinite scroll footer */}
+              {(hasNextPage || nextPageError) && (
+                <div className="py-4 text-center text-sm text-gray-500">
+                  {nextPageError ? (
+                    <span>
+                      {nextPageError}{' '}
+                      <button onClick={fetchNextPage} className="text-primary-600 hover:text-primary-700 font-medium">
+                        Retry
                       </button>
-                    </td>
-                  </tr>
-                ))}
-              </tbody>
-            </table>
-          </div>
+                    </span>
+                  ) : isFetchingNextPage ? (
+                    'Loading more videos…'
+                  ) : null}
+                </div>
+              )}
+            </div>
+          </>
         )}
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
@@ -1,4 +1,135 @@
 // API Service for Skiperr Backend
+import type {
+  ApiTokenCreateRequest,
+  ApiTokenCreated,
+  ApiTokenView,
+  AuthResponse,
+  ChangePasswordResponse,
+  CloneTaskRequest,
+  CreateBatchTaskRequest,
+  CueDecisionRequest,
+  LibraryStats,
+  LogoutRequest,
+  NotificationList,
+  NotificationView,
+  PasswordResetRequest,
+  PipelineRequest,
+  PipelineRunRequest,
+  PipelineRunView,
+  PipelineView,
+  PlaybackInfo,
+  RefreshRequest,
+  ReviewCueUpdate,
+  ReviewDetail,
+  ReviewStatus,
+  ReviewSummary,
+  SchedulePreview,
+  ScheduleRequest,
+  ScheduleView,
+  SearchResults,
+  SettingsUpdate,
+  SettingsValidationError,
+  Subtitle,
+  SubtitleCue,
+  SubtitleCues,
+  SubtitleFlagsUpdate,
+  Task,
+  TaskAnalytics,
+  TaskLog,
+  TaskPriority,
+  TaskTiming,
+  TimingAdjustmentSummary,
+  TimingRequest,
+  UpdateTaskRequest,
+  UserCreateRequest,
+  UserSettings,
+  UserUpdateRequest,
+  UserView,
+  Video,
+  VideoPage,
+  VideoTotals,
+} from './models';
+
+export type {
+  AIProvider,
+  ApiTokenCreateRequest,
+  ApiTokenCreated,
+  ApiTokenScope,
+  ApiTokenView,
+  AuthResponse,
+  ChangePasswordRequest,
+  ChangePasswordResponse,
+  CloneTaskRequest,
+  CreateBatchTaskRequest,
+  CueDecision,
+  CueDecisionRequest,
+  LibraryDiskUsage,
+  LibraryStats,
+  LoginRequest,
+  LogoutRequest,
+  NotificationKind,
+  NotificationLevel,
+  NotificationList,
+  NotificationView,
+  PasswordResetRequest,
+  PipelineRequest,
+  PipelineRunRequest,
+  PipelineRunView,
+  PipelineStep,
+  PipelineStepStatus,
+  PipelineStepView,
+  PipelineView,
+  PlaybackInfo,
+  QueueDepthSample,
+  RefreshRequest,
+  ReviewCue,
+  ReviewCueUpdate,
+  ReviewDetail,
+  ReviewStatus,
+  ReviewSummary,
+  ScheduleAction,
+  SchedulePreview,
+  ScheduleRequest,
+  ScheduleView,
+  SearchResults,
+  SettingsUpdate,
+  SettingsValidationError,
+  Subtitle,
+  SubtitleCue,
+  SubtitleCues,
+  SubtitleFlagsUpdate,
+  SubtitleSearchHit,
+  SubtitleType,
+  SyncStatus,
+  SyncTool,
+  Task,
+  TaskAnalytics,
+  TaskLog,
+  TaskLogLine,
+  TaskPriority,
+  TaskSearchHit,
+  TaskStatus,
+  TaskTiming,
+  TaskType,
+  TaskTypeAnalytics,
+  ThroughputBucket,
+  TimingAdjustmentSummary,
+  TimingAnchor,
+  TimingMode,
+  TimingRequest,
+  UpdateTaskRequest,
+  UserCreateRequest,
+  UserRole,
+  UserSettings,
+  UserUpdateRequest,
+  UserView,
+  Video,
+  VideoPage,
+  VideoSearchHit,
+  VideoTotals,
+  VideoView,
+} from './models';
+
 const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:8080';
 
 // Types
@@ -9,132 +140,166 @@ export interface ApiResponse<T> {
 }
 
 export interface DashboardStats {
-  totalVideos: number;
-  totalSubtitles: number;
+  library: LibraryStats;
   activeTasks: number;
   completedTasks: number;
   failedTasks: number;
-  storageUsed: number;
-  storageTotal: number;
 }
 
-// Type definitions
-const TaskType = {
-  LIBRARY_SCAN: 'LIBRARY_SCAN',
-  SUBTITLE_EXTRACTION: 'SUBTITLE_EXTRACTION',
-  SUBTITLE_GENERATION: 'SUBTITLE_GENERATION',
-  SUBTITLE_SYNC: 'SUBTITLE_SYNC',
-  SUBTITLE_TRANSLATION: 'SUBTITLE_TRANSLATION',
-  TRANSLATION: 'TRANSLATION',
-  FILE_CLEANUP: 'FILE_CLEANUP',
-  DATABASE_BACKUP: 'DATABASE_BACKUP',
-  DATABASE_OPTIMIZATION: 'DATABASE_OPTIMIZATION',
-  USER_EXPORT: 'USER_EXPORT',
-  BATCH_SYNC: 'BATCH_SYNC',
-  BATCH_TRANSLATION: 'BATCH_TRANSLATION'
-} as const;
-
-export type TaskType = typeof TaskType[keyof typeof TaskType];
-
-const TaskStatus = {
-  PENDING: 'PENDING',
-  RUNNING: 'RUNNING',
-  COMPLETED: 'COMPLETED',
-  FAILED: 'FAILED',
-  CANCELLED: 'CANCELLED'
-} as const;
-
-export type TaskStatus = typeof TaskStatus[keyof typeof TaskStatus];
-
-export interface Task {
-  id: string;
-  type: TaskType;
-  status: TaskStatus;
-  progressMessage?: string;
-  errorMessage?: string;
-  message?: string;
-  progress: number;
-  createdAt: string;
-  updatedAt: string;
-  completedAt?: string;
-  userId?: string;
-  videoId?: string;
-  subtitleId?: string;
-}
+export type AnalyticsRange = '24h' | '7d' | '30d' | '90d';
+
+export type VideoSortField = 'title' | 'path' | 'duration' | 'fileSize' | 'createdAt';
 
-export interface Subtitle {
-  id: string;
-  videoId: string;
-  language: string;
-  filePath?: string;
-  content?: string;
-  isGenerated: boolean;
-  createdAt: string;
-  updatedAt: string;
+export interface VideoQuery {
+  page?: number;
+  size?: number;
+  sort?: VideoSortField;
+  order?: 'asc' | 'desc';
+  search?: string;
 }
 
-export interface Video {
-  id: string;
-  title: string;
-  filePath: string;
-  duration?: number;
-  createdAt: string;
-  updatedAt: string;
-  userId: string;
-  subtitles: Subtitle[];
+// A rejected settings update carries one message per invalid field
+export interface SettingsSaveResponse extends ApiResponse<UserSettings> {
+  fieldErrors?: Record<string, string>;
 }
 
 export interface TaskStatistics {
   [key: string]: number;
 }
 
-// Authentication types
-export interface LoginRequest {
-  password: string;
-}
-
-export interface AuthResponse {
-  success: boolean;
-  token?: string;
-  expiresIn?: number;
-  message: string;
-}
-
-export interface ChangePasswordRequest {
-  currentPassword: string;
-  newPassword: string;
-}
-
-export interface ChangePasswordResponse {
-  success: boolean;
-  message: string;
-}
-
 // Token management
 const TOKEN_KEY = 'skiperr_auth_token';
+// The rest of the session, kept next to the token so every tab shares it
+const SESSION_KEY = 'skiperr_session';
+
+export interface StoredSession {
+  refreshToken: string;
+  // When the access token runs out, in epoch milliseconds
+  expiresAt: number;
+  // Inactivity after which the user is signed out, in milliseconds
+  sessionTimeout: number;
+}
 
 export const tokenManager = {
   getToken(): string | null {
     return localStorage.getItem(TOKEN_KEY);
   },
-  
-  setToken(token: string): void {
-    localStorage.setItem(TOKEN_KEY, token);
+
+  getSession(): StoredSession | null {
+    try {
+      return JSON.parse(localStorage.getItem(SESSION_KEY) ?? 'null') as StoredSession | null;
+    } catch {
+      return null;
+    }
+  },
+
+  // Keeps the tokens of a successful login or renewal
+  setSession(response: AuthResponse): void {
+    if (!response.token || !response.refreshToken) return;
+    const session: StoredSession = {
+      refreshToken: response.refreshToken,
+      expiresAt: Date.now() + (response.expiresIn ?? 0) * 1000,
+      sessionTimeout: (response.sessionTimeout ?? 0) * 1000,
+    };
+    // The session first, so a tab reacting to the new token finds it
+    localStorage.setItem(SESSION_KEY, JSON.stringify(session));
+    localStorage.setItem(TOKEN_KEY, response.token);
   },
   
   removeToken(): void {
+    localStorage.removeItem(SESSION_KEY);
     localStorage.removeItem(TOKEN_KEY);
   },
   
   isAuthenticated(): boolean {
     return !!this.getToken();
-  }
+  },
+
+  // Called when another tab signs in (true) or out (false); renewals do not count
+  onOtherTabChange(listener: (signedIn: boolean) => void): () => void {
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key !== TOKEN_KEY) return;
+      const signedIn = event.newValue !== null;
+      if (signedIn !== (event.oldValue !== null)) listener(signedIn);
+    };
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  },
 };
 
+// Access tokens are renewed this long before they run out
+export const RENEW_BEFORE_EXPIRY_MS = 2 * 60 * 1000;
+
+// 'offline' means the server could not be reached, so the session may well still be valid
+export type RenewalOutcome = 'renewed' | 'rejected' | 'offline';
+
+let renewal: Promise<RenewalOutcome> | null = null;
+
+// Renews the access token with the refresh token. Callers in one tab share a request, and tabs
+// take turns through a lock since every renewal invalidates the refresh token it used.
+// rejectedToken is the access token a request just failed with; without it the token is only
+// renewed when it is about to run out.
+export function refreshSession(rejectedToken?: string): Promise<RenewalOutcome> {
+  renewal ??= withSessionLock(() => renewTokens(rejectedToken)).finally(() => {
+    renewal = null;
+  });
+  return renewal;
+}
+
+// navigator.locks is missing outside secure contexts, e.g. plain http on a LAN address
+async function withSessionLock<T>(task: () => Promise<T>): Promise<T> {
+  if (!('locks' in navigator)) return task();
+  return await navigator.locks.request('skiperr-session', task);
+}
+
+async function renewTokens(rejectedToken?: string): Promise<RenewalOutcome> {
+  const session = tokenManager.getSession();
+  const token = tokenManager.getToken();
+  if (!session || !token) return 'rejected';
+
+  // Another tab may have renewed the tokens while this one waited for the lock
+  const renewedElsewhere = rejectedToken
+    ? token !== rejectedToken
+    : session.expiresAt - Date.now() > RENEW_BEFORE_EXPIRY_MS;
+  if (renewedElsewhere) return 'renewed';
+
+  try {
+    const request: RefreshRequest = { refreshToken: session.refreshToken };
+    const response = await fetch(`${API_BASE_URL}/api/auth/refresh`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(request),
+    });
+    if (response.ok) {
+      tokenManager.setSession(await response.json() as AuthResponse);
+      return 'renewed';
+    }
+    return response.status === 401 ? 'rejected' : 'offline';
+  } catch {
+    return 'offline';
+  }
+}
+
+const sessionExpiredListeners = new Set<() => void>();
+
+// Called when the session ends without the user signing out: the server refused to renew it
+export function onSessionExpired(listener: () => void): () => void {
+  sessionExpiredListeners.add(listener);
+  return () => {
+    sessionExpiredListeners.delete(listener);
+  };
+}
+
+export function expireSession(): void {
+  tokenManager.removeToken();
+  sessionExpiredListeners.forEach(listener => listener());
+}
+
 // Generic API request function
 async function apiRequest<T>(
   endpoint: string,
-  options: RequestInit = {}
+  options: RequestInit = {},
+  retried = false
 ): Promise<ApiResponse<T>> {
   try {
     const url = `${API_BASE_URL}${endpoint}`;
@@ -152,9 +317,16 @@ async function apiRequest<T>(
     const status = response.status;
     
     if (!response.ok) {
-      // If unauthorized, clear the token
-      if (status === 401) {
-        tokenManager.removeToken();
+      // An expired access token is renewed and the request repeated once; if the server refuses
+      // to renew it, the session is over and the app sends the user to the login page
+      if (status === 401 && token) {
+        const outcome = retried ? 'rejected' : await refreshSession(token);
+        if (outcome === 'renewed') {
+          return apiRequest<T>(endpoint, options, true);
+        }
+        if (outcome === 'rejected') {
+          expireSession();
+        }
       }
       
       const errorText = await response.text();
@@ -164,7 +336,8 @@ async function apiRequest<T>(
       };
     }
 
-    const data = await response.json();
+    // DELETEs answer 204 without a body
+    const data = status === 204 ? undefined : await response.json();
     return {
       data,
       status,
@@ -177,11 +350,34 @@ async function apiRequest<T>(
   }
 }
 
+// Endpoints that fail with {"error": "..."} get just the message
+function unwrapError<T>(response: ApiResponse<T>): ApiResponse<T> {
+  if (!response.error) return response;
+  try {
+    const { error } = JSON.parse(response.error) as { error?: string };
+    return error ? { ...response, error } : response;
+  } catch {
+    return response;
+  }
+}
+
 // Video API
 export const videoApi = {
-  // Get all videos with pagination
-  getVideos: async (page = 0, size = 20): Promise<ApiResponse<Video[]>> => {
-    return apiRequest<Video[]>(`/api/videos?page=${page}&size=${size}`);
+  // Get one page of videos, sorted and searched on the server
+  getVideos: async (query: VideoQuery = {}, signal?: AbortSignal): Promise<ApiResponse<VideoPage>> => {
+    const params = new URLSearchParams({
+      page: String(query.page ?? 0),
+      size: String(query.size ?? 50),
+      sort: query.sort ?? 'createdAt',
+      order: query.order ?? 'desc',
+    });
+    if (query.search) params.set('search', query.search);
+    return apiRequest<VideoPage>(`/api/videos?${params}`, { signal });
+  },
+
+  // Get library-wide video counts
+  getVideoTotals: async (): Promise<ApiResponse<VideoTotals>> => {
+    return apiRequest<VideoTotals>('/api/videos/totals');
   },
 
   // Get video by ID
@@ -189,6 +385,11 @@ export const videoApi = {
     return apiRequest<Video>(`/api/videos/${id}`);
   },
 
+  // Get every subtitle track and file of a video
+  getVideoSubtitles: async (id: string): Promise<ApiResponse<Subtitle[]>> => {
+    return apiRequest<Subtitle[]>(`/api/videos/${id}/subtitles`);
+  },
+
   // Get videos by type
   getVideosByType: async (type: string): Promise<ApiResponse<Video[]>> => {
     return apiRequest<Video[]>(`/api/videos/type/${type}`);
@@ -220,6 +421,66 @@ export const videoApi = {
   },
 };
 
+// Subtitle API
+export const subtitleApi = {
+  // Get all subtitles together with their video
+  getSubtitles: async (): Promise<ApiResponse<Subtitle[]>> => {
+    return apiRequest<Subtitle[]>('/api/subtitles');
+  },
+
+  // Get a subtitle together with its video
+  getSubtitle: async (id: string): Promise<ApiResponse<Subtitle>> => {
+    return apiRequest<Subtitle>(`/api/subtitles/${id}`);
+  },
+
+  // Change whether a subtitle is the default or forced track
+  updateFlags: async (id: string, update: SubtitleFlagsUpdate): Promise<ApiResponse<Subtitle>> => {
+    return apiRequest<Subtitle>(`/api/subtitles/${id}`, {
+      method: 'PATCH',
+      body: JSON.stringify(update),
+    });
+  },
+
+  // Delete an external subtitle and its file
+  deleteSubtitle: async (id: string): Promise<ApiResponse<void>> => {
+    return unwrapError(await apiRequest<void>(`/api/subtitles/${id}`, { method: 'DELETE' }));
+  },
+
+  // Write a copy of a subtitle in another format (srt or vtt)
+  convert: async (id: string, format: string): Promise<ApiResponse<Subtitle>> => {
+    return unwrapError(await apiRequest<Subtitle>(`/api/subtitles/${id}/convert`, {
+      method: 'POST',
+      body: JSON.stringify({ format }),
+    }));
+  },
+
+  // Get the parsed cues of a subtitle file
+  getCues: async (id: string): Promise<ApiResponse<SubtitleCues>> => {
+    return unwrapError(await apiRequest<SubtitleCues>(`/api/subtitles/${id}/cues`));
+  },
+
+  // Rewrite a subtitle file with the given cues
+  saveCues: async (id: string, cues: SubtitleCue[]): Promise<ApiResponse<SubtitleCues>> => {
+    return unwrapError(await apiRequest<SubtitleCues>(`/api/subtitles/${id}/cues`, {
+      method: 'PUT',
+      body: JSON.stringify({ cues }),
+    }));
+  },
+
+  // Get the re-timings that used or produced a subtitle
+  getTimingHistory: async (id: string): Promise<ApiResponse<TimingAdjustmentSummary[]>> => {
+    return apiRequest<TimingAdjustmentSummary[]>(`/api/subtitles/${id}/timing`);
+  },
+
+  // Re-time a subtitle into a new, manually synced file
+  retime: async (id: string, request: TimingRequest): Promise<ApiResponse<TimingAdjustmentSummary>> => {
+    return unwrapError(await apiRequest<TimingAdjustmentSummary>(`/api/subtitles/${id}/timing`, {
+      method: 'POST',
+      body: JSON.stringify(request),
+    }));
+  },
+};
+
 // Task API
 export const taskApi = {
   // Get all tasks with pagination and filters
@@ -229,9 +490,10 @@ export const taskApi = {
     status?: string,
     type?: string
   ): Promise<ApiResponse<Task[]>> => {
+    // The backend pages by limit/offset
     const params = new URLSearchParams({
-      page: page.toString(),
-      size: size.toString(),
+      limit: size.toString(),
+      offset: (page * size).toString(),
     });
     if (status) params.append('status', status);
     if (type) params.append('type', type);
@@ -244,6 +506,11 @@ export const taskApi = {
     return apiRequest<Task>(`/api/tasks/${id}`);
   },
 
+  // Process output captured so far; live lines arrive over the WebSocket
+  getTaskLog: async (id: string): Promise<ApiResponse<TaskLog>> => {
+    return apiRequest<TaskLog>(`/api/tasks/${id}/logs`);
+  },
+
   // Get tasks for specific video
   getTasksForVideo: async (videoId: string): Promise<ApiResponse<Task[]>> => {
     return apiRequest<Task[]>(`/api/tasks/video/${videoId}`);
@@ -254,11 +521,20 @@ export const taskApi = {
     return apiRequest<TaskStatistics>('/api/tasks/statistics');
   },
 
+  // Get task throughput, reliability and queue depth, bucketed by the browser's time zone
+  getAnalytics: async (range: AnalyticsRange): Promise<ApiResponse<TaskAnalytics>> => {
+    const params = new URLSearchParams({ range, zone: Intl.DateTimeFormat().resolvedOptions().timeZone });
+    return unwrapError(await apiRequest<TaskAnalytics>(`/api/tasks/analytics?${params}`));
+  },
+
+  // The create calls below all take an optional priority and run-at time; without them the
+  // task is queued right away at its type's usual priority
+
   // Create scan task
-  createScanTask: async (paths: string[]): Promise<ApiResponse<Task>> => {
+  createScanTask: async (paths: string[], timing: TaskTiming = {}): Promise<ApiResponse<Task>> => {
     return apiRequest<Task>('/api/tasks/scan', {
       method: 'POST',
-      body: JSON.stringify({ paths }),
+      body: JSON.stringify({ paths, ...timing }),
     });
   },
 
@@ -266,11 +542,40 @@ export const taskApi = {
   createSyncTask: async (
     videoId: string,
     subtitleId?: string,
-    tool?: string
+    tool?: string,
+    timing: TaskTiming = {}
   ): Promise<ApiResponse<Task>> => {
     return apiRequest<Task>(`/api/tasks/sync/${videoId}`, {
       method: 'POST',
-      body: JSON.stringify({ subtitleId, tool }),
+      body: JSON.stringify({ subtitleId, tool, ...timing }),
+    });
+  },
+
+  // Create subtitle extraction task
+  createExtractionTask: async (videoId: string, timing: TaskTiming = {}): Promise<ApiResponse<Task>> => {
+    return apiRequest<Task>(`/api/tasks/extract/${videoId}`, {
+      method: 'POST',
+      body: JSON.stringify(timing),
+    });
+  },
+
+  // Re-read one video's metadata and the subtitles next to it
+  createRescanTask: async (videoId: string, timing: TaskTiming = {}): Promise<ApiResponse<Task>> => {
+    return apiRequest<Task>(`/api/tasks/rescan/${videoId}`, {
+      method: 'POST',
+      body: JSON.stringify(timing),
+    });
+  },
+
+  // Create subtitle generation task; language defaults to auto-detection
+  createGenerationTask: async (
+    videoId: string,
+    language?: string,
+    timing: TaskTiming = {}
+  ): Promise<ApiResponse<Task>> => {
+    return apiRequest<Task>(`/api/tasks/generate/${videoId}`, {
+      method: 'POST',
+      body: JSON.stringify({ language, ...timing }),
     });
   },
 
@@ -278,23 +583,20 @@ export const taskApi = {
   createTranslationTask: async (
     subtitleId: string,
     targetLanguage: string,
-    provider?: string
+    provider?: string,
+    timing: TaskTiming = {}
   ): Promise<ApiResponse<Task>> => {
     return apiRequest<Task>(`/api/tasks/translate/${subtitleId}`, {
       method: 'POST',
-      body: JSON.stringify({ targetLanguage, provider }),
+      body: JSON.stringify({ targetLanguage, provider, ...timing }),
     });
   },
 
-  // Create batch task
-  createBatchTask: async (
-    type: string,
-    videoIds: string[],
-    parameters?: Record<string, any>
-  ): Promise<ApiResponse<Task>> => {
+  // Create a batch task that queues one child task per selected video
+  createBatchTask: async (request: CreateBatchTaskRequest): Promise<ApiResponse<Task>> => {
     return apiRequest<Task>('/api/tasks/batch', {
       method: 'POST',
-      body: JSON.stringify({ type, videoIds, parameters }),
+      body: JSON.stringify(request),
     });
   },
 
@@ -312,6 +614,37 @@ export const taskApi = {
     });
   },
 
+  // Take a queued task off the queue, or suspend a running one where it is
+  pauseTask: async (id: string): Promise<ApiResponse<Task>> => {
+    return apiRequest<Task>(`/api/tasks/${id}/pause`, {
+      method: 'POST',
+    });
+  },
+
+  // Continue a paused task, or queue it again if it had not started
+  resumeTask: async (id: string): Promise<ApiResponse<Task>> => {
+    return apiRequest<Task>(`/api/tasks/${id}/resume`, {
+      method: 'POST',
+    });
+  },
+
+  // Change the priority of a task that has not started yet
+  updateTaskPriority: async (id: string, priority: TaskPriority): Promise<ApiResponse<Task>> => {
+    const request: UpdateTaskRequest = { priority };
+    return apiRequest<Task>(`/api/tasks/${id}`, {
+      method: 'PATCH',
+      body: JSON.stringify(request),
+    });
+  },
+
+  // Queue a copy of a task, optionally with edited parameters (a JSON object as text)
+  cloneTask: async (id: string, request: CloneTaskRequest = {}): Promise<ApiResponse<Task>> => {
+    return apiRequest<Task>(`/api/tasks/${id}/clone`, {
+      method: 'POST',
+      body: JSON.stringify(request),
+    });
+  },
+
   // Cleanup completed tasks
   cleanupTasks: async (): Promise<ApiResponse<void>> => {
     return apiRequest<void>('/api/tasks/cleanup', {
@@ -360,58 +693,326 @@ export const healthApi = {
 export const dashboardApi = {
   // Get dashboard statistics
   getStats: async (): Promise<ApiResponse<DashboardStats>> => {
-    try {
-      // Make parallel requests to get all stats
-      const [videosResponse, tasksResponse] = await Promise.all([
-        videoApi.getVideos(0, 1), // Just to get total count from headers or response
-        taskApi.getTaskStatistics(),
-      ]);
-
-      if (videosResponse.error || tasksResponse.error) {
-        return {
-          error: videosResponse.error || tasksResponse.error,
-          status: videosResponse.status || tasksResponse.status,
-        };
-      }
-
-      const taskStats = tasksResponse.data || {};
-      
-      // Calculate stats from task statistics
-      const stats: DashboardStats = {
-        totalVideos: 0, // Will need to be calculated from actual video count
-        totalSubtitles: 0, // Will need to be calculated
-        activeTasks: (taskStats['PENDING'] || 0) + (taskStats['RUNNING'] || 0),
-        completedTasks: taskStats['COMPLETED'] || 0,
-        failedTasks: taskStats['FAILED'] || 0,
-        storageUsed: 0, // Will need backend endpoint for storage info
-        storageTotal: 100, // Will need backend endpoint for storage info
-      };
+    const [libraryResponse, tasksResponse] = await Promise.all([
+      apiRequest<LibraryStats>('/api/stats'),
+      taskApi.getTaskStatistics(),
+    ]);
 
+    if (!libraryResponse.data || !tasksResponse.data) {
       return {
-        data: stats,
-        status: 200,
-      };
-    } catch (error) {
-      return {
-        error: error instanceof Error ? error.message : 'Failed to fetch dashboard stats',
-        status: 0,
+        error: libraryResponse.error || tasksResponse.error || 'Failed to fetch dashboard stats',
+        status: libraryResponse.error ? libraryResponse.status : tasksResponse.status,
       };
     }
+
+    const taskStats = tasksResponse.data;
+    return {
+      data: {
+        library: libraryResponse.data,
+        activeTasks: (taskStats.pending ?? 0) + (taskStats.running ?? 0),
+        completedTasks: taskStats.completed ?? 0,
+        failedTasks: taskStats.failed ?? 0,
+      },
+      status: 200,
+    };
+  },
+
+};
+
+// Translation review API
+export const reviewApi = {
+  // List reviews, optionally only those in one status
+  getReviews: async (status?: ReviewStatus): Promise<ApiResponse<ReviewSummary[]>> => {
+    const query = status ? `?status=${status}` : '';
+    return apiRequest<ReviewSummary[]>(`/api/reviews${query}`);
+  },
+
+  // Open a review for a translated subtitle, or get the one it already has
+  openReview: async (subtitleId: string): Promise<ApiResponse<ReviewSummary>> => {
+    return unwrapError(await apiRequest<ReviewSummary>('/api/reviews', {
+      method: 'POST',
+      body: JSON.stringify({ subtitleId }),
+    }));
+  },
+
+  // Get source and translated cues side by side
+  getReview: async (id: string): Promise<ApiResponse<ReviewDetail>> => {
+    return unwrapError(await apiRequest<ReviewDetail>(`/api/reviews/${id}`));
+  },
+
+  // Accept, edit or flag one cue
+  decideCue: async (id: string, index: number, request: CueDecisionRequest): Promise<ApiResponse<ReviewCueUpdate>> => {
+    return unwrapError(await apiRequest<ReviewCueUpdate>(`/api/reviews/${id}/cues/${index}`, {
+      method: 'PUT',
+      body: JSON.stringify(request),
+    }));
+  },
+};
+
+// Recurring schedules API
+export const scheduleApi = {
+  // List every schedule with its next runs and last outcome
+  getSchedules: async (): Promise<ApiResponse<ScheduleView[]>> => {
+    return apiRequest<ScheduleView[]>('/api/schedules');
+  },
+
+  // The next few runs of a cron expression or interval, without saving anything
+  preview: async (timing: { cron?: string; intervalMinutes?: number }): Promise<ApiResponse<SchedulePreview>> => {
+    const query = new URLSearchParams();
+    if (timing.cron) query.set('cron', timing.cron);
+    if (timing.intervalMinutes !== undefined) query.set('intervalMinutes', String(timing.intervalMinutes));
+    return unwrapError(await apiRequest<SchedulePreview>(`/api/schedules/preview?${query}`));
+  },
+
+  // Create a schedule
+  createSchedule: async (request: ScheduleRequest): Promise<ApiResponse<ScheduleView>> => {
+    return unwrapError(await apiRequest<ScheduleView>('/api/schedules', {
+      method: 'POST',
+      body: JSON.stringify(request),
+    }));
+  },
+
+  // Replace a schedule's settings
+  updateSchedule: async (id: string, request: ScheduleRequest): Promise<ApiResponse<ScheduleView>> => {
+    return unwrapError(await apiRequest<ScheduleView>(`/api/schedules/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(request),
+    }));
+  },
+
+  // Turn a schedule on or off
+  setEnabled: async (id: string, enabled: boolean): Promise<ApiResponse<ScheduleView>> => {
+    return unwrapError(await apiRequest<ScheduleView>(`/api/schedules/${id}`, {
+      method: 'PATCH',
+      body: JSON.stringify({ enabled }),
+    }));
+  },
+
+  // Delete a schedule; tasks it already queued are kept
+  deleteSchedule: async (id: string): Promise<ApiResponse<void>> => {
+    return unwrapError(await apiRequest<void>(`/api/schedules/${id}`, { method: 'DELETE' }));
+  },
+
+  // Queue the schedule's task right away
+  runNow: async (id: string): Promise<ApiResponse<ScheduleView>> => {
+    return unwrapError(await apiRequest<ScheduleView>(`/api/schedules/${id}/run`, { method: 'POST' }));
+  },
+};
+
+// Per-video pipelines API
+export const pipelineApi = {
+  // List every pipeline definition
+  getPipelines: async (): Promise<ApiResponse<PipelineView[]>> => {
+    return apiRequest<PipelineView[]>('/api/pipelines');
+  },
+
+  // Create a pipeline
+  createPipeline: async (request: PipelineRequest): Promise<ApiResponse<PipelineView>> => {
+    return unwrapError(await apiRequest<PipelineView>('/api/pipelines', {
+      method: 'POST',
+      body: JSON.stringify(request),
+    }));
+  },
+
+  // Replace a pipeline's name and steps; runs already queued keep their steps
+  updatePipeline: async (id: string, request: PipelineRequest): Promise<ApiResponse<PipelineView>> => {
+    return unwrapError(await apiRequest<PipelineView>(`/api/pipelines/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(request),
+    }));
+  },
+
+  // Delete a pipeline; runs already queued carry on
+  deletePipeline: async (id: string): Promise<ApiResponse<void>> => {
+    return unwrapError(await apiRequest<void>(`/api/pipelines/${id}`, { method: 'DELETE' }));
+  },
+
+  // Queue the pipeline on each video, one pipeline task per video
+  runPipeline: async (id: string, request: PipelineRunRequest): Promise<ApiResponse<Task[]>> => {
+    return unwrapError(await apiRequest<Task[]>(`/api/pipelines/${id}/run`, {
+      method: 'POST',
+      body: JSON.stringify(request),
+    }));
+  },
+
+  // Each step of a pipeline task with the task that runs it
+  getRun: async (taskId: string): Promise<ApiResponse<PipelineRunView>> => {
+    return unwrapError(await apiRequest<PipelineRunView>(`/api/pipelines/runs/${taskId}`));
+  },
+};
+
+// Global search API
+export const searchApi = {
+  // A few videos, subtitles and tasks matching the term
+  search: async (term: string, limit?: number): Promise<ApiResponse<SearchResults>> => {
+    const query = new URLSearchParams({ q: term });
+    if (limit !== undefined) query.set('limit', String(limit));
+    return apiRequest<SearchResults>(`/api/search?${query}`);
+  },
+};
+
+// Notification center API
+export const notificationApi = {
+  // The newest notifications of the signed-in user, with the unread count
+  getNotifications: async (limit?: number): Promise<ApiResponse<NotificationList>> => {
+    const query = limit !== undefined ? `?limit=${limit}` : '';
+    return apiRequest<NotificationList>(`/api/notifications${query}`);
+  },
+
+  // Mark one notification read
+  markRead: async (id: string): Promise<ApiResponse<NotificationView>> => {
+    return unwrapError(await apiRequest<NotificationView>(`/api/notifications/${id}/read`, { method: 'POST' }));
+  },
+
+  // Mark every notification read
+  markAllRead: async (): Promise<ApiResponse<void>> => {
+    return unwrapError(await apiRequest<void>('/api/notifications/read-all', { method: 'POST' }));
+  },
+
+  // Delete one notification
+  deleteNotification: async (id: string): Promise<ApiResponse<void>> => {
+    return unwrapError(await apiRequest<void>(`/api/notifications/${id}`, { method: 'DELETE' }));
+  },
+
+  // Delete every notification
+  clearNotifications: async (): Promise<ApiResponse<void>> => {
+    return unwrapError(await apiRequest<void>('/api/notifications', { method: 'DELETE' }));
+  },
+};
+
+// User management API (admins only)
+export const userApi = {
+  // Every account, active or not
+  getUsers: async (): Promise<ApiResponse<UserView[]>> => {
+    return apiRequest<UserView[]>('/api/users');
+  },
+
+  // Create an account
+  createUser: async (request: UserCreateRequest): Promise<ApiResponse<UserView>> => {
+    return unwrapError(await apiRequest<UserView>('/api/users', {
+      method: 'POST',
+      body: JSON.stringify(request),
+    }));
+  },
+
+  // Change a user's role, or deactivate and reactivate them
+  updateUser: async (id: string, request: UserUpdateRequest): Promise<ApiResponse<UserView>> => {
+    return unwrapError(await apiRequest<UserView>(`/api/users/${id}`, {
+      method: 'PATCH',
+      body: JSON.stringify(request),
+    }));
+  },
+
+  // Set a new password for a user
+  resetPassword: async (id: string, request: PasswordResetRequest): Promise<ApiResponse<UserView>> => {
+    return unwrapError(await apiRequest<UserView>(`/api/users/${id}/password`, {
+      method: 'POST',
+      body: JSON.stringify(request),
+    }));
+  },
+};
+
+// Personal API tokens of the signed-in user
+export const apiTokenApi = {
+  // The user's tokens, newest first
+  getTokens: async (): Promise<ApiResponse<ApiTokenView[]>> => {
+    return apiRequest<ApiTokenView[]>('/api/tokens');
+  },
+
+  // Create a token; the response holds its secret, which is not shown again
+  createToken: async (request: ApiTokenCreateRequest): Promise<ApiResponse<ApiTokenCreated>> => {
+    return unwrapError(await apiRequest<ApiTokenCreated>('/api/tokens', {
+      method: 'POST',
+      body: JSON.stringify(request),
+    }));
+  },
+
+  // Revoke a token; scripts using it are refused from then on
+  revokeToken: async (id: string): Promise<ApiResponse<void>> => {
+    return unwrapError(await apiRequest<void>(`/api/tokens/${id}`, { method: 'DELETE' }));
+  },
+};
+
+// Media API
+// <video> and <track> elements cannot send headers, so stream URLs carry the token. Players pass
+// the token playback started with, so a renewal does not change the URL and restart the stream.
+function mediaUrl(endpoint: string, params: Record<string, string | number> = {}, token = tokenManager.getToken()): string {
+  const query = new URLSearchParams(Object.entries(params).map(([name, value]) => [name, String(value)]));
+  query.set('token', token ?? '');
+  return `${API_BASE_URL}${endpoint}?${query}`;
+}
+
+export const mediaApi = {
+  // Whether the browser can play the original file or needs the transcoded stream
+  getPlayback: async (videoId: string): Promise<ApiResponse<PlaybackInfo>> => {
+    return apiRequest<PlaybackInfo>(`/api/media/videos/${videoId}/playback`);
+  },
+
+  // Original file, served with HTTP range support
+  videoStreamUrl: (videoId: string, token?: string | null): string => {
+    return mediaUrl(`/api/media/videos/${videoId}/stream`, {}, token);
+  },
+
+  // Low-bitrate MP4 transcode starting at the given position; not seekable
+  videoTranscodeUrl: (videoId: string, startSeconds = 0, token?: string | null): string => {
+    return mediaUrl(`/api/media/videos/${videoId}/transcode`, { start: startSeconds.toFixed(3) }, token);
+  },
+
+  // WebVTT rendition of a subtitle, shifted back by offsetMs to match a transcode
+  subtitleTrackUrl: (subtitleId: string, offsetMs = 0, token?: string | null): string => {
+    return mediaUrl(`/api/media/subtitles/${subtitleId}/vtt`, { offset: Math.round(offsetMs) }, token);
+  },
+
+  // The subtitle file as an attachment, for a plain download link
+  subtitleDownloadUrl: (subtitleId: string): string => {
+    return mediaUrl(`/api/media/subtitles/${subtitleId}/download`);
+  },
+
+  // The full process log of a task as a text file
+  taskLogDownloadUrl: (taskId: string): string => {
+    return mediaUrl(`/api/media/tasks/${taskId}/log`);
+  },
+};
+
+// Settings API
+export const settingsApi = {
+  // Get the current user's settings
+  getSettings: async (): Promise<ApiResponse<UserSettings>> => {
+    return apiRequest<UserSettings>('/api/settings');
+  },
+
+  // Replace the current user's settings
+  updateSettings: async (update: SettingsUpdate): Promise<SettingsSaveResponse> => {
+    const response = await apiRequest<UserSettings>('/api/settings', {
+      method: 'PUT',
+      body: JSON.stringify(update),
+    });
+
+    if (response.status === 400 && response.error) {
+      try {
+        const { message, fieldErrors } = JSON.parse(response.error) as SettingsValidationError;
+        return { error: message, fieldErrors, status: response.status };
+      } catch {
+        // Not a validation payload; keep the raw error
+      }
+    }
+
+    return response;
   },
 };
 
 // Authentication API
 export const authApi = {
-  // Login with password
-  login: async (password: string): Promise<ApiResponse<AuthResponse>> => {
+  // Login with username and password
+  login: async (username: string, password: string): Promise<ApiResponse<AuthResponse>> => {
     const response = await apiRequest<AuthResponse>('/api/auth/login', {
       method: 'POST',
-      body: JSON.stringify({ password }),
+      body: JSON.stringify({ username, password }),
     });
     
-    // If login successful, store the token
-    if (response.data?.success && response.data.token) {
-      tokenManager.setToken(response.data.token);
+    // If login successful, store the tokens
+    if (response.data?.success) {
+      tokenManager.setSession(response.data);
     }
     
     return response;
@@ -424,7 +1025,12 @@ export const authApi = {
     });
   },
 
-  // Change password
+  // The signed-in user's account
+  getCurrentUser: async (): Promise<ApiResponse<UserView>> => {
+    return apiRequest<UserView>('/api/auth/me');
+  },
+
+  // Change the signed-in user's password
   changePassword: async (currentPassword: string, newPassword: string): Promise<ApiResponse<ChangePasswordResponse>> => {
     return apiRequest<ChangePasswordResponse>('/api/auth/change-password', {
       method: 'POST',
@@ -432,10 +1038,12 @@ export const authApi = {
     });
   },
 
-  // Logout
+  // Logout, revoking the refresh token
   logout: async (): Promise<ApiResponse<{ message: string }>> => {
+    const request: LogoutRequest = { refreshToken: tokenManager.getSession()?.refreshToken ?? null };
     const response = await apiRequest<{ message: string }>('/api/auth/logout', {
       method: 'POST',
+      body: JSON.stringify(request),
     });
     
     // Always clear the token on logout, regardless of response
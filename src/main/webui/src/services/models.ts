@@ -0,0 +1,160 @@
+// Domain models shared by the API client, the WebSocket client and the pages.
+// Everything here is an alias over ./generated/openapi.ts, which is generated
+// from the backend's OpenAPI document (openapi/openapi.yaml) by `npm run generate:api`.
+// Do not redeclare these shapes locally; regenerate instead.
+import type { components } from './generated/openapi';
+import {
+  aIProviderValues,
+  apiTokenScopeValues,
+  cueDecisionValues,
+  reviewStatusValues,
+  scheduleActionValues,
+  subtitleTypeValues,
+  syncStatusValues,
+  syncToolValues,
+  taskPriorityValues,
+  taskStatusValues,
+  taskTypeValues,
+  timingModeValues,
+  userRoleValues,
+} from './generated/openapi';
+
+type Schemas = components['schemas'];
+
+// Entities
+export type Task = Schemas['Task'];
+export type Video = Schemas['VideoFile'];
+export type Subtitle = Schemas['Subtitle'];
+export type SubtitleFlagsUpdate = Schemas['SubtitleFlagsUpdate'];
+
+// Task creation
+export type CloneTaskRequest = Schemas['CloneTaskRequest'];
+export type CreateBatchTaskRequest = Schemas['CreateBatchTaskRequest'];
+export type UpdateTaskRequest = Schemas['UpdateTaskRequest'];
+// Priority and run-at time (an ISO instant) that every task creation call accepts
+export type TaskTiming = Pick<Schemas['CreateTaskRequest'], 'priority' | 'runAt'>;
+
+// Subtitle editor
+export type SubtitleCue = Schemas['SubtitleCue'];
+export type SubtitleCues = Schemas['SubtitleCues'];
+export type SaveCuesRequest = Schemas['SaveCuesRequest'];
+
+// Manual timing
+export type TimingAnchor = Schemas['TimingAnchor'];
+export type TimingRequest = Schemas['TimingRequest'];
+export type TimingAdjustmentSummary = Schemas['TimingAdjustmentSummary'];
+
+// Translation review
+export type ReviewSummary = Schemas['ReviewSummary'];
+export type ReviewDetail = Schemas['ReviewDetail'];
+export type ReviewCue = Schemas['ReviewCue'];
+export type ReviewCueUpdate = Schemas['ReviewCueUpdate'];
+export type CueDecisionRequest = Schemas['CueDecisionRequest'];
+
+// Media playback
+export type PlaybackInfo = Schemas['PlaybackInfo'];
+
+// Video library
+// A library row, with its ids and instants as plain strings
+export type VideoView = Schemas['VideoView'];
+export type VideoPage = Schemas['VideoPage'];
+export type VideoTotals = Schemas['VideoTotals'];
+
+// Task analytics
+export type TaskAnalytics = Schemas['TaskAnalytics'];
+export type TaskTypeAnalytics = Schemas['TaskTypeAnalytics'];
+export type ThroughputBucket = Schemas['ThroughputBucket'];
+export type QueueDepthSample = Schemas['QueueDepthSample'];
+
+// Task logs
+export type TaskLog = Schemas['TaskLog'];
+export type TaskLogLine = Schemas['TaskLogLine'];
+
+// Recurring schedules
+export type ScheduleView = Schemas['ScheduleView'];
+export type ScheduleRequest = Schemas['ScheduleRequest'];
+export type SchedulePreview = Schemas['SchedulePreview'];
+
+// Per-video pipelines
+export type PipelineView = Schemas['PipelineView'];
+export type PipelineRequest = Schemas['PipelineRequest'];
+export type PipelineStep = Schemas['PipelineStep'];
+export type PipelineRunRequest = Schemas['PipelineRunRequest'];
+export type PipelineRunView = Schemas['PipelineRunView'];
+export type PipelineStepView = Schemas['PipelineStepView'];
+
+// Global search
+export type SearchResults = Schemas['SearchResults'];
+export type VideoSearchHit = Schemas['VideoSearchHit'];
+export type SubtitleSearchHit = Schemas['SubtitleSearchHit'];
+export type TaskSearchHit = Schemas['TaskSearchHit'];
+
+// Notification center
+export type NotificationView = Schemas['NotificationView'];
+export type NotificationList = Schemas['NotificationList'];
+
+// User accounts
+export type UserView = Schemas['UserView'];
+export type UserCreateRequest = Schemas['UserCreateRequest'];
+export type UserUpdateRequest = Schemas['UserUpdateRequest'];
+export type PasswordResetRequest = Schemas['PasswordResetRequest'];
+
+// Personal API tokens
+export type ApiTokenView = Schemas['ApiTokenView'];
+export type ApiTokenCreateRequest = Schemas['ApiTokenCreateRequest'];
+export type ApiTokenCreated = Schemas['ApiTokenCreated'];
+
+// Library statistics
+export type LibraryStats = Schemas['LibraryStats'];
+export type LibraryDiskUsage = Schemas['LibraryDiskUsage'];
+
+// Enums
+export type TaskType = Schemas['TaskType'];
+export type TaskStatus = Schemas['TaskStatus'];
+export type TaskPriority = Schemas['TaskPriority'];
+export type SubtitleType = Schemas['SubtitleType'];
+export type SyncStatus = Schemas['SyncStatus'];
+export type AIProvider = Schemas['AIProvider'];
+export type SyncTool = Schemas['SyncTool'];
+export type ReviewStatus = Schemas['ReviewStatus'];
+export type CueDecision = Schemas['CueDecision'];
+export type TimingMode = Schemas['TimingMode'];
+export type ScheduleAction = Schemas['ScheduleAction'];
+export type PipelineStepStatus = Schemas['PipelineStepStatus'];
+export type NotificationKind = Schemas['NotificationKind'];
+export type NotificationLevel = Schemas['NotificationLevel'];
+export type UserRole = Schemas['UserRole'];
+export type ApiTokenScope = Schemas['ApiTokenScope'];
+
+// Runtime lists of the enum values, in backend declaration order
+export const TASK_TYPES: readonly TaskType[] = taskTypeValues;
+export const TASK_STATUSES: readonly TaskStatus[] = taskStatusValues;
+export const TASK_PRIORITIES: readonly TaskPriority[] = taskPriorityValues;
+export const SUBTITLE_TYPES: readonly SubtitleType[] = subtitleTypeValues;
+export const SYNC_STATUSES: readonly SyncStatus[] = syncStatusValues;
+export const AI_PROVIDERS: readonly AIProvider[] = aIProviderValues;
+export const SYNC_TOOLS: readonly SyncTool[] = syncToolValues;
+export const REVIEW_STATUSES: readonly ReviewStatus[] = reviewStatusValues;
+export const CUE_DECISIONS: readonly CueDecision[] = cueDecisionValues;
+export const TIMING_MODES: readonly TimingMode[] = timingModeValues;
+export const SCHEDULE_ACTIONS: readonly ScheduleAction[] = scheduleActionValues;
+export const USER_ROLES: readonly UserRole[] = userRoleValues;
+export const API_TOKEN_SCOPES: readonly ApiTokenScope[] = apiTokenScopeValues;
+
+// User settings
+export type UserSettings = Schemas['UserSettings'];
+export type SettingsUpdate = Schemas['SettingsUpdate'];
+export type SettingsValidationError = Schemas['SettingsValidationError'];
+
+// Auth payloads
+export type LoginRequest = Schemas['LoginRequest'];
+export type AuthResponse = Schemas['AuthResponse'];
+export type RefreshRequest = Schemas['RefreshRequest'];
+export type LogoutRequest = Schemas['LogoutRequest'];
+export type ChangePasswordRequest = Schemas['ChangePasswordRequest'];
+export type ChangePasswordResponse = Schemas['ChangePasswordResponse'];
+
+// Turns an enum constant such as SYNC_SUBTITLES into "Sync Subtitles"
+export function formatEnumLabel(value: string): string {
+  return value.replace(/_/g, ' ').toLowerCase().replace(/\b\w/g, l => l.toUpperCase());
+}
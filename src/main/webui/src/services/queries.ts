@@ -0,0 +1,587 @@
+// Cache keys, read helpers and cache-aware writes built on services/api.ts.
+//
+// Keys are hierarchical: [resource, scope, params?]. Invalidating a shorter prefix
+// covers everything below it, so ['tasks'] reaches every task list, detail and
+// statistics entry while ['tasks', 'detail', id] reaches only one task.
+import {
+  apiTokenApi,
+  dashboardApi,
+  mediaApi,
+  notificationApi,
+  pipelineApi,
+  processingApi,
+  reviewApi,
+  scheduleApi,
+  searchApi,
+  settingsApi,
+  subtitleApi,
+  taskApi,
+  userApi,
+  videoApi,
+} from './api';
+import type {
+  AnalyticsRange,
+  ApiResponse,
+  ApiTokenCreateRequest,
+  ApiTokenView,
+  CloneTaskRequest,
+  CreateBatchTaskRequest,
+  CueDecisionRequest,
+  DashboardStats,
+  NotificationList,
+  PasswordResetRequest,
+  PipelineRequest,
+  PipelineRunRequest,
+  PipelineRunView,
+  PipelineView,
+  PlaybackInfo,
+  ReviewDetail,
+  ReviewStatus,
+  ReviewSummary,
+  SchedulePreview,
+  ScheduleRequest,
+  ScheduleView,
+  SearchResults,
+  SettingsUpdate,
+  Subtitle,
+  SubtitleCue,
+  SubtitleCues,
+  SubtitleFlagsUpdate,
+  Task,
+  TaskAnalytics,
+  TaskLog,
+  TaskPriority,
+  TaskTiming,
+  TimingAdjustmentSummary,
+  TimingRequest,
+  UserCreateRequest,
+  UserSettings,
+  UserUpdateRequest,
+  UserView,
+  Video,
+  VideoPage,
+  VideoQuery,
+  VideoTotals,
+} from './api';
+import { queryCache } from './queryCache';
+import type { QueryDefinition, QueryKey } from './queryCache';
+import type { LiveNotification, TaskSnapshot } from './websocket';
+
+export interface SchedulePreviewQuery {
+  cron?: string;
+  intervalMinutes?: number;
+}
+
+export interface TaskListQuery {
+  page?: number;
+  size?: number;
+  status?: string;
+  type?: string;
+}
+
+// The page size taskApi.getTasks uses when the query has none
+const DEFAULT_TASK_PAGE_SIZE = 20;
+
+export const queryKeys = {
+  videos: {
+    all: ['videos'] as const,
+    lists: () => ['videos', 'list'] as const,
+    list: (query: VideoQuery) => ['videos', 'list', { ...query }] as const,
+    totals: () => ['videos', 'totals'] as const,
+    detail: (id: string) => ['videos', 'detail', id] as const,
+    playback: (id: string) => ['videos', 'playback', id] as const,
+  },
+  subtitles: {
+    all: ['subtitles'] as const,
+    list: () => ['subtitles', 'list'] as const,
+    forVideos: () => ['subtitles', 'video'] as const,
+    forVideo: (videoId: string) => ['subtitles', 'video', videoId] as const,
+    detail: (id: string) => ['subtitles', 'detail', id] as const,
+    cues: (id: string) => ['subtitles', 'cues', id] as const,
+    timing: (id: string) => ['subtitles', 'timing', id] as const,
+  },
+  tasks: {
+    all: ['tasks'] as const,
+    lists: () => ['tasks', 'list'] as const,
+    list: (query: TaskListQuery) => ['tasks', 'list', { ...query }] as const,
+    forVideo: (videoId: string) => ['tasks', 'video', videoId] as const,
+    detail: (id: string) => ['tasks', 'detail', id] as const,
+    statistics: () => ['tasks', 'statistics'] as const,
+    analytics: (range: AnalyticsRange) => ['tasks', 'analytics', range] as const,
+    log: (id: string) => ['tasks', 'log', id] as const,
+  },
+  reviews: {
+    all: ['reviews'] as const,
+    lists: () => ['reviews', 'list'] as const,
+    list: (status?: ReviewStatus) => ['reviews', 'list', status ?? 'all'] as const,
+    detail: (id: string) => ['reviews', 'detail', id] as const,
+  },
+  schedules: {
+    all: ['schedules'] as const,
+    lists: () => ['schedules', 'list'] as const,
+    preview: (query: SchedulePreviewQuery) => ['schedules', 'preview', { ...query }] as const,
+  },
+  pipelines: {
+    all: ['pipelines'] as const,
+    lists: () => ['pipelines', 'list'] as const,
+    run: (taskId: string) => ['pipelines', 'run', taskId] as const,
+  },
+  search: {
+    all: ['search'] as const,
+    results: (term: string) => ['search', 'results', term] as const,
+  },
+  notifications: {
+    all: ['notifications'] as const,
+    list: () => ['notifications', 'list'] as const,
+  },
+  users: {
+    all: ['users'] as const,
+    lists: () => ['users', 'list'] as const,
+  },
+  apiTokens: {
+    all: ['apiTokens'] as const,
+    lists: () => ['apiTokens', 'list'] as const,
+  },
+  dashboard: {
+    all: ['dashboard'] as const,
+    stats: () => ['dashboard', 'stats'] as const,
+  },
+  settings: {
+    all: ['settings'] as const,
+    current: () => ['settings', 'current'] as const,
+  },
+};
+
+// Turns an ApiResponse into a value or a thrown error, which is what the cache expects
+export async function unwrap<T>(request: Promise<ApiResponse<T>>): Promise<T> {
+  const response = await request;
+  if (response.error) {
+    throw new Error(response.error);
+  }
+  return response.data as T;
+}
+
+// Runs a write and, when it succeeds, invalidates the given key prefixes
+async function mutate<T>(request: Promise<ApiResponse<T>>, invalidates: QueryKey[]): Promise<ApiResponse<T>> {
+  const response = await request;
+  if (!response.error) {
+    invalidates.forEach(key => queryCache.invalidate(key));
+  }
+  return response;
+}
+
+// Task writes affect task lists, the dashboard counters and usually one video
+const afterTaskChange = (videoId?: string | null): QueryKey[] => [
+  queryKeys.tasks.all,
+  queryKeys.dashboard.all,
+  ...(videoId ? [queryKeys.videos.detail(videoId)] : []),
+];
+
+export const taskMutations = {
+  cancel: (id: string) => mutate(taskApi.cancelTask(id), afterTaskChange()),
+
+  retry: (id: string) => mutate(taskApi.retryTask(id), afterTaskChange()),
+
+  pause: (id: string) => mutate(taskApi.pauseTask(id), afterTaskChange()),
+
+  resume: (id: string) => mutate(taskApi.resumeTask(id), afterTaskChange()),
+
+  setPriority: (id: string, priority: TaskPriority) =>
+    mutate(taskApi.updateTaskPriority(id, priority), afterTaskChange()),
+
+  clone: (id: string, request?: CloneTaskRequest) => mutate(taskApi.cloneTask(id, request), afterTaskChange()),
+
+  createScan: (paths: string[], timing?: TaskTiming) => mutate(taskApi.createScanTask(paths, timing), afterTaskChange()),
+
+  createRescan: (videoId: string, timing?: TaskTiming) =>
+    mutate(taskApi.createRescanTask(videoId, timing), afterTaskChange(videoId)),
+
+  createExtraction: (videoId: string, timing?: TaskTiming) =>
+    mutate(taskApi.createExtractionTask(videoId, timing), afterTaskChange(videoId)),
+
+  createGeneration: (videoId: string, language?: string, timing?: TaskTiming) =>
+    mutate(taskApi.createGenerationTask(videoId, language, timing), afterTaskChange(videoId)),
+
+  createSync: (videoId: string, subtitleId?: string, tool?: string, timing?: TaskTiming) =>
+    mutate(taskApi.createSyncTask(videoId, subtitleId, tool, timing), afterTaskChange(videoId)),
+
+  createTranslation: (subtitleId: string, targetLanguage: string, provider?: string, timing?: TaskTiming) =>
+    mutate(taskApi.createTranslationTask(subtitleId, targetLanguage, provider, timing), [
+      ...afterTaskChange(),
+      queryKeys.subtitles.detail(subtitleId),
+    ]),
+
+  // Children update the selected videos too, which are simplest to refetch wholesale
+  createBatch: (request: CreateBatchTaskRequest) =>
+    mutate(taskApi.createBatchTask(request), [...afterTaskChange(), queryKeys.videos.all]),
+
+  cleanup: () => mutate(taskApi.cleanupTasks(), afterTaskChange()),
+};
+
+export const processingMutations = {
+  translateVideo: (id: string) =>
+    mutate(processingApi.translateVideo(id), [queryKeys.videos.all, queryKeys.subtitles.all]),
+
+  syncVideo: (id: string) =>
+    mutate(processingApi.syncVideo(id), [queryKeys.videos.all, queryKeys.subtitles.all]),
+};
+
+export const subtitleMutations = {
+  // The response holds the cues as written, so it replaces the cached copy directly.
+  // Lists and details are refetched since line count and sync status may have changed.
+  saveCues: async (id: string, cues: SubtitleCue[]) => {
+    const response = await subtitleApi.saveCues(id, cues);
+    if (response.data) {
+      queryCache.setData(queryKeys.subtitles.cues(id), response.data);
+      queryCache.invalidate(queryKeys.subtitles.list());
+      queryCache.invalidate(queryKeys.subtitles.detail(id));
+      queryCache.invalidate(queryKeys.subtitles.forVideos());
+      queryCache.invalidate(queryKeys.videos.all);
+    }
+    return response;
+  },
+
+  // Flags show up in every list the subtitle is in, which are small enough to refetch
+  updateFlags: (id: string, update: SubtitleFlagsUpdate) =>
+    mutate(subtitleApi.updateFlags(id, update), [queryKeys.subtitles.all]),
+
+  remove: (id: string) => mutate(subtitleApi.deleteSubtitle(id), [queryKeys.subtitles.all, queryKeys.videos.all]),
+
+  convert: (id: string, format: string) =>
+    mutate(subtitleApi.convert(id, format), [queryKeys.subtitles.list(), queryKeys.subtitles.forVideos()]),
+
+  // A re-timing adds a subtitle to the video and leaves the original untouched
+  retime: (id: string, request: TimingRequest) =>
+    mutate(subtitleApi.retime(id, request), [
+      queryKeys.subtitles.list(),
+      queryKeys.subtitles.forVideos(),
+      queryKeys.subtitles.timing(id),
+      queryKeys.videos.all,
+    ]),
+};
+
+export const reviewMutations = {
+  open: (subtitleId: string) => mutate(reviewApi.openReview(subtitleId), [queryKeys.reviews.lists()]),
+
+  // Patches the cue and the review's counters into the open review instead of refetching every cue
+  decide: async (id: string, index: number, request: CueDecisionRequest) => {
+    const response = await reviewApi.decideCue(id, index, request);
+    if (response.data) {
+      const { cue, review } = response.data;
+      queryCache.updateAll(queryKeys.reviews.detail(id), data => {
+        const detail = data as ReviewDetail;
+        return {
+          ...detail,
+          review,
+          cues: detail.cues.map(existing => (existing.index === cue.index ? cue : existing)),
+        };
+      });
+      queryCache.invalidate(queryKeys.reviews.lists());
+    }
+    return response;
+  },
+};
+
+// Running a schedule queues tasks, so task lists are refreshed along with the schedule's last outcome
+export const scheduleMutations = {
+  create: (request: ScheduleRequest) => mutate(scheduleApi.createSchedule(request), [queryKeys.schedules.lists()]),
+
+  update: (id: string, request: ScheduleRequest) =>
+    mutate(scheduleApi.updateSchedule(id, request), [queryKeys.schedules.lists()]),
+
+  setEnabled: (id: string, enabled: boolean) =>
+    mutate(scheduleApi.setEnabled(id, enabled), [queryKeys.schedules.lists()]),
+
+  remove: (id: string) => mutate(scheduleApi.deleteSchedule(id), [queryKeys.schedules.lists()]),
+
+  runNow: (id: string) => mutate(scheduleApi.runNow(id), [queryKeys.schedules.lists(), ...afterTaskChange()]),
+};
+
+// Runs already queued carry their own copy of the steps, so edits only refresh the definitions
+export const pipelineMutations = {
+  create: (request: PipelineRequest) => mutate(pipelineApi.createPipeline(request), [queryKeys.pipelines.lists()]),
+
+  update: (id: string, request: PipelineRequest) =>
+    mutate(pipelineApi.updatePipeline(id, request), [queryKeys.pipelines.lists()]),
+
+  remove: (id: string) => mutate(pipelineApi.deletePipeline(id), [queryKeys.pipelines.lists()]),
+
+  run: (id: string, request: PipelineRunRequest) =>
+    mutate(pipelineApi.runPipeline(id, request), afterTaskChange(request.videoIds.length === 1 ? request.videoIds[0] : null)),
+};
+
+export const notificationMutations = {
+  markRead: (id: string) => mutate(notificationApi.markRead(id), [queryKeys.notifications.all]),
+
+  markAllRead: () => mutate(notificationApi.markAllRead(), [queryKeys.notifications.all]),
+
+  remove: (id: string) => mutate(notificationApi.deleteNotification(id), [queryKeys.notifications.all]),
+
+  clear: () => mutate(notificationApi.clearNotifications(), [queryKeys.notifications.all]),
+};
+
+export const userMutations = {
+  create: (request: UserCreateRequest) => mutate(userApi.createUser(request), [queryKeys.users.lists()]),
+
+  update: (id: string, request: UserUpdateRequest) => mutate(userApi.updateUser(id, request), [queryKeys.users.lists()]),
+
+  // A new password changes nothing the user list shows
+  resetPassword: (id: string, request: PasswordResetRequest) => mutate(userApi.resetPassword(id, request), []),
+};
+
+export const apiTokenMutations = {
+  create: (request: ApiTokenCreateRequest) => mutate(apiTokenApi.createToken(request), [queryKeys.apiTokens.lists()]),
+
+  revoke: (id: string) => mutate(apiTokenApi.revokeToken(id), [queryKeys.apiTokens.lists()]),
+};
+
+export const settingsMutations = {
+  // The response is the saved configuration, so it replaces the cached copy directly
+  update: async (update: SettingsUpdate) => {
+    const response = await settingsApi.updateSettings(update);
+    if (response.data) {
+      queryCache.setData(queryKeys.settings.current(), response.data);
+    }
+    return response;
+  },
+};
+
+// Read definitions, so every page loads a given key with the same request
+export const queries = {
+  videoPage: (query: VideoQuery): QueryDefinition<VideoPage> => ({
+    key: queryKeys.videos.list(query),
+    fetch: () => unwrap(videoApi.getVideos(query)),
+  }),
+  video: (id: string): QueryDefinition<Video> => ({
+    key: queryKeys.videos.detail(id),
+    fetch: () => unwrap(videoApi.getVideo(id)),
+  }),
+  videoSubtitles: (videoId: string): QueryDefinition<Subtitle[]> => ({
+    key: queryKeys.subtitles.forVideo(videoId),
+    fetch: () => unwrap(videoApi.getVideoSubtitles(videoId)),
+  }),
+  videoTasks: (videoId: string): QueryDefinition<Task[]> => ({
+    key: queryKeys.tasks.forVideo(videoId),
+    fetch: () => unwrap(taskApi.getTasksForVideo(videoId)),
+  }),
+  playback: (videoId: string): QueryDefinition<PlaybackInfo> => ({
+    key: queryKeys.videos.playback(videoId),
+    fetch: () => unwrap(mediaApi.getPlayback(videoId)),
+  }),
+  videoTotals: (): QueryDefinition<VideoTotals> => ({
+    key: queryKeys.videos.totals(),
+    fetch: () => unwrap(videoApi.getVideoTotals()),
+  }),
+  subtitles: (): QueryDefinition<Subtitle[]> => ({
+    key: queryKeys.subtitles.list(),
+    fetch: () => unwrap(subtitleApi.getSubtitles()),
+  }),
+  subtitle: (id: string): QueryDefinition<Subtitle> => ({
+    key: queryKeys.subtitles.detail(id),
+    fetch: () => unwrap(subtitleApi.getSubtitle(id)),
+  }),
+  subtitleCues: (id: string): QueryDefinition<SubtitleCues> => ({
+    key: queryKeys.subtitles.cues(id),
+    fetch: () => unwrap(subtitleApi.getCues(id)),
+  }),
+  timingHistory: (id: string): QueryDefinition<TimingAdjustmentSummary[]> => ({
+    key: queryKeys.subtitles.timing(id),
+    fetch: () => unwrap(subtitleApi.getTimingHistory(id)),
+  }),
+  task: (id: string): QueryDefinition<Task> => ({
+    key: queryKeys.tasks.detail(id),
+    fetch: () => unwrap(taskApi.getTask(id)),
+  }),
+  taskLog: (id: string): QueryDefinition<TaskLog> => ({
+    key: queryKeys.tasks.log(id),
+    fetch: () => unwrap(taskApi.getTaskLog(id)),
+  }),
+  taskAnalytics: (range: AnalyticsRange): QueryDefinition<TaskAnalytics> => ({
+    key: queryKeys.tasks.analytics(range),
+    fetch: () => unwrap(taskApi.getAnalytics(range)),
+  }),
+  tasks: (query: TaskListQuery): QueryDefinition<Task[]> => ({
+    key: queryKeys.tasks.list(query),
+    fetch: () => unwrap(taskApi.getTasks(query.page, query.size, query.status, query.type)),
+  }),
+  reviews: (status?: ReviewStatus): QueryDefinition<ReviewSummary[]> => ({
+    key: queryKeys.reviews.list(status),
+    fetch: () => unwrap(reviewApi.getReviews(status)),
+  }),
+  review: (id: string): QueryDefinition<ReviewDetail> => ({
+    key: queryKeys.reviews.detail(id),
+    fetch: () => unwrap(reviewApi.getReview(id)),
+  }),
+  schedules: (): QueryDefinition<ScheduleView[]> => ({
+    key: queryKeys.schedules.lists(),
+    fetch: () => unwrap(scheduleApi.getSchedules()),
+  }),
+  schedulePreview: (query: SchedulePreviewQuery): QueryDefinition<SchedulePreview> => ({
+    key: queryKeys.schedules.preview(query),
+    fetch: () => unwrap(scheduleApi.preview(query)),
+  }),
+  pipelines: (): QueryDefinition<PipelineView[]> => ({
+    key: queryKeys.pipelines.lists(),
+    fetch: () => unwrap(pipelineApi.getPipelines()),
+  }),
+  pipelineRun: (taskId: string): QueryDefinition<PipelineRunView> => ({
+    key: queryKeys.pipelines.run(taskId),
+    fetch: () => unwrap(pipelineApi.getRun(taskId)),
+  }),
+  search: (term: string): QueryDefinition<SearchResults> => ({
+    key: queryKeys.search.results(term),
+    fetch: () => unwrap(searchApi.search(term)),
+  }),
+  notifications: (): QueryDefinition<NotificationList> => ({
+    key: queryKeys.notifications.list(),
+    fetch: () => unwrap(notificationApi.getNotifications()),
+  }),
+  users: (): QueryDefinition<UserView[]> => ({
+    key: queryKeys.users.lists(),
+    fetch: () => unwrap(userApi.getUsers()),
+  }),
+  apiTokens: (): QueryDefinition<ApiTokenView[]> => ({
+    key: queryKeys.apiTokens.lists(),
+    fetch: () => unwrap(apiTokenApi.getTokens()),
+  }),
+  dashboardStats: (): QueryDefinition<DashboardStats> => ({
+    key: queryKeys.dashboard.stats(),
+    fetch: () => unwrap(dashboardApi.getStats()),
+  }),
+  settings: (): QueryDefinition<UserSettings> => ({
+    key: queryKeys.settings.current(),
+    fetch: () => unwrap(settingsApi.getSettings()),
+  }),
+};
+
+const TERMINAL_STATUSES = new Set(['COMPLETED', 'FAILED', 'CANCELLED']);
+
+const mergeSnapshot = (task: Task, snapshot: TaskSnapshot): Task => ({
+  ...task,
+  status: snapshot.status,
+  priority: snapshot.priority,
+  progressPercentage: snapshot.progressPercentage,
+  progressMessage: snapshot.progressMessage,
+  errorMessage: snapshot.errorMessage,
+  retryCount: snapshot.retryCount,
+  updatedAt: snapshot.updatedAt,
+  startedAt: snapshot.startedAt ?? undefined,
+  completedAt: snapshot.completedAt ?? undefined,
+  estimatedDuration: snapshot.estimatedDuration,
+});
+
+// A task first seen over the WebSocket. Relations are filled in on the next refetch.
+const taskFromSnapshot = (snapshot: TaskSnapshot): Task => ({
+  id: snapshot.id,
+  type: snapshot.type,
+  status: snapshot.status,
+  priority: snapshot.priority,
+  progress: snapshot.progressPercentage,
+  progressPercentage: snapshot.progressPercentage,
+  progressMessage: snapshot.progressMessage,
+  errorMessage: snapshot.errorMessage,
+  retryCount: snapshot.retryCount,
+  maxRetries: snapshot.maxRetries,
+  parentId: snapshot.parentId ?? undefined,
+  estimatedDuration: snapshot.estimatedDuration,
+  createdAt: snapshot.createdAt,
+  updatedAt: snapshot.updatedAt,
+  startedAt: snapshot.startedAt ?? undefined,
+  completedAt: snapshot.completedAt ?? undefined,
+});
+
+// Places a task in a newest-first list. A full list whose last task is newer does not
+// reach back far enough to contain it and is returned unchanged.
+function insertByCreation(tasks: Task[], task: Task, size?: number): Task[] {
+  const createdAt = Date.parse(task.createdAt);
+  const index = tasks.findIndex(other => Date.parse(other.createdAt) < createdAt);
+  if (index === -1 && size !== undefined && tasks.length >= size) return tasks;
+  const next = tasks.slice();
+  next.splice(index === -1 ? next.length : index, 0, task);
+  return size !== undefined ? next.slice(0, size) : next;
+}
+
+// Folds a live task update into every cached task list and detail. Tasks the cache has
+// not seen yet are inserted into the first page of each matching list, and finished
+// tasks invalidate what they produced.
+export function applyTaskUpdate(snapshot: TaskSnapshot): void {
+  let known = false;
+
+  queryCache.updateAll(queryKeys.tasks.all, data => {
+    if (Array.isArray(data)) {
+      const tasks = data as Task[];
+      const index = tasks.findIndex(task => task.id === snapshot.id);
+      if (index === -1) return data;
+      known = true;
+      const next = tasks.slice();
+      next[index] = mergeSnapshot(tasks[index], snapshot);
+      return next;
+    }
+
+    const task = data as Task;
+    if (task.id !== snapshot.id) return data;
+    known = true;
+    return mergeSnapshot(task, snapshot);
+  });
+
+  if (!known) {
+    const task = taskFromSnapshot(snapshot);
+    // Later pages shift by one; they are refetched rather than patched
+    const shiftedPages: QueryKey[] = [];
+    queryCache.updateAll(queryKeys.tasks.lists(), (data, key) => {
+      const query = key[2] as TaskListQuery;
+      if ((query.status && query.status !== task.status) || (query.type && query.type !== task.type)) {
+        return data;
+      }
+      if (query.page) {
+        shiftedPages.push(key);
+        return data;
+      }
+      return insertByCreation(data as Task[], task, query.size ?? DEFAULT_TASK_PAGE_SIZE);
+    });
+    shiftedPages.forEach(key => queryCache.invalidate(key));
+    if (snapshot.videoId) {
+      queryCache.updateAll(queryKeys.tasks.forVideo(snapshot.videoId), data => insertByCreation(data as Task[], task));
+    }
+  }
+
+  // A pipeline's progress moves whenever one of its steps does, so its updates refresh the step list
+  if (snapshot.type === 'PIPELINE') {
+    queryCache.invalidate(queryKeys.pipelines.run(snapshot.id));
+  } else if (snapshot.parentId && TERMINAL_STATUSES.has(snapshot.status)) {
+    queryCache.invalidate(queryKeys.pipelines.run(snapshot.parentId));
+  }
+
+  if (TERMINAL_STATUSES.has(snapshot.status)) {
+    // Snapshots carry no result, so an open task detail is refetched for it
+    queryCache.invalidate(queryKeys.tasks.detail(snapshot.id));
+    queryCache.invalidate(queryKeys.tasks.statistics());
+    queryCache.invalidate(queryKeys.dashboard.all);
+    queryCache.invalidate(queryKeys.videos.totals());
+    // A schedule shows how the last task it queued went
+    queryCache.invalidate(queryKeys.schedules.lists());
+    if (snapshot.videoId) {
+      queryCache.invalidate(queryKeys.videos.detail(snapshot.videoId));
+    }
+    if (snapshot.type === 'SCAN_LIBRARY') {
+      queryCache.invalidate(queryKeys.videos.all);
+    }
+    if (snapshot.subtitleId || snapshot.type.endsWith('_SUBTITLES')) {
+      queryCache.invalidate(queryKeys.subtitles.all);
+    }
+  } else if (!known) {
+    queryCache.invalidate(queryKeys.dashboard.all);
+  }
+}
+
+// Puts a notification pushed over the WebSocket at the top of the cached list
+export function applyNotification(notification: LiveNotification): void {
+  queryCache.updateAll(queryKeys.notifications.list(), data => {
+    const list = data as NotificationList;
+    if (list.notifications.some(existing => existing.id === notification.id)) return data;
+    return {
+      notifications: [{ ...notification, read: false }, ...list.notifications],
+      unreadCount: list.unreadCount + 1,
+    };
+  });
+}
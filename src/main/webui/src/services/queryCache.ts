@@ -0,0 +1,232 @@
+// Client-side cache for API reads. Identical requests share one in-flight promise,
+// cached data is served immediately and revalidated in the background once stale,
+// and writes invalidate entries by key prefix. React bindings live in hooks/useQuery.ts;
+// the key scheme lives in services/queries.ts.
+
+type KeyValue = string | number | boolean | null | undefined;
+export type QueryKeyPart = KeyValue | { [field: string]: KeyValue };
+export type QueryKey = readonly QueryKeyPart[];
+
+// A key together with the request that loads it
+export interface QueryDefinition<T> {
+  key: QueryKey;
+  fetch: () => Promise<T>;
+}
+
+export interface QueryState<T> {
+  data?: T;
+  error?: string;
+  // Time of the last successful fetch; 0 when never fetched or invalidated
+  updatedAt: number;
+  isFetching: boolean;
+}
+
+interface Entry {
+  key: QueryKey;
+  state: QueryState<unknown>;
+  fetcher?: () => Promise<unknown>;
+  promise?: Promise<unknown>;
+  staleTime: number;
+  listeners: Set<() => void>;
+  gcTimer?: ReturnType<typeof setTimeout>;
+}
+
+export const DEFAULT_STALE_TIME = 30 * 1000;
+// Unused entries are dropped after this long
+const GC_TIME = 5 * 60 * 1000;
+// Invalidations arriving in a burst (e.g. from live events) are refetched together
+const REFETCH_DELAY = 200;
+
+const EMPTY_STATE: QueryState<never> = { updatedAt: 0, isFetching: false };
+
+// Object parts are serialized with sorted keys and undefined fields dropped, so
+// { a: 1, b: undefined } and { a: 1 } address the same entry.
+export function hashKey(key: QueryKey): string {
+  return JSON.stringify(key, (_, value: unknown) => {
+    if (value && typeof value === 'object' && !Array.isArray(value)) {
+      const record = value as Record<string, unknown>;
+      return Object.keys(record)
+        .sort()
+        .reduce<Record<string, unknown>>((sorted, field) => {
+          if (record[field] !== undefined) sorted[field] = record[field];
+          return sorted;
+        }, {});
+    }
+    return value;
+  });
+}
+
+function startsWith(key: QueryKey, prefix: QueryKey): boolean {
+  return prefix.length <= key.length && prefix.every((part, i) => hashKey([part]) === hashKey([key[i]]));
+}
+
+class QueryCache {
+  private entries = new Map<string, Entry>();
+  private pendingRefetch = new Set<string>();
+  private refetchTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor() {
+    if (typeof window !== 'undefined') {
+      window.addEventListener('focus', () => this.revalidateActive());
+      window.addEventListener('online', () => this.revalidateActive());
+    }
+  }
+
+  // Returns the hash for a key, creating an empty entry on first use
+  register(key: QueryKey): string {
+    const hash = hashKey(key);
+    if (!this.entries.has(hash)) {
+      this.entries.set(hash, {
+        key,
+        state: EMPTY_STATE,
+        staleTime: DEFAULT_STALE_TIME,
+        listeners: new Set(),
+        gcTimer: setTimeout(() => this.entries.delete(hash), GC_TIME),
+      });
+    }
+    return hash;
+  }
+
+  getState<T>(hash: string): QueryState<T> {
+    return (this.entries.get(hash)?.state ?? EMPTY_STATE) as QueryState<T>;
+  }
+
+  getData<T>(key: QueryKey): T | undefined {
+    return this.getState<T>(hashKey(key)).data;
+  }
+
+  subscribe(hash: string, listener: () => void): () => void {
+    const entry = this.entries.get(hash);
+    if (!entry) return () => {};
+
+    if (entry.gcTimer) {
+      clearTimeout(entry.gcTimer);
+      entry.gcTimer = undefined;
+    }
+    entry.listeners.add(listener);
+
+    return () => {
+      entry.listeners.delete(listener);
+      if (entry.listeners.size === 0) {
+        entry.gcTimer = setTimeout(() => this.entries.delete(hash), GC_TIME);
+      }
+    };
+  }
+
+  // Remembers how to (re)load an entry so invalidation can refetch it
+  setFetcher(hash: string, fetcher: () => Promise<unknown>, staleTime = DEFAULT_STALE_TIME): void {
+    const entry = this.entries.get(hash);
+    if (entry) {
+      entry.fetcher = fetcher;
+      entry.staleTime = staleTime;
+    }
+  }
+
+  isStale(hash: string): boolean {
+    const entry = this.entries.get(hash);
+    return !entry || Date.now() - entry.state.updatedAt > entry.staleTime;
+  }
+
+  // Runs the entry's fetcher, joining a request that is already in flight
+  fetch<T>(hash: string): Promise<T> {
+    const entry = this.entries.get(hash);
+    if (!entry?.fetcher) {
+      return Promise.reject(new Error(`No fetcher registered for query ${hash}`));
+    }
+    if (entry.promise) {
+      return entry.promise as Promise<T>;
+    }
+
+    this.setState(entry, { ...entry.state, isFetching: true });
+
+    const promise = entry.fetcher()
+      .then(data => {
+        this.setState(entry, { data, error: undefined, updatedAt: Date.now(), isFetching: false });
+        return data as T;
+      })
+      .catch((error: unknown) => {
+        const message = error instanceof Error ? error.message : String(error);
+        // Keep the last good data; the error is shown alongside it
+        this.setState(entry, { ...entry.state, error: message, isFetching: false });
+        throw error;
+      })
+      .finally(() => {
+        entry.promise = undefined;
+      });
+
+    entry.promise = promise;
+    return promise;
+  }
+
+  setData<T>(key: QueryKey, updater: T | ((previous: T | undefined) => T)): void {
+    const entry = this.entries.get(this.register(key))!;
+    const data = typeof updater === 'function'
+      ? (updater as (previous: T | undefined) => T)(entry.state.data as T | undefined)
+      : updater;
+    this.setState(entry, { ...entry.state, data, error: undefined, updatedAt: Date.now() });
+  }
+
+  // Applies an updater to the data of every cached entry under a prefix; entries the
+  // updater returns unchanged are left alone
+  updateAll(prefix: QueryKey, updater: (data: unknown, key: QueryKey) => unknown): void {
+    this.entries.forEach(entry => {
+      if (entry.state.data === undefined || !startsWith(entry.key, prefix)) return;
+      const data = updater(entry.state.data, entry.key);
+      if (data !== entry.state.data) {
+        this.setState(entry, { ...entry.state, data });
+      }
+    });
+  }
+
+  // Marks everything under a prefix stale and refetches the entries that are on screen
+  invalidate(prefix: QueryKey): void {
+    this.entries.forEach((entry, hash) => {
+      if (!startsWith(entry.key, prefix)) return;
+      this.setState(entry, { ...entry.state, updatedAt: 0 });
+      if (entry.listeners.size > 0 && entry.fetcher) {
+        this.pendingRefetch.add(hash);
+      }
+    });
+    this.scheduleRefetch();
+  }
+
+  clear(): void {
+    this.entries.forEach(entry => {
+      if (entry.gcTimer) clearTimeout(entry.gcTimer);
+    });
+    this.entries.clear();
+    this.pendingRefetch.clear();
+  }
+
+  private revalidateActive(): void {
+    this.entries.forEach((entry, hash) => {
+      if (entry.listeners.size > 0 && entry.fetcher && this.isStale(hash)) {
+        this.pendingRefetch.add(hash);
+      }
+    });
+    this.scheduleRefetch();
+  }
+
+  private scheduleRefetch(): void {
+    if (this.refetchTimer || this.pendingRefetch.size === 0) return;
+
+    this.refetchTimer = setTimeout(() => {
+      this.refetchTimer = null;
+      const hashes = Array.from(this.pendingRefetch);
+      this.pendingRefetch.clear();
+      hashes.forEach(hash => {
+        if (this.entries.has(hash)) {
+          this.fetch(hash).catch(() => undefined);
+        }
+      });
+    }, REFETCH_DELAY);
+  }
+
+  private setState(entry: Entry, state: QueryState<unknown>): void {
+    entry.state = state;
+    entry.listeners.forEach(listener => listener());
+  }
+}
+
+export const queryCache = new QueryCache();
+export default queryCache;
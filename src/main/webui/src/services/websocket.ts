@@ -1,121 +1,362 @@
-// Type definitions
-const TaskStatus = {
-  PENDING: 'PENDING',
-  RUNNING: 'RUNNING',
-  COMPLETED: 'COMPLETED',
-  FAILED: 'FAILED',
-  CANCELLED: 'CANCELLED'
-} as const;
-
-type TaskStatus = typeof TaskStatus[keyof typeof TaskStatus];
-
-interface TaskUpdate {
-  taskId: string;
+import { expireSession, refreshSession, tokenManager } from './api';
+import type { NotificationView, TaskLogLine, TaskPriority, TaskStatus, TaskType } from './models';
+
+// Wire format of /ws/tasks, protocol version 4. Mirrors
+// src/main/kotlin/gr/accio/websockets/WebSocketMessages.kt; keep the two in step.
+export const PROTOCOL_VERSION = 4;
+
+// Subset of Task pushed on every update; field names match the REST Task model
+export interface TaskSnapshot {
+  id: string;
+  type: TaskType;
   status: TaskStatus;
-  progress: number;
-  progressMessage?: string;
-  errorMessage?: string;
-  message?: string;
+  priority: TaskPriority;
+  progressPercentage: number;
+  progressMessage?: string | null;
+  errorMessage?: string | null;
+  retryCount: number;
+  videoId?: string | null;
+  subtitleId?: string | null;
+  createdAt: string;
   updatedAt: string;
+  startedAt?: string | null;
+  completedAt?: string | null;
+  parentId?: string | null;
+  maxRetries: number;
+  estimatedDuration?: number | null;
+}
+
+export interface ScanProgress {
+  taskId?: string | null;
+  libraryPath: string;
+  scanned: number;
+  total: number;
+  currentFile?: string | null;
+  completed: boolean;
+}
+
+// New lines of a task's process log, sent about once a second while it runs
+export interface TaskLogChunk {
+  taskId: string;
+  lines: TaskLogLine[];
+}
+
+// A notification stored for the signed-in user, pushed as it is created; it is unread by then
+export type LiveNotification = Omit<NotificationView, 'read'>;
+
+export interface SocketError {
+  code: string;
+  message: string;
+}
+
+// Narrows task-scoped messages to one task, one video or one task type.
+// Process logs are only sent when `logs` is set together with a taskId.
+export interface SubscriptionFilter {
+  taskId?: string;
+  videoId?: string;
+  taskType?: TaskType;
+  logs?: boolean;
+}
+
+export type ServerMessage =
+  | { type: 'connection'; status: string; sessionId: string; protocolVersion: number; timestamp: number }
+  | { type: 'task_update'; task: TaskSnapshot; timestamp: number }
+  | { type: 'scan_progress'; progress: ScanProgress; timestamp: number }
+  | { type: 'task_log'; log: TaskLogChunk; timestamp: number }
+  | { type: 'notification'; notification: LiveNotification; timestamp: number }
+  | { type: 'subscribed'; subscriptionId: string; filter: SubscriptionFilter; timestamp: number }
+  | { type: 'pong'; timestamp: number }
+  | { type: 'error'; code: string; message: string; timestamp: number };
+
+type ClientMessage =
+  | { type: 'ping'; timestamp: number }
+  | { type: 'subscribe'; subscriptionId: string; filter: SubscriptionFilter }
+  | { type: 'unsubscribe'; subscriptionId: string };
+
+export interface MessageHandlers {
+  onTaskUpdate?: (task: TaskSnapshot) => void;
+  onScanProgress?: (progress: ScanProgress) => void;
+  onTaskLog?: (log: TaskLogChunk) => void;
+  onNotification?: (notification: LiveNotification) => void;
+  onError?: (error: SocketError) => void;
 }
 
-type WebSocketEventHandler = (data: TaskUpdate) => void;
+export type ConnectionState = 'connecting' | 'open' | 'reconnecting' | 'closed' | 'unauthorized';
+
+interface Subscription {
+  filter: SubscriptionFilter;
+  handlers: MessageHandlers;
+}
+
+// Close code the server uses when the token is missing or invalid
+const POLICY_VIOLATION = 1008;
+
+const matchesTask = (filter: SubscriptionFilter, task: TaskSnapshot) =>
+  (!filter.taskId || filter.taskId === task.id) &&
+  (!filter.videoId || filter.videoId === task.videoId) &&
+  (!filter.taskType || filter.taskType === task.type);
+
+const matchesScan = (filter: SubscriptionFilter, progress: ScanProgress) =>
+  (!filter.taskId || filter.taskId === progress.taskId) &&
+  !filter.videoId &&
+  (!filter.taskType || filter.taskType === 'SCAN_LIBRARY');
 
 class WebSocketService {
   private ws: WebSocket | null = null;
-  private handlers: Set<WebSocketEventHandler> = new Set();
+  private subscriptions = new Map<string, Subscription>();
+  private stateListeners = new Set<() => void>();
+  private state: ConnectionState = 'closed';
+  private nextSubscriptionId = 1;
   private reconnectAttempts = 0;
-  private maxReconnectAttempts = 5;
-  private reconnectDelay = 1000;
+  // Set after renewing the token for a rejected connection, so a second rejection ends the session
+  private retriedWithRenewal = false;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+  private pongTimer: ReturnType<typeof setTimeout> | null = null;
+  private readonly baseReconnectDelay = 1000;
+  private readonly maxReconnectDelay = 30000;
+  private readonly heartbeatInterval = 25000;
+  private readonly pongTimeout = 10000;
 
   connect(): void {
-    if (this.ws?.readyState === WebSocket.OPEN) {
+    if (this.ws && (this.ws.readyState === WebSocket.OPEN || this.ws.readyState === WebSocket.CONNECTING)) {
+      return;
+    }
+    this.clearReconnectTimer();
+
+    const token = tokenManager.getToken();
+    if (!token) {
+      this.setState('unauthorized');
       return;
     }
 
     const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
-    const wsUrl = `${protocol}//${window.location.host}/ws/tasks`;
+    const wsUrl = `${protocol}//${window.location.host}/ws/tasks?token=${encodeURIComponent(token)}`;
+
+    this.setState(this.reconnectAttempts > 0 ? 'reconnecting' : 'connecting');
 
     try {
-      this.ws = new WebSocket(wsUrl);
+      const ws = new WebSocket(wsUrl);
+      this.ws = ws;
 
-      this.ws.onopen = () => {
+      ws.onopen = () => {
         console.log('WebSocket connected');
         this.reconnectAttempts = 0;
+        this.retriedWithRenewal = false;
+        this.setState('open');
+        this.subscriptions.forEach((subscription, id) => {
+          this.send({ type: 'subscribe', subscriptionId: id, filter: subscription.filter });
+        });
+        this.startHeartbeat();
       };
 
-      this.ws.onmessage = (event) => {
+      ws.onmessage = (event) => {
         try {
-          const data: TaskUpdate = JSON.parse(event.data);
-          this.handlers.forEach(handler => handler(data));
+          this.dispatch(JSON.parse(event.data) as ServerMessage);
         } catch (error) {
           console.error('Failed to parse WebSocket message:', error);
         }
       };
 
-      this.ws.onclose = (event) => {
+      ws.onclose = (event) => {
         console.log('WebSocket disconnected:', event.code, event.reason);
-        this.attemptReconnect();
+        this.stopHeartbeat();
+        this.ws = null;
+
+        if (event.code === POLICY_VIOLATION) {
+          // Retrying with the same token cannot succeed
+          this.setState('unauthorized');
+          this.renewAndReconnect(token);
+        } else if (this.subscriptions.size > 0) {
+          this.scheduleReconnect();
+        } else {
+          this.setState('closed');
+        }
       };
 
-      this.ws.onerror = (error) => {
+      ws.onerror = (error) => {
         console.error('WebSocket error:', error);
       };
     } catch (error) {
       console.error('Failed to create WebSocket connection:', error);
-      this.attemptReconnect();
+      this.scheduleReconnect();
     }
   }
 
   disconnect(): void {
+    this.clearReconnectTimer();
+    this.stopHeartbeat();
+    this.reconnectAttempts = 0;
+    this.retriedWithRenewal = false;
+
     if (this.ws) {
+      // Detach first so the close is not treated as a dropped connection
+      this.ws.onclose = null;
       this.ws.close();
       this.ws = null;
     }
-    this.handlers.clear();
+    this.setState('closed');
   }
 
-  subscribe(handler: WebSocketEventHandler): () => void {
-    this.handlers.add(handler);
-    
-    // Auto-connect when first handler is added
-    if (this.handlers.size === 1) {
+  // Registers handlers for messages matching the filter; an empty filter matches everything
+  subscribe(filter: SubscriptionFilter, handlers: MessageHandlers): () => void {
+    const id = `sub-${this.nextSubscriptionId++}`;
+    this.subscriptions.set(id, { filter, handlers });
+
+    if (this.ws?.readyState === WebSocket.OPEN) {
+      this.send({ type: 'subscribe', subscriptionId: id, filter });
+    } else {
       this.connect();
     }
 
     // Return unsubscribe function
     return () => {
-      this.handlers.delete(handler);
-      
-      // Auto-disconnect when no handlers remain
-      if (this.handlers.size === 0) {
+      this.subscriptions.delete(id);
+      this.send({ type: 'unsubscribe', subscriptionId: id });
+
+      // Auto-disconnect when no subscriptions remain
+      if (this.subscriptions.size === 0) {
         this.disconnect();
       }
     };
   }
 
-  private attemptReconnect(): void {
-    if (this.reconnectAttempts >= this.maxReconnectAttempts) {
-      console.error('Max reconnection attempts reached');
-      return;
+  // Arrow properties so they can be handed to useSyncExternalStore directly
+  onStateChange = (listener: () => void): (() => void) => {
+    this.stateListeners.add(listener);
+    return () => {
+      this.stateListeners.delete(listener);
+    };
+  };
+
+  getState = (): ConnectionState => this.state;
+
+  isConnected(): boolean {
+    return this.ws?.readyState === WebSocket.OPEN;
+  }
+
+  private dispatch(message: ServerMessage): void {
+    switch (message.type) {
+      case 'task_update':
+        this.subscriptions.forEach(({ filter, handlers }) => {
+          if (matchesTask(filter, message.task)) handlers.onTaskUpdate?.(message.task);
+        });
+        break;
+      case 'scan_progress':
+        this.subscriptions.forEach(({ filter, handlers }) => {
+          if (matchesScan(filter, message.progress)) handlers.onScanProgress?.(message.progress);
+        });
+        break;
+      case 'task_log':
+        this.subscriptions.forEach(({ filter, handlers }) => {
+          if (filter.logs && filter.taskId === message.log.taskId) handlers.onTaskLog?.(message.log);
+        });
+        break;
+      case 'notification':
+        this.subscriptions.forEach(({ handlers }) => handlers.onNotification?.(message.notification));
+        break;
+      case 'error':
+        console.error(`WebSocket server error (${message.code}): ${message.message}`);
+        this.subscriptions.forEach(({ handlers }) =>
+          handlers.onError?.({ code: message.code, message: message.message })
+        );
+        break;
+      case 'pong':
+        this.clearPongTimer();
+        break;
+      case 'connection':
+        if (message.protocolVersion !== PROTOCOL_VERSION) {
+          console.warn(`WebSocket protocol mismatch: server ${message.protocolVersion}, client ${PROTOCOL_VERSION}`);
+        }
+        break;
+      case 'subscribed':
+        break;
+    }
+  }
+
+  private send(message: ClientMessage): void {
+    if (this.ws?.readyState === WebSocket.OPEN) {
+      this.ws.send(JSON.stringify(message));
+    }
+  }
+
+  private startHeartbeat(): void {
+    this.stopHeartbeat();
+    this.heartbeatTimer = setInterval(() => {
+      this.send({ type: 'ping', timestamp: Date.now() });
+
+      // A missing pong means the connection is dead even if the socket has not noticed yet
+      if (!this.pongTimer) {
+        this.pongTimer = setTimeout(() => {
+          console.warn('WebSocket heartbeat timed out');
+          this.pongTimer = null;
+          this.ws?.close();
+        }, this.pongTimeout);
+      }
+    }, this.heartbeatInterval);
+  }
+
+  private stopHeartbeat(): void {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
     }
+    this.clearPongTimer();
+  }
 
+  private clearPongTimer(): void {
+    if (this.pongTimer) {
+      clearTimeout(this.pongTimer);
+      this.pongTimer = null;
+    }
+  }
+
+  // The token usually just ran out while the socket was away; a renewed one gets one more try
+  private async renewAndReconnect(rejectedToken: string): Promise<void> {
+    const outcome = this.retriedWithRenewal ? 'rejected' : await refreshSession(rejectedToken);
+    if (outcome === 'renewed') {
+      this.retriedWithRenewal = true;
+      this.connect();
+    } else if (outcome === 'rejected') {
+      this.retriedWithRenewal = false;
+      expireSession();
+    } else if (this.subscriptions.size > 0) {
+      this.scheduleReconnect();
+    }
+  }
+
+  private scheduleReconnect(): void {
+    this.clearReconnectTimer();
+
+    // Exponential backoff with jitter, capped, retried for as long as anyone is subscribed
+    const ceiling = Math.min(this.maxReconnectDelay, this.baseReconnectDelay * 2 ** this.reconnectAttempts);
+    const delay = Math.round(ceiling / 2 + Math.random() * (ceiling / 2));
     this.reconnectAttempts++;
-    const delay = this.reconnectDelay * Math.pow(2, this.reconnectAttempts - 1);
+    this.setState('reconnecting');
 
     console.log(`Attempting to reconnect in ${delay}ms (attempt ${this.reconnectAttempts})`);
 
-    setTimeout(() => {
-      if (this.handlers.size > 0) {
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      if (this.subscriptions.size > 0) {
         this.connect();
       }
     }, delay);
   }
 
-  isConnected(): boolean {
-    return this.ws?.readyState === WebSocket.OPEN;
+  private clearReconnectTimer(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+  }
+
+  private setState(state: ConnectionState): void {
+    if (this.state === state) return;
+    this.state = state;
+    this.stateListeners.forEach(listener => listener());
   }
 }
 
 export const webSocketService = new WebSocketService();
-export default webSocketService;
\ No newline at end of file
+export default webSocketService;
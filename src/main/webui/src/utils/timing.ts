@@ -0,0 +1,80 @@
+// Manual re-timing. Mirrors SubtitleTimingService on the backend so the preview
+// shows exactly what saving will write.
+import type { SubtitleCue, TimingRequest } from '../services/api';
+import { formatTimestamp } from './format';
+
+// Every cue time t becomes scale * t + offsetMs
+export interface LinearTransform {
+  scale: number;
+  offsetMs: number;
+}
+
+// Cue times are stored as a time of day
+const MAX_TIME_MS = 24 * 60 * 60 * 1000;
+const MIN_SCALE = 0.5;
+const MAX_SCALE = 2;
+
+const FRAME_RATES = [23.976, 24, 25, 29.97, 30];
+
+// The transform a request describes, or the reason it cannot be applied to these cues
+export function timingTransform(request: TimingRequest, cues: SubtitleCue[]): LinearTransform | string {
+  if (request.mode === 'OFFSET') {
+    return { scale: 1, offsetMs: request.offsetMs ?? 0 };
+  }
+
+  const anchors = [...(request.anchors ?? [])].sort((a, b) => a.cueIndex - b.cueIndex);
+  if (anchors.length !== 2) return 'A stretch needs exactly two anchor cues';
+  const [first, second] = anchors;
+  if (first.cueIndex === second.cueIndex) return 'The anchors must be two different cues';
+  if (!cues[first.cueIndex] || !cues[second.cueIndex]) return 'Anchor cue does not exist';
+
+  const firstOriginal = cues[first.cueIndex].startMs;
+  const originalSpan = cues[second.cueIndex].startMs - firstOriginal;
+  const targetSpan = second.targetMs - first.targetMs;
+  if (originalSpan <= 0) return 'The anchor cues start at the same time';
+  if (targetSpan <= 0) return 'The later anchor must be moved to a later time than the earlier one';
+
+  const scale = targetSpan / originalSpan;
+  if (scale < MIN_SCALE || scale > MAX_SCALE) {
+    return `The anchors stretch the subtitle by ${scale.toFixed(3)}x; check the anchor times`;
+  }
+  return { scale, offsetMs: Math.round(first.targetMs - scale * firstOriginal) };
+}
+
+// Cues moved entirely before the start are dropped and cues straddling it are cut at 00:00:00
+export function retimeCues(cues: SubtitleCue[], { scale, offsetMs }: LinearTransform): SubtitleCue[] | string {
+  const map = (ms: number) => Math.round(scale * ms + offsetMs);
+  const retimed: SubtitleCue[] = [];
+  for (const cue of cues) {
+    const end = map(cue.endMs);
+    if (end <= 0) continue;
+    if (end >= MAX_TIME_MS) return 'The new timing moves cues past 23:59:59';
+    retimed.push({ ...cue, startMs: Math.max(0, map(cue.startMs)), endMs: end });
+  }
+  return retimed.length > 0 ? retimed : 'The new timing moves every cue before 00:00:00';
+}
+
+// Names the framerate conversion a stretch matches, e.g. "23.976 → 25 fps", when it is close to one
+export function frameRateHint(scale: number): string | null {
+  for (const from of FRAME_RATES) {
+    for (const to of FRAME_RATES) {
+      if (from !== to && Math.abs(scale - from / to) < 0.0005) {
+        return `${from} → ${to} fps`;
+      }
+    }
+  }
+  return null;
+}
+
+// A WebVTT document for a <track>, shifted back by offsetMs like the backend's VTT endpoint
+export function toWebVtt(cues: SubtitleCue[], offsetMs = 0): string {
+  const body = cues
+    .filter(cue => cue.endMs > offsetMs)
+    .map(cue => {
+      const start = formatTimestamp(Math.max(0, cue.startMs - offsetMs)).replace(',', '.');
+      const end = formatTimestamp(cue.endMs - offsetMs).replace(',', '.');
+      return `${start} --> ${end}\n${cue.text}`;
+    })
+    .join('\n\n');
+  return `WEBVTT\n\n${body}\n`;
+}
@@ -0,0 +1,90 @@
+package gr.accio.auth
+
+import io.quarkus.test.junit.QuarkusTest
+import io.quarkus.test.security.SecurityAttribute
+import io.quarkus.test.security.TestSecurity
+import io.restassured.RestAssured.given
+import io.restassured.http.ContentType
+import org.hamcrest.CoreMatchers.`is`
+import org.junit.jupiter.api.Test
+import java.util.UUID
+
+@QuarkusTest
+class ApiTokenScopeFilterTest {
+
+    @Test
+    @TestSecurity(
+        user = "reader",
+        roles = ["viewer"],
+        attributes = [
+            SecurityAttribute(key = ApiTokenIdentityProvider.TOKEN_ID_ATTRIBUTE, value = TOKEN_ID),
+            SecurityAttribute(key = ApiTokenIdentityProvider.TOKEN_SCOPE_ATTRIBUTE, value = "READ_ONLY")
+        ]
+    )
+    fun testReadOnlyTokenCanRead() {
+        given()
+            .`when`().get("/api/notifications")
+            .then()
+            .statusCode(200)
+    }
+
+    @Test
+    @TestSecurity(
+        user = "reader",
+        roles = ["viewer"],
+        attributes = [
+            SecurityAttribute(key = ApiTokenIdentityProvider.TOKEN_ID_ATTRIBUTE, value = TOKEN_ID),
+            SecurityAttribute(key = ApiTokenIdentityProvider.TOKEN_SCOPE_ATTRIBUTE, value = "READ_ONLY")
+        ]
+    )
+    fun testReadOnlyTokenCannotWriteThroughViewerEndpoints() {
+        given()
+            .`when`().post("/api/notifications/read-all")
+            .then()
+            .statusCode(403)
+            .body("error", `is`(READ_ONLY_ERROR))
+
+        given()
+            .`when`().delete("/api/notifications/${UUID.randomUUID()}")
+            .then()
+            .statusCode(403)
+            .body("error", `is`(READ_ONLY_ERROR))
+
+        given()
+            .contentType(ContentType.JSON)
+            .body("""{"currentPassword": "old-password", "newPassword": "new-password"}""")
+            .`when`().post("/api/auth/change-password")
+            .then()
+            .statusCode(403)
+            .body("error", `is`(READ_ONLY_ERROR))
+    }
+
+    @Test
+    @TestSecurity(
+        user = "operator",
+        roles = ["viewer", "user"],
+        attributes = [
+            SecurityAttribute(key = ApiTokenIdentityProvider.TOKEN_ID_ATTRIBUTE, value = TOKEN_ID),
+            SecurityAttribute(key = ApiTokenIdentityProvider.TOKEN_SCOPE_ATTRIBUTE, value = "TASKS")
+        ]
+    )
+    fun testTokenCannotMintOrRevokeTokens() {
+        given()
+            .contentType(ContentType.JSON)
+            .body("""{"name": "minted", "scope": "TASKS"}""")
+            .`when`().post("/api/tokens")
+            .then()
+            .statusCode(403)
+            .body("error", `is`("API tokens are managed from a signed-in session"))
+
+        given()
+            .`when`().delete("/api/tokens/$TOKEN_ID")
+            .then()
+            .statusCode(403)
+    }
+
+    companion object {
+        private const val TOKEN_ID = "6f1c2a4e-0d3b-4c5a-9e8f-7a6b5c4d3e2f"
+        private const val READ_ONLY_ERROR = "Read-only API tokens cannot change anything"
+    }
+}
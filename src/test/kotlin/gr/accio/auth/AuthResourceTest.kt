@@ -0,0 +1,95 @@
+package gr.accio.auth
+
+import io.quarkus.test.junit.QuarkusTest
+import io.quarkus.test.security.TestSecurity
+import io.restassured.RestAssured.given
+import io.restassured.http.ContentType
+import org.hamcrest.CoreMatchers.`is`
+import org.hamcrest.CoreMatchers.not
+import org.hamcrest.CoreMatchers.notNullValue
+import org.hamcrest.CoreMatchers.nullValue
+import org.junit.jupiter.api.Test
+import java.util.UUID
+
+@QuarkusTest
+class AuthResourceTest {
+
+    @Test
+    @TestSecurity(user = "admin", roles = ["viewer", "user", "admin"])
+    fun testRefreshTokenIsRotatedOnUse() {
+        val username = createUser()
+        val first = login(username)
+
+        val second = refresh(first)
+            .statusCode(200)
+            .body("success", `is`(true))
+            .body("token", notNullValue())
+            .body("refreshToken", not(first))
+            .extract().path<String>("refreshToken")
+
+        // The used token was deleted, so a copy of it is worthless
+        refresh(first)
+            .statusCode(401)
+            .body("success", `is`(false))
+
+        refresh(second)
+            .statusCode(200)
+            .body("success", `is`(true))
+    }
+
+    @Test
+    @TestSecurity(user = "admin", roles = ["viewer", "user", "admin"])
+    fun testLogoutRevokesRefreshToken() {
+        val refreshToken = login(createUser())
+
+        given()
+            .contentType(ContentType.JSON)
+            .body("""{"refreshToken": "$refreshToken"}""")
+            .`when`().post("/api/auth/logout")
+            .then()
+            .statusCode(200)
+
+        refresh(refreshToken)
+            .statusCode(401)
+    }
+
+    @Test
+    fun testUnknownRefreshTokenIsRejected() {
+        refresh(UUID.randomUUID().toString())
+            .statusCode(401)
+            .body("token", nullValue())
+    }
+
+    // A fresh account per test, so the sessions of one test never touch another's
+    private fun createUser(): String {
+        val username = "rotation-${UUID.randomUUID().toString().take(8)}"
+        given()
+            .contentType(ContentType.JSON)
+            .body("""{"username": "$username", "password": "$PASSWORD"}""")
+            .`when`().post("/api/users")
+            .then()
+            .statusCode(201)
+        return username
+    }
+
+    private fun login(username: String): String =
+        given()
+            .contentType(ContentType.JSON)
+            .body("""{"username": "$username", "password": "$PASSWORD"}""")
+            .`when`().post("/api/auth/login")
+            .then()
+            .statusCode(200)
+            .body("refreshToken", notNullValue())
+            .extract().path("refreshToken")
+
+    private fun refresh(refreshToken: String) =
+        given()
+            .contentType(ContentType.JSON)
+            .body("""{"refreshToken": "$refreshToken"}""")
+            .`when`().post("/api/auth/refresh")
+            .then()
+
+    companion object {
+        private const val PASSWORD = "correct-horse-battery"
+    }
+}
@@ -0,0 +1,64 @@
+package gr.accio.resources
+
+import io.quarkus.test.junit.QuarkusTest
+import io.quarkus.test.security.TestSecurity
+import io.restassured.RestAssured.given
+import io.restassured.http.ContentType
+import org.junit.jupiter.api.Test
+
+@QuarkusTest
+class RoleAccessTest {
+
+    @Test
+    fun testAnonymousRequestIsUnauthorized() {
+        given()
+            .`when`().get("/api/tasks")
+            .then()
+            .statusCode(401)
+    }
+
+    @Test
+    @TestSecurity(user = "watcher", roles = ["viewer"])
+    fun testViewerCannotChangeSettings() {
+        given()
+            .contentType(ContentType.JSON)
+            .body("{}")
+            .`when`().put("/api/settings")
+            .then()
+            .statusCode(403)
+    }
+
+    @Test
+    @TestSecurity(user = "watcher", roles = ["viewer"])
+    fun testViewerCannotQueueTasks() {
+        given()
+            .contentType(ContentType.JSON)
+            .body("""{"libraryPaths": ["/nonexistent/role-access-test"]}""")
+            .`when`().post("/api/tasks/scan")
+            .then()
+            .statusCode(403)
+    }
+
+    @Test
+    @TestSecurity(user = "tester", roles = ["viewer", "user"])
+    fun testUserCannotManageUsersOrSchedules() {
+        given()
+            .`when`().get("/api/users")
+            .then()
+            .statusCode(403)
+
+        given()
+            .`when`().get("/api/schedules")
+            .then()
+            .statusCode(403)
+    }
+
+    @Test
+    @TestSecurity(user = "admin", roles = ["viewer", "user", "admin"])
+    fun testAdminCanListSchedules() {
+        given()
+            .`when`().get("/api/schedules")
+            .then()
+            .statusCode(200)
+    }
+}
@@ -0,0 +1,73 @@
+package gr.accio.resources
+
+import io.quarkus.test.junit.QuarkusTest
+import io.quarkus.test.security.TestSecurity
+import io.restassured.RestAssured.given
+import io.restassured.http.ContentType
+import org.hamcrest.CoreMatchers.`is`
+import org.junit.jupiter.api.Test
+import java.time.Duration
+import java.time.Instant
+import java.util.UUID
+
+@QuarkusTest
+class TaskResourceTest {
+
+    @Test
+    @TestSecurity(user = "tester", roles = ["viewer", "user"])
+    fun testPauseAndResumeScheduledTask() {
+        val taskId = createDeferredScan()
+
+        try {
+            postAction(taskId, "pause")
+                .statusCode(200)
+                .body("status", `is`("PAUSED"))
+
+            // Only queued or running tasks can be paused
+            postAction(taskId, "pause")
+                .statusCode(400)
+
+            // Its run time is still ahead, so it goes back to waiting for it
+            postAction(taskId, "resume")
+                .statusCode(200)
+                .body("status", `is`("SCHEDULED"))
+
+            postAction(taskId, "resume")
+                .statusCode(400)
+        } finally {
+            postAction(taskId, "cancel")
+        }
+    }
+
+    @Test
+    @TestSecurity(user = "tester", roles = ["viewer", "user"])
+    fun testPauseUnknownTask() {
+        postAction(UUID.randomUUID().toString(), "pause")
+            .statusCode(404)
+    }
+
+    @Test
+    @TestSecurity(user = "tester", roles = ["viewer"])
+    fun testViewerCannotPause() {
+        postAction(UUID.randomUUID().toString(), "pause")
+            .statusCode(403)
+    }
+
+    // Due tomorrow, so it waits as SCHEDULED and never runs during the test
+    private fun createDeferredScan(): String {
+        val runAt = Instant.now().plus(Duration.ofDays(1))
+        return given()
+            .contentType(ContentType.JSON)
+            .body("""{"libraryPaths": ["/nonexistent/task-resource-test"], "runAt": "$runAt"}""")
+            .`when`().post("/api/tasks/scan")
+            .then()
+            .statusCode(201)
+            .body("status", `is`("SCHEDULED"))
+            .extract().path("id")
+    }
+
+    private fun postAction(taskId: String, action: String) =
+        given()
+            .`when`().post("/api/tasks/$taskId/$action")
+            .then()
+}
@@ -0,0 +1,93 @@
+package gr.accio.services
+
+import gr.accio.models.Subtitle
+import gr.accio.models.SubtitleType
+import gr.accio.models.SyncStatus
+import gr.accio.models.TaskType
+import io.quarkus.test.junit.QuarkusTest
+import jakarta.inject.Inject
+import org.junit.jupiter.api.Assertions.assertEquals
+import org.junit.jupiter.api.Assertions.assertNotNull
+import org.junit.jupiter.api.Assertions.assertNull
+import org.junit.jupiter.api.Test
+
+@QuarkusTest
+class PipelineServiceTest {
+
+    @Inject
+    lateinit var pipelineService: PipelineService
+
+    @Test
+    fun testStepWithoutDependenciesStarts() {
+        assertNull(pipelineService.heldBy(emptyList()))
+    }
+
+    @Test
+    fun testStepStartsOnceDependenciesSucceededOrWereSkipped() {
+        assertNull(pipelineService.heldBy(listOf(PipelineStepStatus.COMPLETED, PipelineStepStatus.SKIPPED)))
+    }
+
+    @Test
+    fun testStepWaitsForOpenDependencies() {
+        assertEquals(
+            PipelineStepStatus.WAITING,
+            pipelineService.heldBy(listOf(PipelineStepStatus.COMPLETED, PipelineStepStatus.RUNNING))
+        )
+        assertEquals(PipelineStepStatus.WAITING, pipelineService.heldBy(listOf(PipelineStepStatus.PAUSED)))
+    }
+
+    @Test
+    fun testStepIsBlockedByUnsuccessfulDependency() {
+        // Blocked right away, without waiting for the other dependency to finish
+        assertEquals(
+            PipelineStepStatus.BLOCKED,
+            pipelineService.heldBy(listOf(PipelineStepStatus.FAILED, PipelineStepStatus.RUNNING))
+        )
+        assertEquals(PipelineStepStatus.BLOCKED, pipelineService.heldBy(listOf(PipelineStepStatus.CANCELLED)))
+        // Blocking carries down the chain
+        assertEquals(PipelineStepStatus.BLOCKED, pipelineService.heldBy(listOf(PipelineStepStatus.BLOCKED)))
+    }
+
+    @Test
+    fun testTranslationSkippedWhenTargetExists() {
+        val step = PipelineStep(key = "translate", type = TaskType.TRANSLATE_SUBTITLES, targetLanguage = "el")
+
+        assertNull(pipelineService.existingOutput(step, listOf(subtitle("en", SubtitleType.EXTERNAL))))
+        assertNotNull(
+            pipelineService.existingOutput(step, listOf(subtitle("en", SubtitleType.EXTERNAL), subtitle("el", SubtitleType.GENERATED)))
+        )
+    }
+
+    @Test
+    fun testEmbeddedTrackWithoutFileIsNotAnOutput() {
+        val step = PipelineStep(key = "extract", type = TaskType.EXTRACT_SUBTITLES)
+
+        assertNull(pipelineService.existingOutput(step, listOf(subtitle("en", SubtitleType.EMBEDDED, filePath = null))))
+        assertNotNull(pipelineService.existingOutput(step, listOf(subtitle("en", SubtitleType.EMBEDDED))))
+    }
+
+    @Test
+    fun testSyncSkippedOnlyWhenEverySubtitleIsSynced() {
+        val step = PipelineStep(key = "sync", type = TaskType.SYNC_SUBTITLES)
+        val synced = subtitle("en", SubtitleType.EXTERNAL, syncStatus = SyncStatus.SYNCED)
+        val manual = subtitle("el", SubtitleType.GENERATED, syncStatus = SyncStatus.MANUAL_SYNC)
+        val unsynced = subtitle("fr", SubtitleType.EXTERNAL)
+
+        assertNotNull(pipelineService.existingOutput(step, listOf(synced, manual)))
+        assertNull(pipelineService.existingOutput(step, listOf(synced, manual, unsynced)))
+        assertNull(pipelineService.existingOutput(step, emptyList()))
+        assertNotNull(pipelineService.existingOutput(step.copy(language = "en"), listOf(synced, unsynced)))
+    }
+
+    private fun subtitle(
+        language: String,
+        type: SubtitleType,
+        filePath: String? = "/library/movie.$language.srt",
+        syncStatus: SyncStatus = SyncStatus.NOT_SYNCED
+    ) = Subtitle().apply {
+        this.language = language
+        this.type = type
+        this.filePath = filePath
+        this.syncStatus = syncStatus
+    }
+}
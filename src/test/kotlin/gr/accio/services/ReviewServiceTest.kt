@@ -0,0 +1,85 @@
+package gr.accio.services
+
+import gr.accio.models.CueDecision
+import gr.accio.models.CueReview
+import gr.accio.models.ReviewStatus
+import gr.accio.models.TranslationReview
+import io.quarkus.test.junit.QuarkusTest
+import jakarta.inject.Inject
+import org.junit.jupiter.api.Assertions.assertEquals
+import org.junit.jupiter.api.Assertions.assertNotNull
+import org.junit.jupiter.api.Assertions.assertNull
+import org.junit.jupiter.api.Test
+
+@QuarkusTest
+class ReviewServiceTest {
+
+    @Inject
+    lateinit var reviewService: ReviewService
+
+    @Test
+    fun testNoDecisionsNeedsReview() {
+        val review = TranslationReview()
+
+        reviewService.updateStatus(review, 3, emptyList(), "reviewer")
+
+        assertEquals(ReviewStatus.NEEDS_REVIEW, review.status)
+        assertNull(review.approvedAt)
+    }
+
+    @Test
+    fun testUndecidedCuesKeepReviewOpen() {
+        val review = TranslationReview()
+
+        reviewService.updateStatus(review, 3, decisions(review, CueDecision.ACCEPTED, CueDecision.EDITED), "reviewer")
+
+        assertEquals(ReviewStatus.IN_REVIEW, review.status)
+        assertNull(review.approvedAt)
+    }
+
+    @Test
+    fun testFlaggedCueKeepsReviewOpen() {
+        val review = TranslationReview()
+
+        reviewService.updateStatus(
+            review, 3, decisions(review, CueDecision.ACCEPTED, CueDecision.EDITED, CueDecision.FLAGGED), "reviewer"
+        )
+
+        assertEquals(ReviewStatus.IN_REVIEW, review.status)
+        assertNull(review.approvedBy)
+    }
+
+    @Test
+    fun testApprovedOnceEveryCueIsResolved() {
+        val review = TranslationReview()
+
+        reviewService.updateStatus(
+            review, 3, decisions(review, CueDecision.ACCEPTED, CueDecision.EDITED, CueDecision.ACCEPTED), "reviewer"
+        )
+
+        assertEquals(ReviewStatus.APPROVED, review.status)
+        assertNotNull(review.approvedAt)
+        assertEquals("reviewer", review.approvedBy)
+    }
+
+    @Test
+    fun testFlaggingAfterApprovalReopensReview() {
+        val review = TranslationReview()
+        reviewService.updateStatus(review, 2, decisions(review, CueDecision.ACCEPTED, CueDecision.ACCEPTED), "reviewer")
+
+        reviewService.updateStatus(review, 2, decisions(review, CueDecision.ACCEPTED, CueDecision.FLAGGED), "other")
+
+        assertEquals(ReviewStatus.IN_REVIEW, review.status)
+        assertNull(review.approvedAt)
+        assertNull(review.approvedBy)
+    }
+
+    private fun decisions(review: TranslationReview, vararg decisions: CueDecision): List<CueReview> =
+        decisions.mapIndexed { index, decision ->
+            CueReview().apply {
+                this.review = review
+                this.cueIndex = index
+                this.decision = decision
+            }
+        }
+}
@@ -0,0 +1,98 @@
+package gr.accio.services
+
+import gr.accio.models.TimingMode
+import io.quarkus.test.junit.QuarkusTest
+import jakarta.inject.Inject
+import kotlinx.datetime.LocalTime
+import org.junit.jupiter.api.Assertions.assertEquals
+import org.junit.jupiter.api.Test
+import org.junit.jupiter.api.assertThrows
+
+@QuarkusTest
+class SubtitleTimingServiceTest {
+
+    @Inject
+    lateinit var subtitleTimingService: SubtitleTimingService
+
+    @Test
+    fun testOffsetShiftsEveryTime() {
+        val transform = subtitleTimingService.transformFor(TimingMode.OFFSET, -1500, emptyList())
+
+        assertEquals(1.0, transform.scale)
+        assertEquals(8500, transform.map(10_000))
+    }
+
+    @Test
+    fun testStretchMapsBothAnchorsOntoTheirTargets() {
+        val anchors = listOf(
+            TimingAnchor(cueIndex = 0, targetMs = 2_000, originalMs = 1_000),
+            TimingAnchor(cueIndex = 40, targetMs = 65_000, originalMs = 61_000)
+        )
+
+        val transform = subtitleTimingService.transformFor(TimingMode.STRETCH, 0, anchors)
+
+        assertEquals(1.05, transform.scale, 1e-9)
+        assertEquals(2_000, transform.map(1_000))
+        assertEquals(65_000, transform.map(61_000))
+        // Halfway between the anchors stays halfway between their targets
+        assertEquals(33_500, transform.map(31_000))
+    }
+
+    @Test
+    fun testStretchRejectsBadAnchors() {
+        val first = TimingAnchor(cueIndex = 0, targetMs = 1_000, originalMs = 1_000)
+
+        assertThrows<IllegalArgumentException> {
+            subtitleTimingService.transformFor(TimingMode.STRETCH, 0, listOf(first))
+        }
+        assertThrows<IllegalArgumentException> {
+            subtitleTimingService.transformFor(TimingMode.STRETCH, 0, listOf(first, first.copy(targetMs = 5_000)))
+        }
+        // The later anchor moved before the earlier one
+        assertThrows<IllegalArgumentException> {
+            subtitleTimingService.transformFor(
+                TimingMode.STRETCH, 0, listOf(first, TimingAnchor(cueIndex = 9, targetMs = 500, originalMs = 60_000))
+            )
+        }
+        // Three times as long is no framerate mix-up
+        assertThrows<IllegalArgumentException> {
+            subtitleTimingService.transformFor(
+                TimingMode.STRETCH, 0, listOf(first, TimingAnchor(cueIndex = 9, targetMs = 178_000, originalMs = 60_000))
+            )
+        }
+    }
+
+    @Test
+    fun testCuesMovedBeforeTheStartAreCutOrDropped() {
+        val entries = listOf(
+            entry(1, 500, 1_500),
+            entry(2, 1_000, 3_000),
+            entry(3, 5_000, 6_000)
+        )
+        val transform = subtitleTimingService.transformFor(TimingMode.OFFSET, -2_000, emptyList())
+
+        val retimed = subtitleTimingService.retimeEntries(entries, transform)
+
+        assertEquals(
+            listOf(Triple(1, 0, 1_000), Triple(2, 3_000, 4_000)),
+            retimed.map { Triple(it.sequenceNumber, it.startTime.toMillisecondOfDay(), it.endTime.toMillisecondOfDay()) }
+        )
+        assertEquals(listOf("Cue 2", "Cue 3"), retimed.map { it.text })
+    }
+
+    @Test
+    fun testCuesMovedPastTheEndOfTheDayAreRejected() {
+        val transform = subtitleTimingService.transformFor(TimingMode.OFFSET, 60_000, emptyList())
+
+        assertThrows<IllegalArgumentException> {
+            subtitleTimingService.retimeEntries(listOf(entry(1, 86_300_000, 86_390_000)), transform)
+        }
+    }
+
+    private fun entry(sequenceNumber: Int, startMs: Int, endMs: Int) = SubtitleEntry(
+        sequenceNumber = sequenceNumber,
+        startTime = LocalTime.fromMillisecondOfDay(startMs),
+        endTime = LocalTime.fromMillisecondOfDay(endMs),
+        text = "Cue $sequenceNumber"
+    )
+}